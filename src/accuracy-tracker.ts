@@ -0,0 +1,359 @@
+/**
+ * 交易计划准确率跟踪模块
+ * 后台定时用币安K线回放已保存的交易计划，判断评估期内先触及止盈还是止损，
+ * 计算命中率和R倍数，并按提示词版本、交易对汇总，用于客观比较提示词版本
+ */
+
+import { logger } from './logger.js';
+import { databaseManager } from './config/database-manager.js';
+import { binanceProvider } from './binance.js';
+import { tradeSetupStore } from './trade-setup.js';
+import { TradingAnalysisError } from './types.js';
+import type {
+  AccuracyReport,
+  AccuracyStats,
+  KlineData,
+  PromptAccuracyStats,
+  StoredTradeSetup,
+  SymbolAccuracyStats,
+  TimeframeType,
+  TradeOutcome,
+  TradingPairType
+} from './types.js';
+
+// 评估检查间隔
+const EVALUATION_INTERVAL_MS = 15 * 60 * 1000;
+
+// 每轮最多评估的计划数量（每个计划需要请求一次K线）
+const MAX_EVALUATIONS_PER_RUN = 20;
+
+// 每次回放请求的K线数量上限（各评估期按回放周期换算后都不超过该值）
+const REPLAY_KLINE_LIMIT = 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * 按计划的主要时间框架确定评估期长度和回放使用的K线周期
+ */
+const EVALUATION_HORIZONS: Record<TimeframeType, { horizonMs: number; replayInterval: TimeframeType }> = {
+  '15m': { horizonMs: 12 * HOUR_MS, replayInterval: '15m' },
+  '1h': { horizonMs: 48 * HOUR_MS, replayInterval: '15m' },
+  '4h': { horizonMs: 7 * 24 * HOUR_MS, replayInterval: '1h' },
+  '1d': { horizonMs: 30 * 24 * HOUR_MS, replayInterval: '4h' },
+  '1w': { horizonMs: 90 * 24 * HOUR_MS, replayInterval: '1d' },
+  '1M': { horizonMs: 180 * 24 * HOUR_MS, replayInterval: '1d' }
+};
+
+/**
+ * 回放结果
+ */
+export interface ReplayResult {
+  /** 结果已确定（触及止损、全部止盈或评估期结束）；为 false 时下一轮继续评估 */
+  resolved: boolean;
+  outcome: TradeOutcome;
+  targetsHit: number;
+  rMultiple: number | null;
+}
+
+/**
+ * 汇总查询的原始结果
+ */
+interface AccuracyRow {
+  total: number;
+  pending: number | null;
+  target_hit: number | null;
+  stop_hit: number | null;
+  expired: number | null;
+  not_triggered: number | null;
+  avg_r: number | null;
+  total_r: number | null;
+}
+
+// 汇总查询中各结果的计数字段
+const AGGREGATE_COLUMNS = `
+  COUNT(*) AS total,
+  SUM(outcome = 'pending') AS pending,
+  SUM(outcome = 'target_hit') AS target_hit,
+  SUM(outcome = 'stop_hit') AS stop_hit,
+  SUM(outcome = 'expired') AS expired,
+  SUM(outcome = 'not_triggered') AS not_triggered,
+  AVG(r_multiple) AS avg_r,
+  SUM(r_multiple) AS total_r
+`;
+
+/**
+ * 将SQLite的 CURRENT_TIMESTAMP（UTC，无时区标记）转换为毫秒时间戳
+ */
+function parseSqliteTime(value: string): number {
+  return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`).getTime();
+}
+
+/**
+ * 保留两位小数
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 将汇总查询结果转换为统计对象
+ */
+function toAccuracyStats(row: AccuracyRow): AccuracyStats {
+  const targetHit = row.target_hit ?? 0;
+  const stopHit = row.stop_hit ?? 0;
+  const expired = row.expired ?? 0;
+  const triggered = targetHit + stopHit + expired;
+
+  return {
+    total: row.total,
+    pending: row.pending ?? 0,
+    triggered,
+    targetHit,
+    stopHit,
+    expired,
+    notTriggered: row.not_triggered ?? 0,
+    hitRate: triggered > 0 ? round2(targetHit / triggered * 100) : null,
+    avgRMultiple: row.avg_r !== null ? round2(row.avg_r) : null,
+    totalRMultiple: round2(row.total_r ?? 0)
+  };
+}
+
+/**
+ * 用计划生成之后的K线回放交易计划
+ * - 价格进入入场区间视为入场，按入场区间中点计算R倍数（止损距离为1R）
+ * - 同一根K线同时触及止损和止盈时按先触及止损处理
+ * - 触及止损前触及过止盈的，按触及的最远止盈计算收益
+ * - 评估期结束仍未触及止损或全部止盈的：已入场按最后收盘价计算R倍数，未入场记为 not_triggered
+ */
+export function replayTradeSetup(setup: StoredTradeSetup, klines: KlineData[], horizonEnded: boolean): ReplayResult {
+  if (setup.direction === 'neutral' || !setup.entryZone || setup.stopLoss === null) {
+    return { resolved: true, outcome: 'neutral', targetsHit: 0, rMultiple: null };
+  }
+
+  const isLong = setup.direction === 'long';
+  const { low: entryLow, high: entryHigh } = setup.entryZone;
+  const entryPrice = (entryLow + entryHigh) / 2;
+  const risk = Math.abs(entryPrice - setup.stopLoss);
+  const toRMultiple = (price: number) => round2((isLong ? price - entryPrice : entryPrice - price) / risk);
+  const targetResult = (targetsHit: number): ReplayResult => ({
+    resolved: true,
+    outcome: 'target_hit',
+    targetsHit,
+    rMultiple: toRMultiple(setup.takeProfits[targetsHit - 1]!)
+  });
+
+  let triggered = false;
+  let targetsHit = 0;
+
+  for (const kline of klines) {
+    const high = parseFloat(kline.high);
+    const low = parseFloat(kline.low);
+
+    if (!triggered) {
+      triggered = isLong ? low <= entryHigh : high >= entryLow;
+      if (!triggered) {
+        continue;
+      }
+    }
+
+    const stopHit = isLong ? low <= setup.stopLoss : high >= setup.stopLoss;
+    if (stopHit) {
+      return targetsHit > 0
+        ? targetResult(targetsHit)
+        : { resolved: true, outcome: 'stop_hit', targetsHit: 0, rMultiple: -1 };
+    }
+
+    while (
+      targetsHit < setup.takeProfits.length &&
+      (isLong ? high >= setup.takeProfits[targetsHit]! : low <= setup.takeProfits[targetsHit]!)
+    ) {
+      targetsHit++;
+    }
+    if (targetsHit === setup.takeProfits.length) {
+      return targetResult(targetsHit);
+    }
+  }
+
+  if (!horizonEnded) {
+    return { resolved: false, outcome: 'pending', targetsHit, rMultiple: null };
+  }
+  if (!triggered) {
+    return { resolved: true, outcome: 'not_triggered', targetsHit: 0, rMultiple: null };
+  }
+  if (targetsHit > 0) {
+    return targetResult(targetsHit);
+  }
+
+  const lastKline = klines[klines.length - 1];
+  return {
+    resolved: true,
+    outcome: 'expired',
+    targetsHit: 0,
+    rMultiple: lastKline ? toRMultiple(parseFloat(lastKline.close)) : 0
+  };
+}
+
+/**
+ * 准确率跟踪器类
+ */
+export class AccuracyTracker {
+  private timer: NodeJS.Timeout | null = null;
+  private evaluating = false;
+
+  /**
+   * 启动后台评估
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.evaluatePending().catch(error => {
+        logger.error('交易计划评估失败', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }, EVALUATION_INTERVAL_MS);
+
+    logger.info('交易计划准确率评估已启动', { intervalMs: EVALUATION_INTERVAL_MS });
+  }
+
+  /**
+   * 停止后台评估
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('交易计划准确率评估已停止');
+    }
+  }
+
+  /**
+   * 评估待评估的交易计划，返回本轮得出结果的数量
+   */
+  async evaluatePending(): Promise<number> {
+    if (this.evaluating) {
+      return 0;
+    }
+    this.evaluating = true;
+
+    let resolvedCount = 0;
+    try {
+      for (const setup of tradeSetupStore.listPending(MAX_EVALUATIONS_PER_RUN)) {
+        try {
+          if (await this.evaluate(setup)) {
+            resolvedCount++;
+          }
+        } catch (error) {
+          // 币安限流时本轮不再继续请求
+          if (error instanceof TradingAnalysisError && error.code === 'RATE_LIMIT') {
+            logger.warn('交易计划评估遇到币安限流，下一轮继续', { setupId: setup.id });
+            break;
+          }
+          logger.warn('交易计划评估失败', {
+            setupId: setup.id,
+            symbol: setup.symbol,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          // 更新评估时间，避免持续失败的计划一直排在队首
+          tradeSetupStore.saveOutcome(setup.id, 'pending', setup.targetsHit, null);
+        }
+      }
+    } finally {
+      this.evaluating = false;
+    }
+
+    if (resolvedCount > 0) {
+      logger.info('交易计划评估完成', { resolvedCount });
+    }
+    return resolvedCount;
+  }
+
+  /**
+   * 评估单个交易计划并写入数据库，结果确定时返回 true
+   */
+  private async evaluate(setup: StoredTradeSetup): Promise<boolean> {
+    const { horizonMs, replayInterval } = EVALUATION_HORIZONS[setup.timeframe];
+    const createdAt = parseSqliteTime(setup.createdAt);
+    const horizonEnd = createdAt + horizonMs;
+    const now = Date.now();
+
+    let klines: KlineData[];
+    try {
+      klines = await binanceProvider.getKlines(
+        setup.symbol,
+        replayInterval,
+        setup.tradingPairType,
+        REPLAY_KLINE_LIMIT,
+        createdAt
+      );
+    } catch (error) {
+      if (error instanceof TradingAnalysisError && error.code === 'INVALID_SYMBOL') {
+        tradeSetupStore.saveOutcome(setup.id, 'unavailable', 0, null);
+        return true;
+      }
+      throw error;
+    }
+
+    // 只回放评估期内已收盘的K线
+    const closedKlines = klines.filter(kline =>
+      new Date(kline.openTime).getTime() < horizonEnd && new Date(kline.closeTime).getTime() < now
+    );
+    const result = replayTradeSetup(setup, closedKlines, now >= horizonEnd);
+
+    tradeSetupStore.saveOutcome(setup.id, result.outcome, result.targetsHit, result.rMultiple);
+    if (result.resolved) {
+      logger.debug('交易计划评估结果', { setupId: setup.id, symbol: setup.symbol, ...result });
+    }
+    return result.resolved;
+  }
+
+  /**
+   * 获取准确率报表（days 为 null 时统计全部计划，观望和无法评估的计划不计入）
+   */
+  getReport(days: number | null): AccuracyReport {
+    const db = databaseManager.getDatabase();
+    const where = `WHERE ts.outcome NOT IN ('neutral', 'unavailable')${days !== null ? ` AND ts.created_at >= datetime('now', ?)` : ''}`;
+    const params = days !== null ? [`-${days} days`] : [];
+
+    const overall = db.prepare(`SELECT ${AGGREGATE_COLUMNS} FROM trade_setups ts ${where}`)
+      .get(...params) as AccuracyRow;
+
+    const promptRows = db.prepare(`
+      SELECT ts.prompt_config_id, pc.version AS prompt_version, ${AGGREGATE_COLUMNS}
+      FROM trade_setups ts
+      LEFT JOIN prompt_configs pc ON pc.id = ts.prompt_config_id
+      ${where}
+      GROUP BY ts.prompt_config_id
+      ORDER BY ts.prompt_config_id DESC
+    `).all(...params) as Array<AccuracyRow & { prompt_config_id: number | null; prompt_version: string | null }>;
+
+    const symbolRows = db.prepare(`
+      SELECT ts.symbol, ts.market_type, ${AGGREGATE_COLUMNS}
+      FROM trade_setups ts
+      ${where}
+      GROUP BY ts.symbol, ts.market_type
+      ORDER BY total DESC, ts.symbol
+    `).all(...params) as Array<AccuracyRow & { symbol: string; market_type: TradingPairType }>;
+
+    return {
+      days,
+      overall: toAccuracyStats(overall),
+      byPromptVersion: promptRows.map((row): PromptAccuracyStats => ({
+        promptConfigId: row.prompt_config_id,
+        promptVersion: row.prompt_version,
+        ...toAccuracyStats(row)
+      })),
+      bySymbol: symbolRows.map((row): SymbolAccuracyStats => ({
+        symbol: row.symbol,
+        tradingPairType: row.market_type,
+        ...toAccuracyStats(row)
+      }))
+    };
+  }
+}
+
+// 导出单例实例
+export const accuracyTracker = new AccuracyTracker();
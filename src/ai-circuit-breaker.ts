@@ -0,0 +1,212 @@
+/**
+ * AI服务商熔断器
+ * 服务商连续失败达到阈值后熔断，冷却期内故障转移链直接跳过该服务商；
+ * 冷却结束后进入半开状态，只放行一次试探请求，成功则恢复，失败则重新熔断
+ */
+
+import { config } from './config.js';
+import { configEvents } from './config-events.js';
+import { logger } from './logger.js';
+import type { AICircuitState, AIProviderHealth, AIProviderTarget } from './types.js';
+
+/**
+ * 单个服务商的熔断记录
+ */
+interface CircuitRecord {
+  state: AICircuitState;
+  consecutiveFailures: number;
+  totalCalls: number;
+  totalFailures: number;
+  lastError: string | null;
+  lastFailureAt: number | null;
+  lastSuccessAt: number | null;
+  openUntil: number;
+  /** 半开状态下是否已有试探请求在进行 */
+  trialInFlight: boolean;
+}
+
+/**
+ * 创建空的熔断记录
+ */
+function createRecord(): CircuitRecord {
+  return {
+    state: 'closed',
+    consecutiveFailures: 0,
+    totalCalls: 0,
+    totalFailures: 0,
+    lastError: null,
+    lastFailureAt: null,
+    lastSuccessAt: null,
+    openUntil: 0,
+    trialInFlight: false
+  };
+}
+
+/**
+ * 时间戳转换为ISO字符串
+ */
+function toIsoTime(timestamp: number | null): string | null {
+  return timestamp === null ? null : new Date(timestamp).toISOString();
+}
+
+/**
+ * AI服务商熔断器类
+ */
+export class AICircuitBreaker {
+  /** 按档案ID保存的熔断记录 */
+  private circuits = new Map<number, CircuitRecord>();
+
+  constructor() {
+    // 主服务商和环节服务商由基础配置决定，地址、密钥或模型变更后原来的熔断状态不再适用
+    configEvents.subscribe(
+      'AI服务商熔断器',
+      ['aiProvider', 'openaiBaseUrl', 'openaiApiKey', 'openaiModel', 'aiStageSettings'],
+      () => this.resetConfigTargets()
+    );
+  }
+
+  /**
+   * 判断服务商当前能否调用（半开状态下占用唯一的试探名额）
+   */
+  tryAcquire(profileId: number): boolean {
+    const record = this.circuits.get(profileId);
+    if (!record || record.state === 'closed') {
+      return true;
+    }
+
+    if (record.state === 'open') {
+      if (Date.now() < record.openUntil) {
+        return false;
+      }
+      record.state = 'half_open';
+      record.trialInFlight = false;
+    }
+
+    if (record.trialInFlight) {
+      return false;
+    }
+    record.trialInFlight = true;
+    return true;
+  }
+
+  /**
+   * 释放试探名额（调用方中途放弃、无法判断服务商是否正常时使用）
+   */
+  release(profileId: number): void {
+    const record = this.circuits.get(profileId);
+    if (record) {
+      record.trialInFlight = false;
+    }
+  }
+
+  /**
+   * 记录调用成功，关闭熔断
+   */
+  recordSuccess(profileId: number): void {
+    const record = this.getRecord(profileId);
+    if (record.state !== 'closed') {
+      logger.info('AI服务商已恢复', { profileId, previousState: record.state });
+    }
+
+    record.state = 'closed';
+    record.consecutiveFailures = 0;
+    record.trialInFlight = false;
+    record.totalCalls++;
+    record.lastSuccessAt = Date.now();
+  }
+
+  /**
+   * 记录调用失败
+   * @param affectsHealth 是否为服务商故障（网络错误、限流、5xx、认证失败），请求本身的错误不计入熔断
+   */
+  recordFailure(profileId: number, error: string, affectsHealth: boolean): void {
+    const record = this.getRecord(profileId);
+    record.totalCalls++;
+    record.totalFailures++;
+    record.lastError = error;
+    record.lastFailureAt = Date.now();
+    record.trialInFlight = false;
+
+    if (!affectsHealth) {
+      // 服务商能正常响应，只是请求有问题
+      record.state = 'closed';
+      record.consecutiveFailures = 0;
+      return;
+    }
+
+    record.consecutiveFailures++;
+    const threshold = config.aiCircuitFailureThreshold;
+    if (record.state === 'half_open' || (threshold > 0 && record.consecutiveFailures >= threshold)) {
+      record.state = 'open';
+      record.openUntil = Date.now() + config.aiCircuitCooldownSeconds * 1000;
+      logger.warn('AI服务商已熔断', {
+        profileId,
+        consecutiveFailures: record.consecutiveFailures,
+        cooldownSeconds: config.aiCircuitCooldownSeconds,
+        error
+      });
+    }
+  }
+
+  /**
+   * 手动重置服务商的熔断状态和统计
+   */
+  reset(profileId: number): void {
+    this.circuits.delete(profileId);
+    logger.info('AI服务商熔断状态已重置', { profileId });
+  }
+
+  /**
+   * 获取服务商的健康状态
+   */
+  getHealth(targets: AIProviderTarget[]): AIProviderHealth[] {
+    const now = Date.now();
+    return targets.map(target => {
+      const record = this.circuits.get(target.id) ?? createRecord();
+      const state = record.state === 'open' && now >= record.openUntil ? 'half_open' : record.state;
+      return {
+        profileId: target.id,
+        name: target.name,
+        provider: target.provider,
+        model: target.model,
+        role: target.role,
+        enabled: target.enabled,
+        state,
+        consecutiveFailures: record.consecutiveFailures,
+        totalCalls: record.totalCalls,
+        totalFailures: record.totalFailures,
+        lastError: record.lastError,
+        lastFailureAt: toIsoTime(record.lastFailureAt),
+        lastSuccessAt: toIsoTime(record.lastSuccessAt),
+        openUntil: state === 'open' ? toIsoTime(record.openUntil) : null
+      };
+    });
+  }
+
+  /**
+   * 重置由基础配置决定的服务商（档案ID不大于0）的熔断状态
+   */
+  private resetConfigTargets(): void {
+    for (const profileId of Array.from(this.circuits.keys())) {
+      if (profileId <= 0) {
+        this.circuits.delete(profileId);
+      }
+    }
+    logger.info('基础配置中的AI服务商已变更，熔断状态已重置');
+  }
+
+  /**
+   * 获取熔断记录，不存在时创建
+   */
+  private getRecord(profileId: number): CircuitRecord {
+    let record = this.circuits.get(profileId);
+    if (!record) {
+      record = createRecord();
+      this.circuits.set(profileId, record);
+    }
+    return record;
+  }
+}
+
+// 导出单例实例
+export const aiCircuitBreaker = new AICircuitBreaker();
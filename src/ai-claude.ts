@@ -0,0 +1,301 @@
+/**
+ * Claude接口调用
+ * Anthropic Messages API 的普通调用和流式调用（SSE），包括扩展思考和通过工具调用实现的结构化输出
+ */
+
+import { logger } from './logger.js';
+import { TradingAnalysisError } from './types.js';
+import { buildApiUrl, createHttpError } from './ai-http.js';
+import type { AIMessage, AIResponse, AIStreamChunk, AITokenUsage } from './ai-client.js';
+import type { AIProviderTarget } from './types.js';
+
+// Claude API版本号（Anthropic要求通过请求头指定）
+const CLAUDE_API_VERSION = '2023-06-01';
+
+// Claude思考模式的最小预算token数（Anthropic限制）
+const CLAUDE_MIN_THINKING_BUDGET = 1024;
+
+// Claude流式响应中 error 事件的错误类型对应的HTTP状态码（与非流式响应一致，用于判断是否重试和熔断）
+const CLAUDE_STREAM_ERROR_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529
+};
+
+/**
+ * 转换Claude用量（output_tokens 已包含思考token，Anthropic 不单独返回思考token数）
+ */
+function toClaudeUsage(inputTokens: number, outputTokens: number): AITokenUsage {
+  return {
+    prompt_tokens: inputTokens,
+    completion_tokens: outputTokens,
+    total_tokens: inputTokens + outputTokens
+  };
+}
+
+/**
+ * 判断Claude模型是否支持扩展思考（Claude 3.7及以后的模型）
+ */
+function supportsClaudeThinking(model: string): boolean {
+  return !/claude-(instant|2|3-haiku|3-sonnet|3-opus|3-5)/.test(model);
+}
+
+/**
+ * 构建Claude Messages API请求体
+ * 系统提示词需要从消息列表中分离，连续的同角色消息需要合并
+ */
+function buildClaudeRequestBody(target: AIProviderTarget, messages: AIMessage[], options: any, stream: boolean): any {
+  const systemPrompt = messages
+    .filter(msg => msg.role === 'system')
+    .map(msg => msg.content)
+    .join('\n\n');
+
+  const conversationMessages: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+  for (const msg of messages) {
+    if (msg.role === 'system') continue;
+
+    const last = conversationMessages[conversationMessages.length - 1];
+    if (last && last.role === msg.role) {
+      last.content += `\n\n${msg.content}`;
+    } else {
+      conversationMessages.push({ role: msg.role, content: msg.content });
+    }
+  }
+
+  const maxTokens = options.maxTokens || 8000;
+  const requestBody: any = {
+    model: target.model,
+    messages: conversationMessages,
+    max_tokens: maxTokens,
+    temperature: options.temperature ?? 0.3,
+    stream
+  };
+
+  if (systemPrompt) {
+    requestBody.system = systemPrompt;
+  }
+
+  // 结构化输出：强制调用同名工具，工具参数即为输出（强制调用工具时不支持思考模式）
+  if (options.responseSchema) {
+    requestBody.tools = [{
+      name: options.responseSchema.name,
+      description: options.responseSchema.description,
+      input_schema: options.responseSchema.schema
+    }];
+    requestBody.tool_choice = { type: 'tool', name: options.responseSchema.name };
+    return requestBody;
+  }
+
+  // 添加思考配置：budget_tokens 必须不小于1024且小于 max_tokens
+  if (options.enableThinking && supportsClaudeThinking(target.model)) {
+    const budget = options.thinkingBudget > 0
+      ? options.thinkingBudget
+      : Math.floor(maxTokens / 2); // -1 表示动态思考，取输出上限的一半
+
+    if (budget >= CLAUDE_MIN_THINKING_BUDGET && budget < maxTokens) {
+      requestBody.thinking = {
+        type: 'enabled',
+        budget_tokens: budget
+      };
+      // 启用思考时Anthropic只允许temperature为1
+      requestBody.temperature = 1;
+    } else {
+      logger.debug('Claude思考预算不满足要求，已跳过思考模式', {
+        budget,
+        maxTokens
+      });
+    }
+  }
+
+  return requestBody;
+}
+
+/**
+ * 构建Claude请求头
+ */
+function buildClaudeHeaders(apiKey: string): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'x-api-key': apiKey,
+    'anthropic-version': CLAUDE_API_VERSION
+  };
+}
+
+/**
+ * Claude API调用
+ */
+export async function callClaude(target: AIProviderTarget, messages: AIMessage[], options: any): Promise<AIResponse> {
+  const apiUrl = buildApiUrl(target.baseUrl, '/messages', target.provider);
+
+  const response = await fetch(apiUrl, {
+    method: 'POST',
+    signal: options.signal,
+    headers: buildClaudeHeaders(target.apiKey),
+    body: JSON.stringify(buildClaudeRequestBody(target, messages, options, false))
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logger.error('Claude API请求失败', {
+      url: apiUrl,
+      status: response.status,
+      error: errorText
+    });
+    throw createHttpError('Claude API错误', response, errorText);
+  }
+
+  // 获取响应文本
+  const responseText = await response.text();
+
+  // 记录原始响应内容以便调试
+  logger.debug('Claude API原始响应', {
+    url: apiUrl,
+    responseLength: responseText.length,
+    responsePreview: responseText.substring(0, 500) + (responseText.length > 500 ? '...' : ''),
+    responseText: responseText // 完整响应内容
+  });
+
+  let data;
+  try {
+    data = JSON.parse(responseText);
+  } catch (parseError) {
+    logger.error('Claude API响应解析失败', {
+      error: parseError instanceof Error ? parseError.message : String(parseError),
+      responseText: responseText,
+      responseLength: responseText.length,
+      contentType: response.headers.get('content-type')
+    });
+    throw new Error(`AI响应解析失败: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+  }
+
+  // 分离思考过程和实际结果
+  const blocks = data.content || [];
+  let content = '';
+  let thoughts = '';
+
+  for (const block of blocks) {
+    if (block.type === 'thinking') {
+      thoughts += block.thinking || '';
+    } else if (block.type === 'text') {
+      content += block.text || '';
+    } else if (block.type === 'tool_use') {
+      // 结构化输出的工具参数
+      content = JSON.stringify(block.input ?? {});
+    }
+  }
+
+  return {
+    content: content,
+    ...(thoughts && { thoughts }),
+    usage: toClaudeUsage(data.usage?.input_tokens || 0, data.usage?.output_tokens || 0)
+  };
+}
+
+/**
+ * Claude流式API调用
+ * 解析SSE事件，content_block_delta 中的 text_delta 作为输出内容
+ */
+export async function* callClaudeStream(target: AIProviderTarget, messages: AIMessage[], options: any): AsyncGenerator<AIStreamChunk> {
+  const apiUrl = buildApiUrl(target.baseUrl, '/messages', target.provider);
+
+  const response = await fetch(apiUrl, {
+    method: 'POST',
+    signal: options.signal,
+    headers: buildClaudeHeaders(target.apiKey),
+    body: JSON.stringify(buildClaudeRequestBody(target, messages, options, true))
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logger.error('Claude流式API请求失败', {
+      url: apiUrl,
+      status: response.status,
+      error: errorText
+    });
+    throw createHttpError('Claude流式API错误', response, errorText);
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('无法获取响应流');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let thoughtsLength = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        // 事件类型同样包含在data的type字段中，event行可以忽略
+        if (!line.startsWith('data:')) continue;
+
+        const data = line.slice(5).trim();
+        let parsed: any;
+        try {
+          parsed = JSON.parse(data);
+        } catch (e) {
+          // 记录解析错误以便调试
+          logger.debug('Claude流式响应解析错误', {
+            error: e instanceof Error ? e.message : String(e),
+            lineData: data,
+            lineLength: data.length
+          });
+          continue;
+        }
+
+        switch (parsed.type) {
+          case 'message_start':
+            inputTokens = parsed.message?.usage?.input_tokens || 0;
+            break;
+          case 'message_delta':
+            // 输出token数为累计值
+            outputTokens = parsed.usage?.output_tokens || outputTokens;
+            break;
+          case 'content_block_delta':
+            if (parsed.delta?.type === 'text_delta' && parsed.delta.text) {
+              yield { content: parsed.delta.text, finished: false };
+            } else if (parsed.delta?.type === 'thinking_delta') {
+              thoughtsLength += (parsed.delta.thinking || '').length;
+            }
+            break;
+          case 'message_stop':
+            if (thoughtsLength > 0) {
+              logger.debug('Claude流式思考过程', { thoughtsLength });
+            }
+            yield { content: '', finished: true, usage: toClaudeUsage(inputTokens, outputTokens) };
+            return;
+          case 'error': {
+            const errorType = parsed.error?.type || 'unknown';
+            throw new TradingAnalysisError(
+              `Claude流式API错误: ${errorType} - ${parsed.error?.message || ''}`,
+              'AI_API_ERROR',
+              { status: CLAUDE_STREAM_ERROR_STATUS[errorType] ?? 500 }
+            );
+          }
+          default:
+            break;
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  // 连接在 message_stop 之前断开，输出不完整（按网关错误处理，未输出内容时可以重试）
+  throw new TradingAnalysisError('Claude流式响应在 message_stop 之前中断', 'AI_API_ERROR', { status: 502 });
+}
@@ -1,10 +1,19 @@
 /**
  * 通用AI客户端模块
  * 支持多种AI提供商：OpenAI、Gemini、Claude等
+ * 按故障转移链（主服务商 + 备用服务商档案）调用，支持限流和服务端错误重试、熔断
+ * 各服务商的请求实现见 ai-openai.ts、ai-gemini.ts、ai-claude.ts
  */
 
 import { config } from './config.js';
 import { logger } from './logger.js';
+import { aiUsageTracker } from './ai-usage.js';
+import { aiCircuitBreaker } from './ai-circuit-breaker.js';
+import { aiProviderManager } from './config/ai-provider-manager.js';
+import { TradingAnalysisError } from './types.js';
+import { callOpenAI, callOpenAIStream } from './ai-openai.js';
+import { callGemini, callGeminiStream } from './ai-gemini.js';
+import { callClaude, callClaudeStream } from './ai-claude.js';
 
 // 通用AI消息类型
 export interface AIMessage {
@@ -12,435 +21,426 @@ export interface AIMessage {
   content: string;
 }
 
+// AI用量（completion_tokens 不含思考token，思考token单独记录在 thinking_tokens）
+export interface AITokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  thinking_tokens?: number;
+}
+
 // 通用AI响应类型
 export interface AIResponse {
   content: string;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage?: AITokenUsage;
   thoughts?: string;
 }
 
-// 流式响应块类型
+// 流式响应块类型（结束块附带整次调用的用量）
 export interface AIStreamChunk {
   content: string;
   finished: boolean;
+  usage?: AITokenUsage;
 }
 
-// 从 types.ts 导入 AIProvider 类型
-import type { AIProvider } from './types.js';
-
 /**
- * 获取AI提供商类型（从配置中读取）
+ * 结构化输出定义（JSON Schema，可空字段写作 type: ['number', 'null']）
+ * OpenAI 使用 response_format json_schema，Gemini 使用 responseSchema，Claude 通过强制调用同名工具实现；
+ * 设置后响应的 content 为 JSON 字符串
  */
-function getAIProvider(): AIProvider {
-  return config.aiProvider;
+export interface StructuredOutputSchema {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>;
 }
 
+// 从 types.ts 导入 AIProvider 类型
+import type {
+  AIProvider,
+  AIProviderTarget,
+  AIProviderTestResult,
+  AIUsageStage,
+  ConnectionTestResult
+} from './types.js';
+
+// 单次重试的最长等待时间
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+// 视为网络故障的底层错误码（可重试，计入熔断）
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CLOSED'
+]);
+
+// 连接测试：请求内容、最大输出token和超时时间
+const PROBE_PROMPT = 'ping';
+const PROBE_MAX_TOKENS = 32;
+const PROBE_TIMEOUT_MS = 20 * 1000;
+
 /**
- * 智能URL构建器 - 参考Cherry Studio的处理逻辑
- * @param baseUrl 基础URL
- * @param endpoint 端点路径
- * @returns 完整的API URL
+ * 获取服务商返回的HTTP状态码（网络错误、响应解析失败等没有状态码）
  */
-function buildApiUrl(baseUrl: string, endpoint: string): string {
-  let processedBaseUrl = baseUrl.trim();
-  
-  // 处理特殊标记
-  if (processedBaseUrl.endsWith('#')) {
-    // # 结尾：强制使用输入地址，不做任何修改
-    processedBaseUrl = processedBaseUrl.slice(0, -1);
-    return `${processedBaseUrl}${endpoint}`;
-  }
-  
-  if (processedBaseUrl.endsWith('/')) {
-    // / 结尾：忽略v1版本，直接拼接端点
-    processedBaseUrl = processedBaseUrl.slice(0, -1);
-    return `${processedBaseUrl}${endpoint}`;
-  }
-  
-  // 默认处理：检查是否已包含版本号
-  if (processedBaseUrl.includes('/v1') || processedBaseUrl.includes('/v1beta')) {
-    // 已包含版本号，直接拼接
-    return `${processedBaseUrl}${endpoint}`;
-  }
-  
-  // 根据AI提供商添加默认版本号
-  const provider = getAIProvider();
-  switch (provider) {
-    case 'openai':
-      return `${processedBaseUrl}/v1${endpoint}`;
-    case 'gemini':
-      return `${processedBaseUrl}/v1beta${endpoint}`;
-    default:
-      return `${processedBaseUrl}${endpoint}`;
+function getErrorStatus(error: unknown): number | null {
+  if (error instanceof TradingAnalysisError && typeof error.details?.status === 'number') {
+    return error.details.status;
   }
+  return null;
 }
 
 /**
- * OpenAI API调用
+ * 判断是否为网络层错误：连接失败、连接中断或超时
+ * （fetch 的网络错误为 TypeError，底层错误码在 cause 中；请求体构造、响应解析等本地错误不算）
  */
-async function callOpenAI(messages: AIMessage[], options: any): Promise<AIResponse> {
-  const apiUrl = buildApiUrl(config.openaiBaseUrl, '/chat/completions');
-  
-  const response = await fetch(apiUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${config.openaiApiKey}`
-    },
-    body: JSON.stringify({
-      model: config.openaiModel,
-      messages: messages,
-      temperature: options.temperature || 0.3,
-      max_tokens: options.maxTokens || 8000,
-      stream: false
-    })
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    logger.error('OpenAI API请求失败', {
-      url: apiUrl,
-      status: response.status,
-      error: errorText
-    });
-    throw new Error(`OpenAI API错误: ${response.status} ${response.statusText} - ${errorText}`);
+function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
   }
-
-  // 获取响应文本
-  const responseText = await response.text();
-  
-  // 记录原始响应内容以便调试
-  logger.debug('OpenAI API原始响应', {
-    url: apiUrl,
-    responseLength: responseText.length,
-    responsePreview: responseText.substring(0, 500) + (responseText.length > 500 ? '...' : ''),
-    responseText: responseText // 完整响应内容
-  });
-
-  let data;
-  try {
-    data = JSON.parse(responseText);
-  } catch (parseError) {
-    logger.error('OpenAI API响应解析失败', {
-      error: parseError instanceof Error ? parseError.message : String(parseError),
-      responseText: responseText,
-      responseLength: responseText.length,
-      contentType: response.headers.get('content-type')
-    });
-    throw new Error(`AI响应解析失败: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+  // AbortSignal.timeout 触发时为 TimeoutError，部分运行时会包装成 cause 为 TimeoutError 的 AbortError
+  const cause = (error as { cause?: { code?: unknown; name?: unknown } }).cause;
+  if (error.name === 'TimeoutError' || (error.name === 'AbortError' && cause?.name === 'TimeoutError')) {
+    return true;
   }
 
-  return {
-    content: data.choices[0]?.message?.content || '',
-    usage: data.usage
-  };
+  const code = cause?.code ?? (error as { code?: unknown }).code;
+  return typeof code === 'string' && NETWORK_ERROR_CODES.has(code);
 }
 
 /**
- * Gemini API调用
+ * 判断错误是否值得在同一服务商上重试：网络错误、超时、限流和服务端错误
  */
-async function callGemini(messages: AIMessage[], options: any): Promise<AIResponse> {
-  // 转换消息格式为Gemini格式
-  const contents = messages.map(msg => ({
-    role: msg.role === 'assistant' ? 'model' : msg.role,
-    parts: [{ text: msg.content }]
-  }));
-
-  // 分离系统指令
-  const systemInstruction = contents.find(c => c.role === 'system');
-  const conversationContents = contents.filter(c => c.role !== 'system');
+function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status === null) {
+    return isNetworkError(error);
+  }
+  return status === 408 || status === 429 || status >= 500;
+}
 
-  const requestBody: any = {
-    contents: conversationContents,
-    generationConfig: {
-      temperature: options.temperature || 0.3,
-      maxOutputTokens: options.maxTokens || 8000
-    }
-  };
+/**
+ * 判断错误是否说明服务商不可用（计入熔断）：可重试的错误和认证失败
+ */
+function isProviderFailure(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  return isRetryableError(error) || status === 401 || status === 403;
+}
 
-  // 添加系统指令
-  if (systemInstruction) {
-    requestBody.systemInstruction = {
-      parts: systemInstruction.parts
-    };
-  }
+/**
+ * 计算重试等待时间：优先使用 Retry-After，否则按指数退避
+ */
+function getRetryDelay(error: unknown, attempt: number): number {
+  const retryAfterMs = error instanceof TradingAnalysisError ? error.details?.retryAfterMs : undefined;
+  const delayMs = typeof retryAfterMs === 'number' ? retryAfterMs : config.aiRetryBaseDelayMs * 2 ** attempt;
+  return Math.min(delayMs, MAX_RETRY_DELAY_MS);
+}
 
-  // 添加思考配置（如果支持）
-  if (config.openaiModel.includes('2.5')) {
-    requestBody.generationConfig.thinkingConfig = {
-      includeThoughts: true,
-      thinkingBudget: options.thinkingBudget || -1
-    };
+/**
+ * 记录一次调用的用量（提供商未返回用量时跳过）
+ */
+function recordUsage(stage: AIUsageStage, provider: AIProvider, model: string, usage: AITokenUsage | undefined): void {
+  if (!usage) {
+    logger.debug('AI响应未返回用量', { stage, provider, model });
+    return;
   }
 
-  // 构建Gemini API URL
-  const apiUrl = buildApiUrl(config.openaiBaseUrl, `/models/${config.openaiModel}:generateContent?key=${config.openaiApiKey}`);
-
-  const response = await fetch(apiUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(requestBody)
+  aiUsageTracker.record({
+    stage,
+    provider,
+    model,
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    thinkingTokens: usage.thinking_tokens ?? 0
   });
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    logger.error('Gemini API请求失败', {
-      url: apiUrl,
-      status: response.status,
-      error: errorText
-    });
-    throw new Error(`Gemini API错误: ${response.status} ${response.statusText} - ${errorText}`);
+/**
+ * 包装流式响应，在结束块中取出用量并记录
+ */
+async function* trackStreamUsage(
+  stream: AsyncGenerator<AIStreamChunk>,
+  stage: AIUsageStage,
+  provider: AIProvider,
+  model: string
+): AsyncGenerator<AIStreamChunk> {
+  let recorded = false;
+  try {
+    for await (const chunk of stream) {
+      if (chunk.finished && !recorded) {
+        recorded = true;
+        recordUsage(stage, provider, model, chunk.usage);
+      }
+      yield chunk;
+    }
+  } finally {
+    if (!recorded) {
+      logger.debug('流式响应未读取到结束块，未记录用量', { stage, provider, model });
+    }
   }
+}
 
-  // 获取响应文本
-  const responseText = await response.text();
-  
-  // 记录原始响应内容以便调试
-  logger.debug('Gemini API原始响应', {
-    url: apiUrl,
-    responseLength: responseText.length,
-    responsePreview: responseText.substring(0, 500) + (responseText.length > 500 ? '...' : ''),
-    responseText: responseText // 完整响应内容
-  });
+/**
+ * 单个服务商的失败记录
+ */
+interface FailedAttempt {
+  target: AIProviderTarget;
+  error: unknown;
+}
 
-  let data;
-  try {
-    data = JSON.parse(responseText);
-  } catch (parseError) {
-    logger.error('Gemini API响应解析失败', {
-      error: parseError instanceof Error ? parseError.message : String(parseError),
-      responseText: responseText,
-      responseLength: responseText.length,
-      contentType: response.headers.get('content-type')
-    });
-    throw new Error(`AI响应解析失败: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+/**
+ * 按服务商类型发起一次调用
+ */
+function callProvider(target: AIProviderTarget, messages: AIMessage[], options: any): Promise<AIResponse> {
+  switch (target.provider) {
+    case 'openai':
+      return callOpenAI(target, messages, options);
+    case 'gemini':
+      return callGemini(target, messages, options);
+    case 'claude':
+      return callClaude(target, messages, options);
+    default:
+      throw new Error(`不支持的AI提供商: ${target.provider}`);
   }
+}
 
-  const candidate = data.candidates?.[0];
-  
-  if (!candidate) {
-    logger.error('Gemini API返回了空的候选结果', {
-      responseData: data,
-      responseText: responseText
-    });
-    throw new Error('Gemini API返回了空的候选结果');
+/**
+ * 按服务商类型发起一次流式调用
+ */
+function callProviderStream(target: AIProviderTarget, messages: AIMessage[], options: any): AsyncGenerator<AIStreamChunk> {
+  switch (target.provider) {
+    case 'openai':
+      return callOpenAIStream(target, messages, options);
+    case 'gemini':
+      return callGeminiStream(target, messages, options);
+    case 'claude':
+      return callClaudeStream(target, messages, options);
+    default:
+      throw new Error(`不支持的AI提供商: ${target.provider}`);
   }
+}
 
-  // 处理Gemini的思考模式响应
-  const parts = candidate.content?.parts || [];
-  let content = '';
-  let thoughts = '';
-  
-  // 分离思考过程和实际结果
-  for (const part of parts) {
-    if (part.thought) {
-      // 这是思考过程
-      thoughts += part.text || '';
+/**
+ * 依次返回故障转移链中可以调用的服务商（跳过熔断中的服务商），
+ * 全部熔断时仍然尝试第一个服务商，避免请求不经调用直接失败
+ */
+function* availableTargets(chain: AIProviderTarget[], stage: AIUsageStage): Generator<AIProviderTarget> {
+  let attempted = false;
+  for (const target of chain) {
+    if (aiCircuitBreaker.tryAcquire(target.id)) {
+      attempted = true;
+      yield target;
     } else {
-      // 这是实际结果
-      content += part.text || '';
+      logger.info('AI服务商熔断中，已跳过', { stage, profileId: target.id, name: target.name });
     }
   }
-  
-  // 如果没有明确的结果部分，使用最后一个部分
-  if (!content && parts.length > 0) {
-    content = parts[parts.length - 1]?.text || '';
+
+  if (!attempted && chain.length > 0) {
+    logger.warn('所有AI服务商均在熔断中，强制尝试第一个服务商', { stage, name: chain[0]!.name });
+    yield chain[0]!;
   }
-  
-  return {
-    content: content,
-    ...(thoughts && { thoughts }),
-    usage: {
-      prompt_tokens: data.usageMetadata?.promptTokenCount || 0,
-      completion_tokens: data.usageMetadata?.candidatesTokenCount || 0,
-      total_tokens: data.usageMetadata?.totalTokenCount || 0
-    }
-  };
 }
 
 /**
- * OpenAI流式API调用
+ * 记录服务商的一次失败（重试之后仍然失败）
  */
-async function* callOpenAIStream(messages: AIMessage[], options: any): AsyncGenerator<AIStreamChunk> {
-  const apiUrl = buildApiUrl(config.openaiBaseUrl, '/chat/completions');
-  
-  const response = await fetch(apiUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${config.openaiApiKey}`
-    },
-    body: JSON.stringify({
-      model: config.openaiModel,
-      messages: messages,
-      temperature: options.temperature || 0.3,
-      max_tokens: options.maxTokens || 8000,
-      stream: true
-    })
+function recordAttemptFailure(target: AIProviderTarget, stage: AIUsageStage, error: unknown, attempts: FailedAttempt[]): void {
+  const message = error instanceof Error ? error.message : String(error);
+  aiCircuitBreaker.recordFailure(target.id, message, isProviderFailure(error));
+  attempts.push({ target, error });
+
+  logger.warn('AI服务商调用失败', {
+    stage,
+    profileId: target.id,
+    name: target.name,
+    provider: target.provider,
+    model: target.model,
+    status: getErrorStatus(error),
+    error: message
   });
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    logger.error('OpenAI流式API请求失败', {
-      url: apiUrl,
-      status: response.status,
-      error: errorText
-    });
-    throw new Error(`OpenAI API错误: ${response.status} ${response.statusText} - ${errorText}`);
+/**
+ * 汇总所有服务商的失败原因（只尝试了一个服务商时保留原错误）
+ */
+function mergeFailures(attempts: FailedAttempt[]): unknown {
+  if (attempts.length === 1) {
+    return attempts[0]!.error;
   }
 
-  const reader = response.body?.getReader();
-  if (!reader) {
-    throw new Error('无法获取响应流');
-  }
+  const details = attempts.map(({ target, error }) => ({
+    profileId: target.id,
+    name: target.name,
+    model: target.model,
+    status: getErrorStatus(error),
+    error: error instanceof Error ? error.message : String(error)
+  }));
+  return new TradingAnalysisError(
+    `所有AI服务商均调用失败：${details.map(detail => `${detail.name}: ${detail.error}`).join('；')}`,
+    'AI_API_ERROR',
+    { attempts: details }
+  );
+}
 
-  const decoder = new TextDecoder();
-  let buffer = '';
+/**
+ * 创建单次请求的超时信号（每次尝试重新计时，超时按网络错误处理）
+ */
+function createAttemptSignal(): AbortSignal {
+  return AbortSignal.timeout(config.aiRequestTimeoutSeconds * 1000);
+}
 
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') {
-            yield { content: '', finished: true };
-            return;
-          }
-
-          try {
-            const parsed = JSON.parse(data);
-            const delta = parsed.choices?.[0]?.delta?.content;
-            if (delta) {
-              yield { content: delta, finished: false };
-            }
-          } catch (e) {
-            // 记录解析错误以便调试
-            logger.debug('OpenAI流式响应解析错误', {
-              error: e instanceof Error ? e.message : String(e),
-              lineData: data,
-              lineLength: data.length
-            });
-          }
-        }
+/**
+ * 在同一服务商上调用，遇到可重试的错误时按指数退避重试
+ */
+async function withRetry<T>(
+  target: AIProviderTarget,
+  stage: AIUsageStage,
+  call: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call(createAttemptSignal());
+    } catch (error) {
+      if (attempt >= config.aiMaxRetries || !isRetryableError(error)) {
+        throw error;
       }
+
+      const delayMs = getRetryDelay(error, attempt);
+      logger.warn('AI请求失败，等待后重试', {
+        stage,
+        name: target.name,
+        model: target.model,
+        attempt: attempt + 1,
+        delayMs,
+        status: getErrorStatus(error),
+        error: error instanceof Error ? error.message : String(error)
+      });
+      await new Promise(resolve => setTimeout(resolve, delayMs));
     }
-  } finally {
-    reader.releaseLock();
   }
 }
 
 /**
- * Gemini流式API调用
+ * 流式调用故障转移链：服务商在输出内容之前失败时重试或切换到下一个服务商，
+ * 已经输出内容后失败则直接抛出（已发送给用户的内容无法撤回）
  */
-async function* callGeminiStream(messages: AIMessage[], options: any): AsyncGenerator<AIStreamChunk> {
-  // 转换消息格式
-  const contents = messages.map(msg => ({
-    role: msg.role === 'assistant' ? 'model' : msg.role,
-    parts: [{ text: msg.content }]
-  }));
+async function* streamWithFailover(
+  chain: AIProviderTarget[],
+  messages: AIMessage[],
+  options: any,
+  stage: AIUsageStage
+): AsyncGenerator<AIStreamChunk> {
+  const attempts: FailedAttempt[] = [];
+
+  for (const target of availableTargets(chain, stage)) {
+    logger.info('调用流式AI API', {
+      provider: target.provider,
+      model: target.model,
+      name: target.name,
+      messageCount: messages.length
+    });
 
-  const systemInstruction = contents.find(c => c.role === 'system');
-  const conversationContents = contents.filter(c => c.role !== 'system');
+    for (let attempt = 0; ; attempt++) {
+      let produced = false;
+      let settled = false;
+      try {
+        const stream = trackStreamUsage(callProviderStream(target, messages, { ...options, signal: createAttemptSignal() }), stage, target.provider, target.model);
+        for await (const chunk of stream) {
+          produced ||= chunk.content.length > 0;
+          yield chunk;
+        }
 
-  const requestBody: any = {
-    contents: conversationContents,
-    generationConfig: {
-      temperature: options.temperature || 0.3,
-      maxOutputTokens: options.maxTokens || 8000
-    }
-  };
+        settled = true;
+        aiCircuitBreaker.recordSuccess(target.id);
+        if (attempts.length > 0) {
+          logger.info('流式AI调用已切换到备用服务商', {
+            stage,
+            name: target.name,
+            model: target.model,
+            failed: attempts.map(failed => failed.target.name)
+          });
+        }
+        return;
+      } catch (error) {
+        settled = true;
+        if (!produced && attempt < config.aiMaxRetries && isRetryableError(error)) {
+          const delayMs = getRetryDelay(error, attempt);
+          logger.warn('流式AI请求失败，等待后重试', {
+            stage,
+            name: target.name,
+            model: target.model,
+            attempt: attempt + 1,
+            delayMs,
+            status: getErrorStatus(error),
+            error: error instanceof Error ? error.message : String(error)
+          });
+          await new Promise(resolve => setTimeout(resolve, delayMs));
+          continue;
+        }
 
-  if (systemInstruction) {
-    requestBody.systemInstruction = {
-      parts: systemInstruction.parts
-    };
+        recordAttemptFailure(target, stage, error, attempts);
+        if (produced) {
+          // 已输出的内容无法撤回，不再切换服务商
+          throw error;
+        }
+        break;
+      } finally {
+        if (!settled) {
+          // 调用方提前结束读取，无法判断服务商是否正常
+          aiCircuitBreaker.release(target.id);
+        }
+      }
+    }
   }
 
-  // 构建Gemini流式API URL
-  const apiUrl = buildApiUrl(config.openaiBaseUrl, `/models/${config.openaiModel}:streamGenerateContent?alt=sse&key=${config.openaiApiKey}`);
-
-  const response = await fetch(apiUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(requestBody)
+  const error = mergeFailures(attempts);
+  logger.error('流式AI API调用失败', {
+    stage,
+    error: error instanceof Error ? error.message : String(error)
   });
+  throw error;
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    logger.error('Gemini流式API请求失败', {
-      url: apiUrl,
-      status: response.status,
-      error: errorText
-    });
-    throw new Error(`Gemini流式API错误: ${response.status} ${response.statusText} - ${errorText}`);
+/**
+ * 用环节设置覆盖调用参数（温度、思考模式），未设置的项保留调用方的默认值
+ */
+function applyStageSettings<T extends { temperature?: number; enableThinking?: boolean; thinkingBudget?: number }>(
+  options: T,
+  stage: AIUsageStage
+): T {
+  const settings = aiProviderManager.getStageSettings(stage);
+  if (!settings) {
+    return options;
   }
 
-  const reader = response.body?.getReader();
-  if (!reader) {
-    throw new Error('无法获取响应流');
+  const result: T = { ...options };
+  if (settings.temperature !== null) {
+    result.temperature = settings.temperature;
   }
-
-  const decoder = new TextDecoder();
-  let buffer = '';
-
-  try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          
-          try {
-            const parsed = JSON.parse(data);
-            const text = parsed.candidates?.[0]?.content?.parts?.[0]?.text;
-            if (text) {
-              yield { content: text, finished: false };
-            }
-            
-            // 检查是否完成
-            if (parsed.candidates?.[0]?.finishReason) {
-              yield { content: '', finished: true };
-              return;
-            }
-          } catch (e) {
-            // 记录解析错误以便调试
-            logger.debug('Gemini流式响应解析错误', {
-              error: e instanceof Error ? e.message : String(e),
-              lineData: data,
-              lineLength: data.length
-            });
-          }
-        }
-      }
-    }
-  } finally {
-    reader.releaseLock();
+  if (settings.thinking === 'off') {
+    result.enableThinking = false;
+  } else if (settings.thinking === 'auto') {
+    result.enableThinking = true;
+    result.thinkingBudget = -1;
+  } else if (typeof settings.thinking === 'number') {
+    result.enableThinking = true;
+    result.thinkingBudget = settings.thinking;
   }
+  return result;
 }
 
 /**
  * 统一的聊天完成接口
+ * 按故障转移链依次调用服务商，每个服务商遇到限流或服务端错误时先重试，熔断中的服务商直接跳过
  */
 export async function createChatCompletion(
   messages: AIMessage[],
@@ -449,51 +449,53 @@ export async function createChatCompletion(
     maxTokens?: number;
     enableThinking?: boolean;
     thinkingBudget?: number;
+    responseSchema?: StructuredOutputSchema;
+    /** 调用环节：决定模型设置、备用服务商和用量统计归属 */
+    stage?: AIUsageStage;
   }
 ): Promise<AIResponse> {
-  const provider = getAIProvider();
-  
-  logger.info('调用AI API', {
-    provider,
-    model: config.openaiModel,
-    messageCount: messages.length
-  });
-
-  try {
-    let result: AIResponse;
-
-    switch (provider) {
-      case 'openai':
-        result = await callOpenAI(messages, options || {});
-        break;
-      case 'gemini':
-        result = await callGemini(messages, options || {});
-        break;
-      case 'claude':
-        throw new Error('Claude API暂未实现');
-      default:
-        throw new Error(`不支持的AI提供商: ${provider}`);
-    }
-
-    logger.info('AI API调用成功', {
-      provider,
-      responseLength: result.content.length,
-      tokensUsed: result.usage?.total_tokens || 'unknown'
+  const stage = options?.stage ?? 'other';
+  const callOptions = applyStageSettings(options || {}, stage);
+  const attempts: FailedAttempt[] = [];
+
+  for (const target of availableTargets(aiProviderManager.getChain(stage), stage)) {
+    logger.info('调用AI API', {
+      provider: target.provider,
+      model: target.model,
+      name: target.name,
+      messageCount: messages.length
     });
 
-    return result;
-  } catch (error) {
-    logger.error('AI API调用失败', {
-      provider,
-      error: error instanceof Error ? error.message : String(error),
-      model: config.openaiModel
-    });
-    throw error;
+    try {
+      const result = await withRetry(target, stage, signal => callProvider(target, messages, { ...callOptions, signal }));
+      aiCircuitBreaker.recordSuccess(target.id);
+
+      logger.info('AI API调用成功', {
+        provider: target.provider,
+        model: target.model,
+        responseLength: result.content.length,
+        tokensUsed: result.usage?.total_tokens || 'unknown',
+        ...(attempts.length > 0 && { failed: attempts.map(failed => failed.target.name) })
+      });
+
+      recordUsage(stage, target.provider, target.model, result.usage);
+      return result;
+    } catch (error) {
+      recordAttemptFailure(target, stage, error, attempts);
+    }
   }
+
+  const error = mergeFailures(attempts);
+  logger.error('AI API调用失败', {
+    stage,
+    error: error instanceof Error ? error.message : String(error)
+  });
+  throw error;
 }
 
 /**
  * 流式聊天完成接口
+ * 服务商在输出内容之前失败时同样会重试和切换到备用服务商
  */
 export async function createStreamingChatCompletion(
   messages: AIMessage[],
@@ -502,33 +504,95 @@ export async function createStreamingChatCompletion(
     maxTokens?: number;
     enableThinking?: boolean;
     thinkingBudget?: number;
+    /** 调用环节：决定模型设置、备用服务商和用量统计归属 */
+    stage?: AIUsageStage;
   }
 ): Promise<AsyncGenerator<AIStreamChunk>> {
-  const provider = getAIProvider();
-  
-  logger.info('调用流式AI API', {
-    provider,
-    model: config.openaiModel,
-    messageCount: messages.length
-  });
+  const stage = options?.stage ?? 'other';
+  return streamWithFailover(aiProviderManager.getChain(stage), messages, applyStageSettings(options || {}, stage), stage);
+}
+
+/**
+ * 根据服务商返回的错误判断模型是否可用：模型不存在时返回 false，其他错误无法判断返回 null
+ */
+function detectModelAvailability(error: unknown): boolean | null {
+  const status = getErrorStatus(error);
+  const message = error instanceof Error ? error.message : String(error);
+  if (status === 404 || (status === 400 && /model.*(not[ _]found|not exist|does not exist|invalid)|unknown model/i.test(message))) {
+    return false;
+  }
+  return null;
+}
+
+/**
+ * 流式调用测试，耗时为收到首个内容块的时间（没有内容时为整个响应的时间）
+ */
+async function probeProviderStream(target: AIProviderTarget, messages: AIMessage[]): Promise<ConnectionTestResult> {
+  const startedAt = Date.now();
+  let firstChunkMs: number | null = null;
 
   try {
-    switch (provider) {
-      case 'openai':
-        return callOpenAIStream(messages, options || {});
-      case 'gemini':
-        return callGeminiStream(messages, options || {});
-      case 'claude':
-        throw new Error('Claude流式API暂未实现');
-      default:
-        throw new Error(`不支持的AI提供商: ${provider}`);
+    const stream = callProviderStream(target, messages, {
+      maxTokens: PROBE_MAX_TOKENS,
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS)
+    });
+    for await (const chunk of stream) {
+      if (chunk.content && firstChunkMs === null) {
+        firstChunkMs = Date.now() - startedAt;
+      }
     }
+    return {
+      success: true,
+      message: firstChunkMs === null ? '流式调用成功（未返回文本内容）' : '流式调用成功',
+      latencyMs: firstChunkMs ?? Date.now() - startedAt
+    };
   } catch (error) {
-    logger.error('流式AI API调用失败', {
-      provider,
-      error: error instanceof Error ? error.message : String(error),
-      model: config.openaiModel
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : String(error),
+      latencyMs: Date.now() - startedAt
+    };
+  }
+}
+
+/**
+ * 测试服务商连接：依次发送一次最小的普通调用和流式调用
+ * 直接调用服务商，不重试、不经过熔断器，也不计入用量统计
+ */
+export async function probeAIProvider(target: AIProviderTarget): Promise<AIProviderTestResult> {
+  const messages: AIMessage[] = [{ role: 'user', content: PROBE_PROMPT }];
+  const base = {
+    profileId: target.id,
+    name: target.name,
+    provider: target.provider,
+    model: target.model
+  };
+
+  const startedAt = Date.now();
+  try {
+    await callProvider(target, messages, {
+      maxTokens: PROBE_MAX_TOKENS,
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS)
     });
-    throw error;
+  } catch (error) {
+    return {
+      ...base,
+      success: false,
+      message: error instanceof Error ? error.message : String(error),
+      latencyMs: Date.now() - startedAt,
+      modelAvailable: detectModelAvailability(error),
+      stream: { success: false, message: '普通调用失败，未测试流式调用' }
+    };
   }
-} 
\ No newline at end of file
+
+  const latencyMs = Date.now() - startedAt;
+  const stream = await probeProviderStream(target, messages);
+  return {
+    ...base,
+    success: stream.success,
+    message: stream.success ? '调用成功' : '普通调用成功，流式调用失败',
+    latencyMs,
+    modelAvailable: true,
+    stream
+  };
+}
@@ -0,0 +1,301 @@
+/**
+ * Gemini接口调用
+ * generateContent 的普通调用和 streamGenerateContent 流式调用（SSE），包括思考配置和结构化输出Schema转换
+ */
+
+import { logger } from './logger.js';
+import { buildApiUrl, createHttpError } from './ai-http.js';
+import type { AIMessage, AIResponse, AIStreamChunk, AITokenUsage } from './ai-client.js';
+import type { AIProviderTarget } from './types.js';
+
+/**
+ * 转换Gemini用量（candidatesTokenCount 不含思考token）
+ */
+function toGeminiUsage(usageMetadata: any): AITokenUsage | undefined {
+  if (!usageMetadata) {
+    return undefined;
+  }
+  return {
+    prompt_tokens: usageMetadata.promptTokenCount || 0,
+    completion_tokens: usageMetadata.candidatesTokenCount || 0,
+    total_tokens: usageMetadata.totalTokenCount || 0,
+    thinking_tokens: usageMetadata.thoughtsTokenCount || 0
+  };
+}
+
+/**
+ * Gemini API调用
+ */
+export async function callGemini(target: AIProviderTarget, messages: AIMessage[], options: any): Promise<AIResponse> {
+  // 转换消息格式为Gemini格式
+  const contents = messages.map(msg => ({
+    role: msg.role === 'assistant' ? 'model' : msg.role,
+    parts: [{ text: msg.content }]
+  }));
+
+  // 分离系统指令
+  const systemInstruction = contents.find(c => c.role === 'system');
+  const conversationContents = contents.filter(c => c.role !== 'system');
+
+  const requestBody: any = {
+    contents: conversationContents,
+    generationConfig: {
+      temperature: options.temperature ?? 0.3,
+      maxOutputTokens: options.maxTokens || 8000
+    }
+  };
+
+  // 添加系统指令
+  if (systemInstruction) {
+    requestBody.systemInstruction = {
+      parts: systemInstruction.parts
+    };
+  }
+
+  // 结构化输出
+  if (options.responseSchema) {
+    requestBody.generationConfig.responseMimeType = 'application/json';
+    requestBody.generationConfig.responseSchema = toGeminiSchema(options.responseSchema.schema);
+  }
+
+  // 添加思考配置（如果支持）
+  if (target.model.includes('2.5')) {
+    requestBody.generationConfig.thinkingConfig = buildGeminiThinkingConfig(options, true);
+  }
+
+  // 构建Gemini API URL
+  const apiUrl = buildApiUrl(target.baseUrl, `/models/${target.model}:generateContent?key=${target.apiKey}`, target.provider);
+
+  const response = await fetch(apiUrl, {
+    method: 'POST',
+    signal: options.signal,
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(requestBody)
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logger.error('Gemini API请求失败', {
+      url: apiUrl,
+      status: response.status,
+      error: errorText
+    });
+    throw createHttpError('Gemini API错误', response, errorText);
+  }
+
+  // 获取响应文本
+  const responseText = await response.text();
+  
+  // 记录原始响应内容以便调试
+  logger.debug('Gemini API原始响应', {
+    url: apiUrl,
+    responseLength: responseText.length,
+    responsePreview: responseText.substring(0, 500) + (responseText.length > 500 ? '...' : ''),
+    responseText: responseText // 完整响应内容
+  });
+
+  let data;
+  try {
+    data = JSON.parse(responseText);
+  } catch (parseError) {
+    logger.error('Gemini API响应解析失败', {
+      error: parseError instanceof Error ? parseError.message : String(parseError),
+      responseText: responseText,
+      responseLength: responseText.length,
+      contentType: response.headers.get('content-type')
+    });
+    throw new Error(`AI响应解析失败: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+  }
+
+  const candidate = data.candidates?.[0];
+  
+  if (!candidate) {
+    logger.error('Gemini API返回了空的候选结果', {
+      responseData: data,
+      responseText: responseText
+    });
+    throw new Error('Gemini API返回了空的候选结果');
+  }
+
+  // 处理Gemini的思考模式响应
+  const parts = candidate.content?.parts || [];
+  let content = '';
+  let thoughts = '';
+  
+  // 分离思考过程和实际结果
+  for (const part of parts) {
+    if (part.thought) {
+      // 这是思考过程
+      thoughts += part.text || '';
+    } else {
+      // 这是实际结果
+      content += part.text || '';
+    }
+  }
+  
+  // 如果没有明确的结果部分，使用最后一个部分
+  if (!content && parts.length > 0) {
+    content = parts[parts.length - 1]?.text || '';
+  }
+  
+  const usage = toGeminiUsage(data.usageMetadata);
+  return {
+    content: content,
+    ...(thoughts && { thoughts }),
+    ...(usage && { usage })
+  };
+}
+
+/**
+ * 构建Gemini 2.5的思考配置：关闭思考时预算为0，否则使用指定预算（-1 为动态预算）
+ */
+function buildGeminiThinkingConfig(options: any, includeThoughts: boolean): Record<string, unknown> {
+  if (options.enableThinking === false) {
+    return { thinkingBudget: 0 };
+  }
+  return {
+    ...(includeThoughts && { includeThoughts: true }),
+    thinkingBudget: options.thinkingBudget || -1
+  };
+}
+
+/**
+ * 将 JSON Schema 转换为 Gemini 支持的 OpenAPI 子集：
+ * type 数组中的 null 改为 nullable，去掉不支持的 additionalProperties
+ */
+function toGeminiSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const converted: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'additionalProperties') {
+      continue;
+    }
+    if (key === 'type' && Array.isArray(value)) {
+      converted.type = value.find(type => type !== 'null');
+      if (value.includes('null')) {
+        converted.nullable = true;
+      }
+    } else if (key === 'properties' && value && typeof value === 'object') {
+      converted.properties = Object.fromEntries(
+        Object.entries(value).map(([name, child]) => [name, toGeminiSchema(child as Record<string, unknown>)])
+      );
+    } else if (key === 'items' && value && typeof value === 'object') {
+      converted.items = toGeminiSchema(value as Record<string, unknown>);
+    } else {
+      converted[key] = value;
+    }
+  }
+
+  return converted;
+}
+
+/**
+ * Gemini流式API调用
+ */
+export async function* callGeminiStream(target: AIProviderTarget, messages: AIMessage[], options: any): AsyncGenerator<AIStreamChunk> {
+  // 转换消息格式
+  const contents = messages.map(msg => ({
+    role: msg.role === 'assistant' ? 'model' : msg.role,
+    parts: [{ text: msg.content }]
+  }));
+
+  const systemInstruction = contents.find(c => c.role === 'system');
+  const conversationContents = contents.filter(c => c.role !== 'system');
+
+  const requestBody: any = {
+    contents: conversationContents,
+    generationConfig: {
+      temperature: options.temperature ?? 0.3,
+      maxOutputTokens: options.maxTokens || 8000
+    }
+  };
+
+  if (systemInstruction) {
+    requestBody.systemInstruction = {
+      parts: systemInstruction.parts
+    };
+  }
+
+  // 流式输出只取正文，不返回思考过程
+  if (target.model.includes('2.5')) {
+    requestBody.generationConfig.thinkingConfig = buildGeminiThinkingConfig(options, false);
+  }
+
+  // 构建Gemini流式API URL
+  const apiUrl = buildApiUrl(target.baseUrl, `/models/${target.model}:streamGenerateContent?alt=sse&key=${target.apiKey}`, target.provider);
+
+  const response = await fetch(apiUrl, {
+    method: 'POST',
+    signal: options.signal,
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(requestBody)
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logger.error('Gemini流式API请求失败', {
+      url: apiUrl,
+      status: response.status,
+      error: errorText
+    });
+    throw createHttpError('Gemini流式API错误', response, errorText);
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('无法获取响应流');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let usage: AITokenUsage | undefined;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.startsWith('data: ')) {
+          const data = line.slice(6);
+          
+          try {
+            const parsed = JSON.parse(data);
+            const text = parsed.candidates?.[0]?.content?.parts?.[0]?.text;
+            if (text) {
+              yield { content: text, finished: false };
+            }
+
+            // 每个块都带有截至当前的累计用量
+            if (parsed.usageMetadata) {
+              usage = toGeminiUsage(parsed.usageMetadata);
+            }
+            
+            // 检查是否完成
+            if (parsed.candidates?.[0]?.finishReason) {
+              yield { content: '', finished: true, ...(usage && { usage }) };
+              return;
+            }
+          } catch (e) {
+            // 记录解析错误以便调试
+            logger.debug('Gemini流式响应解析错误', {
+              error: e instanceof Error ? e.message : String(e),
+              lineData: data,
+              lineLength: data.length
+            });
+          }
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
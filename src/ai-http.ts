@@ -0,0 +1,76 @@
+/**
+ * AI服务商HTTP请求公共方法
+ * 各服务商共用的接口地址拼接和错误构造
+ */
+
+import { TradingAnalysisError } from './types.js';
+import type { AIProvider } from './types.js';
+
+/**
+ * 智能URL构建器 - 参考Cherry Studio的处理逻辑
+ * @param baseUrl 基础URL
+ * @param endpoint 端点路径
+ * @param provider AI提供商（用于补全默认版本号）
+ * @returns 完整的API URL
+ */
+export function buildApiUrl(baseUrl: string, endpoint: string, provider: AIProvider): string {
+  let processedBaseUrl = baseUrl.trim();
+  
+  // 处理特殊标记
+  if (processedBaseUrl.endsWith('#')) {
+    // # 结尾：强制使用输入地址，不做任何修改
+    processedBaseUrl = processedBaseUrl.slice(0, -1);
+    return `${processedBaseUrl}${endpoint}`;
+  }
+  
+  if (processedBaseUrl.endsWith('/')) {
+    // / 结尾：忽略v1版本，直接拼接端点
+    processedBaseUrl = processedBaseUrl.slice(0, -1);
+    return `${processedBaseUrl}${endpoint}`;
+  }
+  
+  // 默认处理：检查是否已包含版本号
+  if (processedBaseUrl.includes('/v1') || processedBaseUrl.includes('/v1beta')) {
+    // 已包含版本号，直接拼接
+    return `${processedBaseUrl}${endpoint}`;
+  }
+  
+  // 根据AI提供商添加默认版本号
+  switch (provider) {
+    case 'openai':
+      return `${processedBaseUrl}/v1${endpoint}`;
+    case 'gemini':
+      return `${processedBaseUrl}/v1beta${endpoint}`;
+    case 'claude':
+      return `${processedBaseUrl}/v1${endpoint}`;
+    default:
+      return `${processedBaseUrl}${endpoint}`;
+  }
+}
+
+/**
+ * 解析 Retry-After 响应头（秒数或HTTP日期），无法解析时返回 undefined
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 创建服务商HTTP错误（details.status 用于判断是否重试和熔断）
+ */
+export function createHttpError(label: string, response: Response, errorText: string): TradingAnalysisError {
+  const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+  return new TradingAnalysisError(
+    `${label}: ${response.status} ${response.statusText} - ${errorText}`,
+    'AI_API_ERROR',
+    { status: response.status, ...(retryAfterMs !== undefined && { retryAfterMs }) }
+  );
+}
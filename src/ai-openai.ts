@@ -0,0 +1,184 @@
+/**
+ * OpenAI兼容接口调用
+ * Chat Completions 的普通调用和流式调用（SSE）
+ */
+
+import { logger } from './logger.js';
+import { buildApiUrl, createHttpError } from './ai-http.js';
+import type { AIMessage, AIResponse, AIStreamChunk, AITokenUsage } from './ai-client.js';
+import type { AIProviderTarget } from './types.js';
+
+/**
+ * 转换OpenAI用量（completion_tokens 包含推理token，拆分为输出和思考两部分）
+ */
+function toOpenAIUsage(usage: any): AITokenUsage | undefined {
+  if (!usage) {
+    return undefined;
+  }
+  const reasoningTokens = usage.completion_tokens_details?.reasoning_tokens || 0;
+  return {
+    prompt_tokens: usage.prompt_tokens || 0,
+    completion_tokens: Math.max(0, (usage.completion_tokens || 0) - reasoningTokens),
+    total_tokens: usage.total_tokens || 0,
+    thinking_tokens: reasoningTokens
+  };
+}
+
+/**
+ * OpenAI API调用
+ */
+export async function callOpenAI(target: AIProviderTarget, messages: AIMessage[], options: any): Promise<AIResponse> {
+  const apiUrl = buildApiUrl(target.baseUrl, '/chat/completions', target.provider);
+  
+  const response = await fetch(apiUrl, {
+    method: 'POST',
+    signal: options.signal,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${target.apiKey}`
+    },
+    body: JSON.stringify({
+      model: target.model,
+      messages: messages,
+      temperature: options.temperature ?? 0.3,
+      max_tokens: options.maxTokens || 8000,
+      stream: false,
+      ...(options.responseSchema && {
+        response_format: {
+          type: 'json_schema',
+          json_schema: {
+            name: options.responseSchema.name,
+            description: options.responseSchema.description,
+            schema: options.responseSchema.schema,
+            strict: true
+          }
+        }
+      })
+    })
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logger.error('OpenAI API请求失败', {
+      url: apiUrl,
+      status: response.status,
+      error: errorText
+    });
+    throw createHttpError('OpenAI API错误', response, errorText);
+  }
+
+  // 获取响应文本
+  const responseText = await response.text();
+  
+  // 记录原始响应内容以便调试
+  logger.debug('OpenAI API原始响应', {
+    url: apiUrl,
+    responseLength: responseText.length,
+    responsePreview: responseText.substring(0, 500) + (responseText.length > 500 ? '...' : ''),
+    responseText: responseText // 完整响应内容
+  });
+
+  let data;
+  try {
+    data = JSON.parse(responseText);
+  } catch (parseError) {
+    logger.error('OpenAI API响应解析失败', {
+      error: parseError instanceof Error ? parseError.message : String(parseError),
+      responseText: responseText,
+      responseLength: responseText.length,
+      contentType: response.headers.get('content-type')
+    });
+    throw new Error(`AI响应解析失败: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+  }
+
+  const usage = toOpenAIUsage(data.usage);
+  return {
+    content: data.choices[0]?.message?.content || '',
+    ...(usage && { usage })
+  };
+}
+
+/**
+ * OpenAI流式API调用
+ */
+export async function* callOpenAIStream(target: AIProviderTarget, messages: AIMessage[], options: any): AsyncGenerator<AIStreamChunk> {
+  const apiUrl = buildApiUrl(target.baseUrl, '/chat/completions', target.provider);
+  
+  const response = await fetch(apiUrl, {
+    method: 'POST',
+    signal: options.signal,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${target.apiKey}`
+    },
+    body: JSON.stringify({
+      model: target.model,
+      messages: messages,
+      temperature: options.temperature ?? 0.3,
+      max_tokens: options.maxTokens || 8000,
+      stream: true,
+      stream_options: { include_usage: true }
+    })
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logger.error('OpenAI流式API请求失败', {
+      url: apiUrl,
+      status: response.status,
+      error: errorText
+    });
+    throw createHttpError('OpenAI API错误', response, errorText);
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('无法获取响应流');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let usage: AITokenUsage | undefined;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.startsWith('data: ')) {
+          const data = line.slice(6);
+          if (data === '[DONE]') {
+            yield { content: '', finished: true, ...(usage && { usage }) };
+            return;
+          }
+
+          try {
+            const parsed = JSON.parse(data);
+            const delta = parsed.choices?.[0]?.delta?.content;
+            if (delta) {
+              yield { content: delta, finished: false };
+            }
+            // 开启 include_usage 后，用量在 [DONE] 之前的最后一个块中返回
+            if (parsed.usage) {
+              usage = toOpenAIUsage(parsed.usage);
+            }
+          } catch (e) {
+            // 记录解析错误以便调试
+            logger.debug('OpenAI流式响应解析错误', {
+              error: e instanceof Error ? e.message : String(e),
+              lineData: data,
+              lineLength: data.length
+            });
+          }
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,480 @@
+/**
+ * AI用量与费用统计模块
+ * 每次AI调用（意图识别、分析、交易计划等）记录提供商、模型、输入/输出/思考token和按价格表计算的费用，
+ * 处理一条用户请求期间的调用在写入审计日志时关联到该日志；每日花费超过预算时向管理员聊天发送提醒
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { databaseManager } from './config/database-manager.js';
+import { getDateParts } from './timezone.js';
+import { TradingAnalysisError } from './types.js';
+import type {
+  AIModelPrice,
+  AIProvider,
+  AISpendDimension,
+  AISpendGroup,
+  AISpendReport,
+  AISpendStats,
+  AIUsageRecord,
+  AIUsageStage,
+  SaveAIModelPriceParams
+} from './types.js';
+
+/**
+ * 预算提醒的发送回调
+ */
+export type BudgetAlertNotifier = (chatId: number, text: string) => Promise<void>;
+
+/**
+ * 记录AI用量参数（completionTokens 不含思考token）
+ */
+export interface RecordAIUsageParams {
+  stage: AIUsageStage;
+  provider: AIProvider;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  thinkingTokens: number;
+}
+
+/**
+ * 一条请求处理期间的用量上下文，保存尚未关联审计日志的用量记录ID
+ */
+interface UsageContext {
+  usageIds: number[];
+}
+
+/**
+ * 价格表记录结构
+ */
+interface AIModelPriceRecord {
+  model: string;
+  input_price_per_million: number;
+  output_price_per_million: number;
+  updated_at: string;
+}
+
+/**
+ * 用量表记录结构
+ */
+interface AIUsageDbRecord {
+  id: number;
+  audit_log_id: number | null;
+  stage: AIUsageStage;
+  provider: AIProvider;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  thinking_tokens: number;
+  cost_usd: number | null;
+  usage_date: string;
+  created_at: string;
+}
+
+/**
+ * 汇总查询的原始结果
+ */
+interface SpendRow {
+  calls: number;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  thinking_tokens: number | null;
+  cost_usd: number | null;
+  unpriced_calls: number | null;
+}
+
+const AGGREGATE_COLUMNS = `
+  COUNT(*) AS calls,
+  SUM(u.prompt_tokens) AS prompt_tokens,
+  SUM(u.completion_tokens) AS completion_tokens,
+  SUM(u.thinking_tokens) AS thinking_tokens,
+  SUM(u.cost_usd) AS cost_usd,
+  SUM(u.cost_usd IS NULL) AS unpriced_calls
+`;
+
+// 各维度的分组字段（key 为分组值，label 为辅助说明）
+const DIMENSION_QUERIES: Record<AISpendDimension, { select: string; groupBy: string; orderBy: string }> = {
+  daily: { select: 'u.usage_date AS key, NULL AS label', groupBy: 'u.usage_date', orderBy: 'u.usage_date DESC' },
+  users: {
+    select: 'al.telegram_user_id AS key, MAX(al.telegram_username) AS label',
+    groupBy: 'al.telegram_user_id',
+    orderBy: 'cost_usd DESC, calls DESC'
+  },
+  chats: {
+    select: 'al.chat_id AS key, MAX(al.chat_type) AS label',
+    groupBy: 'al.chat_id',
+    orderBy: 'cost_usd DESC, calls DESC'
+  },
+  models: { select: 'u.model AS key, u.provider AS label', groupBy: 'u.provider, u.model', orderBy: 'cost_usd DESC, calls DESC' }
+};
+
+// 模型名格式
+const MODEL_NAME_PATTERN = /^[\w.:\/-]{1,100}$/;
+
+/**
+ * 费用保留到小数点后6位
+ */
+function roundCost(cost: number): number {
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+/**
+ * 获取时间戳在配置时区下的日期（YYYY-MM-DD）
+ */
+function getUsageDate(timestamp: number): string {
+  const parts = getDateParts(timestamp, config.timezone);
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+}
+
+/**
+ * 将汇总结果转换为用量统计
+ */
+function toSpendStats(row: SpendRow): AISpendStats {
+  return {
+    calls: row.calls ?? 0,
+    promptTokens: row.prompt_tokens ?? 0,
+    completionTokens: row.completion_tokens ?? 0,
+    thinkingTokens: row.thinking_tokens ?? 0,
+    costUsd: roundCost(row.cost_usd ?? 0),
+    unpricedCalls: row.unpriced_calls ?? 0
+  };
+}
+
+/**
+ * 将数据库记录转换为价格对象
+ */
+function toModelPrice(record: AIModelPriceRecord): AIModelPrice {
+  return {
+    model: record.model,
+    inputPricePerMillion: record.input_price_per_million,
+    outputPricePerMillion: record.output_price_per_million,
+    updatedAt: record.updated_at
+  };
+}
+
+/**
+ * 将数据库记录转换为用量记录
+ */
+function toUsageRecord(record: AIUsageDbRecord): AIUsageRecord {
+  return {
+    id: record.id,
+    auditLogId: record.audit_log_id,
+    stage: record.stage,
+    provider: record.provider,
+    model: record.model,
+    promptTokens: record.prompt_tokens,
+    completionTokens: record.completion_tokens,
+    thinkingTokens: record.thinking_tokens,
+    costUsd: record.cost_usd,
+    usageDate: record.usage_date,
+    createdAt: record.created_at
+  };
+}
+
+/**
+ * 校验价格：非负数
+ */
+function validatePrice(value: unknown, field: string): number {
+  const price = Number(value);
+  if (!Number.isFinite(price) || price < 0) {
+    throw new TradingAnalysisError(`${field}必须是非负数`, 'INVALID_AI_PRICE', { [field]: value });
+  }
+  return price;
+}
+
+/**
+ * AI用量统计类
+ */
+export class AIUsageTracker {
+  private storage = new AsyncLocalStorage<UsageContext>();
+  private notifier: BudgetAlertNotifier | null = null;
+
+  /** 已发送预算提醒的日期，同一天只提醒一次 */
+  private budgetAlertDate: string | null = null;
+
+  /**
+   * 启用预算提醒
+   */
+  start(notifier: BudgetAlertNotifier): void {
+    this.notifier = notifier;
+  }
+
+  /**
+   * 停用预算提醒
+   */
+  stop(): void {
+    this.notifier = null;
+  }
+
+  /**
+   * 在用量上下文中处理一条请求，期间的AI调用在写入审计日志时关联到该日志
+   */
+  run<T>(fn: () => Promise<T>): Promise<T> {
+    return this.storage.run({ usageIds: [] }, fn);
+  }
+
+  /**
+   * 记录一次AI调用的用量并按价格表计算费用（记录失败不影响调用方）
+   */
+  record(params: RecordAIUsageParams): void {
+    try {
+      const price = this.findPrice(params.model);
+      const costUsd = price ? this.calculateCost(params, price) : null;
+      const usageDate = getUsageDate(Date.now());
+
+      const result = databaseManager.getDatabase().prepare(`
+        INSERT INTO ai_usage (stage, provider, model, prompt_tokens, completion_tokens, thinking_tokens, cost_usd, usage_date)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        params.stage,
+        params.provider,
+        params.model,
+        params.promptTokens,
+        params.completionTokens,
+        params.thinkingTokens,
+        costUsd,
+        usageDate
+      );
+
+      this.storage.getStore()?.usageIds.push(Number(result.lastInsertRowid));
+
+      logger.debug('记录AI用量', { ...params, costUsd });
+
+      if (costUsd !== null && costUsd > 0) {
+        this.checkBudget(usageDate).catch(() => undefined);
+      }
+    } catch (error) {
+      logger.warn('记录AI用量失败', {
+        stage: params.stage,
+        model: params.model,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * 将当前请求尚未关联的用量记录关联到审计日志（失败不影响审计日志）
+   */
+  attachToAuditLog(auditLogId: number): void {
+    const context = this.storage.getStore();
+    if (!context || context.usageIds.length === 0) {
+      return;
+    }
+
+    const usageIds = context.usageIds.splice(0);
+    try {
+      databaseManager.getDatabase()
+        .prepare(`UPDATE ai_usage SET audit_log_id = ? WHERE id IN (${usageIds.map(() => '?').join(', ')})`)
+        .run(auditLogId, ...usageIds);
+    } catch (error) {
+      logger.warn('关联AI用量到审计日志失败', {
+        auditLogId,
+        usageIds,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * 获取审计日志关联的用量记录
+   */
+  getUsageByAuditLog(auditLogId: number): AIUsageRecord[] {
+    const records = databaseManager.getDatabase()
+      .prepare('SELECT * FROM ai_usage WHERE audit_log_id = ? ORDER BY id')
+      .all(auditLogId) as AIUsageDbRecord[];
+    return records.map(toUsageRecord);
+  }
+
+  /**
+   * 获取用量报表（按日期、用户、群或模型分组）
+   */
+  getReport(dimension: AISpendDimension, days: number): AISpendReport {
+    const db = databaseManager.getDatabase();
+    const now = Date.now();
+    const since = getUsageDate(now - (days - 1) * 24 * 60 * 60 * 1000);
+    const from = 'FROM ai_usage u LEFT JOIN audit_logs al ON al.id = u.audit_log_id WHERE u.usage_date >= ?';
+    const query = DIMENSION_QUERIES[dimension];
+
+    const overall = db.prepare(`SELECT ${AGGREGATE_COLUMNS} ${from}`).get(since) as SpendRow;
+    const rows = db.prepare(`
+      SELECT ${query.select}, ${AGGREGATE_COLUMNS}
+      ${from}
+      GROUP BY ${query.groupBy}
+      ORDER BY ${query.orderBy}
+    `).all(since) as Array<SpendRow & { key: string | number | null; label: string | null }>;
+
+    return {
+      dimension,
+      days,
+      overall: toSpendStats(overall),
+      groups: rows.map((row): AISpendGroup => ({
+        key: row.key === null ? null : String(row.key),
+        label: row.label,
+        ...toSpendStats(row)
+      })),
+      todayCostUsd: this.getDailyCost(getUsageDate(now)),
+      dailyBudgetUsd: config.dailyBudgetUsd
+    };
+  }
+
+  /**
+   * 获取价格表
+   */
+  listPrices(): AIModelPrice[] {
+    const records = databaseManager.getDatabase()
+      .prepare('SELECT * FROM ai_model_prices ORDER BY model')
+      .all() as AIModelPriceRecord[];
+    return records.map(toModelPrice);
+  }
+
+  /**
+   * 新增或更新模型价格，并补算该价格适用的、之前没有价格的用量记录费用
+   */
+  savePrice(params: SaveAIModelPriceParams): AIModelPrice {
+    const model = String(params.model ?? '').trim();
+    if (!MODEL_NAME_PATTERN.test(model)) {
+      throw new TradingAnalysisError('模型名不能为空，且只能包含字母、数字和 . _ : / -', 'INVALID_AI_PRICE', { model: params.model });
+    }
+    const inputPrice = validatePrice(params.inputPricePerMillion, 'inputPricePerMillion');
+    const outputPrice = validatePrice(params.outputPricePerMillion, 'outputPricePerMillion');
+
+    const db = databaseManager.getDatabase();
+    db.prepare(`
+      INSERT INTO ai_model_prices (model, input_price_per_million, output_price_per_million)
+      VALUES (?, ?, ?)
+      ON CONFLICT(model) DO UPDATE SET
+        input_price_per_million = excluded.input_price_per_million,
+        output_price_per_million = excluded.output_price_per_million,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(model, inputPrice, outputPrice);
+
+    const backfilled = this.backfillCosts();
+    logger.info('AI模型价格已保存', { model, inputPrice, outputPrice, backfilled });
+
+    return toModelPrice(db.prepare('SELECT * FROM ai_model_prices WHERE model = ?').get(model) as AIModelPriceRecord);
+  }
+
+  /**
+   * 删除模型价格（已计算的费用保持不变）
+   */
+  deletePrice(model: string): boolean {
+    const deleted = databaseManager.getDatabase()
+      .prepare('DELETE FROM ai_model_prices WHERE model = ?')
+      .run(model).changes > 0;
+    if (deleted) {
+      logger.info('AI模型价格已删除', { model });
+    }
+    return deleted;
+  }
+
+  /**
+   * 查找模型价格：完全匹配优先，其次为最长的前缀匹配
+   */
+  private findPrice(model: string): AIModelPriceRecord | null {
+    const db = databaseManager.getDatabase();
+    const exact = db.prepare('SELECT * FROM ai_model_prices WHERE model = ?').get(model) as AIModelPriceRecord | undefined;
+    if (exact) {
+      return exact;
+    }
+
+    // 多个前缀都匹配时取最长的（如 gpt-4o-mini-2024-07-18 使用 gpt-4o-mini 而不是 gpt-4o 的价格）
+    const prefix = db.prepare(`
+      SELECT * FROM ai_model_prices
+      WHERE length(model) < length(?) AND substr(?, 1, length(model)) = model
+      ORDER BY length(model) DESC
+      LIMIT 1
+    `).get(model, model) as AIModelPriceRecord | undefined;
+    return prefix ?? null;
+  }
+
+  /**
+   * 计算费用：输入按输入价格，输出和思考token按输出价格
+   */
+  private calculateCost(
+    usage: Pick<RecordAIUsageParams, 'promptTokens' | 'completionTokens' | 'thinkingTokens'>,
+    price: AIModelPriceRecord
+  ): number {
+    return roundCost(
+      (usage.promptTokens * price.input_price_per_million +
+        (usage.completionTokens + usage.thinkingTokens) * price.output_price_per_million) / 1e6
+    );
+  }
+
+  /**
+   * 为没有费用的用量记录补算费用，返回补算的记录数
+   */
+  private backfillCosts(): number {
+    const db = databaseManager.getDatabase();
+    const rows = db
+      .prepare('SELECT id, model, prompt_tokens, completion_tokens, thinking_tokens FROM ai_usage WHERE cost_usd IS NULL')
+      .all() as Array<Pick<AIUsageDbRecord, 'id' | 'model' | 'prompt_tokens' | 'completion_tokens' | 'thinking_tokens'>>;
+
+    const update = db.prepare('UPDATE ai_usage SET cost_usd = ? WHERE id = ?');
+    const prices = new Map<string, AIModelPriceRecord | null>();
+    let count = 0;
+
+    db.transaction(() => {
+      for (const row of rows) {
+        if (!prices.has(row.model)) {
+          prices.set(row.model, this.findPrice(row.model));
+        }
+        const price = prices.get(row.model);
+        if (!price) {
+          continue;
+        }
+        update.run(this.calculateCost({
+          promptTokens: row.prompt_tokens,
+          completionTokens: row.completion_tokens,
+          thinkingTokens: row.thinking_tokens
+        }, price), row.id);
+        count++;
+      }
+    })();
+
+    return count;
+  }
+
+  /**
+   * 获取某一天的花费
+   */
+  private getDailyCost(usageDate: string): number {
+    const row = databaseManager.getDatabase()
+      .prepare('SELECT SUM(cost_usd) AS cost FROM ai_usage WHERE usage_date = ?')
+      .get(usageDate) as { cost: number | null };
+    return roundCost(row.cost ?? 0);
+  }
+
+  /**
+   * 当日花费超过预算时向管理员聊天发送提醒（每天一次）
+   */
+  private async checkBudget(usageDate: string): Promise<void> {
+    if (config.dailyBudgetUsd <= 0 || !config.budgetAlertChatId || !this.notifier || this.budgetAlertDate === usageDate) {
+      return;
+    }
+
+    const todayCost = this.getDailyCost(usageDate);
+    if (todayCost <= config.dailyBudgetUsd) {
+      return;
+    }
+
+    this.budgetAlertDate = usageDate;
+    logger.warn('AI花费超出每日预算', { usageDate, todayCost, dailyBudgetUsd: config.dailyBudgetUsd });
+
+    try {
+      await this.notifier(
+        config.budgetAlertChatId,
+        `💸 AI花费预算提醒\n${usageDate} 已花费 $${todayCost.toFixed(4)}，超过每日预算 $${config.dailyBudgetUsd}\n今天不再重复提醒。`
+      );
+    } catch (error) {
+      logger.error('发送预算提醒失败', {
+        chatId: config.budgetAlertChatId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+// 导出单例实例
+export const aiUsageTracker = new AIUsageTracker();
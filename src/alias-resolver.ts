@@ -0,0 +1,414 @@
+/**
+ * 本地交易对识别模块
+ * 在调用AI之前，先用可编辑的别名词典（大饼、姨太等）、消息中的币种代码和交易对注册表模糊匹配识别交易对；
+ * 结果明确时直接返回，存在无法识别的币种或意图不明确时交给AI两步识别
+ */
+
+import { logger } from './logger.js';
+import { databaseManager } from './config/database-manager.js';
+import { symbolRegistry } from './symbol-registry.js';
+import { splitSymbol, toCanonicalSymbol } from './exchange-utils.js';
+import { TradingAnalysisError } from './types.js';
+import type {
+  CreateSymbolAliasParams,
+  SymbolAlias,
+  TradingPairInfo,
+  TradingPairType,
+  UpdateSymbolAliasParams
+} from './types.js';
+
+// 词典为空时写入的默认别名
+const DEFAULT_ALIASES: Array<{ alias: string; symbol: string }> = [
+  { alias: '大饼', symbol: 'BTCUSDT' },
+  { alias: '比特币', symbol: 'BTCUSDT' },
+  { alias: '二饼', symbol: 'ETHUSDT' },
+  { alias: '姨太', symbol: 'ETHUSDT' },
+  { alias: '以太坊', symbol: 'ETHUSDT' },
+  { alias: '以太', symbol: 'ETHUSDT' },
+  { alias: '狗狗币', symbol: 'DOGEUSDT' },
+  { alias: '狗子', symbol: 'DOGEUSDT' },
+  { alias: '索拉纳', symbol: 'SOLUSDT' },
+  { alias: '大索', symbol: 'SOLUSDT' },
+  { alias: '瑞波', symbol: 'XRPUSDT' },
+  { alias: '瑞波币', symbol: 'XRPUSDT' },
+  { alias: '币安币', symbol: 'BNBUSDT' },
+  { alias: '艾达', symbol: 'ADAUSDT' },
+  { alias: '莱特币', symbol: 'LTCUSDT' },
+  { alias: '柚子', symbol: 'EOSUSDT' },
+  { alias: '波场', symbol: 'TRXUSDT' },
+  { alias: '狐狸币', symbol: 'SHIBUSDT' },
+  { alias: '青蛙', symbol: 'PEPEUSDT' }
+];
+
+// 提示词中最多列出的别名映射数量
+const MAX_PROMPT_MAPPINGS = 30;
+
+// 可能是币种代码的英文单词（前后不能紧跟字母或数字）
+const TICKER_PATTERN = /(?<![A-Za-z0-9])[A-Za-z][A-Za-z0-9]{1,19}(?![A-Za-z0-9])/g;
+
+// 常见的技术指标、交易术语和英文单词，不作为币种代码处理
+const TICKER_STOP_WORDS = new Set([
+  'K', 'KLINE', 'AI', 'OK', 'HI', 'VS', 'PK', 'OR', 'AND', 'THE', 'IS', 'NOW', 'PLS', 'PLEASE',
+  'USDT', 'USDC', 'USD', 'BUSD', 'FDUSD', 'U', 'PERP', 'SWAP', 'SPOT', 'FUTURES',
+  'LONG', 'SHORT', 'BUY', 'SELL', 'TP', 'SL', 'ATH', 'ATL', 'ETF', 'FOMO', 'FUD', 'HODL', 'DCA',
+  'CPI', 'FOMC', 'FED', 'API', 'OI', 'ICT', 'SMC', 'FVG', 'MA', 'EMA', 'SMA', 'RSI', 'KDJ', 'MACD',
+  'BOLL', 'VOL', 'ATR', 'OBV', 'CCI', 'WR', 'SAR', 'DMI', 'VWAP'
+]);
+
+// 带周期的指标写法，如 MA20、EMA200、RSI14
+const INDICATOR_PATTERN = /^(MA|EMA|SMA|RSI|KDJ|MACD|BOLL|VOL|ATR|CCI|WR)\d+$/;
+
+// 明确要看合约的关键字
+const FUTURES_PATTERN = /合约|永续|期货|perp|futures|swap/i;
+
+// 短线进出场类问题的关键字（需要盘口数据）
+const ORDER_BOOK_PATTERN = /盘口|挂单|买卖墙|买墙|卖墙|深度|大单|追高|能追|追吗|抄底|进场|入场|出场|现在能买|现在买/;
+
+// 交易分析意图的关键字
+const ANALYSIS_INTENT_PATTERN = /分析|走势|行情|价格|多少|涨|跌|看|支撑|阻力|压力|趋势|技术|指标|点位|K线|能不能|怎么|怎样|咋样|如何|哪个|强|弱|对比|比较|吗|呢|买|卖|追|抄底|做多|做空|止损|止盈|[?？]/i;
+
+// 去掉币种和关键字后剩余文字不超过该长度时，视为只发了币种名（如“大饼”、“BTC合约”）
+const MAX_BARE_MENTION_LENGTH = 2;
+
+/**
+ * 数据库中的别名记录
+ */
+interface SymbolAliasRecord {
+  id: number;
+  alias: string;
+  symbol: string;
+  market_type: TradingPairType | null;
+  enabled: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * 消息中识别到的一个币种
+ */
+interface SymbolMention {
+  index: number;
+  symbol: string;
+  tradingPairType: TradingPairType;
+  path: LocalResolutionPath;
+}
+
+/**
+ * 本地识别途径，按可信度从高到低排列
+ */
+export type LocalResolutionPath = 'alias' | 'ticker' | 'fuzzy';
+
+const PATH_RANK: Record<LocalResolutionPath, number> = { alias: 0, ticker: 1, fuzzy: 2 };
+
+/**
+ * 本地识别结果
+ */
+export interface LocalResolution {
+  /** 按提及顺序排列的交易对（已去重） */
+  tradingPairs: TradingPairInfo[];
+  /** 可信度最低的识别途径 */
+  path: LocalResolutionPath;
+  needsOrderBook: boolean;
+}
+
+/**
+ * 将数据库记录转换为别名对象
+ */
+function toSymbolAlias(record: SymbolAliasRecord): SymbolAlias {
+  return {
+    id: record.id,
+    alias: record.alias,
+    symbol: record.symbol,
+    marketType: record.market_type,
+    enabled: Boolean(record.enabled),
+    createdAt: record.created_at,
+    updatedAt: record.updated_at
+  };
+}
+
+/**
+ * 判断消息是否在问短线进出场时机（需要附加盘口和近期成交数据）
+ */
+export function mentionsOrderBook(message: string): boolean {
+  return ORDER_BOOK_PATTERN.test(message);
+}
+
+/**
+ * 转义正则表达式特殊字符
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 本地交易对识别器
+ */
+export class AliasResolver {
+  /** 启用的别名（按长度降序，保证“大姨太”优先于“姨太”被匹配），为 null 时需要重新加载 */
+  private aliases: SymbolAlias[] | null = null;
+
+  /**
+   * 获取全部别名
+   */
+  listAliases(): SymbolAlias[] {
+    this.ensureDefaults();
+    const records = databaseManager.getDatabase()
+      .prepare('SELECT * FROM symbol_aliases ORDER BY symbol, alias')
+      .all() as SymbolAliasRecord[];
+    return records.map(toSymbolAlias);
+  }
+
+  /**
+   * 获取单个别名
+   */
+  getAlias(id: number): SymbolAlias | null {
+    const record = databaseManager.getDatabase()
+      .prepare('SELECT * FROM symbol_aliases WHERE id = ?')
+      .get(id) as SymbolAliasRecord | undefined;
+    return record ? toSymbolAlias(record) : null;
+  }
+
+  /**
+   * 新增别名
+   */
+  createAlias(params: CreateSymbolAliasParams): SymbolAlias {
+    const normalized = this.validateParams(params);
+    this.assertAliasAvailable(normalized.alias);
+
+    const result = databaseManager.getDatabase().prepare(`
+      INSERT INTO symbol_aliases (alias, symbol, market_type, enabled) VALUES (?, ?, ?, ?)
+    `).run(normalized.alias, normalized.symbol, normalized.marketType, normalized.enabled ? 1 : 0);
+
+    this.aliases = null;
+    logger.info('币种别名已添加', { ...normalized });
+    return this.getAlias(result.lastInsertRowid as number)!;
+  }
+
+  /**
+   * 更新别名（未提供的字段保持不变）
+   */
+  updateAlias(id: number, updates: UpdateSymbolAliasParams): SymbolAlias | null {
+    const existing = this.getAlias(id);
+    if (!existing) {
+      return null;
+    }
+
+    const normalized = this.validateParams({
+      alias: updates.alias ?? existing.alias,
+      symbol: updates.symbol ?? existing.symbol,
+      marketType: updates.marketType !== undefined ? updates.marketType : existing.marketType,
+      enabled: updates.enabled ?? existing.enabled
+    });
+    this.assertAliasAvailable(normalized.alias, id);
+
+    databaseManager.getDatabase().prepare(`
+      UPDATE symbol_aliases
+      SET alias = ?, symbol = ?, market_type = ?, enabled = ?, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(normalized.alias, normalized.symbol, normalized.marketType, normalized.enabled ? 1 : 0, id);
+
+    this.aliases = null;
+    logger.info('币种别名已更新', { id, ...normalized });
+    return this.getAlias(id);
+  }
+
+  /**
+   * 删除别名
+   */
+  deleteAlias(id: number): boolean {
+    const result = databaseManager.getDatabase().prepare('DELETE FROM symbol_aliases WHERE id = ?').run(id);
+    if (result.changes === 0) {
+      return false;
+    }
+
+    this.aliases = null;
+    logger.info('币种别名已删除', { id });
+    return true;
+  }
+
+  /**
+   * 生成提示词中的常见币种映射（同一交易对的别名合并为一行）
+   */
+  getPromptMappings(): string[] {
+    const grouped = new Map<string, string[]>();
+    for (const alias of this.getEnabledAliases()) {
+      const names = grouped.get(alias.symbol) ?? [];
+      names.push(alias.alias);
+      grouped.set(alias.symbol, names);
+    }
+
+    return Array.from(grouped.entries())
+      .slice(0, MAX_PROMPT_MAPPINGS)
+      .map(([symbol, names]) => `${names.join('/')} → ${symbol}`);
+  }
+
+  /**
+   * 从消息中识别交易对，结果不明确时返回 null
+   */
+  resolve(message: string): LocalResolution | null {
+    const defaultType: TradingPairType = FUTURES_PATTERN.test(message) ? 'futures' : 'spot';
+    const mentions: SymbolMention[] = [];
+    let remaining = message;
+
+    // 1. 别名词典：匹配过的位置替换为空格，避免被再次识别为币种代码
+    for (const alias of this.getEnabledAliases()) {
+      const pattern = /^[A-Za-z0-9]+$/.test(alias.alias)
+        ? new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(alias.alias)}(?![A-Za-z0-9])`, 'gi')
+        : new RegExp(escapeRegExp(alias.alias), 'gi');
+
+      remaining = remaining.replace(pattern, (match: string, index: number) => {
+        mentions.push({ index, symbol: alias.symbol, tradingPairType: alias.marketType ?? defaultType, path: 'alias' });
+        return ' '.repeat(match.length);
+      });
+    }
+
+    // 2. 币种代码：先查注册表，没有时再尝试唯一的模糊匹配
+    for (const match of remaining.matchAll(TICKER_PATTERN)) {
+      const token = match[0].toUpperCase();
+      if (TICKER_STOP_WORDS.has(token) || INDICATOR_PATTERN.test(token)) {
+        continue;
+      }
+
+      const mention = this.resolveTicker(token, defaultType, match.index);
+      if (!mention) {
+        logger.debug('本地识别遇到未知币种代码，交给AI识别', { token });
+        return null;
+      }
+      mentions.push(mention);
+      remaining = remaining.slice(0, match.index) + ' '.repeat(token.length) + remaining.slice(match.index + token.length);
+    }
+
+    if (mentions.length === 0 || !this.hasAnalysisIntent(message, remaining)) {
+      return null;
+    }
+
+    const tradingPairs: TradingPairInfo[] = [];
+    for (const mention of mentions.sort((a, b) => a.index - b.index)) {
+      if (!tradingPairs.some(pair => pair.symbol === mention.symbol)) {
+        tradingPairs.push({ symbol: mention.symbol, tradingPairType: mention.tradingPairType });
+      }
+    }
+
+    return {
+      tradingPairs,
+      path: mentions.reduce<LocalResolutionPath>(
+        (worst, mention) => PATH_RANK[mention.path] > PATH_RANK[worst] ? mention.path : worst,
+        'alias'
+      ),
+      needsOrderBook: mentionsOrderBook(message)
+    };
+  }
+
+  /**
+   * 识别单个币种代码：BTC 按 BTCUSDT 查找，ETHBTC 这类完整写法按原样查找；
+   * 先在指定类型中精确查找和模糊匹配（PEPE 合约 → 1000PEPEUSDT），都没有时再查另一种类型
+   */
+  private resolveTicker(token: string, tradingPairType: TradingPairType, index: number): SymbolMention | null {
+    const candidates = [`${token}USDT`];
+    if (splitSymbol(token)) {
+      candidates.push(token);
+    }
+    const fallbackType: TradingPairType = tradingPairType === 'spot' ? 'futures' : 'spot';
+
+    for (const type of [tradingPairType, fallbackType]) {
+      for (const candidate of candidates) {
+        const info = symbolRegistry.getSymbolInfo(candidate, type);
+        if (info) {
+          return { index, symbol: info.symbol, tradingPairType: type, path: 'ticker' };
+        }
+      }
+
+      const match = token.length >= 3 ? symbolRegistry.findBestMatch(candidates[0]!, type) : null;
+      if (match) {
+        return { index, symbol: match.info.symbol, tradingPairType: type, path: 'fuzzy' };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 判断消息是否为交易分析请求：包含分析类关键字，或者基本只有币种名
+   */
+  private hasAnalysisIntent(message: string, remaining: string): boolean {
+    if (ANALYSIS_INTENT_PATTERN.test(message)) {
+      return true;
+    }
+
+    const leftover = remaining
+      .replace(FUTURES_PATTERN, '')
+      .replace(/现货|币|[\s\p{P}\p{S}]/gu, '');
+    return leftover.length <= MAX_BARE_MENTION_LENGTH;
+  }
+
+  /**
+   * 获取启用的别名（带内存缓存）
+   */
+  private getEnabledAliases(): SymbolAlias[] {
+    if (!this.aliases) {
+      this.aliases = this.listAliases()
+        .filter(alias => alias.enabled)
+        .sort((a, b) => b.alias.length - a.alias.length);
+    }
+    return this.aliases;
+  }
+
+  /**
+   * 词典为空时写入默认别名
+   */
+  private ensureDefaults(): void {
+    const db = databaseManager.getDatabase();
+    const { count } = db.prepare('SELECT COUNT(*) as count FROM symbol_aliases').get() as { count: number };
+    if (count > 0) {
+      return;
+    }
+
+    const insert = db.prepare('INSERT OR IGNORE INTO symbol_aliases (alias, symbol) VALUES (?, ?)');
+    db.transaction(() => {
+      DEFAULT_ALIASES.forEach(({ alias, symbol }) => insert.run(alias, symbol));
+    })();
+    logger.info('已写入默认币种别名', { count: DEFAULT_ALIASES.length });
+  }
+
+  /**
+   * 校验并规范化别名参数
+   */
+  private validateParams(params: CreateSymbolAliasParams): {
+    alias: string;
+    symbol: string;
+    marketType: TradingPairType | null;
+    enabled: boolean;
+  } {
+    const alias = String(params.alias ?? '').trim();
+    if (!alias) {
+      throw new TradingAnalysisError('别名不能为空', 'INVALID_ALIAS');
+    }
+
+    const symbol = toCanonicalSymbol(String(params.symbol ?? ''));
+    if (!/^[A-Z0-9]{2,30}$/.test(symbol)) {
+      throw new TradingAnalysisError(`无效的交易对: ${params.symbol}`, 'INVALID_ALIAS', { symbol: params.symbol });
+    }
+
+    const marketType = params.marketType ?? null;
+    if (marketType !== null && marketType !== 'spot' && marketType !== 'futures') {
+      throw new TradingAnalysisError('交易对类型必须为 spot 或 futures', 'INVALID_ALIAS', { marketType });
+    }
+
+    return { alias, symbol, marketType, enabled: params.enabled ?? true };
+  }
+
+  /**
+   * 检查别名是否已被其他记录使用（不区分大小写）
+   */
+  private assertAliasAvailable(alias: string, excludeId?: number): void {
+    const record = databaseManager.getDatabase()
+      .prepare('SELECT id FROM symbol_aliases WHERE alias = ? COLLATE NOCASE')
+      .get(alias) as { id: number } | undefined;
+
+    if (record && record.id !== excludeId) {
+      throw new TradingAnalysisError(`别名已存在: ${alias}`, 'INVALID_ALIAS', { alias });
+    }
+  }
+}
+
+// 导出单例实例
+export const aliasResolver = new AliasResolver();
@@ -0,0 +1,96 @@
+/**
+ * 交易分析结果格式化
+ * 补全Telegram Markdown标记、添加标题和免责声明
+ */
+
+import { TradingAnalysisError } from './types.js';
+
+/**
+ * 验证和清理分析结果
+ */
+export function processAnalysisResult(result: string, symbol: string): string {
+  if (!result || result.trim().length === 0) {
+    throw new TradingAnalysisError(
+      'AI返回了空的分析结果',
+      'EMPTY_ANALYSIS_RESULT'
+    );
+  }
+
+  // 使用与流式格式化一致的格式
+  let formattedResult = result;
+  
+  // 对内容进行基本的Markdown格式化
+  formattedResult = formattedResult
+    // 确保标题使用粗体
+    .replace(/^(\d+\.\s*[\u4e00-\u9fa5]+.*?):/gm, '*$1:*')
+    // 确保重要价位使用代码块
+    .replace(/(\$?[\d,]+\.?\d*\s*USDT?)/g, '`$1`')
+    // 确保百分比使用代码块
+    .replace(/([+-]?\d+\.?\d*%)/g, '`$1`');
+
+  // 确保结果包含免责声明
+  if (!formattedResult.includes('免责声明') && !formattedResult.includes('仅供参考')) {
+    formattedResult += '\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n⚠️ *免责声明*：以上分析仅供参考，不构成投资建议，投资有风险，请谨慎决策。';
+  }
+
+  // 在结果开头添加交易对信息
+  const header = `📊 *${symbol} 交易分析报告*\n\n`;
+  
+  return header + formattedResult;
+}
+
+/**
+ * 修复Markdown格式，确保标记完整性
+ */
+function sanitizeMarkdown(text: string): string {
+  let sanitized = text;
+  
+  // 计算各种Markdown标记的数量
+  const boldCount = (sanitized.match(/\*/g) || []).length;
+  const codeCount = (sanitized.match(/`/g) || []).length;
+  const underlineCount = (sanitized.match(/_/g) || []).length;
+  
+  // 如果粗体标记数量是奇数，移除最后一个未配对的*
+  if (boldCount % 2 !== 0) {
+    const lastBoldIndex = sanitized.lastIndexOf('*');
+    if (lastBoldIndex !== -1) {
+      sanitized = sanitized.substring(0, lastBoldIndex) + sanitized.substring(lastBoldIndex + 1);
+    }
+  }
+  
+  // 如果代码标记数量是奇数，移除最后一个未配对的`
+  if (codeCount % 2 !== 0) {
+    const lastCodeIndex = sanitized.lastIndexOf('`');
+    if (lastCodeIndex !== -1) {
+      sanitized = sanitized.substring(0, lastCodeIndex) + sanitized.substring(lastCodeIndex + 1);
+    }
+  }
+  
+  // 如果下划线标记数量是奇数，移除最后一个未配对的_
+  if (underlineCount % 2 !== 0) {
+    const lastUnderlineIndex = sanitized.lastIndexOf('_');
+    if (lastUnderlineIndex !== -1) {
+      sanitized = sanitized.substring(0, lastUnderlineIndex) + sanitized.substring(lastUnderlineIndex + 1);
+    }
+  }
+  
+  return sanitized;
+}
+
+/**
+ * 格式化段落内容
+ */
+export function formatSegmentContent(content: string, isComplete: boolean): string {
+  let formattedContent = content;
+  
+  // 保持AI原始的Markdown格式，只做最小的安全处理
+  formattedContent = sanitizeMarkdown(formattedContent);
+  
+  // 如果是最后一段，添加免责声明
+  if (isComplete && !content.includes('免责声明') && !content.includes('仅供参考')) {
+    formattedContent += '\n\n━━━━━━━━━━━━━━━━━━━━━━━━━\n⚠️ *免责声明*：以上分析仅供参考，不构成投资建议，投资有风险，请谨慎决策。';
+  }
+  
+  // 最终安全检查：确保整个消息的Markdown格式正确
+  return sanitizeMarkdown(formattedContent);
+}
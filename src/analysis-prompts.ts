@@ -0,0 +1,117 @@
+/**
+ * 交易分析提示词构建
+ * 把K线、技术指标、合约数据和盘口数据填入单币种分析和多币种对比分析的提示词模板
+ */
+
+import { config } from './config.js';
+import type { TimeframeKlineData } from './types.js';
+import { getCurrentTime } from './timezone.js';
+import { promptManager, type PromptConfig } from './config/prompt-manager-v2.js';
+import { calculateTimeframeIndicators, formatIndicatorsForPrompt } from './indicator-snapshot.js';
+import { buildComparisonData, type ComparisonInput } from './comparison.js';
+import { buildFuturesPromptVariables } from './binance-futures.js';
+import { formatMarketDepthForPrompt } from './orderbook.js';
+import { getExchangeName, getKlineExchange } from './market-data.js';
+import type { AnalysisOptions } from './ai.js';
+
+// 精简K线变量中每个时间框架保留的最近K线数量
+const RECENT_KLINE_COUNT = 30;
+
+/**
+ * 构建交易分析提示词
+ */
+export async function buildAnalysisPrompt(
+  question: string,
+  symbol: string,
+  klineData: TimeframeKlineData,
+  promptConfig: PromptConfig,
+  options: AnalysisOptions = {}
+): Promise<string> {
+  // 构建完整的K线数据，使用格式化后的时间（跳过未获取的时间框架）
+  const fullKlineData = Object.entries(klineData).filter(([, data]) => data.length > 0).map(([timeframe, data]) => {
+    // 使用格式化后的时间数据
+    const formattedData = data.map((kline: any) => ({
+      // 使用已经格式化好的本地时间
+      openTime: kline.openTimeFormatted || kline.openTime,
+      closeTime: kline.closeTimeFormatted || kline.closeTime,
+      open: kline.open,
+      high: kline.high,
+      low: kline.low,
+      close: kline.close,
+      volume: kline.volume
+    }));
+
+    // 添加一些基础统计信息
+    const latest = formattedData[formattedData.length - 1];
+    const oldest = formattedData[0];
+    const priceChangePercent = ((latest.close - oldest.close) / oldest.close * 100).toFixed(2);
+    
+    return {
+      timeframe,
+      dataCount: formattedData.length,
+      timeRange: {
+        from: oldest.openTime,
+        to: latest.closeTime
+      },
+      priceRange: {
+        start: oldest.close,
+        end: latest.close,
+        changePercent: priceChangePercent,
+        high: Math.max(...formattedData.map((k: any) => k.high)),
+        low: Math.min(...formattedData.map((k: any) => k.low))
+      },
+      klines: formattedData
+    };
+  });
+
+  // 精简版K线数据：每个时间框架只保留最近的K线，配合技术指标使用以减少token消耗
+  const recentKlineData = fullKlineData.map(({ klines, ...rest }) => ({
+    ...rest,
+    klines: klines.slice(-RECENT_KLINE_COUNT)
+  }));
+
+  // 本地计算技术指标，避免模型自行估算
+  const indicators = formatIndicatorsForPrompt(calculateTimeframeIndicators(klineData));
+  const exchange = getKlineExchange(klineData);
+  
+  // 替换提示词中的变量
+  return promptManager.replaceVariables(promptConfig.analysisPrompt, {
+    question,
+    symbol,
+    exchange: exchange ? getExchangeName(exchange) : '未知',
+    timezone: config.timezone,
+    currentTime: getCurrentTime(),
+    klineData: JSON.stringify(fullKlineData, null, 2),
+    recentKlineData: JSON.stringify(recentKlineData, null, 2),
+    indicators,
+    ...buildFuturesPromptVariables(options.futuresData),
+    orderBook: formatMarketDepthForPrompt(options.marketDepth)
+  });
+}
+
+/**
+ * 构建多币种对比分析提示词
+ */
+export function buildComparisonPrompt(
+  question: string,
+  inputs: ComparisonInput[],
+  promptConfig: PromptConfig
+): string {
+  const symbols = inputs
+    .map(input => `${input.symbol}（${input.tradingPairType === 'futures' ? '合约' : '现货'}）`)
+    .join('、');
+
+  // 每个交易对的指标单独成块，便于模型区分
+  const indicators = inputs
+    .map(input => `【${input.symbol}】\n${formatIndicatorsForPrompt(calculateTimeframeIndicators(input.klineData))}`)
+    .join('\n\n');
+
+  return promptManager.replaceVariables(promptConfig.comparisonPrompt, {
+    question,
+    symbols,
+    timezone: config.timezone,
+    currentTime: getCurrentTime(),
+    comparisonData: buildComparisonData(inputs),
+    indicators
+  });
+}
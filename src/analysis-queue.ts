@@ -0,0 +1,257 @@
+/**
+ * 分析请求公平排队
+ * 每个聊天各自一个先进先出队列，名额释放时各聊天轮流开始队首请求，避免单个群的连续请求占满名额
+ */
+
+import { logger } from './logger.js';
+import { config } from './config.js';
+import type { AnalysisQueueOptions, AnalysisQueueOutcome, AnalysisQueueTicket } from './types.js';
+
+// 计算平均等待时间时保留的最近样本数
+const MAX_WAIT_SAMPLES = 50;
+
+/**
+ * 排队中的分析请求
+ */
+interface QueuedRequest {
+  id: number;
+  chatId: number;
+  weight: number;
+  enqueuedAt: number;
+  /** 最近一次通知的排队位置 */
+  position: number;
+  timer: NodeJS.Timeout;
+  resolve: (outcome: AnalysisQueueOutcome) => void;
+  onPositionChange: ((position: number) => void) | undefined;
+}
+
+/**
+ * 公平排队队列（名额的占用和释放由并发控制管理器负责）
+ */
+export class AnalysisQueue {
+  /** 每个聊天的排队请求（先进先出），Map 的顺序即各聊天轮流分配名额的顺序 */
+  private queues: Map<number, QueuedRequest[]> = new Map();
+
+  /** 下一个排队凭证ID */
+  private nextTicketId = 1;
+
+  /** 最近开始的排队请求的等待时间（毫秒） */
+  private recentWaits: number[] = [];
+
+  /**
+   * @param onRemoved 请求因超时或取消移出队列后的回调
+   */
+  constructor(private readonly onRemoved: () => void) {}
+
+  /**
+   * 分配排队凭证ID（立即开始的请求同样分配）
+   */
+  createTicketId(): number {
+    return this.nextTicketId++;
+  }
+
+  /**
+   * 该聊天是否有排队中的请求
+   */
+  has(chatId: number): boolean {
+    return this.queues.has(chatId);
+  }
+
+  /**
+   * 没有排队中的请求
+   */
+  isEmpty(): boolean {
+    return this.queues.size === 0;
+  }
+
+  /**
+   * 加入该聊天的队列，总队列或该聊天的队列已满时返回 queue_full
+   */
+  enqueue(chatId: number, weight: number, options: AnalysisQueueOptions): AnalysisQueueTicket {
+    const id = this.createTicketId();
+    const chatQueue = this.queues.get(chatId) ?? [];
+    const queueDepth = this.getDepth();
+    if (queueDepth >= config.maxQueueSize || chatQueue.length >= config.maxQueuePerChat) {
+      logger.warn('排队已满，拒绝分析请求', {
+        chatId,
+        queueDepth,
+        chatQueueDepth: chatQueue.length,
+        maxQueueSize: config.maxQueueSize,
+        maxQueuePerChat: config.maxQueuePerChat
+      });
+      return { id, position: 0, result: Promise.resolve('queue_full') };
+    }
+
+    let resolve!: (outcome: AnalysisQueueOutcome) => void;
+    const result = new Promise<AnalysisQueueOutcome>(r => { resolve = r; });
+    const timeoutMs = options.timeoutMs ?? config.queueTimeoutSeconds * 1000;
+
+    chatQueue.push({
+      id,
+      chatId,
+      weight,
+      enqueuedAt: Date.now(),
+      position: 0,
+      timer: setTimeout(() => this.remove(id, 'timeout'), timeoutMs),
+      resolve,
+      onPositionChange: undefined
+    });
+    this.queues.set(chatId, chatQueue);
+    this.refreshPositions();
+
+    // 入队位置通过返回值告知，之后的变化才触发回调
+    const request = chatQueue[chatQueue.length - 1]!;
+    request.onPositionChange = options.onPositionChange;
+
+    logger.info('分析请求进入排队', {
+      chatId,
+      ticketId: id,
+      position: request.position,
+      queueDepth: queueDepth + 1
+    });
+
+    return { id, position: request.position, result };
+  }
+
+  /**
+   * 从队列中移除请求并通知结果
+   */
+  remove(ticketId: number, outcome: AnalysisQueueOutcome): boolean {
+    for (const [chatId, chatQueue] of this.queues.entries()) {
+      const index = chatQueue.findIndex(request => request.id === ticketId);
+      if (index === -1) {
+        continue;
+      }
+
+      const [request] = chatQueue.splice(index, 1);
+      if (chatQueue.length === 0) {
+        this.queues.delete(chatId);
+      }
+      clearTimeout(request!.timer);
+      request!.resolve(outcome);
+
+      logger.info(outcome === 'timeout' ? '排队超时' : '取消排队', {
+        chatId,
+        ticketId,
+        waitedMs: Date.now() - request!.enqueuedAt
+      });
+
+      this.refreshPositions();
+      this.onRemoved();
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 按轮流顺序开始各聊天的队首请求，开始后该聊天移到轮转末尾
+   */
+  dispatch(
+    canStart: (chatId: number, weight: number) => boolean,
+    start: (chatId: number, weight: number) => void
+  ): void {
+    let started = false;
+
+    for (const [chatId, chatQueue] of Array.from(this.queues.entries())) {
+      const request = chatQueue[0]!;
+      if (!canStart(chatId, request.weight)) {
+        continue;
+      }
+
+      chatQueue.shift();
+      this.queues.delete(chatId);
+      if (chatQueue.length > 0) {
+        this.queues.set(chatId, chatQueue);
+      }
+      clearTimeout(request.timer);
+
+      const waitedMs = Date.now() - request.enqueuedAt;
+      this.recentWaits.push(waitedMs);
+      if (this.recentWaits.length > MAX_WAIT_SAMPLES) {
+        this.recentWaits.shift();
+      }
+
+      start(chatId, request.weight);
+      logger.info('排队请求开始分析', { chatId, ticketId: request.id, waitedMs });
+      request.resolve('started');
+      started = true;
+    }
+
+    if (started) {
+      this.refreshPositions();
+    }
+  }
+
+  /**
+   * 当前排队的请求总数
+   */
+  getDepth(): number {
+    let depth = 0;
+    for (const chatQueue of this.queues.values()) {
+      depth += chatQueue.length;
+    }
+    return depth;
+  }
+
+  /**
+   * 有排队请求的聊天数
+   */
+  getChatCount(): number {
+    return this.queues.size;
+  }
+
+  /**
+   * 等待最久的排队请求已等待的时间（毫秒）
+   */
+  getOldestWaitMs(): number {
+    const now = Date.now();
+    let oldestWaitMs = 0;
+    for (const chatQueue of this.queues.values()) {
+      oldestWaitMs = Math.max(oldestWaitMs, now - chatQueue[0]!.enqueuedAt);
+    }
+    return oldestWaitMs;
+  }
+
+  /**
+   * 最近开始的排队请求的平均等待时间（毫秒），还没有样本时返回 null
+   */
+  getAverageWaitMs(): number | null {
+    return this.recentWaits.length > 0
+      ? Math.round(this.recentWaits.reduce((sum, wait) => sum + wait, 0) / this.recentWaits.length)
+      : null;
+  }
+
+  /**
+   * 按轮流顺序重新计算排队位置（第一轮为各聊天的队首，第二轮为第二个请求，依此类推），
+   * 位置变化时通知请求方
+   */
+  private refreshPositions(): void {
+    const chatQueues = Array.from(this.queues.values());
+    let position = 0;
+
+    for (let round = 0; chatQueues.some(chatQueue => chatQueue.length > round); round++) {
+      for (const chatQueue of chatQueues) {
+        const request = chatQueue[round];
+        if (!request) {
+          continue;
+        }
+
+        position++;
+        if (request.position === position) {
+          continue;
+        }
+        request.position = position;
+
+        try {
+          request.onPositionChange?.(position);
+        } catch (error) {
+          logger.warn('排队位置通知失败', {
+            chatId: request.chatId,
+            ticketId: request.id,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * 交易分析AI调用
+ * 普通调用、检测段落完成标记并逐段回调的流式调用，以及从分析结论提炼结构化交易计划
+ */
+
+import { config } from './config.js';
+import { logger } from './logger.js';
+import type { AIUsageStage, TradeSetup, TradingPairType } from './types.js';
+import { TradingAnalysisError } from './types.js';
+import { createChatCompletion, createStreamingChatCompletion, type AIMessage } from './ai-client.js';
+import type { PromptConfig } from './config/prompt-manager-v2.js';
+import { TRADE_SETUP_SCHEMA, validateTradeSetup } from './trade-setup.js';
+import { formatSegmentContent } from './analysis-format.js';
+
+/**
+ * 调用 AI API 进行交易分析
+ */
+export async function callAnalysisAPI(prompt: string, promptConfig: PromptConfig, history: AIMessage[] = []): Promise<string> {
+  try {
+    const messages: AIMessage[] = [
+      {
+        role: 'system' as const,
+        content: promptConfig.systemPrompt
+      },
+      ...history,
+      {
+        role: 'user' as const,
+        content: prompt
+      }
+    ];
+
+    const response = await createChatCompletion(messages, {
+      temperature: 0.3,
+      maxTokens: 8000,
+      enableThinking: true,
+      thinkingBudget: -1, // 启用动态思考
+      stage: history.length > 0 ? 'follow_up' : 'analysis'
+    });
+
+    const analysisResult = response.content;
+    
+    if (!analysisResult) {
+      throw new Error('AI返回了空的分析结果');
+    }
+
+    // 打印思考过程（如果存在）
+    if (response.thoughts) {
+      logger.info('🧠 AI思考过程', {
+        model: config.openaiModel,
+        thoughts: response.thoughts.substring(0, 500) + (response.thoughts.length > 500 ? '...' : ''),
+        thoughtsLength: response.thoughts.length
+      });
+    }
+    
+    logger.info('AI交易分析完成', {
+      responseLength: analysisResult.length,
+      model: config.openaiModel,
+      tokensUsed: response.usage?.total_tokens || 'unknown',
+      hasThoughts: !!response.thoughts
+    });
+    
+    return analysisResult.trim();
+    
+  } catch (error) {
+    logger.error('AI分析API调用失败', {
+      error: error instanceof Error ? error.message : String(error),
+      model: config.openaiModel
+    });
+    
+    throw new TradingAnalysisError(
+      `AI分析服务调用失败: ${error instanceof Error ? error.message : String(error)}`,
+      'AI_API_ERROR',
+      { baseURL: config.openaiBaseUrl, model: config.openaiModel }
+    );
+  }
+}
+
+/**
+ * 调用流式API，检测段落完成标记并逐段回调，返回完整输出
+ */
+export async function streamAnalysisSegments(
+  messages: AIMessage[],
+  symbol: string,
+  stage: AIUsageStage,
+  onUpdate?: (content: string, isComplete: boolean, isNewSegment?: boolean) => Promise<void>
+): Promise<string> {
+  // 调用流式API
+  const stream = await createStreamingChatCompletion(messages, {
+    temperature: 0.8,
+    maxTokens: 10000,
+    enableThinking: true,
+    thinkingBudget: -1,
+    stage
+  });
+
+  let fullContent = '';
+  let currentSegment = '';
+  let segmentCount = 0;
+  let analysisComplete = false;
+
+  // 处理流式响应（分析完成后继续读到流结束，用量在最后返回，剩余内容忽略）
+  for await (const chunk of stream) {
+    if (analysisComplete && !chunk.finished) {
+      continue;
+    }
+    if (chunk.content && !chunk.finished) {
+      fullContent += chunk.content;
+      currentSegment += chunk.content;
+      
+      // 检查是否有完成标记
+      if (currentSegment.includes('[SEGMENT_COMPLETE]') || currentSegment.includes('[ANALYSIS_COMPLETE]')) {
+        const isAnalysisComplete = currentSegment.includes('[ANALYSIS_COMPLETE]');
+        
+        // 找到标记的位置
+        const segmentCompleteIndex = currentSegment.indexOf('[SEGMENT_COMPLETE]');
+        const analysisCompleteIndex = currentSegment.indexOf('[ANALYSIS_COMPLETE]');
+        
+        let markerIndex = -1;
+        if (segmentCompleteIndex !== -1 && analysisCompleteIndex !== -1) {
+          markerIndex = Math.min(segmentCompleteIndex, analysisCompleteIndex);
+        } else if (segmentCompleteIndex !== -1) {
+          markerIndex = segmentCompleteIndex;
+        } else if (analysisCompleteIndex !== -1) {
+          markerIndex = analysisCompleteIndex;
+        }
+        
+        if (markerIndex !== -1) {
+          // 提取标记前的内容作为当前段落
+          let currentSegmentContent = currentSegment.substring(0, markerIndex).trim();
+          
+          if (currentSegmentContent && onUpdate) {
+            segmentCount++;
+                        // 只发送新完成的段落内容
+          const formattedContent = formatSegmentContent(currentSegmentContent, isAnalysisComplete);
+            
+            logger.info('检测到段落完成', {
+              symbol,
+              segmentCount,
+              isAnalysisComplete,
+              segmentLength: currentSegmentContent.length,
+              segmentPreview: currentSegmentContent.substring(0, 100) + (currentSegmentContent.length > 100 ? '...' : '')
+            });
+            
+            await onUpdate(formattedContent, isAnalysisComplete, true);
+          }
+          
+          // 重置当前段落，保留标记后的内容作为下一段的开始
+          const remainingContent = currentSegment.substring(markerIndex);
+          if (isAnalysisComplete) {
+            currentSegment = '';
+          } else {
+            // 移除已处理的标记，保留后续内容
+            currentSegment = remainingContent
+              .replace('[SEGMENT_COMPLETE]', '')
+              .replace('[ANALYSIS_COMPLETE]', '');
+          }
+          
+          if (isAnalysisComplete) {
+            analysisComplete = true;
+          }
+        }
+      }
+    } else if (chunk.finished) {
+      break;
+    }
+  }
+
+  return fullContent;
+}
+
+/**
+ * 从分析结论中提炼结构化交易计划（使用结构化输出，失败时返回 null，不影响分析主流程）
+ */
+export async function generateTradeSetup(
+  symbol: string,
+  tradingPairType: TradingPairType,
+  analysisText: string,
+  referencePrice: number
+): Promise<TradeSetup | null> {
+  const marketText = tradingPairType === 'futures' ? '合约' : '现货';
+  const messages: AIMessage[] = [
+    {
+      role: 'system' as const,
+      content: '你是交易计划整理助手。根据给定的技术分析结论提炼出一份交易计划，只能使用分析中给出或可以直接推导的价位，不要引入新的观点。' +
+        '分析结论不明确或建议观望时，direction 为 neutral，价格字段为 null，takeProfits 为空数组。' +
+        '做多时止损低于入场区间、止盈高于入场区间；做空相反。只输出符合要求的JSON。'
+    },
+    {
+      role: 'user' as const,
+      content: `交易对：${symbol}（${marketText}）\n当前价格：${referencePrice}\n\n分析结论：\n${analysisText}`
+    }
+  ];
+
+  try {
+    const response = await createChatCompletion(messages, {
+      temperature: 0.1,
+      maxTokens: 1000,
+      responseSchema: TRADE_SETUP_SCHEMA,
+      stage: 'trade_setup'
+    });
+
+    const setup = validateTradeSetup(parseJsonObject(response.content), referencePrice);
+
+    logger.info('交易计划生成完成', {
+      symbol,
+      direction: setup.direction,
+      confidence: setup.confidence,
+      tokensUsed: response.usage?.total_tokens || 'unknown'
+    });
+
+    return setup;
+  } catch (error) {
+    logger.warn('交易计划生成失败', {
+      symbol,
+      error: error instanceof Error ? error.message : String(error),
+      details: error instanceof TradingAnalysisError ? error.details : undefined
+    });
+    return null;
+  }
+}
+
+/**
+ * 解析AI返回的JSON对象（兼容不支持结构化输出的模型用代码块包裹或附带说明文字的情况）
+ */
+function parseJsonObject(content: string): unknown {
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('AI返回内容中没有JSON对象');
+  }
+  return JSON.parse(content.slice(start, end + 1));
+}
@@ -0,0 +1,248 @@
+/**
+ * AI意图识别请求
+ * 构建第一步常规识别和第二步带交易对上下文的识别提示词，调用AI并解析返回的JSON结果
+ */
+
+import { config } from './config.js';
+import { logger } from './logger.js';
+import type { AIUsageStage, MessageAnalysisResult, TradingPairInfo } from './types.js';
+import { TradingAnalysisError } from './types.js';
+import { createChatCompletion, type AIMessage } from './ai-client.js';
+import { aliasResolver } from './alias-resolver.js';
+import type { InheritedTradingPair } from './analyzer.js';
+
+/**
+ * 构建包含交易对上下文的二次识别提示词
+ */
+export function buildAnalysisPromptWithContext(message: string, spotPairs: string[], futuresPairs: string[]): string {
+  // 现货：只显示USDT交易对的名称和key值
+  const spotUsdtPairs = spotPairs.filter(pair => pair.endsWith('USDT')).sort();
+  
+  // 合约：显示所有USDT交易对，不包含非USDT
+  const futuresUsdtPairs = futuresPairs.filter(pair => pair.endsWith('USDT')).sort();
+  
+  // 构建显示列表
+  const displaySpotPairs = spotUsdtPairs; // 现货只要USDT交易对
+  const displayFuturesPairs = futuresUsdtPairs; // 合约显示所有USDT交易对
+
+  // 打印上下文统计信息
+  logger.info('二次识别上下文统计', {
+    totalSpotPairs: spotPairs.length,
+    totalFuturesPairs: futuresPairs.length,
+    displaySpotPairs: displaySpotPairs.length,
+    displayFuturesPairs: displayFuturesPairs.length,
+    spotUsdtCount: spotUsdtPairs.length,
+    futuresUsdtCount: futuresUsdtPairs.length
+  });
+  
+  return `请分析用户消息，并提取交易对: 用户消息"${message}"
+
+****下面提供完整的现货和合约交易对名称，请从中选择最匹配的交易对，优先匹配现货，如果现货没有则匹配合约****
+现货USDT: ${displaySpotPairs.join(',')}
+合约USDT: ${displayFuturesPairs.join(',')}
+
+****请严格按照以下JSON格式返回，不要包含任何其他文字、解释或markdown格式::****
+{"isTradeAnalysis": true, "tradingPair": "BTCUSDT", "tradingPairType": "spot"}
+规则: tradingPairType用"spot"或"futures"
+
+`;
+}
+
+/**
+ * 构建追问上下文说明（附加在意图识别提示词末尾）
+ */
+function buildFollowUpContext(inherited: InheritedTradingPair): string {
+  const typeText = inherited.tradingPairType === 'futures' ? '合约' : '现货';
+  return `
+
+上下文：该消息是用户对 ${inherited.tradingPair}（${typeText}）分析结果的追问。
+- 询问之前分析中的内容（如支撑位、阻力位、止损、其他周期、后续走势）都属于交易分析请求，返回 isTradeAnalysis: true
+- 如果消息没有明确提到其他币种，tradingPair 设为 null，系统会沿用 ${inherited.tradingPair}
+- 如果明确提到了其他币种，按上述规则正常提取`;
+}
+
+/**
+ * 构建意图识别提示词
+ */
+export function buildAnalysisPrompt(message: string, inherited?: InheritedTradingPair): string {
+  const followUpContext = inherited ? buildFollowUpContext(inherited) : '';
+  const aliasMappings = aliasResolver.getPromptMappings().map(mapping => `   - ${mapping}`).join('\n');
+  return `请分析用户消息，判断是否为加密货币交易分析请求，如果是则提取交易对。
+
+用户消息: "${message}"
+
+请严格按照以下JSON格式返回，不要包含任何其他文字、解释或markdown格式:
+{
+  "isTradeAnalysis": true,
+  "tradingPair": "BTCUSDT",
+  "tradingPairType": "spot"
+}
+
+识别规则：
+1. 如果用户询问任何加密货币的价格、走势、分析、技术指标等，返回 isTradeAnalysis: true
+2. 分析方法不是关键字：缠论、威科夫、江恩等只是分析方法，重点是识别币种
+3. 需要区分是合约还是现货，如果用户明确要查询合约则返回 tradingPairType: "futures"，否则默认返回现货 tradingPairType: "spot"
+4. 交易对格式统一为币安格式，如 BTCUSDT、ETHUSDT、SOLUSDT  
+5. 常见币种映射：
+${aliasMappings}
+6. 如果无法识别具体交易对，tradingPair 设为 null
+7. 如果不是交易分析请求，返回 isTradeAnalysis: false, tradingPair: null
+8. 如果用户要求对比或同时分析多个币种，额外返回 tradingPairs 数组（按提及顺序列出全部交易对及各自类型），tradingPair 为第一个
+9. 如果用户询问短线进出场时机、挂单、买卖墙、盘口、现在能不能追/抄底等短期操作问题，额外返回 "needsOrderBook": true
+
+示例：
+"分析比特币" → {"isTradeAnalysis": true, "tradingPair": "BTCUSDT","tradingPairType": "spot"}
+"使用缠论分析比特币" → {"isTradeAnalysis": true, "tradingPair": "BTCUSDT","tradingPairType": "spot"}
+"BTC合约走势如何" → {"isTradeAnalysis": true, "tradingPair": "BTCUSDT","tradingPairType": "futures"}
+"SOL和ETH哪个更强" → {"isTradeAnalysis": true, "tradingPair": "SOLUSDT", "tradingPairType": "spot", "tradingPairs": [{"symbol": "SOLUSDT", "type": "spot"}, {"symbol": "ETHUSDT", "type": "spot"}]}
+"BTC上方有大卖墙吗，现在能追吗" → {"isTradeAnalysis": true, "tradingPair": "BTCUSDT", "tradingPairType": "spot", "needsOrderBook": true}
+"今天天气如何" → {"isTradeAnalysis": false, "tradingPair": null}${followUpContext}`;
+}
+
+/**
+ * 调用AI API进行意图识别（stage 区分第一步常规识别和第二步带交易对上下文的识别）
+ */
+export async function callAIAPI(prompt: string, stage: AIUsageStage): Promise<string> {
+  try {
+    const messages: AIMessage[] = [
+      {
+        role: 'user' as const,
+        content: prompt
+      }
+    ];
+    
+    const response = await createChatCompletion(messages, {
+      temperature: 0.1,
+      maxTokens: 1000, // 增加输出token限制
+      enableThinking: true,
+      thinkingBudget: -1, // 启用动态思考
+      stage
+    });
+
+    const content = response.content;
+    if (!content) {
+      throw new Error('AI API响应中content为空');
+    }
+
+    // 打印思考过程（如果存在）
+    if (response.thoughts) {
+      logger.info('🧠 意图识别思考过程', {
+        model: config.openaiModel,
+        thoughts: response.thoughts.substring(0, 200) + (response.thoughts.length > 200 ? '...' : ''),
+        thoughtsLength: response.thoughts.length
+      });
+    }
+
+    logger.info('AI意图识别完成', {
+      model: config.openaiModel,
+      tokensUsed: response.usage?.total_tokens || 'unknown',
+      hasThoughts: !!response.thoughts
+    });
+
+    return content.trim();
+  } catch (error) {
+    logger.error('AI意图识别失败', {
+      error: error instanceof Error ? error.message : String(error),
+      model: config.openaiModel
+    });
+    
+    throw new TradingAnalysisError(
+      `AI API 调用失败: ${error instanceof Error ? error.message : String(error)}`,
+      'AI_API_ERROR'
+    );
+  }
+}
+
+/**
+ * 解析 AI 响应结果
+ */
+export function parseAIResponse(aiResponse: string): MessageAnalysisResult {
+  try {
+    // 清理响应内容，移除可能的markdown格式
+    let cleanResponse = aiResponse.trim();
+    
+    logger.debug('原始AI响应', { 
+      response: cleanResponse.substring(0, 500) + (cleanResponse.length > 500 ? '...' : ''),
+      fullLength: cleanResponse.length 
+    });
+    
+    // 如果包含markdown代码块，提取JSON部分
+    const jsonMatch = cleanResponse.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
+    if (jsonMatch) {
+      cleanResponse = jsonMatch[1];
+      logger.debug('从markdown代码块中提取JSON', { extractedJson: cleanResponse });
+    } else {
+      // 查找JSON对象（处理可能存在的其他文本）
+      const jsonStart = cleanResponse.indexOf('{');
+      const jsonEnd = cleanResponse.lastIndexOf('}');
+      if (jsonStart !== -1 && jsonEnd !== -1) {
+        cleanResponse = cleanResponse.substring(jsonStart, jsonEnd + 1);
+        logger.debug('从文本中提取JSON对象', { extractedJson: cleanResponse });
+      }
+    }
+    
+    // 尝试解析 JSON
+    const parsed = JSON.parse(cleanResponse);
+    
+    // 验证响应格式
+    if (typeof parsed.isTradeAnalysis !== 'boolean') {
+      throw new Error('isTradeAnalysis 必须为布尔值');
+    }
+    
+    if (parsed.tradingPair !== null && typeof parsed.tradingPair !== 'string') {
+      throw new Error('tradingPair 必须为字符串或 null');
+    }
+
+    // 验证交易对类型（如果存在）
+    if (parsed.tradingPairType && !['spot', 'futures'].includes(parsed.tradingPairType)) {
+      throw new Error('tradingPairType 必须为 "spot" 或 "futures"');
+    }
+
+    logger.debug('JSON解析成功', { parsed });
+
+    const result: MessageAnalysisResult = {
+      isTradeAnalysis: parsed.isTradeAnalysis,
+      tradingPair: parsed.tradingPair,
+      tradingPairType: parsed.tradingPairType || 'spot', // 默认为现货
+      confidence: 0.9 // 默认置信度
+    };
+
+    // 短线进出场类问题需要盘口数据
+    if (parsed.needsOrderBook === true) {
+      result.needsOrderBook = true;
+    }
+
+    // 多币种对比：忽略格式不正确的项
+    if (Array.isArray(parsed.tradingPairs)) {
+      const tradingPairs: TradingPairInfo[] = parsed.tradingPairs
+        .filter((item: any) => item && typeof item.symbol === 'string' && item.symbol.trim())
+        .map((item: any) => ({
+          symbol: item.symbol.trim().toUpperCase(),
+          tradingPairType: item.type === 'futures' ? 'futures' : 'spot'
+        }));
+      if (tradingPairs.length > 1) {
+        result.tradingPairs = tradingPairs;
+      }
+    }
+
+    return result;
+    
+  } catch (error) {
+    logger.error('AI 响应解析失败', {
+      error: error instanceof Error ? error.message : String(error),
+      responsePreview: aiResponse.substring(0, 200) + (aiResponse.length > 200 ? '...' : ''),
+      responseLength: aiResponse.length
+    });
+    
+    // 如果解析失败，返回AI错误标识
+    logger.warn('AI响应解析失败，返回错误响应');
+    return {
+      isTradeAnalysis: false,
+      tradingPair: null,
+      tradingPairType: 'spot',
+      confidence: 0.0,
+      hasAIError: true,
+      errorMessage: 'AI响应格式解析失败'
+    };
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * 交易对本地识别和验证
+ * 别名词典本地识别，以及依次查询本地交易对注册表、各交易所接口和注册表模糊匹配，确认交易对真实存在并得到实际的现货/合约类型
+ */
+
+import { config } from './config.js';
+import { logger } from './logger.js';
+import type { MessageAnalysisResult, TradingPairInfo, TradingPairType } from './types.js';
+import { findTradingPair, type ResolvedTradingPair } from './market-data.js';
+import { symbolRegistry } from './symbol-registry.js';
+import { aliasResolver } from './alias-resolver.js';
+
+/**
+ * 通过API验证交易对真实性（轻量级快速验证）
+ * 优先查询本地交易对注册表；注册表中没有时（如刚上线）再按数据源优先级请求各交易所，
+ * 仍找不到时用注册表模糊匹配纠正 1000PEPEUSDT、BTCUSD 这类写法
+ */
+export async function validateTradingPairByAPI(pair: string | null, tradingPairType: TradingPairType = 'spot'): Promise<{ 
+  isValid: boolean; 
+  validatedPair: string | null; 
+  finalTradingPairType: TradingPairType 
+}> {
+  if (!pair) {
+    return { isValid: false, validatedPair: null, finalTradingPairType: tradingPairType };
+  }
+  
+  logger.debug('开始API验证交易对', { pair, tradingPairType });
+  
+  const resolved = symbolRegistry.resolve(pair, tradingPairType)
+    ?? await findTradingPair(pair, tradingPairType)
+    ?? resolveByFuzzyMatch(pair, tradingPairType);
+  
+  if (!resolved) {
+    logger.debug('所有验证都失败', { pair, tradingPairType });
+    return { isValid: false, validatedPair: null, finalTradingPairType: tradingPairType };
+  }
+  
+  logger.debug('API验证成功', { 
+    pair: resolved.symbol, 
+    originalType: tradingPairType,
+    finalType: resolved.tradingPairType,
+    exchange: resolved.exchange
+  });
+  
+  return { 
+    isValid: true, 
+    validatedPair: resolved.symbol, 
+    finalTradingPairType: resolved.tradingPairType  // 返回实际验证成功的类型
+  };
+}
+
+/**
+ * 注册表模糊匹配，只在得分足够高且没有同分候选时采用
+ */
+function resolveByFuzzyMatch(pair: string, tradingPairType: TradingPairType): ResolvedTradingPair | null {
+  const best = symbolRegistry.findBestMatch(pair, tradingPairType);
+  if (!best) {
+    return null;
+  }
+
+  logger.info('交易对通过模糊匹配纠正', { pair, matched: best.info.symbol, score: best.score });
+  return { symbol: best.info.symbol, tradingPairType: best.info.tradingPairType, exchange: best.info.exchange };
+}
+
+/**
+ * 验证对比分析的多个交易对（去重、截断到上限后并行验证，只保留有效的交易对）
+ */
+export async function validateComparisonPairs(pairs: TradingPairInfo[]): Promise<{
+  validPairs: TradingPairInfo[];
+  truncated: boolean;
+}> {
+  const uniquePairs = pairs.filter((pair, index) =>
+    pairs.findIndex(p => p.symbol === pair.symbol && p.tradingPairType === pair.tradingPairType) === index
+  );
+  const truncated = uniquePairs.length > config.maxCompareSymbols;
+  const candidates = uniquePairs.slice(0, config.maxCompareSymbols);
+
+  const validations = await Promise.all(
+    candidates.map(pair => validateTradingPairByAPI(pair.symbol, pair.tradingPairType))
+  );
+
+  const validPairs: TradingPairInfo[] = [];
+  validations.forEach((validation, index) => {
+    if (validation.isValid && validation.validatedPair) {
+      validPairs.push({ symbol: validation.validatedPair, tradingPairType: validation.finalTradingPairType });
+    } else {
+      logger.info('对比交易对验证失败，已忽略', { pair: candidates[index] });
+    }
+  });
+
+  return { validPairs, truncated };
+}
+
+/**
+ * 本地识别交易对（别名词典、币种代码、注册表模糊匹配），结果不明确或验证失败时返回 null
+ */
+export async function analyzeMessageLocally(message: string): Promise<MessageAnalysisResult | null> {
+  const resolution = aliasResolver.resolve(message);
+  if (!resolution) {
+    return null;
+  }
+
+  const result: MessageAnalysisResult = {
+    isTradeAnalysis: true,
+    tradingPair: null,
+    tradingPairType: 'spot',
+    confidence: resolution.path === 'fuzzy' ? 0.9 : 1.0,
+    resolvedBy: resolution.path
+  };
+  if (resolution.needsOrderBook) {
+    result.needsOrderBook = true;
+  }
+
+  if (resolution.tradingPairs.length > 1) {
+    const { validPairs, truncated } = await validateComparisonPairs(resolution.tradingPairs);
+    // 有交易对验证失败时说明别名可能配置有误，交给AI重新识别
+    if (validPairs.length < Math.min(resolution.tradingPairs.length, config.maxCompareSymbols)) {
+      return null;
+    }
+    return {
+      ...result,
+      tradingPair: validPairs[0]!.symbol,
+      tradingPairType: validPairs[0]!.tradingPairType,
+      tradingPairs: validPairs,
+      comparisonTruncated: truncated
+    };
+  }
+
+  const pair = resolution.tradingPairs[0]!;
+  const validation = await validateTradingPairByAPI(pair.symbol, pair.tradingPairType);
+  if (!validation.isValid) {
+    logger.warn('本地识别的交易对验证失败', { ...pair, path: resolution.path });
+    return null;
+  }
+
+  return {
+    ...result,
+    tradingPair: validation.validatedPair,
+    tradingPairType: validation.finalTradingPairType
+  };
+}
@@ -1,307 +1,22 @@
 /**
  * AI 意图识别和交易对提取模块
+ * 先用本地别名词典和交易对注册表识别，结果不明确时再走AI两步识别
+ * 提示词构建和AI调用见 analyzer-ai.ts，本地识别和交易对验证见 analyzer-validation.ts
  * 严格遵守 300 行以内规范
  */
 
-import axios from 'axios';
-import { config } from './config.js';
 import { logger } from './logger.js';
 import type { MessageAnalysisResult, TradingPairType } from './types.js';
-import { TradingAnalysisError } from './types.js';
-import { createChatCompletion, type AIMessage } from './ai-client.js';
 import { getEnhancedTradingPairs } from './trading-pairs.js';
+import { buildAnalysisPrompt, buildAnalysisPromptWithContext, callAIAPI, parseAIResponse } from './analyzer-ai.js';
+import { analyzeMessageLocally, validateComparisonPairs, validateTradingPairByAPI } from './analyzer-validation.js';
 
 /**
- * 构建包含交易对上下文的二次识别提示词
+ * 追问时可继承的上一轮交易对
  */
-function buildAnalysisPromptWithContext(message: string, spotPairs: string[], futuresPairs: string[]): string {
-  // 现货：只显示USDT交易对的名称和key值
-  const spotUsdtPairs = spotPairs.filter(pair => pair.endsWith('USDT')).sort();
-  
-  // 合约：显示所有USDT交易对，不包含非USDT
-  const futuresUsdtPairs = futuresPairs.filter(pair => pair.endsWith('USDT')).sort();
-  
-  // 构建显示列表
-  const displaySpotPairs = spotUsdtPairs; // 现货只要USDT交易对
-  const displayFuturesPairs = futuresUsdtPairs; // 合约显示所有USDT交易对
-
-  // 打印上下文统计信息
-  logger.info('二次识别上下文统计', {
-    totalSpotPairs: spotPairs.length,
-    totalFuturesPairs: futuresPairs.length,
-    displaySpotPairs: displaySpotPairs.length,
-    displayFuturesPairs: displayFuturesPairs.length,
-    spotUsdtCount: spotUsdtPairs.length,
-    futuresUsdtCount: futuresUsdtPairs.length
-  });
-  
-  return `请分析用户消息，并提取交易对: 用户消息"${message}"
-
-****下面提供完整的现货和合约交易对名称，请从中选择最匹配的交易对，优先匹配现货，如果现货没有则匹配合约****
-现货USDT: ${displaySpotPairs.join(',')}
-合约USDT: ${displayFuturesPairs.join(',')}
-
-
-****请严格按照以下JSON格式返回，不要包含任何其他文字、解释或markdown格式::****
-{"isTradeAnalysis": true, "tradingPair": "BTCUSDT", "tradingPairType": "spot"}
-规则: tradingPairType用"spot"或"futures"
-
-`;
-}
-
-
-
-/**
- * 构建意图识别提示词
- */
-function buildAnalysisPrompt(message: string): string {
-  return `请分析用户消息，判断是否为加密货币交易分析请求，如果是则提取交易对。
-
-用户消息: "${message}"
-
-请严格按照以下JSON格式返回，不要包含任何其他文字、解释或markdown格式:
-{
-  "isTradeAnalysis": true,
-  "tradingPair": "BTCUSDT",
-  "tradingPairType": "spot"
-}
-
-识别规则：
-1. 如果用户询问任何加密货币的价格、走势、分析、技术指标等，返回 isTradeAnalysis: true
-2. 分析方法不是关键字：缠论、威科夫、江恩等只是分析方法，重点是识别币种
-3. 需要区分是合约还是现货，如果用户明确要查询合约则返回 tradingPairType: "futures"，否则默认返回现货 tradingPairType: "spot"
-4. 交易对格式统一为币安格式，如 BTCUSDT、ETHUSDT、SOLUSDT  
-5. 常见币种映射：
-   - 比特币/BTC → BTCUSDT
-   - 以太坊/ETH → ETHUSDT  
-   - 狗狗币/DOGE → DOGEUSDT
-   - 索拉纳/SOL → SOLUSDT
-6. 如果无法识别具体交易对，tradingPair 设为 null
-7. 如果不是交易分析请求，返回 isTradeAnalysis: false, tradingPair: null
-
-示例：
-"分析比特币" → {"isTradeAnalysis": true, "tradingPair": "BTCUSDT","tradingPairType": "spot"}
-"使用缠论分析比特币" → {"isTradeAnalysis": true, "tradingPair": "BTCUSDT","tradingPairType": "spot"}
-"BTC合约走势如何" → {"isTradeAnalysis": true, "tradingPair": "BTCUSDT","tradingPairType": "futures"}
-"今天天气如何" → {"isTradeAnalysis": false, "tradingPair": null}`;
-}
-
-/**
- * 调用AI API进行意图识别
- */
-async function callAIAPI(prompt: string): Promise<string> {
-  try {
-    const messages: AIMessage[] = [
-      {
-        role: 'user' as const,
-        content: prompt
-      }
-    ];
-    
-    const response = await createChatCompletion(messages, {
-      temperature: 0.1,
-      maxTokens: 1000, // 增加输出token限制
-      enableThinking: true,
-      thinkingBudget: -1 // 启用动态思考
-    });
-
-    const content = response.content;
-    if (!content) {
-      throw new Error('AI API响应中content为空');
-    }
-
-    // 打印思考过程（如果存在）
-    if (response.thoughts) {
-      logger.info('🧠 意图识别思考过程', {
-        model: config.openaiModel,
-        thoughts: response.thoughts.substring(0, 200) + (response.thoughts.length > 200 ? '...' : ''),
-        thoughtsLength: response.thoughts.length
-      });
-    }
-
-    logger.info('AI意图识别完成', {
-      model: config.openaiModel,
-      tokensUsed: response.usage?.total_tokens || 'unknown',
-      hasThoughts: !!response.thoughts
-    });
-
-    return content.trim();
-  } catch (error) {
-    logger.error('AI意图识别失败', {
-      error: error instanceof Error ? error.message : String(error),
-      model: config.openaiModel
-    });
-    
-    throw new TradingAnalysisError(
-      `AI API 调用失败: ${error instanceof Error ? error.message : String(error)}`,
-      'AI_API_ERROR'
-    );
-  }
-}
-
-/**
- * 解析 AI 响应结果
- */
-function parseAIResponse(aiResponse: string): MessageAnalysisResult {
-  try {
-    // 清理响应内容，移除可能的markdown格式
-    let cleanResponse = aiResponse.trim();
-    
-    logger.debug('原始AI响应', { 
-      response: cleanResponse.substring(0, 500) + (cleanResponse.length > 500 ? '...' : ''),
-      fullLength: cleanResponse.length 
-    });
-    
-    // 如果包含markdown代码块，提取JSON部分
-    const jsonMatch = cleanResponse.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-    if (jsonMatch) {
-      cleanResponse = jsonMatch[1];
-      logger.debug('从markdown代码块中提取JSON', { extractedJson: cleanResponse });
-    } else {
-      // 查找JSON对象（处理可能存在的其他文本）
-      const jsonStart = cleanResponse.indexOf('{');
-      const jsonEnd = cleanResponse.lastIndexOf('}');
-      if (jsonStart !== -1 && jsonEnd !== -1) {
-        cleanResponse = cleanResponse.substring(jsonStart, jsonEnd + 1);
-        logger.debug('从文本中提取JSON对象', { extractedJson: cleanResponse });
-      }
-    }
-    
-    // 尝试解析 JSON
-    const parsed = JSON.parse(cleanResponse);
-    
-    // 验证响应格式
-    if (typeof parsed.isTradeAnalysis !== 'boolean') {
-      throw new Error('isTradeAnalysis 必须为布尔值');
-    }
-    
-    if (parsed.tradingPair !== null && typeof parsed.tradingPair !== 'string') {
-      throw new Error('tradingPair 必须为字符串或 null');
-    }
-
-    // 验证交易对类型（如果存在）
-    if (parsed.tradingPairType && !['spot', 'futures'].includes(parsed.tradingPairType)) {
-      throw new Error('tradingPairType 必须为 "spot" 或 "futures"');
-    }
-
-    logger.debug('JSON解析成功', { parsed });
-
-    return {
-      isTradeAnalysis: parsed.isTradeAnalysis,
-      tradingPair: parsed.tradingPair,
-      tradingPairType: parsed.tradingPairType || 'spot', // 默认为现货
-      confidence: 0.9 // 默认置信度
-    };
-    
-  } catch (error) {
-    logger.error('AI 响应解析失败', {
-      error: error instanceof Error ? error.message : String(error),
-      responsePreview: aiResponse.substring(0, 200) + (aiResponse.length > 200 ? '...' : ''),
-      responseLength: aiResponse.length
-    });
-    
-    // 如果解析失败，返回AI错误标识
-    logger.warn('AI响应解析失败，返回错误响应');
-    return {
-      isTradeAnalysis: false,
-      tradingPair: null,
-      tradingPairType: 'spot',
-      confidence: 0.0,
-      hasAIError: true,
-      errorMessage: 'AI响应格式解析失败'
-    };
-  }
-}
-
-/**
- * 通过API验证交易对真实性（轻量级快速验证）
- */
-async function validateTradingPairByAPI(pair: string | null, tradingPairType: TradingPairType = 'spot'): Promise<{ 
-  isValid: boolean; 
-  validatedPair: string | null; 
-  finalTradingPairType: TradingPairType 
-}> {
-  if (!pair) {
-    return { isValid: false, validatedPair: null, finalTradingPairType: tradingPairType };
-  }
-  
-  const cleanPair = pair.trim().toUpperCase();
-  
-  try {
-    // 根据交易对类型选择API端点
-    const apiBase = tradingPairType === 'futures' 
-      ? 'https://fapi.binance.com/fapi/v1' 
-      : 'https://api.binance.com/api/v3';
-    
-    logger.debug('开始API验证交易对', { 
-      pair: cleanPair, 
-      tradingPairType,
-      apiBase 
-    });
-    
-    // 只获取1条最新K线数据，最小化数据传输
-    await axios.get(`${apiBase}/klines`, {
-      params: {
-        symbol: cleanPair,
-        interval: '1h', // 使用1小时间隔，数据量小
-        limit: 1        // 只要1条数据
-      },
-      timeout: 3000     // 3秒超时，确保速度
-    });
-    
-    logger.debug('API验证成功', { pair: cleanPair, tradingPairType });
-    return { isValid: true, validatedPair: cleanPair, finalTradingPairType: tradingPairType };
-    
-  } catch (error: any) {
-    logger.debug('主要类型API验证失败，尝试另一种类型', { 
-      pair: cleanPair, 
-      originalType: tradingPairType,
-      error: error.response?.status || error.message
-    });
-    
-    // 尝试另一种类型的验证
-    const fallbackType: TradingPairType = tradingPairType === 'spot' ? 'futures' : 'spot';
-    const fallbackApiBase = fallbackType === 'futures' 
-      ? 'https://fapi.binance.com/fapi/v1' 
-      : 'https://api.binance.com/api/v3';
-    
-    try {
-      await axios.get(`${fallbackApiBase}/klines`, {
-        params: {
-          symbol: cleanPair,
-          interval: '1h',
-          limit: 1
-        },
-        timeout: 3000
-      });
-      
-      logger.debug('回退验证成功，更新交易对类型', { 
-        pair: cleanPair, 
-        originalType: tradingPairType,
-        correctedType: fallbackType
-      });
-      
-      return { 
-        isValid: true, 
-        validatedPair: cleanPair, 
-        finalTradingPairType: fallbackType  // 返回实际验证成功的类型
-      };
-      
-    } catch (fallbackError: any) {
-      logger.debug('回退验证也失败', { 
-        pair: cleanPair, 
-        fallbackType,
-        error: fallbackError.response?.status || fallbackError.message 
-      });
-    }
-    
-    logger.debug('所有验证都失败', { 
-      pair: cleanPair, 
-      attemptedTypes: [tradingPairType, fallbackType]
-    });
-    
-    return { isValid: false, validatedPair: null, finalTradingPairType: tradingPairType };
-  }
+export interface InheritedTradingPair {
+  tradingPair: string;
+  tradingPairType: TradingPairType;
 }
 
 /**
@@ -318,7 +33,7 @@ async function analyzeMessageWithContext(message: string, spotPairs: string[], f
     const prompt = buildAnalysisPromptWithContext(message, spotPairs, futuresPairs);
     
     // 调用 AI 进行二次分析
-    const aiResponse = await callAIAPI(prompt);
+    const aiResponse = await callAIAPI(prompt, 'intent_context');
     
     // 解析 AI 响应
     const result = parseAIResponse(aiResponse);
@@ -352,8 +67,9 @@ async function analyzeMessageWithContext(message: string, spotPairs: string[], f
 /**
  * 分析用户消息
  * 主要导出函数 - 实现两步识别机制
+ * 传入 inherited 时表示追问，消息未指定币种时沿用上一轮的交易对
  */
-export async function analyzeMessage(message: string): Promise<MessageAnalysisResult> {
+export async function analyzeMessage(message: string, inherited?: InheritedTradingPair): Promise<MessageAnalysisResult> {
   if (!message || message.trim().length === 0) {
     return {
       isTradeAnalysis: false,
@@ -365,18 +81,76 @@ export async function analyzeMessage(message: string): Promise<MessageAnalysisRe
   }
 
   try {
-    logger.info('开始分析用户消息');
+    logger.info('开始分析用户消息', { inheritedPair: inherited?.tradingPair });
+
+    // 本地识别结果明确时无需调用AI
+    const localResult = await analyzeMessageLocally(message);
+    if (localResult) {
+      logger.info('本地识别交易对完成', {
+        tradingPair: localResult.tradingPair,
+        tradingPairType: localResult.tradingPairType,
+        tradingPairs: localResult.tradingPairs?.map(pair => pair.symbol),
+        resolvedBy: localResult.resolvedBy
+      });
+      return localResult;
+    }
     
     // 第一步：常规意图识别
-    const prompt = buildAnalysisPrompt(message);
-    const aiResponse = await callAIAPI(prompt);
+    const prompt = buildAnalysisPrompt(message, inherited);
+    const aiResponse = await callAIAPI(prompt, 'intent');
     const result = parseAIResponse(aiResponse);
+    result.resolvedBy = 'ai';
     
     logger.info('第一步分析完成', {
       isTradeAnalysis: result.isTradeAnalysis,
       tradingPair: result.tradingPair,
-      confidence: result.confidence
+      confidence: result.confidence,
+      needsOrderBook: result.needsOrderBook === true
     });
+
+    // 多币种对比分析：至少两个有效交易对时直接返回，否则按单币种继续处理
+    if (result.isTradeAnalysis && result.tradingPairs) {
+      const { validPairs, truncated } = await validateComparisonPairs(result.tradingPairs);
+      logger.info('对比交易对验证完成', {
+        requested: result.tradingPairs.map(pair => pair.symbol),
+        valid: validPairs.map(pair => pair.symbol),
+        truncated
+      });
+
+      delete result.tradingPairs;
+      if (validPairs.length > 1) {
+        return {
+          ...result,
+          tradingPair: validPairs[0]!.symbol,
+          tradingPairType: validPairs[0]!.tradingPairType,
+          tradingPairs: validPairs,
+          comparisonTruncated: truncated
+        };
+      }
+      if (validPairs.length === 1) {
+        return {
+          ...result,
+          tradingPair: validPairs[0]!.symbol,
+          tradingPairType: validPairs[0]!.tradingPairType
+        };
+      }
+    }
+
+    // 追问未指定币种（或仍是同一币种）时沿用上一轮交易对，无需再次验证
+    if (inherited && result.isTradeAnalysis && !result.hasAIError &&
+        (!result.tradingPair || result.tradingPair.toUpperCase() === inherited.tradingPair)) {
+      logger.info('追问沿用上一轮交易对', {
+        tradingPair: inherited.tradingPair,
+        tradingPairType: inherited.tradingPairType
+      });
+      return {
+        ...result,
+        tradingPair: inherited.tradingPair,
+        tradingPairType: result.tradingPair ? (result.tradingPairType || inherited.tradingPairType) : inherited.tradingPairType,
+        inheritedFromContext: true,
+        resolvedBy: 'context'
+      };
+    }
     
     // 检查是否需要API验证和可能的二次识别
     let needsSecondAnalysis = false;
@@ -439,6 +213,11 @@ export async function analyzeMessage(message: string): Promise<MessageAnalysisRe
             });
             secondResult.tradingPair = secondValidation.validatedPair;
             secondResult.tradingPairType = secondValidation.finalTradingPairType; // 更新为实际验证成功的类型
+            secondResult.resolvedBy = 'ai_context';
+            // 二次识别只负责匹配交易对，盘口需求沿用第一步的判断
+            if (result.needsOrderBook) {
+              secondResult.needsOrderBook = true;
+            }
             return secondResult;
           } else {
             logger.warn('二次识别的交易对API验证失败', { 
@@ -5,6 +5,7 @@
 
 import { logger } from './logger.js';
 import { databaseManager } from './config/database-manager.js';
+import { aiUsageTracker } from './ai-usage.js';
 import { 
   AuditLog, 
   CreateAuditLogParams, 
@@ -34,8 +35,9 @@ export class AuditLogger {
         INSERT INTO audit_logs (
           timestamp, telegram_user_id, telegram_username, telegram_display_name, chat_id, chat_type,
           source_type, question_text, identified_currency, currency_type,
-          result_status, error_message, response_length, processing_time_ms
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          result_status, error_message, response_length, processing_time_ms, resolution_path,
+          prompt_config_id, experiment_id, ai_model
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
     }
 
@@ -72,7 +74,11 @@ export class AuditLogger {
         params.resultStatus,
         params.errorMessage || null,
         params.responseLength || null,
-        params.processingTimeMs || null
+        params.processingTimeMs || null,
+        params.resolutionPath || null,
+        params.promptConfigId ?? null,
+        params.experimentId ?? null,
+        params.aiModel || null
       );
 
       logger.debug('审计日志记录成功', {
@@ -83,6 +89,9 @@ export class AuditLogger {
         resultStatus: params.resultStatus
       });
 
+      // 关联本次请求期间的AI调用用量
+      aiUsageTracker.attachToAuditLog(result.lastInsertRowid as number);
+
       return result.lastInsertRowid as number;
       
     } catch (error) {
@@ -188,24 +197,7 @@ export class AuditLogger {
       const stmt = db.prepare(query);
       const rows = stmt.all(...params);
       
-      return rows.map((row: any) => ({
-        id: row.id,
-        timestamp: row.timestamp,
-        telegramUserId: row.telegram_user_id,
-        telegramUsername: row.telegram_username,
-        telegramDisplayName: row.telegram_display_name,
-        chatId: row.chat_id,
-        chatType: row.chat_type,
-        sourceType: row.source_type,
-        questionText: row.question_text,
-        identifiedCurrency: row.identified_currency,
-        currencyType: row.currency_type,
-        resultStatus: row.result_status,
-        errorMessage: row.error_message,
-        responseLength: row.response_length,
-        processingTimeMs: row.processing_time_ms,
-        createdAt: row.created_at
-      }));
+      return rows.map((row: any) => this.toAuditLog(row));
       
     } catch (error) {
       logger.error('查询审计日志失败', {
@@ -218,6 +210,44 @@ export class AuditLogger {
     }
   }
 
+  /**
+   * 按ID获取审计日志
+   */
+  getLogById(id: number): AuditLog | null {
+    const row = databaseManager.getDatabase()
+      .prepare('SELECT * FROM audit_logs WHERE id = ?')
+      .get(id);
+    return row ? this.toAuditLog(row) : null;
+  }
+
+  /**
+   * 将数据库记录转换为审计日志对象
+   */
+  private toAuditLog(row: any): AuditLog {
+    return {
+      id: row.id,
+      timestamp: row.timestamp,
+      telegramUserId: row.telegram_user_id,
+      telegramUsername: row.telegram_username,
+      telegramDisplayName: row.telegram_display_name,
+      chatId: row.chat_id,
+      chatType: row.chat_type,
+      sourceType: row.source_type,
+      questionText: row.question_text,
+      identifiedCurrency: row.identified_currency,
+      currencyType: row.currency_type,
+      resultStatus: row.result_status,
+      errorMessage: row.error_message,
+      responseLength: row.response_length,
+      processingTimeMs: row.processing_time_ms,
+      resolutionPath: row.resolution_path,
+      promptConfigId: row.prompt_config_id,
+      experimentId: row.experiment_id,
+      aiModel: row.ai_model,
+      createdAt: row.created_at
+    };
+  }
+
   /**
    * 获取统计信息
    */
@@ -457,6 +487,18 @@ export class AuditLogger {
         if (row.processing_time_ms) {
           result.processingTimeMs = row.processing_time_ms;
         }
+        if (row.resolution_path) {
+          result.resolutionPath = row.resolution_path;
+        }
+        if (row.prompt_config_id) {
+          result.promptConfigId = row.prompt_config_id;
+        }
+        if (row.experiment_id) {
+          result.experimentId = row.experiment_id;
+        }
+        if (row.ai_model) {
+          result.aiModel = row.ai_model;
+        }
         
         return result;
       });
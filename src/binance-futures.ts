@@ -0,0 +1,365 @@
+/**
+ * 币安合约市场数据模块
+ * 获取资金费率、持仓量、大户多空比、主动买卖量和标记价格，并格式化为提示词变量
+ * 各数据项独立获取，单个接口失败时只记为不可用，不影响K线和分析流程
+ */
+
+import { logger } from './logger.js';
+import { binanceHttp, toBinanceError } from './binance-http.js';
+import { formatTimestampCompact } from './timezone.js';
+import type {
+  FundingRateRecord,
+  FuturesMarketData,
+  LongShortRatioRecord,
+  OpenInterestRecord,
+  PremiumIndexSnapshot,
+  TakerVolumeRecord
+} from './types.js';
+
+// 币安合约API基础URL
+const BINANCE_FUTURES_API_BASE = 'https://fapi.binance.com/fapi/v1';
+// 币安合约统计数据API基础URL（持仓量、多空比、主动买卖量）
+const BINANCE_FUTURES_DATA_BASE = 'https://fapi.binance.com/futures/data';
+
+// 统计数据的周期和条数：1小时 x 25 条，覆盖最近24小时
+const STATS_PERIOD = '1h';
+const STATS_LIMIT = 25;
+
+// 资金费率历史条数（每8小时结算一次，约3天）
+const FUNDING_RATE_LIMIT = 9;
+
+// 提示词中展示的最近数据点数量
+const PROMPT_RECENT_POINTS = 6;
+
+// 现货交易对没有合约数据时的变量值
+const SPOT_PLACEHOLDER = '当前为现货交易对，无合约市场数据';
+
+/**
+ * 请求合约接口
+ */
+async function fetchFuturesApi<T>(url: string, params: Record<string, string | number>): Promise<T> {
+  const response = await binanceHttp.get(url, { params, timeout: 10000 });
+  return response.data as T;
+}
+
+/**
+ * 获取标记价格、指数价格和预测资金费率
+ */
+async function getPremiumIndex(symbol: string): Promise<PremiumIndexSnapshot> {
+  const data = await fetchFuturesApi<any>(`${BINANCE_FUTURES_API_BASE}/premiumIndex`, { symbol });
+  return {
+    markPrice: parseFloat(data.markPrice),
+    indexPrice: parseFloat(data.indexPrice),
+    lastFundingRate: parseFloat(data.lastFundingRate),
+    nextFundingTime: new Date(data.nextFundingTime).toISOString()
+  };
+}
+
+/**
+ * 获取最近的资金费率结算记录
+ */
+async function getFundingRates(symbol: string): Promise<FundingRateRecord[]> {
+  const data = await fetchFuturesApi<any[]>(`${BINANCE_FUTURES_API_BASE}/fundingRate`, {
+    symbol,
+    limit: FUNDING_RATE_LIMIT
+  });
+  return data
+    .map(item => ({
+      fundingTime: new Date(item.fundingTime).toISOString(),
+      fundingRate: parseFloat(item.fundingRate)
+    }))
+    .sort((a, b) => a.fundingTime.localeCompare(b.fundingTime));
+}
+
+/**
+ * 获取持仓量历史
+ */
+async function getOpenInterestHistory(symbol: string): Promise<OpenInterestRecord[]> {
+  const data = await fetchFuturesApi<any[]>(`${BINANCE_FUTURES_DATA_BASE}/openInterestHist`, {
+    symbol,
+    period: STATS_PERIOD,
+    limit: STATS_LIMIT
+  });
+  return data
+    .map(item => ({
+      timestamp: new Date(item.timestamp).toISOString(),
+      openInterest: parseFloat(item.sumOpenInterest),
+      openInterestValue: parseFloat(item.sumOpenInterestValue)
+    }))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * 获取大户多空比历史（持仓或账户维度）
+ */
+async function getTopTraderRatio(
+  symbol: string,
+  endpoint: 'topLongShortPositionRatio' | 'topLongShortAccountRatio'
+): Promise<LongShortRatioRecord[]> {
+  const data = await fetchFuturesApi<any[]>(`${BINANCE_FUTURES_DATA_BASE}/${endpoint}`, {
+    symbol,
+    period: STATS_PERIOD,
+    limit: STATS_LIMIT
+  });
+  return data
+    .map(item => ({
+      timestamp: new Date(item.timestamp).toISOString(),
+      longShortRatio: parseFloat(item.longShortRatio),
+      longAccount: parseFloat(item.longAccount),
+      shortAccount: parseFloat(item.shortAccount)
+    }))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * 获取主动买卖量历史
+ */
+async function getTakerVolume(symbol: string): Promise<TakerVolumeRecord[]> {
+  const data = await fetchFuturesApi<any[]>(`${BINANCE_FUTURES_DATA_BASE}/takerlongshortRatio`, {
+    symbol,
+    period: STATS_PERIOD,
+    limit: STATS_LIMIT
+  });
+  return data
+    .map(item => ({
+      timestamp: new Date(item.timestamp).toISOString(),
+      buySellRatio: parseFloat(item.buySellRatio),
+      buyVolume: parseFloat(item.buyVol),
+      sellVolume: parseFloat(item.sellVol)
+    }))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/**
+ * 获取合约市场数据（不会抛出异常，获取失败的数据项记录在 unavailable 中）
+ */
+export async function getFuturesMarketData(symbol: string): Promise<FuturesMarketData> {
+  const cleanSymbol = symbol.trim().toUpperCase();
+  const unavailable: string[] = [];
+
+  const [premiumIndex, fundingRates, openInterest, topPositionRatio, topAccountRatio, takerVolume] =
+    await Promise.allSettled([
+      getPremiumIndex(cleanSymbol),
+      getFundingRates(cleanSymbol),
+      getOpenInterestHistory(cleanSymbol),
+      getTopTraderRatio(cleanSymbol, 'topLongShortPositionRatio'),
+      getTopTraderRatio(cleanSymbol, 'topLongShortAccountRatio'),
+      getTakerVolume(cleanSymbol)
+    ]);
+
+  const settle = <T>(result: PromiseSettledResult<T>, name: string, fallback: T): T => {
+    if (result.status === 'fulfilled') {
+      return result.value;
+    }
+    unavailable.push(name);
+    logger.warn('合约市场数据获取失败', {
+      symbol: cleanSymbol,
+      item: name,
+      error: toBinanceError(result.reason, cleanSymbol, 'futures').message
+    });
+    return fallback;
+  };
+
+  const data: FuturesMarketData = {
+    symbol: cleanSymbol,
+    period: STATS_PERIOD,
+    premiumIndex: settle<PremiumIndexSnapshot | null>(premiumIndex, '标记价格', null),
+    fundingRates: settle(fundingRates, '资金费率', []),
+    openInterest: settle(openInterest, '持仓量', []),
+    topPositionRatio: settle(topPositionRatio, '大户持仓多空比', []),
+    topAccountRatio: settle(topAccountRatio, '大户账户多空比', []),
+    takerVolume: settle(takerVolume, '主动买卖量', []),
+    unavailable
+  };
+
+  logger.info('合约市场数据获取完成', {
+    symbol: cleanSymbol,
+    fundingRates: data.fundingRates.length,
+    openInterest: data.openInterest.length,
+    unavailable
+  });
+
+  return data;
+}
+
+/**
+ * 数值格式化：保留6位有效数字
+ */
+function formatValue(value: number): string {
+  if (!Number.isFinite(value)) return '-';
+  return String(Number(value.toPrecision(6)));
+}
+
+/**
+ * 资金费率格式化（百分比，保留4位小数）
+ */
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(4)}%`;
+}
+
+/**
+ * 涨跌幅格式化，带正负号
+ */
+function formatChange(current: number, base: number): string {
+  if (!(base > 0)) return '-';
+  const change = (current / base - 1) * 100;
+  return `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`;
+}
+
+/**
+ * 统计序列首尾之间的小时数
+ */
+function spanHours(records: Array<{ timestamp: string }>): number {
+  const first = new Date(records[0]!.timestamp).getTime();
+  const last = new Date(records[records.length - 1]!.timestamp).getTime();
+  return Math.round((last - first) / 3600000);
+}
+
+/**
+ * 标记价格与基差
+ */
+export function formatMarkPrice(data: FuturesMarketData): string {
+  const snapshot = data.premiumIndex;
+  if (!snapshot) {
+    return '标记价格数据暂不可用';
+  }
+  const basis = snapshot.indexPrice > 0
+    ? ((snapshot.markPrice - snapshot.indexPrice) / snapshot.indexPrice) * 100
+    : NaN;
+  const basisText = Number.isFinite(basis) ? `${basis >= 0 ? '+' : ''}${basis.toFixed(4)}%` : '-';
+  return `标记价格 ${formatValue(snapshot.markPrice)} | 指数价格 ${formatValue(snapshot.indexPrice)} | 基差 ${basisText}`;
+}
+
+/**
+ * 资金费率：当前预测值、历史结算值及平均/年化
+ */
+export function formatFundingRate(data: FuturesMarketData): string {
+  const lines: string[] = [];
+
+  if (data.premiumIndex) {
+    const nextTime = formatTimestampCompact(new Date(data.premiumIndex.nextFundingTime).getTime());
+    lines.push(`当前预测资金费率 ${formatRate(data.premiumIndex.lastFundingRate)} | 下次结算 ${nextTime}`);
+  }
+
+  if (data.fundingRates.length > 0) {
+    const history = data.fundingRates
+      .map(record => `${formatRate(record.fundingRate)}(${formatTimestampCompact(new Date(record.fundingTime).getTime())})`)
+      .join(', ');
+    const average = data.fundingRates.reduce((sum, record) => sum + record.fundingRate, 0) / data.fundingRates.length;
+    lines.push(`最近${data.fundingRates.length}次结算: ${history}`);
+    // 币安大部分合约每8小时结算一次，每天3次
+    lines.push(`平均 ${formatRate(average)}（年化约 ${(average * 3 * 365 * 100).toFixed(2)}%）`);
+  }
+
+  return lines.length > 0 ? lines.join('\n') : '资金费率数据暂不可用';
+}
+
+/**
+ * 持仓量：最新值、区间变化和最近数据点
+ */
+export function formatOpenInterest(data: FuturesMarketData): string {
+  const records = data.openInterest;
+  if (records.length === 0) {
+    return '持仓量数据暂不可用';
+  }
+
+  const latest = records[records.length - 1]!;
+  const lines = [`持仓量 ${formatValue(latest.openInterest)} 币（价值 ${formatValue(latest.openInterestValue)} USDT）`];
+  if (records.length > 1) {
+    const first = records[0]!;
+    lines.push(
+      `近${spanHours(records)}小时变化: 持仓量 ${formatChange(latest.openInterest, first.openInterest)}，` +
+      `持仓价值 ${formatChange(latest.openInterestValue, first.openInterestValue)}`
+    );
+  }
+  const recent = records.slice(-PROMPT_RECENT_POINTS)
+    .map(record => `${formatValue(record.openInterest)}(${formatTimestampCompact(new Date(record.timestamp).getTime())})`)
+    .join(', ');
+  lines.push(`最近${data.period}持仓量: ${recent}`);
+  return lines.join('\n');
+}
+
+/**
+ * 单个多空比序列的描述
+ */
+function describeRatioSeries(label: string, records: LongShortRatioRecord[], period: string): string {
+  if (records.length === 0) {
+    return `${label}数据暂不可用`;
+  }
+  const latest = records[records.length - 1]!;
+  const first = records[0]!;
+  const recent = records.slice(-PROMPT_RECENT_POINTS).map(record => formatValue(record.longShortRatio)).join(', ');
+  return `${label} ${formatValue(latest.longShortRatio)}（多 ${(latest.longAccount * 100).toFixed(1)}% / 空 ${(latest.shortAccount * 100).toFixed(1)}%）` +
+    `，近${spanHours(records)}小时 ${formatValue(first.longShortRatio)} → ${formatValue(latest.longShortRatio)}` +
+    `，最近${period}: ${recent}`;
+}
+
+/**
+ * 大户多空比（持仓和账户两个维度）
+ */
+export function formatLongShortRatio(data: FuturesMarketData): string {
+  return [
+    describeRatioSeries('大户持仓多空比', data.topPositionRatio, data.period),
+    describeRatioSeries('大户账户多空比', data.topAccountRatio, data.period)
+  ].join('\n');
+}
+
+/**
+ * 主动买卖量：最新买卖比、区间累计买卖比
+ */
+export function formatTakerVolume(data: FuturesMarketData): string {
+  const records = data.takerVolume;
+  if (records.length === 0) {
+    return '主动买卖量数据暂不可用';
+  }
+
+  const latest = records[records.length - 1]!;
+  const totalBuy = records.reduce((sum, record) => sum + record.buyVolume, 0);
+  const totalSell = records.reduce((sum, record) => sum + record.sellVolume, 0);
+  const recent = records.slice(-PROMPT_RECENT_POINTS).map(record => formatValue(record.buySellRatio)).join(', ');
+  return [
+    `最新${data.period}主动买卖比 ${formatValue(latest.buySellRatio)}（买 ${formatValue(latest.buyVolume)} / 卖 ${formatValue(latest.sellVolume)}）`,
+    `近${spanHours(records)}小时累计主动买卖比 ${totalSell > 0 ? formatValue(totalBuy / totalSell) : '-'}`,
+    `最近${data.period}买卖比: ${recent}`
+  ].join('\n');
+}
+
+/**
+ * 生成合约数据相关的提示词变量（现货交易对或未获取时使用占位说明）
+ */
+export function buildFuturesPromptVariables(data: FuturesMarketData | null | undefined): Record<string, string> {
+  if (!data) {
+    return {
+      futuresData: SPOT_PLACEHOLDER,
+      markPrice: SPOT_PLACEHOLDER,
+      fundingRate: SPOT_PLACEHOLDER,
+      openInterest: SPOT_PLACEHOLDER,
+      longShortRatio: SPOT_PLACEHOLDER,
+      takerVolume: SPOT_PLACEHOLDER
+    };
+  }
+
+  const sections = {
+    markPrice: formatMarkPrice(data),
+    fundingRate: formatFundingRate(data),
+    openInterest: formatOpenInterest(data),
+    longShortRatio: formatLongShortRatio(data),
+    takerVolume: formatTakerVolume(data)
+  };
+
+  const futuresData = [
+    `【标记价格】\n${sections.markPrice}`,
+    `【资金费率】\n${sections.fundingRate}`,
+    `【持仓量】\n${sections.openInterest}`,
+    `【多空比】\n${sections.longShortRatio}`,
+    `【主动买卖量】\n${sections.takerVolume}`
+  ];
+  if (data.unavailable.length > 0) {
+    futuresData.push(`（以下数据暂不可用：${data.unavailable.join('、')}）`);
+  }
+
+  return {
+    futuresData: futuresData.join('\n\n'),
+    ...sections
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * 币安请求客户端
+ * 按响应头跟踪现货和合约的请求权重，接近上限时主动限流，并统一转换请求异常
+ */
+
+import axios from 'axios';
+import { logger } from './logger.js';
+import type { TradingPairType } from './types.js';
+import { TradingAnalysisError } from './types.js';
+
+// 每分钟请求权重上限（现货和合约分别计算）
+const BINANCE_WEIGHT_LIMITS: Record<TradingPairType, number> = {
+  spot: 6000,
+  futures: 2400
+};
+// 已用权重达到上限的该比例后主动暂停请求，避免触发 429 甚至 418 封禁
+const WEIGHT_SOFT_LIMIT_RATIO = 0.8;
+// 响应头中的已用权重字段
+const USED_WEIGHT_HEADER = 'x-mbx-used-weight-1m';
+
+/**
+ * 单个市场的请求权重使用情况
+ */
+interface WeightUsage {
+  /** 当前分钟已用权重（来自最近一次响应头） */
+  usedWeight: number;
+  /** 权重所属的分钟（币安按自然分钟重置） */
+  minute: number;
+  /** 被限流时服务端要求的恢复时间 */
+  blockedUntil: number;
+  /** 因权重过高被主动拦截的请求数 */
+  throttledRequests: number;
+}
+
+/**
+ * 币安请求权重跟踪器
+ * 根据响应头记录已用权重，接近上限时直接以 RATE_LIMIT 拒绝请求，由数据源回退链切换到其他交易所
+ */
+class BinanceRateLimiter {
+  private usage: Record<TradingPairType, WeightUsage> = {
+    spot: { usedWeight: 0, minute: 0, blockedUntil: 0, throttledRequests: 0 },
+    futures: { usedWeight: 0, minute: 0, blockedUntil: 0, throttledRequests: 0 }
+  };
+
+  /**
+   * 请求前检查是否需要限流
+   */
+  beforeRequest(tradingPairType: TradingPairType): void {
+    const usage = this.usage[tradingPairType];
+    const now = Date.now();
+
+    let retryAfterMs = 0;
+    if (now < usage.blockedUntil) {
+      retryAfterMs = usage.blockedUntil - now;
+    } else if (
+      usage.minute === Math.floor(now / 60000) &&
+      usage.usedWeight >= BINANCE_WEIGHT_LIMITS[tradingPairType] * WEIGHT_SOFT_LIMIT_RATIO
+    ) {
+      retryAfterMs = (usage.minute + 1) * 60000 - now;
+    }
+
+    if (retryAfterMs > 0) {
+      usage.throttledRequests++;
+      throw new TradingAnalysisError(
+        '请求频率限制，请稍后重试',
+        'RATE_LIMIT',
+        { exchange: 'binance', tradingPairType, usedWeight: usage.usedWeight, retryAfterMs }
+      );
+    }
+  }
+
+  /**
+   * 根据响应头和状态码更新权重使用情况
+   */
+  afterResponse(tradingPairType: TradingPairType, status: number | undefined, headers: Record<string, unknown> | undefined): void {
+    const usage = this.usage[tradingPairType];
+    const usedWeight = parseInt(String(headers?.[USED_WEIGHT_HEADER] ?? ''), 10);
+
+    if (!isNaN(usedWeight)) {
+      usage.usedWeight = usedWeight;
+      usage.minute = Math.floor(Date.now() / 60000);
+    }
+
+    if (status === 429 || status === 418) {
+      const retryAfterSeconds = parseInt(String(headers?.['retry-after'] ?? ''), 10);
+      usage.blockedUntil = Date.now() + (isNaN(retryAfterSeconds) ? 60 : retryAfterSeconds) * 1000;
+      logger.warn('币安请求被限流', { tradingPairType, status, retryAfterSeconds, usedWeight: usage.usedWeight });
+    }
+  }
+
+  /**
+   * 获取当前权重使用情况
+   */
+  getStatus(): Record<TradingPairType, { usedWeight: number; limit: number; blocked: boolean; throttledRequests: number }> {
+    const now = Date.now();
+    const currentMinute = Math.floor(now / 60000);
+    const describe = (tradingPairType: TradingPairType) => {
+      const usage = this.usage[tradingPairType];
+      return {
+        usedWeight: usage.minute === currentMinute ? usage.usedWeight : 0,
+        limit: BINANCE_WEIGHT_LIMITS[tradingPairType],
+        blocked: now < usage.blockedUntil,
+        throttledRequests: usage.throttledRequests
+      };
+    };
+
+    return { spot: describe('spot'), futures: describe('futures') };
+  }
+}
+
+// 导出单例实例
+export const binanceRateLimiter = new BinanceRateLimiter();
+
+/**
+ * 根据请求地址判断所属市场
+ */
+function getMarketByUrl(url: string | undefined): TradingPairType {
+  return url?.includes('fapi.binance.com') ? 'futures' : 'spot';
+}
+
+/**
+ * 币安请求专用的 axios 实例（自动跟踪请求权重），所有币安接口都应通过它发送
+ */
+export const binanceHttp = axios.create();
+
+binanceHttp.interceptors.request.use(requestConfig => {
+  binanceRateLimiter.beforeRequest(getMarketByUrl(requestConfig.url));
+  return requestConfig;
+});
+
+binanceHttp.interceptors.response.use(
+  response => {
+    binanceRateLimiter.afterResponse(getMarketByUrl(response.config.url), response.status, response.headers);
+    return response;
+  },
+  error => {
+    if (axios.isAxiosError(error) && error.response) {
+      binanceRateLimiter.afterResponse(getMarketByUrl(error.config?.url), error.response.status, error.response.headers);
+    }
+    return Promise.reject(error);
+  }
+);
+
+/**
+ * 将币安请求异常转换为统一的 TradingAnalysisError
+ */
+export function toBinanceError(
+  error: unknown,
+  symbol: string,
+  tradingPairType: TradingPairType,
+  details: Record<string, unknown> = {}
+): TradingAnalysisError {
+  if (error instanceof TradingAnalysisError) {
+    return error;
+  }
+
+  let errorMessage = error instanceof Error ? error.message : String(error);
+  let errorCode = 'BINANCE_API_ERROR';
+  
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const data = error.response?.data;
+    
+    if (status === 400 && data?.msg?.includes('Invalid symbol')) {
+      errorCode = 'INVALID_SYMBOL';
+      errorMessage = `无效的交易对: ${symbol} (${tradingPairType})`;
+    } else if (status === 429 || status === 418) {
+      errorCode = 'RATE_LIMIT';
+      errorMessage = '请求频率限制，请稍后重试';
+    } else {
+      errorMessage = `币安API错误: ${data?.msg || error.message}`;
+    }
+  }
+  
+  return new TradingAnalysisError(
+    errorMessage,
+    errorCode,
+    { symbol, tradingPairType, ...details }
+  );
+}
@@ -1,13 +1,13 @@
 /**
- * 币安 K线数据获取模块（使用官方 REST API）
+ * 币安行情数据提供者（使用官方 REST API）
  * 严格遵守 300 行以内规范
  */
 
-import axios from 'axios';
 import { logger } from './logger.js';
-import type { TimeframeKlineData, TimeframeType, KlineData, TradingPairType } from './types.js';
+import type { TimeframeType, KlineData, MarketDataProvider, SymbolInfo, TradingPairType } from './types.js';
 import { TradingAnalysisError } from './types.js';
-import { formatTimestampCompact } from './timezone.js';
+import { createKline, parseOptionalNumber } from './exchange-utils.js';
+import { binanceHttp, toBinanceError } from './binance-http.js';
 
 // 币安公开API基础URL
 const BINANCE_API_BASE = 'https://api.binance.com/api/v3';
@@ -15,207 +15,158 @@ const BINANCE_API_BASE = 'https://api.binance.com/api/v3';
 const BINANCE_FUTURES_API_BASE = 'https://fapi.binance.com/fapi/v1';
 
 /**
- * 支持的时间框架
- */
-const TIMEFRAMES = [
-  '15m',  // 15分钟
-  '1h',   // 1小时
-  '4h',   // 4小时
-  '1d',   // 1天
-  '1w',   // 1周
-  '1M'    // 1月
-] as const;
-
-/**
- * 转换币安原始K线数据格式并应用时区转换
+ * 转换币安原始K线数据格式
  * 币安API返回格式：[开盘时间, 开盘价, 最高价, 最低价, 收盘价, 成交量, 收盘时间, ...]
  */
 function transformKlineData(rawData: any[]): KlineData[] {
-  return rawData.map(item => {
-    const openTimeMs = parseInt(item[0]);
-    const closeTimeMs = parseInt(item[6]);
-    
-    return {
-      // 保存原始UTC时间戳用于计算，同时提供格式化的本地时间
-      openTime: new Date(openTimeMs).toISOString(),
-      open: item[1],
-      high: item[2],
-      low: item[3],
-      close: item[4],
-      volume: item[5],
-      closeTime: new Date(closeTimeMs).toISOString(),
-      // 添加紧凑格式的本地时间字段 (YY/MM/DD hh:mm)
-      openTimeFormatted: formatTimestampCompact(openTimeMs),
-      closeTimeFormatted: formatTimestampCompact(closeTimeMs)
-    };
-  });
+  return rawData.map(item => createKline('binance', parseInt(item[0]), parseInt(item[6]), {
+    open: item[1],
+    high: item[2],
+    low: item[3],
+    close: item[4],
+    volume: item[5]
+  }));
 }
 
 /**
- * 获取单个时间框架的K线数据（支持现货和合约）
+ * 根据交易对类型选择API基础URL
  */
-async function getSingleTimeframeKlines(
-  symbol: string,
-  interval: TimeframeType,
-  tradingPairType: TradingPairType = 'spot',
-  limit: number = 100
-): Promise<KlineData[]> {
-  try {
-    logger.debug(`获取K线数据`, { symbol, interval, tradingPairType, limit });
-    
-    // 根据交易对类型选择API基础URL
-    const apiBase = tradingPairType === 'futures' ? BINANCE_FUTURES_API_BASE : BINANCE_API_BASE;
-    const endpoint = tradingPairType === 'futures' ? '/klines' : '/klines';
-    
-    const response = await axios.get(`${apiBase}${endpoint}`, {
-      params: {
-        symbol: symbol.toUpperCase(),
-        interval,
-        limit
-      },
-      timeout: 10000
-    });
-
-    const transformedData = transformKlineData(response.data);
-    
-    logger.debug(`K线数据获取成功`, { 
-      symbol, 
-      interval, 
-      tradingPairType,
-      count: transformedData.length 
-    });
-    
-    return transformedData;
-    
-  } catch (error) {
-    let errorMessage = error instanceof Error ? error.message : String(error);
-    let errorCode = 'BINANCE_API_ERROR';
-    
-    if (axios.isAxiosError(error)) {
-      const status = error.response?.status;
-      const data = error.response?.data;
-      
-      if (status === 400 && data?.msg?.includes('Invalid symbol')) {
-        errorCode = 'INVALID_SYMBOL';
-        errorMessage = `无效的交易对: ${symbol} (${tradingPairType})`;
-      } else if (status === 429) {
-        errorCode = 'RATE_LIMIT';
-        errorMessage = '请求频率限制，请稍后重试';
-      } else {
-        errorMessage = `币安API错误: ${data?.msg || error.message}`;
-      }
-    }
-    
-    logger.error(`获取K线数据失败`, {
-      symbol,
-      interval,
-      tradingPairType,
-      error: errorMessage
-    });
-    
-    throw new TradingAnalysisError(
-      errorMessage,
-      errorCode,
-      { symbol, interval, tradingPairType }
-    );
-  }
+function getApiBase(tradingPairType: TradingPairType): string {
+  return tradingPairType === 'futures' ? BINANCE_FUTURES_API_BASE : BINANCE_API_BASE;
 }
 
 /**
- * 并行获取多时间框架K线数据
+ * 币安行情数据提供者
  */
-async function getMultiTimeframeKlines(
-  symbol: string, 
-  tradingPairType: TradingPairType = 'spot',
-  limit: number = 100
-): Promise<TimeframeKlineData> {
-  logger.info(`开始获取多时间框架K线数据`, { symbol, tradingPairType, limit });
-  
-  try {
-    // 并行获取所有时间框架的数据
-    const promises = TIMEFRAMES.map(timeframe => 
-      getSingleTimeframeKlines(symbol, timeframe, tradingPairType, limit)
-    );
-    
-    const results = await Promise.all(promises);
-    
-    // 组装结果对象
-    const klineData: TimeframeKlineData = {
-      '15m': results[0],
-      '1h': results[1],
-      '4h': results[2],
-      '1d': results[3],
-      '1w': results[4],
-      '1M': results[5]
-    };
-    
-    logger.info(`多时间框架K线数据获取完成`, { 
-      symbol,
-      tradingPairType,
-      timeframes: TIMEFRAMES.length,
-      totalDataPoints: Object.values(klineData).reduce((sum, data) => sum + data.length, 0)
-    });
-    
-    return klineData;
-    
-  } catch (error) {
-    logger.error(`获取多时间框架K线数据失败`, {
-      symbol,
-      tradingPairType,
-      error: error instanceof Error ? error.message : String(error)
-    });
-    
-    throw error; // 重新抛出错误，让上层处理
+class BinanceProvider implements MarketDataProvider {
+  readonly id = 'binance' as const;
+  readonly displayName = '币安';
+
+  /**
+   * 获取单个时间框架的K线数据（支持现货和合约）
+   * 指定 startTime（毫秒时间戳）时返回从该时间开始的K线，否则返回最近的K线
+   */
+  async getKlines(
+    symbol: string,
+    interval: TimeframeType,
+    tradingPairType: TradingPairType,
+    limit: number,
+    startTime?: number
+  ): Promise<KlineData[]> {
+    try {
+      logger.debug(`获取K线数据`, { exchange: this.id, symbol, interval, tradingPairType, limit, startTime });
+
+      const response = await binanceHttp.get(`${getApiBase(tradingPairType)}/klines`, {
+        params: {
+          symbol: symbol.toUpperCase(),
+          interval,
+          limit,
+          startTime
+        },
+        timeout: 10000
+      });
+
+      const transformedData = transformKlineData(response.data);
+
+      logger.debug(`K线数据获取成功`, {
+        exchange: this.id,
+        symbol,
+        interval,
+        tradingPairType,
+        count: transformedData.length
+      });
+
+      return transformedData;
+
+    } catch (error) {
+      throw toBinanceError(error, symbol, tradingPairType, { interval });
+    }
   }
-}
 
-/**
- * 验证交易对是否存在（可选功能）
- */
-async function validateSymbol(symbol: string): Promise<boolean> {
-  try {
-    // 尝试获取最近的一条K线数据来验证交易对
-    await axios.get(`${BINANCE_API_BASE}/klines`, {
-      params: {
-        symbol: symbol.toUpperCase(),
-        interval: '1h',
-        limit: 1
-      },
-      timeout: 5000
-    });
-    return true;
-  } catch {
-    return false;
+  /**
+   * 获取交易对交易规则
+   */
+  async getSymbolInfos(tradingPairType: TradingPairType): Promise<SymbolInfo[]> {
+    try {
+      const response = await binanceHttp.get(`${getApiBase(tradingPairType)}/exchangeInfo`, {
+        timeout: 10000
+      });
+
+      return response.data.symbols.map((item: any): SymbolInfo => {
+        const filters = new Map<string, any>((item.filters || []).map((filter: any) => [filter.filterType, filter]));
+        // 现货为 NOTIONAL（旧版 MIN_NOTIONAL），合约为 MIN_NOTIONAL.notional
+        const notionalFilter = filters.get('NOTIONAL') || filters.get('MIN_NOTIONAL');
+
+        return {
+          symbol: item.symbol,
+          exchange: this.id,
+          tradingPairType,
+          baseAsset: item.baseAsset,
+          quoteAsset: item.quoteAsset,
+          status: item.status,
+          trading: item.status === 'TRADING',
+          tickSize: parseOptionalNumber(filters.get('PRICE_FILTER')?.tickSize),
+          stepSize: parseOptionalNumber(filters.get('LOT_SIZE')?.stepSize),
+          minQty: parseOptionalNumber(filters.get('LOT_SIZE')?.minQty),
+          minNotional: parseOptionalNumber(notionalFilter?.minNotional ?? notionalFilter?.notional),
+          listedAt: parseOptionalNumber(item.onboardDate),
+          contractType: item.contractType || null
+        };
+      });
+
+    } catch (error) {
+      throw new TradingAnalysisError(
+        `获取${tradingPairType === 'futures' ? '合约' : '现货'}交易对信息失败`,
+        tradingPairType === 'futures' ? 'BINANCE_FUTURES_API_ERROR' : 'BINANCE_API_ERROR',
+        { error: error instanceof Error ? error.message : String(error) }
+      );
+    }
   }
-}
 
-/**
- * 主要导出函数：获取K线数据
- */
-export async function getKlineData(
-  symbol: string, 
-  tradingPairType: TradingPairType = 'spot',
-  limit: number = 100
-): Promise<TimeframeKlineData> {
-  if (!symbol || symbol.trim().length === 0) {
-    throw new TradingAnalysisError(
-      '交易对符号不能为空',
-      'EMPTY_SYMBOL'
-    );
+  /**
+   * 验证交易对是否存在（只获取1条最新K线数据，最小化数据传输）
+   */
+  async validateSymbol(symbol: string, tradingPairType: TradingPairType): Promise<boolean> {
+    try {
+      await binanceHttp.get(`${getApiBase(tradingPairType)}/klines`, {
+        params: {
+          symbol: symbol.toUpperCase(),
+          interval: '1h',
+          limit: 1
+        },
+        timeout: 3000
+      });
+      return true;
+    } catch {
+      return false;
+    }
   }
 
-  const cleanSymbol = symbol.trim().toUpperCase();
-  
-  logger.info(`开始获取K线数据`, { 
-    symbol: cleanSymbol, 
-    tradingPairType,
-    limit
-  });
+  /**
+   * 获取最新成交价（一次请求获取整个市场的行情，再按交易对过滤）
+   */
+  async getTickerPrices(symbols: string[], tradingPairType: TradingPairType): Promise<Map<string, number>> {
+    const wanted = new Set(symbols.map(symbol => symbol.toUpperCase()));
 
-  return await getMultiTimeframeKlines(cleanSymbol, tradingPairType, limit);
+    try {
+      const response = await binanceHttp.get(`${getApiBase(tradingPairType)}/ticker/price`, {
+        timeout: 10000
+      });
+
+      const prices = new Map<string, number>();
+      for (const ticker of response.data as Array<{ symbol: string; price: string }>) {
+        if (wanted.has(ticker.symbol)) {
+          prices.set(ticker.symbol, parseFloat(ticker.price));
+        }
+      }
+
+      return prices;
+
+    } catch (error) {
+      throw toBinanceError(error, symbols.join(','), tradingPairType);
+    }
+  }
 }
 
-/**
- * 导出函数
- */
-export { validateSymbol };
\ No newline at end of file
+// 导出单例实例
+export const binanceProvider = new BinanceProvider();
@@ -0,0 +1,331 @@
+/**
+ * 交易分析流程
+ * 单个交易对和多币种对比的流式分析：获取行情数据、发送K线图、流式输出分析，记录审计日志并附加反馈按钮
+ */
+
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { getKlineData } from './market-data.js';
+import { analyzeStreamingTrading, analyzeStreamingComparison } from './ai.js';
+import { generateTradeSetup } from './analysis-request.js';
+import { TradingAnalysisError } from './types.js';
+import type {
+  ConversationContext,
+  CreateAuditLogParams,
+  TelegramMessage,
+  TradingPairInfo,
+  TradingPairType
+} from './types.js';
+import { concurrencyManager } from './concurrency.js';
+import { auditLogger } from './audit-logger.js';
+import { conversationMemory, buildConversationHistory, buildKlineSummary } from './conversation.js';
+import { getFuturesMarketData } from './binance-futures.js';
+import { getMarketDepthSnapshot } from './orderbook.js';
+import { formatTradeSetup, tradeSetupStore } from './trade-setup.js';
+import { aiProviderManager } from './config/ai-provider-manager.js';
+import { buildFeedbackKeyboard } from './feedback.js';
+import { getBot, sendSafeMessage, editSafeMessage } from './bot-client.js';
+import { sendAnalysisChart, annotateAnalysisChart } from './bot-charts.js';
+
+/**
+ * 处理分析错误
+ */
+export async function handleAnalysisError(
+  chatId: number, 
+  error: unknown, 
+  context: string
+): Promise<void> {
+  let errorMessage = '❌ 分析过程中发生错误，请稍后重试。';
+
+  if (error instanceof TradingAnalysisError) {
+    switch (error.code) {
+      case 'INVALID_SYMBOL':
+        errorMessage = '❌ 无效的交易对符号，请检查拼写是否正确。';
+        break;
+      case 'RATE_LIMIT':
+        errorMessage = '⏰ 请求过于频繁，请稍等片刻再试。';
+        break;
+      case 'CONCURRENCY_LIMIT':
+        errorMessage = '🚦 当前正在分析，请稍后再试。';
+        break;
+      case 'OPENAI_ERROR_401':
+        errorMessage = '❌ AI服务认证失败，请联系管理员。';
+        break;
+      case 'BINANCE_API_ERROR':
+      case 'MARKET_DATA_ERROR':
+        errorMessage = '❌ 获取市场数据失败，请稍后重试。';
+        break;
+      default:
+        errorMessage = `❌ ${error.message}`;
+    }
+  }
+
+  logger.error(`${context}处理失败`, {
+    chatId,
+    error: error instanceof Error ? error.message : String(error)
+  });
+
+  await sendSafeMessage(chatId, errorMessage);
+}
+
+/**
+ * 在分析回复的最后一条消息上附加反馈按钮（失败不影响主流程）
+ */
+async function attachFeedbackKeyboard(chatId: number, messageId: number | undefined, auditLogId: number): Promise<void> {
+  if (!config.enableFeedbackButtons || messageId === undefined) {
+    return;
+  }
+
+  try {
+    await getBot().editMessageReplyMarkup(buildFeedbackKeyboard(auditLogId), { chat_id: chatId, message_id: messageId });
+  } catch (error) {
+    logger.warn('附加反馈按钮失败', {
+      chatId,
+      messageId,
+      auditLogId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+/**
+ * 处理多币种对比分析（并发名额按交易对数量占用）
+ */
+export async function handleComparisonAnalysis(
+  chatId: number,
+  messageText: string,
+  pairs: TradingPairInfo[],
+  truncated: boolean,
+  baseAuditParams: Omit<CreateAuditLogParams, 'resultStatus'>,
+  startTime: number
+): Promise<void> {
+  const symbolsText = pairs.map(pair => pair.symbol).join(',');
+  const currencyType = pairs.every(pair => pair.tradingPairType === pairs[0]!.tradingPairType)
+    ? pairs[0]!.tradingPairType
+    : undefined;
+  const comparisonAuditParams = { ...baseAuditParams, identifiedCurrency: symbolsText, currencyType };
+
+  if (!concurrencyManager.resizeAnalysis(chatId, pairs.length)) {
+    await auditLogger.log({
+      ...comparisonAuditParams,
+      resultStatus: 'other_error',
+      errorMessage: '并发限制 - 对比分析名额不足',
+      processingTimeMs: auditLogger.calculateProcessingTime(startTime)
+    });
+
+    await handleAnalysisError(chatId, new TradingAnalysisError(
+      '当前分析请求过多，请稍后再试',
+      'CONCURRENCY_LIMIT'
+    ), '并发控制');
+    return;
+  }
+
+  const pairsText = pairs
+    .map(pair => `*${pair.symbol}* (${pair.tradingPairType === 'futures' ? '合约' : '现货'})`)
+    .join('、');
+  const truncatedText = truncated ? `\n\n_单次最多对比 ${config.maxCompareSymbols} 个交易对，已取前 ${pairs.length} 个_` : '';
+  let statusMessage: TelegramMessage | null = await sendSafeMessage(chatId, `📊 正在获取 ${pairsText} 的市场数据...${truncatedText}`);
+
+  // 并行获取各交易对的K线数据
+  const klineDataList = await Promise.all(
+    pairs.map(pair => getKlineData(pair.symbol, pair.tradingPairType))
+  );
+
+  if (statusMessage) {
+    await editSafeMessage(chatId, statusMessage.message_id, `🤖 AI正在对比分析，请稍候...\n\n_实时分析中，内容将动态更新_ ⏳`);
+  }
+
+  let responseLength = 0;
+  let lastMessageId: number | undefined;
+  await analyzeStreamingComparison(
+    messageText,
+    pairs.map((pair, index) => ({
+      symbol: pair.symbol,
+      tradingPairType: pair.tradingPairType,
+      klineData: klineDataList[index]!
+    })),
+    async (content: string, isComplete: boolean, isNewSegment?: boolean) => {
+      try {
+        if (isNewSegment) {
+          responseLength += content.length;
+          const sentMessage = await sendSafeMessage(chatId, content);
+          lastMessageId = sentMessage.message_id;
+
+          if (statusMessage) {
+            try {
+              await getBot().deleteMessage(chatId, statusMessage.message_id);
+            } catch (e) {
+              // 删除失败不影响主流程
+            }
+            statusMessage = null;
+          }
+        }
+
+        if (!isComplete) {
+          await getBot().sendChatAction(chatId, 'typing');
+        }
+      } catch (error) {
+        logger.error('流式更新消息失败', {
+          chatId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    },
+    baseAuditParams.promptConfigId !== undefined ? { promptConfigId: baseAuditParams.promptConfigId } : {}
+  );
+
+  const auditLogId = await auditLogger.log({
+    ...comparisonAuditParams,
+    resultStatus: 'success',
+    responseLength,
+    processingTimeMs: auditLogger.calculateProcessingTime(startTime)
+  });
+  await attachFeedbackKeyboard(chatId, lastMessageId, auditLogId);
+
+  logger.info('流式对比分析完成', { chatId, symbols: symbolsText, resultLength: responseLength });
+}
+
+/**
+ * 单个交易对的流式分析：获取行情数据、发送K线图、流式输出分析和交易计划，
+ * 记录审计日志后在最后一条消息上附加反馈按钮
+ */
+export async function runSinglePairAnalysis(
+  chatId: number,
+  messageText: string,
+  target: { tradingPair: string; tradingPairType: TradingPairType; needsOrderBook: boolean },
+  conversation: ConversationContext | null,
+  baseAuditParams: Omit<CreateAuditLogParams, 'resultStatus'>,
+  startTime: number
+): Promise<void> {
+  // 发送数据获取中消息
+  await getBot().sendChatAction(chatId, 'typing');
+  const { tradingPair, tradingPairType, needsOrderBook } = target;
+  const promptConfigId = baseAuditParams.promptConfigId ?? null;
+  const pairTypeText = tradingPairType === 'futures' ? '合约' : '现货';
+  const depthText = needsOrderBook ? '和盘口' : '';
+  let statusMessage: TelegramMessage | null = await sendSafeMessage(chatId, `📊 正在获取 *${tradingPair}* (${pairTypeText}) 的市场数据${depthText}...`);
+
+  // 获取K线数据（根据交易对类型调用对应接口），合约交易对同时获取资金费率、持仓量等数据，
+  // 短线进出场类问题再附加盘口和近期成交
+  const [klineData, futuresData, marketDepth] = await Promise.all([
+    getKlineData(tradingPair, tradingPairType),
+    tradingPairType === 'futures' ? getFuturesMarketData(tradingPair) : Promise.resolve(null),
+    needsOrderBook ? getMarketDepthSnapshot(tradingPair, tradingPairType) : Promise.resolve(null)
+  ]);
+
+  // 分析前先发送K线图
+  const chart = await sendAnalysisChart(chatId, tradingPair, tradingPairType, klineData);
+
+  // 更新状态消息
+  if (statusMessage) {
+    await editSafeMessage(chatId, statusMessage.message_id, `🤖 AI正在分析，请稍候...\n\n_实时分析中，内容将动态更新_ ⏳`);
+  }
+
+  // 流式AI分析（同一交易对的追问携带历史对话）
+  let fullContent = '';
+  const sentMessageIds: number[] = chart ? [chart.messageId] : [];
+  const segments: string[] = [];
+  const history = conversation && conversation.tradingPair === tradingPair
+    ? buildConversationHistory(conversation)
+    : [];
+  
+  await analyzeStreamingTrading(
+    messageText,
+    tradingPair,
+    klineData,
+    async (content: string, isComplete: boolean, isNewSegment?: boolean) => {
+      try {
+        if (isNewSegment) {
+          // 新段落，发送新消息
+          fullContent = content; // 记录当前段落内容
+          segments.push(content);
+          const sentMessage = await sendSafeMessage(chatId, content);
+          sentMessageIds.push(sentMessage.message_id);
+          
+          // 如果这是第一个段落，删除状态消息
+          if (statusMessage) {
+            try {
+              const msgId = statusMessage.message_id;
+              await getBot().deleteMessage(chatId, msgId);
+            } catch (e) {
+              // 删除失败不影响主流程
+            }
+            statusMessage = null; // 避免重复删除
+          }
+        }
+        
+        // 保持typing状态
+        if (!isComplete) {
+          await getBot().sendChatAction(chatId, 'typing');
+        }
+      } catch (error) {
+        logger.error('流式更新消息失败', {
+          chatId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    },
+    { history, futuresData, marketDepth, ...(promptConfigId !== null && { promptConfigId }) }
+  );
+
+  // 按分析中提到的关键价位更新K线图
+  if (chart) {
+    await annotateAnalysisChart(chatId, chart, tradingPair, tradingPairType, segments.join('\n'));
+  }
+
+  // 从分析结论中提炼结构化交易计划
+  const latestKline = klineData['15m'][klineData['15m'].length - 1];
+  const referencePrice = latestKline ? parseFloat(latestKline.close) : 0;
+  const tradeSetup = config.enableTradeSetup && referencePrice > 0
+    ? await generateTradeSetup(tradingPair, tradingPairType, segments.join('\n\n'), referencePrice)
+    : null;
+  if (tradeSetup) {
+    const setupMessage = await sendSafeMessage(chatId, formatTradeSetup(tradeSetup, tradingPair, tradingPairType));
+    sentMessageIds.push(setupMessage.message_id);
+  }
+
+  // 记录本轮对话，用户回复任意一条分析消息（包括K线图）即可继续追问
+  conversationMemory.remember(
+    chatId,
+    sentMessageIds,
+    tradingPair,
+    tradingPairType,
+    {
+      question: messageText,
+      klineSummary: buildKlineSummary(klineData),
+      answer: segments.join('\n\n')
+    },
+    conversation
+  );
+
+  // 记录成功的审计日志，交易计划关联到该条日志
+  const auditLogId = await auditLogger.log({
+    ...baseAuditParams,
+    ...(history.length > 0 && { aiModel: aiProviderManager.getStageTarget('follow_up').model }),
+    identifiedCurrency: tradingPair,
+    currencyType: tradingPairType,
+    resultStatus: 'success',
+    responseLength: fullContent.length,
+    processingTimeMs: auditLogger.calculateProcessingTime(startTime)
+  });
+
+  if (tradeSetup) {
+    tradeSetupStore.save(tradeSetup, {
+      auditLogId,
+      promptConfigId,
+      symbol: tradingPair,
+      tradingPairType,
+      exchange: latestKline?.exchange ?? null,
+      referencePrice
+    });
+  }
+
+  // 最后一条消息附加反馈按钮
+  await attachFeedbackKeyboard(chatId, sentMessageIds[sentMessageIds.length - 1], auditLogId);
+
+  logger.info('流式分析完成', {
+    chatId,
+    tradingPair,
+    resultLength: fullContent.length
+  });
+}
@@ -0,0 +1,154 @@
+/**
+ * 内联按钮回调处理
+ * 取消排队、分析反馈，以及"币种不对"后选择正确币种重新分析
+ */
+
+import { logger } from './logger.js';
+import type { AuditLog, CreateAuditLogParams, TelegramCallbackQuery, TelegramUser, TradingPairInfo } from './types.js';
+import { concurrencyManager } from './concurrency.js';
+import { auditLogger } from './audit-logger.js';
+import { mentionsOrderBook } from './alias-resolver.js';
+import { promptExperimentManager } from './config/prompt-experiment-manager.js';
+import { aiProviderManager } from './config/ai-provider-manager.js';
+import { buildRerunKeyboard, feedbackStore, parseFeedbackCallback, suggestCorrectSymbols } from './feedback.js';
+import { getBot, sendSafeMessage, answerCallbackQuery } from './bot-client.js';
+import { checkQuota, acquireAnalysisSlot, handleQueueCancelCallback } from './bot-queue.js';
+import { handleAnalysisError, runSinglePairAnalysis } from './bot-analysis.js';
+
+/**
+ * 处理内联按钮回调：取消排队、分析反馈，以及"币种不对"后选择正确币种重新分析
+ */
+export async function handleCallbackQuery(query: TelegramCallbackQuery): Promise<void> {
+  if (await handleQueueCancelCallback(query)) {
+    return;
+  }
+
+  const callback = parseFeedbackCallback(query.data);
+  const message = query.message;
+
+  if (!callback || !message) {
+    await answerCallbackQuery(query.id);
+    return;
+  }
+
+  const chatId = message.chat.id;
+  const auditLog = auditLogger.getLogById(callback.auditLogId);
+  if (!auditLog || auditLog.chatId !== chatId) {
+    await answerCallbackQuery(query.id, '该分析记录已不存在');
+    return;
+  }
+
+  if (callback.action === 'feedback') {
+    feedbackStore.record(callback.auditLogId, query.from.id, chatId, callback.feedbackType);
+    await answerCallbackQuery(query.id, '感谢反馈！');
+
+    if (callback.feedbackType !== 'wrong_coin') {
+      return;
+    }
+
+    const identifiedSymbols = (auditLog.identifiedCurrency || '').split(',').filter(Boolean);
+    const suggestions = suggestCorrectSymbols(auditLog.questionText, identifiedSymbols, auditLog.currencyType || 'spot');
+    if (suggestions.length === 0) {
+      await sendSafeMessage(
+        chatId,
+        '🤔 没有找到相近的币种，请直接发送正确的币种重新提问，例如："ETHUSDT 现在能买吗"',
+        { parse_mode: undefined, reply_to_message_id: message.message_id }
+      );
+      return;
+    }
+
+    await sendSafeMessage(chatId, '🪙 请选择正确的币种，将按原问题重新分析：', {
+      parse_mode: undefined,
+      reply_to_message_id: message.message_id,
+      reply_markup: buildRerunKeyboard(callback.auditLogId, suggestions)
+    });
+    return;
+  }
+
+  // 只有反馈过"币种不对"的用户可以选择重新分析
+  if (!feedbackStore.setCorrectedSymbol(callback.auditLogId, query.from.id, callback.pair.symbol)) {
+    await answerCallbackQuery(query.id, '请先点击"币种不对"再选择正确的币种');
+    return;
+  }
+
+  await answerCallbackQuery(query.id, `正在重新分析 ${callback.pair.symbol}`);
+  try {
+    await getBot().editMessageReplyMarkup({ inline_keyboard: [] }, { chat_id: chatId, message_id: message.message_id });
+  } catch (e) {
+    // 移除按钮失败不影响重新分析
+  }
+
+  await rerunAnalysis(auditLog, callback.pair, query.from);
+}
+
+/**
+ * 按用户选择的交易对重新分析原问题
+ */
+async function rerunAnalysis(auditLog: AuditLog, pair: TradingPairInfo, user: TelegramUser): Promise<void> {
+  const chatId = auditLog.chatId;
+  const startTime = auditLogger.startTiming();
+  const baseAuditParams: Omit<CreateAuditLogParams, 'resultStatus'> = {
+    telegramUserId: user.id,
+    telegramUsername: user.username || undefined,
+    telegramDisplayName: auditLogger.generateDisplayName(user),
+    chatId,
+    chatType: auditLog.chatType,
+    sourceType: auditLog.sourceType,
+    questionText: auditLog.questionText,
+    resolutionPath: 'feedback',
+    aiModel: aiProviderManager.getStageTarget('analysis').model
+  };
+
+  logger.info('按用户选择的币种重新分析', {
+    chatId,
+    userId: user.id,
+    originalAuditLogId: auditLog.id,
+    originalSymbol: auditLog.identifiedCurrency,
+    tradingPair: pair.symbol
+  });
+
+  if (!(await checkQuota(baseAuditParams, auditLog.chatType, startTime, false))) {
+    return;
+  }
+
+  if (!(await acquireAnalysisSlot(baseAuditParams, undefined, startTime))) {
+    return;
+  }
+
+  if (!(await checkQuota(baseAuditParams, auditLog.chatType, startTime, true))) {
+    concurrencyManager.finishAnalysis(chatId);
+    return;
+  }
+
+  try {
+    const { promptConfigId, experimentId } = await promptExperimentManager.selectPrompt(user.id);
+    baseAuditParams.promptConfigId = promptConfigId ?? undefined;
+    baseAuditParams.experimentId = experimentId ?? undefined;
+
+    await runSinglePairAnalysis(
+      chatId,
+      auditLog.questionText,
+      {
+        tradingPair: pair.symbol,
+        tradingPairType: pair.tradingPairType,
+        needsOrderBook: mentionsOrderBook(auditLog.questionText)
+      },
+      null,
+      baseAuditParams,
+      startTime
+    );
+  } catch (error) {
+    await auditLogger.log({
+      ...baseAuditParams,
+      identifiedCurrency: pair.symbol,
+      currencyType: pair.tradingPairType,
+      resultStatus: 'other_error',
+      errorMessage: error instanceof Error ? error.message : String(error),
+      processingTimeMs: auditLogger.calculateProcessingTime(startTime)
+    });
+
+    await handleAnalysisError(chatId, error, '重新分析');
+  } finally {
+    concurrencyManager.finishAnalysis(chatId);
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * 分析回复附带的K线图
+ * 分析前发送标注摆动高低点的K线图，分析完成后按分析中提到的关键价位重新绘制
+ */
+
+import { writeFile, unlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { getExchangeName } from './market-data.js';
+import { renderCandlestickChart, findKeyLevels, extractLevelsFromAnalysis, formatChartPrice } from './chart.js';
+import { getBot } from './bot-client.js';
+import type {
+  ChartLevel,
+  ExchangeId,
+  KlineData,
+  TelegramMessage,
+  TimeframeKlineData,
+  TimeframeType,
+  TradingPairType
+} from './types.js';
+
+// 分析回复附带的K线图时间框架（按顺序选择第一个有数据的）
+const ANALYSIS_CHART_TIMEFRAMES: TimeframeType[] = ['4h', '1h', '1d'];
+
+/**
+ * 已发送的分析K线图
+ */
+export interface AnalysisChart {
+  messageId: number;
+  timeframe: TimeframeType;
+  klines: KlineData[];
+}
+
+/**
+ * 生成K线图说明文字
+ */
+export function buildChartCaption(
+  symbol: string,
+  timeframe: TimeframeType,
+  tradingPairType: TradingPairType,
+  exchange: ExchangeId,
+  levels: ChartLevel[],
+  fromAnalysis: boolean
+): string {
+  const pairTypeText = tradingPairType === 'futures' ? '合约' : '现货';
+  const lines = [`📈 ${symbol} ${timeframe}（${pairTypeText} · ${getExchangeName(exchange)}）${fromAnalysis ? ' · 已标注分析中的关键价位' : ''}`];
+
+  const supports = levels.filter(level => level.type === 'support').map(level => formatChartPrice(level.price));
+  const resistances = levels.filter(level => level.type === 'resistance').map(level => formatChartPrice(level.price));
+  if (supports.length > 0) lines.push(`支撑: ${supports.join(' / ')}`);
+  if (resistances.length > 0) lines.push(`阻力: ${resistances.join(' / ')}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * 发送PNG图片
+ */
+export async function sendChartPhoto(chatId: number, image: Buffer, caption: string, filename: string): Promise<TelegramMessage> {
+  return await getBot().sendPhoto(chatId, image, { caption }, { filename, contentType: 'image/png' });
+}
+
+/**
+ * 分析前发送K线图（标注近期摆动高低点），失败不影响文字分析
+ */
+export async function sendAnalysisChart(
+  chatId: number,
+  symbol: string,
+  tradingPairType: TradingPairType,
+  klineData: TimeframeKlineData
+): Promise<AnalysisChart | null> {
+  if (!config.enableAnalysisChart) {
+    return null;
+  }
+
+  const timeframe = ANALYSIS_CHART_TIMEFRAMES.find(tf => (klineData[tf]?.length || 0) > 1);
+  if (!timeframe) {
+    return null;
+  }
+
+  try {
+    const klines = klineData[timeframe];
+    const levels = findKeyLevels(klines);
+    const image = renderCandlestickChart(klines, { symbol, timeframe, tradingPairType, levels });
+    const message = await sendChartPhoto(
+      chatId,
+      image,
+      buildChartCaption(symbol, timeframe, tradingPairType, klines[0]!.exchange, levels, false),
+      `${symbol}-${timeframe}.png`
+    );
+    return { messageId: message.message_id, timeframe, klines };
+  } catch (error) {
+    logger.warn('发送K线图失败', {
+      chatId,
+      symbol,
+      timeframe,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
+/**
+ * 分析完成后，按分析中提到的支撑/阻力位重新绘制K线图并替换原图
+ */
+export async function annotateAnalysisChart(
+  chatId: number,
+  chart: AnalysisChart,
+  symbol: string,
+  tradingPairType: TradingPairType,
+  analysisText: string
+): Promise<void> {
+  const referencePrice = parseFloat(chart.klines[chart.klines.length - 1]!.close);
+  const levels = extractLevelsFromAnalysis(analysisText, referencePrice);
+  if (levels.length === 0) {
+    return;
+  }
+
+  // editMessageMedia 只支持通过文件路径上传，先写入临时文件
+  const filePath = join(tmpdir(), `chart-${chatId}-${chart.messageId}.png`);
+  try {
+    const image = renderCandlestickChart(chart.klines, { symbol, timeframe: chart.timeframe, tradingPairType, levels });
+    await writeFile(filePath, image);
+    await getBot().editMessageMedia(
+      {
+        type: 'photo',
+        media: `attach://${filePath}`,
+        caption: buildChartCaption(symbol, chart.timeframe, tradingPairType, chart.klines[0]!.exchange, levels, true)
+      },
+      { chat_id: chatId, message_id: chart.messageId }
+    );
+  } catch (error) {
+    logger.warn('更新K线图关键价位失败', {
+      chatId,
+      symbol,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  } finally {
+    await unlink(filePath).catch(() => undefined);
+  }
+}
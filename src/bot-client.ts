@@ -0,0 +1,159 @@
+/**
+ * Telegram 客户端
+ * 保存当前使用的机器人客户端（切换令牌时整体替换），并提供消息发送、编辑等公共方法
+ */
+
+import { logger } from './logger.js';
+import type { TelegramMessage } from './types.js';
+
+// Telegram Bot 实例（延迟初始化）
+let bot: any = null;
+
+// 机器人信息缓存
+let botInfo: any = null;
+
+/**
+ * 获取当前的机器人客户端（未启动时为 null）
+ */
+export function getBot(): any {
+  return bot;
+}
+
+/**
+ * 获取机器人信息（getMe 的结果，未获取时为 null）
+ */
+export function getBotInfo(): any {
+  return botInfo;
+}
+
+/**
+ * 替换机器人客户端和机器人信息
+ */
+export function setBotClient(nextBot: any, nextBotInfo: any): void {
+  bot = nextBot;
+  botInfo = nextBotInfo;
+}
+
+/**
+ * 发送安全的消息（处理长消息）
+ */
+export async function sendSafeMessage(chatId: number, text: string, options?: any): Promise<TelegramMessage> {
+  const MAX_LENGTH = 4000; // Telegram 消息长度限制
+  
+  // 默认使用Markdown格式
+  const messageOptions = {
+    parse_mode: 'Markdown',
+    ...options
+  };
+  
+  if (text.length <= MAX_LENGTH) {
+    logger.debug('发送消息', {
+      chatId,
+      messageLength: text.length,
+      messagePreview: text.substring(0, 200) + (text.length > 200 ? '...' : '')
+    });
+    return await bot.sendMessage(chatId, text, messageOptions);
+  }
+
+  // 分割长消息
+  const chunks = [];
+  for (let i = 0; i < text.length; i += MAX_LENGTH) {
+    chunks.push(text.slice(i, i + MAX_LENGTH));
+  }
+
+  logger.debug('发送长消息', {
+    chatId,
+    totalLength: text.length,
+    chunksCount: chunks.length
+  });
+
+  let lastMessage: TelegramMessage;
+  for (const chunk of chunks) {
+    lastMessage = await bot.sendMessage(chatId, chunk, messageOptions);
+    // 短暂延迟避免频率限制
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+  
+  return lastMessage!;
+}
+
+/**
+ * 安全地编辑消息（处理Markdown格式错误）
+ */
+export async function editSafeMessage(
+  chatId: number, 
+  messageId: number, 
+  text: string, 
+  options?: any
+): Promise<TelegramMessage | null> {
+  const MAX_LENGTH = 4000; // Telegram 消息长度限制
+  
+  // 如果消息太长，截断处理
+  let finalText = text;
+  if (text.length > MAX_LENGTH) {
+    finalText = text.slice(0, MAX_LENGTH - 100) + '\n\n...(内容过长，已截断)';
+  }
+  
+  // 默认使用Markdown格式
+  const messageOptions = {
+    parse_mode: 'Markdown',
+    ...options
+  };
+  
+  try {
+    // 首先尝试使用Markdown格式
+    logger.debug('尝试编辑消息', {
+      chatId,
+      messageId,
+      contentLength: finalText.length,
+      contentPreview: finalText.substring(0, 200) + (finalText.length > 200 ? '...' : '')
+    });
+    return await bot.editMessageText(finalText, {
+      chat_id: chatId,
+      message_id: messageId,
+      ...messageOptions
+    });
+  } catch (error: any) {
+    logger.debug('Markdown格式编辑失败，尝试纯文本', {
+      chatId,
+      messageId,
+      error: error.message
+    });
+    
+    try {
+      // 如果Markdown失败，移除所有格式标记后重试
+      const plainText = finalText
+        .replace(/\*\*(.*?)\*\*/g, '$1')  // 移除粗体
+        .replace(/\*(.*?)\*/g, '$1')      // 移除斜体
+        .replace(/`(.*?)`/g, '$1')        // 移除代码块
+        .replace(/_(.*?)_/g, '$1');       // 移除下划线
+      
+      return await bot.editMessageText(plainText, {
+        chat_id: chatId,
+        message_id: messageId,
+        parse_mode: undefined  // 使用纯文本模式
+      });
+    } catch (secondError: any) {
+      logger.debug('消息编辑失败', {
+        chatId,
+        messageId,
+        error: secondError.message
+      });
+      return null;
+    }
+  }
+}
+
+/**
+ * 应答按钮回调（失败不影响主流程）
+ */
+export async function answerCallbackQuery(callbackQueryId: string, text?: string): Promise<void> {
+  try {
+    await bot.answerCallbackQuery(callbackQueryId, text ? { text } : {});
+  } catch (error) {
+    logger.warn('应答按钮回调失败', {
+      callbackQueryId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
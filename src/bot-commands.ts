@@ -0,0 +1,235 @@
+/**
+ * 机器人命令处理
+ * /start、/chart 以及价格提醒命令（/alert、/alerts、/unalert），定时分析命令见 bot-schedule-commands.ts
+ */
+
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { getSingleTimeframeKlines, TIMEFRAMES } from './market-data.js';
+import { TradingAnalysisError } from './types.js';
+import type { PriceAlert, TelegramMessage, TimeframeType, TradingPairType } from './types.js';
+import { priceAlertManager, parseAlertCommand, describeAlert, normalizeSymbol } from './price-alerts.js';
+import { formatTimestamp } from './timezone.js';
+import { renderCandlestickChart, findKeyLevels } from './chart.js';
+import { getBot, sendSafeMessage } from './bot-client.js';
+import { buildChartCaption, sendChartPhoto } from './bot-charts.js';
+import { sendWelcomeMessage } from './bot-welcome.js';
+import { handleScheduleCommand } from './bot-schedule-commands.js';
+
+// /chart 命令获取的K线数量（多取一部分用于计算MA50）
+const CHART_COMMAND_KLINE_LIMIT = 200;
+
+/**
+ * 处理 /chart 命令 - 发送指定周期的K线图
+ */
+async function handleChartCommand(msg: TelegramMessage, args: string | undefined): Promise<void> {
+  const chatId = msg.chat.id;
+  const tokens = (args || '').split(/\s+/).filter(Boolean);
+
+  if (tokens.length === 0) {
+    await sendSafeMessage(
+      chatId,
+      '📈 *K线图用法：*\n• /chart BTC （默认4小时）\n• /chart ETHUSDT 1d\n• /chart SOL 合约 1h\n\n支持的周期：' + TIMEFRAMES.join('、')
+    );
+    return;
+  }
+
+  const symbol = normalizeSymbol(tokens[0]!);
+  let tradingPairType: TradingPairType = 'spot';
+  let timeframe: TimeframeType = '4h';
+
+  for (const token of tokens.slice(1)) {
+    const lower = token.toLowerCase();
+    if (lower === '合约' || lower === 'futures') {
+      tradingPairType = 'futures';
+    } else if (lower === '现货' || lower === 'spot') {
+      tradingPairType = 'spot';
+    } else if ((TIMEFRAMES as readonly string[]).includes(token)) {
+      timeframe = token as TimeframeType;
+    } else {
+      await sendSafeMessage(chatId, `❌ 无法识别的参数: ${token}\n支持的周期：${TIMEFRAMES.join('、')}`, { parse_mode: undefined });
+      return;
+    }
+  }
+
+  try {
+    await getBot().sendChatAction(chatId, 'upload_photo');
+    const klines = await getSingleTimeframeKlines(symbol, timeframe, tradingPairType, CHART_COMMAND_KLINE_LIMIT);
+    const levels = findKeyLevels(klines);
+    const image = renderCandlestickChart(klines, { symbol, timeframe, tradingPairType, levels });
+    await sendChartPhoto(
+      chatId,
+      image,
+      buildChartCaption(symbol, timeframe, tradingPairType, klines[0]!.exchange, levels, false),
+      `${symbol}-${timeframe}.png`
+    );
+  } catch (error) {
+    logger.warn('生成K线图失败', {
+      chatId,
+      symbol,
+      timeframe,
+      tradingPairType,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    const message = error instanceof TradingAnalysisError
+      ? error.message
+      : '生成K线图失败，请稍后重试';
+    await sendSafeMessage(chatId, `❌ ${message}`, { parse_mode: undefined });
+  }
+}
+
+/**
+ * 处理 /alert 命令 - 创建价格提醒
+ */
+async function handleAlertCommand(msg: TelegramMessage, args: string | undefined): Promise<void> {
+  const chatId = msg.chat.id;
+  const userId = msg.from?.id;
+
+  if (!userId) {
+    return;
+  }
+
+  if (!args) {
+    await sendSafeMessage(
+      chatId,
+      '🔔 *价格提醒用法：*\n• /alert BTCUSDT > 70000\n• /alert BTCUSDT < 60000\n• /alert ETH +5% （上涨5%，-5% 为下跌，5% 为双向）\n• /alert SOL cross ma20 4h （价格穿越4小时MA20）\n• 交易对后加 合约 可监控合约价格，如 /alert BTC 合约 > 70000'
+    );
+    return;
+  }
+
+  const parsed = parseAlertCommand(args);
+  if ('error' in parsed) {
+    await sendSafeMessage(chatId, `❌ ${parsed.error}`);
+    return;
+  }
+
+  try {
+    const alert = await priceAlertManager.createAlert({
+      ...parsed.params,
+      telegramUserId: userId,
+      chatId
+    });
+
+    await sendSafeMessage(
+      chatId,
+      `✅ 提醒已设置 #${alert.id}\n${describeAlert(alert)}\n当前价格: ${alert.referencePrice}`,
+      { parse_mode: undefined }
+    );
+  } catch (error) {
+    logger.warn('创建价格提醒失败', {
+      chatId,
+      userId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    const message = error instanceof TradingAnalysisError
+      ? error.message
+      : '创建提醒失败，请稍后重试';
+    await sendSafeMessage(chatId, `❌ ${message}`, { parse_mode: undefined });
+  }
+}
+
+/**
+ * 处理 /alerts 命令 - 列出当前用户的提醒
+ */
+async function handleListAlertsCommand(msg: TelegramMessage): Promise<void> {
+  const chatId = msg.chat.id;
+  const userId = msg.from?.id;
+
+  if (!userId) {
+    return;
+  }
+
+  const alerts = priceAlertManager.listActiveAlerts(userId, chatId);
+  if (alerts.length === 0) {
+    await sendSafeMessage(chatId, '📭 你在这里还没有设置价格提醒，使用 /alert 创建。', { parse_mode: undefined });
+    return;
+  }
+
+  const lines = alerts.map(alert => `#${alert.id} ${describeAlert(alert)}`);
+  await sendSafeMessage(
+    chatId,
+    `🔔 你的价格提醒（${alerts.length}/${config.maxAlertsPerUser}）：\n${lines.join('\n')}\n\n使用 /unalert 编号 删除提醒`,
+    { parse_mode: undefined }
+  );
+}
+
+/**
+ * 处理 /unalert 命令 - 删除提醒
+ */
+async function handleDeleteAlertCommand(msg: TelegramMessage, arg: string | undefined): Promise<void> {
+  const chatId = msg.chat.id;
+  const userId = msg.from?.id;
+
+  if (!userId) {
+    return;
+  }
+
+  const alertId = parseInt((arg || '').replace('#', ''), 10);
+  if (isNaN(alertId)) {
+    await sendSafeMessage(chatId, '❌ 请提供提醒编号，例如：/unalert 12', { parse_mode: undefined });
+    return;
+  }
+
+  const deleted = priceAlertManager.deleteAlert(alertId, userId);
+  await sendSafeMessage(
+    chatId,
+    deleted ? `🗑️ 提醒 #${alertId} 已删除` : `❌ 未找到你的提醒 #${alertId}`,
+    { parse_mode: undefined }
+  );
+}
+
+/**
+ * 价格提醒触发通知
+ */
+export async function notifyAlertTriggered(alert: PriceAlert, price: number): Promise<void> {
+  if (!getBot()) {
+    return;
+  }
+
+  const triggeredAt = alert.triggeredAt ? formatTimestamp(new Date(alert.triggeredAt).getTime()) : '';
+  await sendSafeMessage(
+    alert.chatId,
+    `🔔 价格提醒 #${alert.id} 已触发\n${describeAlert(alert)}\n当前价格: ${price}\n触发时间: ${triggeredAt}`,
+    { parse_mode: undefined }
+  );
+}
+
+/**
+ * 注册命令处理器（切换令牌后需要为新客户端重新注册）
+ */
+export function registerCommandHandlers(bot: any): void {
+  // 处理 /start 命令
+  bot.onText(/\/start/, async (msg: TelegramMessage) => {
+    logger.info('用户启动Bot', {
+      chatId: msg.chat.id,
+      userId: msg.from?.id,
+      username: msg.from?.username
+    });
+    await sendWelcomeMessage(msg.chat.id);
+  });
+
+  // 处理K线图命令
+  bot.onText(/^\/chart(?:@\w+)?(?:\s+([\s\S]+))?$/, async (msg: TelegramMessage, match: RegExpExecArray | null) => {
+    await handleChartCommand(msg, match?.[1]?.trim());
+  });
+
+  // 处理价格提醒命令
+  bot.onText(/^\/alert(?:@\w+)?(?:\s+([\s\S]+))?$/, async (msg: TelegramMessage, match: RegExpExecArray | null) => {
+    await handleAlertCommand(msg, match?.[1]?.trim());
+  });
+
+  bot.onText(/^\/alerts(?:@\w+)?\s*$/, async (msg: TelegramMessage) => {
+    await handleListAlertsCommand(msg);
+  });
+
+  bot.onText(/^\/unalert(?:@\w+)?(?:\s+(\S+))?/, async (msg: TelegramMessage, match: RegExpExecArray | null) => {
+    await handleDeleteAlertCommand(msg, match?.[1]);
+  });
+
+  // 处理定时分析命令
+  bot.onText(/^\/schedule(?:@\w+)?(?:\s+([\s\S]+))?$/, async (msg: TelegramMessage, match: RegExpExecArray | null) => {
+    await handleScheduleCommand(msg, match?.[1]?.trim());
+  });
+}
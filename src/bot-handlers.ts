@@ -0,0 +1,80 @@
+/**
+ * Telegram Bot 事件监听
+ * 把命令、文本消息、按钮回调和新成员入群事件分发给对应的处理模块
+ */
+
+import { logger } from './logger.js';
+import type { TelegramCallbackQuery, TelegramMessage } from './types.js';
+import { aiUsageTracker } from './ai-usage.js';
+import { answerCallbackQuery } from './bot-client.js';
+import { handleTextMessage } from './bot-text-handler.js';
+import { handleCallbackQuery } from './bot-callbacks.js';
+import { registerCommandHandlers } from './bot-commands.js';
+import { handleNewChatMembers } from './bot-welcome.js';
+
+/**
+ * 初始化 Bot 事件监听（切换令牌后需要为新客户端重新注册）
+ */
+export function initializeBotHandlers(bot: any): void {
+  // 处理命令（/start、/chart、价格提醒和定时分析）
+  registerCommandHandlers(bot);
+
+  // 处理所有文本消息
+  bot.on('message', async (msg: TelegramMessage) => {
+    logger.info('接收到消息', {
+      chatId: msg.chat.id,
+      chatType: msg.chat.type,
+      messageId: msg.message_id,
+      fromUserId: msg.from?.id,
+      fromUsername: msg.from?.username,
+      text: msg.text?.substring(0, 200),
+      isCommand: msg.text?.startsWith('/'),
+      hasText: !!msg.text
+    });
+    
+    // 忽略命令消息，已经在 onText 中处理
+    if (msg.text?.startsWith('/')) {
+      logger.info('忽略命令消息', { chatId: msg.chat.id, text: msg.text });
+      return;
+    }
+    
+    // 只处理文本消息
+    if (msg.text) {
+      await aiUsageTracker.run(() => handleTextMessage(msg));
+    } else {
+      logger.info('忽略非文本消息', {
+        chatId: msg.chat.id,
+        messageType: typeof msg.text
+      });
+    }
+  });
+  
+  // 处理内联按钮回调（取消排队、分析反馈、重新分析）
+  bot.on('callback_query', async (query: TelegramCallbackQuery) => {
+    try {
+      await aiUsageTracker.run(() => handleCallbackQuery(query));
+    } catch (error) {
+      logger.error('处理按钮回调失败', {
+        data: query.data,
+        fromUserId: query.from.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      await answerCallbackQuery(query.id, '操作失败，请稍后重试');
+    }
+  });
+  
+  // 处理新成员加入群聊事件
+  bot.on('new_chat_members', async (msg: TelegramMessage) => {
+    await handleNewChatMembers(msg);
+  });
+
+  // 错误处理
+  bot.on('error', (error: Error) => {
+    logger.error('Bot错误', { error: error.message });
+  });
+
+  // 轮询错误处理
+  bot.on('polling_error', (error: Error) => {
+    logger.error('轮询错误', { error: error.message });
+  });
+}
@@ -0,0 +1,172 @@
+/**
+ * 分析请求的配额检查和排队
+ * 并发已满时排队，用一条带"取消排队"按钮的消息提示排队位置
+ */
+
+import { logger } from './logger.js';
+import { concurrencyManager } from './concurrency.js';
+import { auditLogger } from './audit-logger.js';
+import { quotaManager, describeQuotaDenial, describeQuotaAuditMessage } from './quota.js';
+import { getBot, sendSafeMessage, editSafeMessage, answerCallbackQuery } from './bot-client.js';
+import type { CreateAuditLogParams, TelegramCallbackQuery, TelegramInlineKeyboardMarkup } from './types.js';
+
+// "取消排队"按钮的回调数据前缀（qc:排队凭证ID）
+const QUEUE_CANCEL_CALLBACK_PREFIX = 'qc';
+
+// 排队中请求的发起者（只有发起者可以点击"取消排队"）
+const queuedRequestOwners = new Map<number, { chatId: number; userId: number }>();
+
+/**
+ * 检查配额（consume 为 true 时同时扣减一次），超出配额时记录审计日志并告知用户重置时间
+ */
+export async function checkQuota(
+  baseAuditParams: Omit<CreateAuditLogParams, 'resultStatus'>,
+  chatType: string,
+  startTime: number,
+  consume: boolean
+): Promise<boolean> {
+  const { telegramUserId, chatId } = baseAuditParams;
+  const denial = consume
+    ? quotaManager.consume(telegramUserId, chatId, chatType)
+    : quotaManager.check(telegramUserId, chatId, chatType);
+  if (!denial) {
+    return true;
+  }
+
+  await auditLogger.log({
+    ...baseAuditParams,
+    resultStatus: 'other_error',
+    errorMessage: describeQuotaAuditMessage(denial),
+    processingTimeMs: auditLogger.calculateProcessingTime(startTime)
+  });
+
+  await sendSafeMessage(baseAuditParams.chatId, describeQuotaDenial(denial), { parse_mode: undefined });
+  return false;
+}
+
+/**
+ * 生成排队提示的"取消排队"按钮
+ */
+function buildQueueCancelKeyboard(ticketId: number): TelegramInlineKeyboardMarkup {
+  return {
+    inline_keyboard: [[{ text: '❌ 取消排队', callback_data: `${QUEUE_CANCEL_CALLBACK_PREFIX}:${ticketId}` }]]
+  };
+}
+
+/**
+ * 处理"取消排队"按钮：只有请求发起者可以取消，已开始或已结束的请求不受影响。
+ * 不是"取消排队"按钮的回调返回 false
+ */
+export async function handleQueueCancelCallback(query: TelegramCallbackQuery): Promise<boolean> {
+  const match = (query.data || '').match(new RegExp(`^${QUEUE_CANCEL_CALLBACK_PREFIX}:(\\d+)$`));
+  if (!match) {
+    return false;
+  }
+
+  const ticketId = parseInt(match[1]!, 10);
+  const owner = queuedRequestOwners.get(ticketId);
+  if (!owner || owner.chatId !== query.message?.chat.id) {
+    await answerCallbackQuery(query.id, '该请求已开始分析或已结束');
+    return true;
+  }
+  if (owner.userId !== query.from.id) {
+    await answerCallbackQuery(query.id, '只能取消自己发起的请求');
+    return true;
+  }
+
+  concurrencyManager.cancelQueued(ticketId);
+  await answerCallbackQuery(query.id, '已取消排队');
+  return true;
+}
+
+/**
+ * 申请分析名额：并发已满时排队，并用一条带"取消排队"按钮的消息提示排队位置（位置变化时更新）。
+ * 返回 true 表示已开始分析（已占用并发名额）
+ */
+export async function acquireAnalysisSlot(
+  baseAuditParams: Omit<CreateAuditLogParams, 'resultStatus'>,
+  requestMessageId: number | undefined,
+  startTime: number
+): Promise<boolean> {
+  const chatId = baseAuditParams.chatId;
+  let queueMessageId: number | undefined;
+  let shownPosition = 0;
+  let latestPosition = 0;
+  let updates: Promise<void> = Promise.resolve();
+
+  // 排队提示串行发送和编辑，只显示最新位置
+  const showPosition = (position: number) => {
+    latestPosition = position;
+    updates = updates.then(async () => {
+      if (latestPosition === shownPosition || latestPosition === 0) {
+        return;
+      }
+      shownPosition = latestPosition;
+      const text = `🚦 当前分析请求较多，你排在第 ${shownPosition} 位，轮到你时会自动开始分析。`;
+      const reply_markup = buildQueueCancelKeyboard(ticket.id);
+      if (queueMessageId === undefined) {
+        const message = await sendSafeMessage(chatId, text, {
+          parse_mode: undefined,
+          reply_markup,
+          ...(requestMessageId !== undefined ? { reply_to_message_id: requestMessageId } : {})
+        });
+        queueMessageId = message?.message_id;
+      } else {
+        await editSafeMessage(chatId, queueMessageId, text, { parse_mode: undefined, reply_markup });
+      }
+    }).catch(error => {
+      logger.warn('发送排队提示失败', { chatId, error: error instanceof Error ? error.message : String(error) });
+    });
+  };
+
+  const ticket = concurrencyManager.enqueueAnalysis(chatId, { onPositionChange: showPosition });
+  if (ticket.position > 0) {
+    queuedRequestOwners.set(ticket.id, { chatId, userId: baseAuditParams.telegramUserId });
+    showPosition(ticket.position);
+  }
+
+  const outcome = await ticket.result;
+  queuedRequestOwners.delete(ticket.id);
+  latestPosition = 0;
+  await updates;
+
+  if (outcome === 'started') {
+    if (queueMessageId !== undefined) {
+      await getBot().deleteMessage(chatId, queueMessageId).catch(() => undefined);
+    }
+    return true;
+  }
+
+  const status = concurrencyManager.getStatus();
+  logger.warn('分析请求未能开始', {
+    chatId,
+    outcome,
+    globalCount: status.globalCount,
+    maxConcurrent: status.maxConcurrent,
+    queueDepth: status.queueDepth
+  });
+
+  const failure = {
+    queue_full: { audit: '并发限制 - 排队已满', reply: '🚦 当前分析请求过多，排队人数已满，请稍后再试。' },
+    timeout: { audit: '并发限制 - 排队超时', reply: '⌛ 排队等待超时，请稍后重新发送。' },
+    cancelled: { audit: '用户取消排队', reply: null }
+  }[outcome];
+
+  await auditLogger.log({
+    ...baseAuditParams,
+    resultStatus: 'other_error',
+    errorMessage: failure.audit,
+    processingTimeMs: auditLogger.calculateProcessingTime(startTime)
+  });
+
+  if (failure.reply === null) {
+    if (queueMessageId !== undefined) {
+      await getBot().deleteMessage(chatId, queueMessageId).catch(() => undefined);
+    }
+  } else if (queueMessageId !== undefined) {
+    await editSafeMessage(chatId, queueMessageId, failure.reply, { parse_mode: undefined });
+  } else {
+    await sendSafeMessage(chatId, failure.reply, { parse_mode: undefined });
+  }
+  return false;
+}
@@ -0,0 +1,179 @@
+/**
+ * 定时分析命令
+ * /schedule 管理本聊天的定时分析任务（私聊或群管理员）
+ */
+
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { TIMEFRAMES } from './market-data.js';
+import { TradingAnalysisError } from './types.js';
+import type { AnalysisSchedule, TelegramMessage, TimeframeType } from './types.js';
+import { scheduleManager } from './scheduler.js';
+import { formatISOString } from './timezone.js';
+import { getBot, sendSafeMessage } from './bot-client.js';
+
+/**
+ * 检查用户是否可以管理当前聊天的定时任务（私聊或群管理员）
+ */
+async function canManageSchedules(msg: TelegramMessage): Promise<boolean> {
+  if (msg.chat.type === 'private') {
+    return true;
+  }
+  if (!msg.from?.id) {
+    return false;
+  }
+
+  try {
+    const member = await getBot().getChatMember(msg.chat.id, msg.from.id);
+    return member.status === 'creator' || member.status === 'administrator';
+  } catch (error) {
+    logger.warn('获取群成员信息失败', {
+      chatId: msg.chat.id,
+      userId: msg.from.id,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return false;
+  }
+}
+
+/**
+ * 格式化定时任务描述
+ */
+function describeSchedule(schedule: AnalysisSchedule): string {
+  const marketText = schedule.marketType === 'futures' ? '合约' : '现货';
+  const status = schedule.enabled ? '✅' : '⏸️';
+  const lastRun = schedule.lastRunAt ? `\n  上次执行: ${formatISOString(schedule.lastRunAt)}` : '';
+  return `${status} #${schedule.id} ${schedule.name}\n  ${schedule.cronExpression} · ${schedule.symbols.join(',')} (${marketText}) · ${schedule.timeframes.join(',')}${lastRun}`;
+}
+
+/**
+ * 解析 /schedule add 参数
+ * 格式：分 时 日 月 周 交易对[,交易对] [合约|现货] [时间框架,...]
+ */
+function parseScheduleAddArgs(tokens: string[]): {
+  cronExpression: string;
+  symbols: string[];
+  marketType: 'spot' | 'futures';
+  timeframes?: TimeframeType[];
+} | null {
+  if (tokens.length < 6) {
+    return null;
+  }
+
+  const result: ReturnType<typeof parseScheduleAddArgs> = {
+    cronExpression: tokens.slice(0, 5).join(' '),
+    symbols: tokens[5]!.split(',').filter(Boolean),
+    marketType: 'spot'
+  };
+
+  for (const token of tokens.slice(6)) {
+    const lower = token.toLowerCase();
+    if (lower === '合约' || lower === 'futures') {
+      result.marketType = 'futures';
+    } else if (lower === '现货' || lower === 'spot') {
+      result.marketType = 'spot';
+    } else {
+      const timeframes = token.split(',').filter(Boolean);
+      if (!timeframes.every(tf => (TIMEFRAMES as readonly string[]).includes(tf))) {
+        return null;
+      }
+      result.timeframes = timeframes as TimeframeType[];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 处理 /schedule 命令 - 管理定时分析任务
+ */
+export async function handleScheduleCommand(msg: TelegramMessage, args: string | undefined): Promise<void> {
+  const chatId = msg.chat.id;
+  const tokens = (args || '').split(/\s+/).filter(Boolean);
+  const subcommand = tokens[0]?.toLowerCase();
+
+  if (!subcommand) {
+    await sendSafeMessage(
+      chatId,
+      `⏰ 定时分析用法：\n• /schedule list\n• /schedule add 分 时 日 月 周 交易对 [合约] [时间框架]\n  例：/schedule add 0 8 * * * BTC,ETH 1h,4h,1d\n• /schedule del 编号\n• /schedule on|off 编号\n• /schedule run 编号\n\n时间按 ${config.timezone} 时区计算，支持的时间框架：${TIMEFRAMES.join(',')}`,
+      { parse_mode: undefined }
+    );
+    return;
+  }
+
+  if (!(await canManageSchedules(msg))) {
+    await sendSafeMessage(chatId, '❌ 只有群管理员可以管理定时分析任务', { parse_mode: undefined });
+    return;
+  }
+
+  try {
+    if (subcommand === 'list') {
+      const schedules = scheduleManager.listSchedules(chatId);
+      await sendSafeMessage(
+        chatId,
+        schedules.length > 0
+          ? `⏰ 本聊天的定时分析任务：\n${schedules.map(describeSchedule).join('\n')}`
+          : '📭 本聊天还没有定时分析任务，使用 /schedule add 创建。',
+        { parse_mode: undefined }
+      );
+      return;
+    }
+
+    if (subcommand === 'add') {
+      const parsed = parseScheduleAddArgs(tokens.slice(1));
+      if (!parsed) {
+        await sendSafeMessage(chatId, '❌ 参数格式错误，例如：/schedule add 0 8 * * * BTC,ETH 1h,4h,1d', { parse_mode: undefined });
+        return;
+      }
+
+      const schedule = await scheduleManager.createSchedule({
+        ...parsed,
+        name: msg.chat.title ? `${msg.chat.title} 市场简报` : '市场简报',
+        chatId,
+        createdBy: msg.from?.id
+      });
+      await sendSafeMessage(chatId, `✅ 定时任务已创建\n${describeSchedule(schedule)}`, { parse_mode: undefined });
+      return;
+    }
+
+    const scheduleId = parseInt((tokens[1] || '').replace('#', ''), 10);
+    const schedule = isNaN(scheduleId) ? null : scheduleManager.getSchedule(scheduleId);
+    if (!schedule || schedule.chatId !== chatId) {
+      await sendSafeMessage(chatId, `❌ 未找到本聊天的定时任务 ${tokens[1] || ''}`, { parse_mode: undefined });
+      return;
+    }
+
+    switch (subcommand) {
+      case 'del':
+        scheduleManager.deleteSchedule(scheduleId);
+        await sendSafeMessage(chatId, `🗑️ 定时任务 #${scheduleId} 已删除`, { parse_mode: undefined });
+        break;
+      case 'on':
+      case 'off':
+        scheduleManager.setEnabled(scheduleId, subcommand === 'on');
+        await sendSafeMessage(
+          chatId,
+          `${subcommand === 'on' ? '▶️ 已启用' : '⏸️ 已暂停'}定时任务 #${scheduleId}`,
+          { parse_mode: undefined }
+        );
+        break;
+      case 'run':
+        await sendSafeMessage(chatId, `🚀 开始执行定时任务 #${scheduleId}`, { parse_mode: undefined });
+        await scheduleManager.runSchedule(scheduleId);
+        break;
+      default:
+        await sendSafeMessage(chatId, '❌ 未知的子命令，发送 /schedule 查看用法', { parse_mode: undefined });
+    }
+  } catch (error) {
+    logger.warn('处理定时任务命令失败', {
+      chatId,
+      subcommand,
+      error: error instanceof Error ? error.message : String(error)
+    });
+
+    const message = error instanceof TradingAnalysisError
+      ? error.message
+      : '操作失败，请稍后重试';
+    await sendSafeMessage(chatId, `❌ ${message}`, { parse_mode: undefined });
+  }
+}
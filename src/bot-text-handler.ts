@@ -0,0 +1,304 @@
+/**
+ * 文本消息处理
+ * 判断消息是否发给机器人，检查配额并申请分析名额后识别意图，按识别结果进行单币种分析或多币种对比
+ */
+
+import { logger } from './logger.js';
+import { analyzeMessage } from './analyzer.js';
+import type { CreateAuditLogParams, TelegramMessage } from './types.js';
+import { concurrencyManager } from './concurrency.js';
+import { auditLogger } from './audit-logger.js';
+import { conversationMemory } from './conversation.js';
+import { promptExperimentManager } from './config/prompt-experiment-manager.js';
+import { aiProviderManager } from './config/ai-provider-manager.js';
+import { getBot, getBotInfo, sendSafeMessage } from './bot-client.js';
+import { checkQuota, acquireAnalysisSlot } from './bot-queue.js';
+import { handleAnalysisError, handleComparisonAnalysis, runSinglePairAnalysis } from './bot-analysis.js';
+
+/**
+ * 检查消息是否是对机器人的回复或@提及
+ */
+function isMessageForBot(msg: TelegramMessage): boolean {
+  const botInfo = getBotInfo();
+  const text = msg.text || '';
+  const chatType = msg.chat.type;
+  const chatId = msg.chat.id;
+  
+  logger.info('检查消息是否给机器人', {
+    chatId,
+    chatType,
+    textPreview: text.substring(0, 100),
+    botInfoExists: !!botInfo,
+    botUsername: botInfo?.username,
+    botId: botInfo?.id,
+    hasReplyToMessage: !!msg.reply_to_message,
+    replyToMessageFromId: msg.reply_to_message?.from?.id
+  });
+  
+  // 私聊消息总是处理
+  if (chatType === 'private') {
+    logger.info('私聊消息，直接处理', { chatId });
+    return true;
+  }
+  
+  // 群聊消息需要检查是否@了机器人
+  if (chatType === 'group' || chatType === 'supergroup') {
+    // 检查botInfo是否正确获取
+    if (!botInfo || !botInfo.username) {
+      logger.error('botInfo未正确获取', {
+        chatId,
+        botInfo: botInfo ? { id: botInfo.id, username: botInfo.username } : null
+      });
+      return false;
+    }
+    
+    // 检查是否@了机器人（使用用户名）
+    const botMention = `@${botInfo.username}`;
+    if (text.includes(botMention)) {
+      logger.info('检测到@机器人', {
+        chatId,
+        botMention,
+        textContainsMention: true
+      });
+      return true;
+    }
+    
+    // 检查是否是回复机器人的消息
+    if (msg.reply_to_message && msg.reply_to_message.from) {
+      const isReplyToBot = msg.reply_to_message.from.id === botInfo.id;
+      logger.info('检查回复消息', {
+        chatId,
+        replyToMessageFromId: msg.reply_to_message.from.id,
+        botId: botInfo.id,
+        isReplyToBot
+      });
+      return isReplyToBot;
+    }
+    
+    logger.info('群聊消息未@机器人且非回复', {
+      chatId,
+      botMention,
+      textIncludes: text.includes(botMention),
+      hasReply: !!msg.reply_to_message
+    });
+    return false;
+  }
+  
+  logger.info('未知聊天类型', { chatId, chatType });
+  return false;
+}
+
+/**
+ * 清理消息文本（移除@机器人的部分）
+ */
+function cleanMessageText(text: string): string {
+  const botInfo = getBotInfo();
+  if (!botInfo || !botInfo.username) {
+    return text;
+  }
+  
+  const botMention = `@${botInfo.username}`;
+  return text.replace(new RegExp(botMention, 'gi'), '').trim();
+}
+
+/**
+ * 处理文本消息 - 支持流式分析
+ */
+export async function handleTextMessage(msg: TelegramMessage): Promise<void> {
+  const chatId = msg.chat.id;
+  const originalText = msg.text;
+  const startTime = auditLogger.startTiming(); // 开始计时
+
+  if (!originalText) {
+    await sendSafeMessage(chatId, '❌ 请发送文本消息。');
+    return;
+  }
+  
+  // 检查消息是否是给机器人的
+  if (!isMessageForBot(msg)) {
+    logger.debug('忽略非机器人消息', {
+      chatId,
+      chatType: msg.chat.type,
+      text: originalText.substring(0, 100)
+    });
+    return;
+  }
+  
+  // 清理消息文本
+  const messageText = cleanMessageText(originalText);
+  
+  if (!messageText.trim()) {
+    await sendSafeMessage(chatId, '❌ 请发送有效的文本消息。');
+    return;
+  }
+
+  // 准备审计日志基础信息（识别出交易对后补充识别途径）
+  const baseAuditParams: Omit<CreateAuditLogParams, 'resultStatus'> = {
+    telegramUserId: msg.from?.id || 0,
+    telegramUsername: msg.from?.username || undefined,
+    telegramDisplayName: msg.from ? auditLogger.generateDisplayName(msg.from) : undefined,
+    chatId,
+    chatType: msg.chat.type as 'private' | 'group' | 'supergroup',
+    sourceType: auditLogger.determineSourceType(msg),
+    questionText: messageText,
+    aiModel: aiProviderManager.getStageTarget('analysis').model
+  };
+
+  logger.info('收到用户消息', {
+    chatId,
+    chatType: msg.chat.type,
+    userId: msg.from?.id,
+    username: msg.from?.username,
+    messageLength: messageText.length,
+    isGroupMessage: msg.chat.type !== 'private'
+  });
+
+  // 检查用户和群的请求频率及每日/每月配额，超出时不占用排队名额
+  if (!(await checkQuota(baseAuditParams, msg.chat.type, startTime, false))) {
+    return;
+  }
+
+  // 申请并发名额（并发已满时排队等待，开始后已增加并发计数）
+  if (!(await acquireAnalysisSlot(baseAuditParams, msg.message_id, startTime))) {
+    return;
+  }
+  
+  // 开始分析后才扣减配额，排队失败不消耗配额（排队期间额度可能被其他请求用完，需要再次检查）
+  if (!(await checkQuota(baseAuditParams, msg.chat.type, startTime, true))) {
+    concurrencyManager.finishAnalysis(chatId);
+    return;
+  }
+  
+  try {
+    // 发送处理中消息
+    await getBot().sendChatAction(chatId, 'typing');
+
+    // 回复机器人分析消息时，查找上一轮的对话上下文
+    const replyToMessageId = msg.reply_to_message?.message_id;
+    const conversation = replyToMessageId ? conversationMemory.get(chatId, replyToMessageId) : null;
+    if (conversation) {
+      logger.info('识别为追问消息', {
+        chatId,
+        replyToMessageId,
+        tradingPair: conversation.tradingPair,
+        previousTurns: conversation.turns.length
+      });
+    }
+
+    // 1. AI意图识别和交易对提取（追问未指定币种时沿用上一轮交易对）
+    const parseResult = await analyzeMessage(
+      messageText,
+      conversation ? { tradingPair: conversation.tradingPair, tradingPairType: conversation.tradingPairType } : undefined
+    );
+    baseAuditParams.resolutionPath = parseResult.resolvedBy;
+
+    // 检查是否是AI调用错误
+    if (parseResult.hasAIError) {
+      await auditLogger.log({
+        ...baseAuditParams,
+        resultStatus: 'ai_error',
+        errorMessage: parseResult.errorMessage || 'AI服务调用失败',
+        processingTimeMs: auditLogger.calculateProcessingTime(startTime)
+      });
+
+      await sendSafeMessage(
+        chatId,
+        '❌ AI服务出问题啦，请稍后再试或联系管理员处理。'
+      );
+      return;
+    }
+
+    // 检查是否为交易分析请求
+    if (!parseResult.isTradeAnalysis) {
+      await auditLogger.log({
+        ...baseAuditParams,
+        resultStatus: 'other_error',
+        errorMessage: '非交易分析请求',
+        processingTimeMs: auditLogger.calculateProcessingTime(startTime)
+      });
+
+      await sendSafeMessage(
+        chatId,
+        '💡 我是加密货币交易分析专家。请发送包含交易对的分析请求，例如：\n\n• "分析一下大饼当前的走势如何"\n• "WLFI币现在是涨还是跌"\n• "帮我看看SOL的技术指标"'
+      );
+      return;
+    }
+
+    // 检查是否识别到交易对
+    if (!parseResult.tradingPair) {
+      if (parseResult.hasAIError) {
+        // 如果是因为AI错误导致无法识别交易对
+        await auditLogger.log({
+          ...baseAuditParams,
+          resultStatus: 'ai_error',
+          errorMessage: 'AI错误导致无法识别交易对',
+          processingTimeMs: auditLogger.calculateProcessingTime(startTime)
+        });
+
+        await sendSafeMessage(
+          chatId,
+          '❌ AI服务出问题啦，请稍后再试或联系管理员处理。'
+        );
+      } else {
+        // 正常情况下无法识别交易对
+        await auditLogger.log({
+          ...baseAuditParams,
+          resultStatus: 'currency_not_identified',
+          errorMessage: '未能识别到具体的交易对',
+          processingTimeMs: auditLogger.calculateProcessingTime(startTime)
+        });
+
+        await sendSafeMessage(
+          chatId,
+          '❓ 未能识别到具体的交易对，请明确指定要分析的币种，例如："WLFI币现在是涨还是跌"、"AVAAI币我还能追进去吗"'
+        );
+      }
+      return;
+    }
+
+    // 选择本次分析使用的提示词版本（有A/B实验时按用户分桶），记录到审计日志
+    const { promptConfigId, experimentId } = await promptExperimentManager.selectPrompt(baseAuditParams.telegramUserId);
+    baseAuditParams.promptConfigId = promptConfigId ?? undefined;
+    baseAuditParams.experimentId = experimentId ?? undefined;
+
+    // 识别到多个交易对时进行对比分析
+    if (parseResult.tradingPairs && parseResult.tradingPairs.length > 1) {
+      await handleComparisonAnalysis(
+        chatId,
+        messageText,
+        parseResult.tradingPairs,
+        parseResult.comparisonTruncated === true,
+        baseAuditParams,
+        startTime
+      );
+      return;
+    }
+
+    await runSinglePairAnalysis(
+      chatId,
+      messageText,
+      {
+        tradingPair: parseResult.tradingPair,
+        tradingPairType: parseResult.tradingPairType || 'spot',
+        needsOrderBook: parseResult.needsOrderBook === true
+      },
+      conversation,
+      baseAuditParams,
+      startTime
+    );
+
+  } catch (error) {
+    // 记录错误的审计日志
+    await auditLogger.log({
+      ...baseAuditParams,
+      resultStatus: 'other_error',
+      errorMessage: error instanceof Error ? error.message : String(error),
+      processingTimeMs: auditLogger.calculateProcessingTime(startTime)
+    });
+
+    await handleAnalysisError(chatId, error, '消息');
+  } finally {
+    // 完成分析（减少并发计数）
+    concurrencyManager.finishAnalysis(chatId);
+  }
+}
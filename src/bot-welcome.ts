@@ -0,0 +1,139 @@
+/**
+ * 欢迎消息
+ * /start 的使用说明，机器人加入群聊和新成员入群时的欢迎消息
+ */
+
+import { config } from './config.js';
+import { logger } from './logger.js';
+import type { TelegramMessage } from './types.js';
+import { getBotInfo, sendSafeMessage } from './bot-client.js';
+
+/**
+ * 发送欢迎消息
+ */
+export async function sendWelcomeMessage(chatId: number): Promise<void> {
+  const welcomeText = `🤖 *欢迎使用加密货币交易分析机器人！*
+
+我可以帮助您分析各种加密货币交易对。
+
+📝 *使用示例：*
+• 分析一下大饼当前的走势如何
+• 二饼各种上下插针，这波能涨上去吗
+• WLFI这个币我现在入场的话是应该卖空还是买入
+• 帮我看看SOL的技术指标
+• SOL和ETH哪个更强（多币种对比）
+
+⚡ *我会自动：*
+• 识别您的分析需求
+• 获取实时K线数据并附上K线图
+• 提供专业技术分析
+• 给出交易建议
+
+📈 *K线图：*
+• /chart BTC 4h 查看指定周期的K线图（加 合约 查看合约）
+
+🔔 *价格提醒：*
+• /alert BTCUSDT > 70000 价格突破提醒
+• /alert ETH -5% 涨跌幅提醒
+• /alert SOL cross ma20 4h 均线穿越提醒
+• /alerts 查看提醒，/unalert 编号 删除提醒
+
+⏰ *定时分析（群管理员）：*
+• \`/schedule add 0 8 * * * BTC,ETH\` 每天8点推送分析
+• /schedule list 查看本群的定时任务
+
+💡 支持所有币安交易对，开始提问吧！
+`;
+
+  await sendSafeMessage(chatId, welcomeText);
+}
+
+/**
+ * 处理新成员加入群聊：机器人自己被拉进群时发送使用说明，普通用户入群时按配置发送欢迎消息
+ */
+export async function handleNewChatMembers(msg: TelegramMessage): Promise<void> {
+  logger.info('检测到新成员加入', {
+    chatId: msg.chat.id,
+    chatTitle: msg.chat.title,
+    newMembersCount: msg.new_chat_members?.length || 0
+  });
+  
+  if (msg.new_chat_members) {
+    // 检查是否是机器人自己加入群聊
+    const botJoined = msg.new_chat_members.some((member: any) => 
+      member.id === getBotInfo()?.id
+    );
+    
+    if (botJoined) {
+      logger.info('机器人加入新群', {
+        chatId: msg.chat.id,
+        chatTitle: msg.chat.title,
+        chatType: msg.chat.type
+      });
+      
+      const groupWelcomeText = `🤖 *感谢邀请我加入群聊！*
+
+我是加密货币交易分析机器人，可以帮助分析各种交易对。
+
+📝 *在群聊中使用方法：*
+• @我 分析一下大饼当前的走势如何
+• @我 二饼各种上下插针，这波能涨上去吗
+• @我 WLFI这个币我现在入场的话是应该卖空还是买入
+• @我 帮我看看SOL的技术指标
+
+⚡ *并发控制：*
+• 群内同时只能进行一个交易对分析
+• 私聊和群聊分析互不影响
+
+💡 支持所有币安交易对，@我开始分析吧！`;
+      
+      // 使用纯文本模式发送欢迎消息，避免Markdown解析错误
+      await sendSafeMessage(msg.chat.id, groupWelcomeText, { parse_mode: undefined });
+    } else if (config.enableNewMemberWelcome) {
+      // 普通用户加入群聊（仅在启用欢迎消息时）
+      const newMembers = msg.new_chat_members.filter((member: any) => 
+        !member.is_bot && member.id !== getBotInfo()?.id
+      );
+      
+      if (newMembers.length > 0) {
+        logger.info('普通用户加入群聊', {
+          chatId: msg.chat.id,
+          newMembersCount: newMembers.length,
+          usernames: newMembers.map((m: any) => m.username || m.first_name)
+        });
+        
+        // 为新成员生成欢迎消息
+        const memberNames = newMembers.map((member: any) => {
+          if (member.username) {
+            return `@${member.username}`;
+          } else {
+            return member.first_name || '新朋友';
+          }
+        }).join(' ');
+        
+        const newMemberWelcomeText = `🎉 *欢迎 ${memberNames} 加入群聊！*
+
+我是群里的加密货币交易分析机器人 🤖，可以为大家提供专业的交易分析服务。
+
+📊 *如何使用我：@我正常提问，我会自动识别加密货币相关问题并给予回答，常用的货币我可以直接识别名称、外号，山寨币需要提供完整的货币名，例如：*
+• @我 分析一下大饼当前的走势如何
+• @我 二饼各种上下插针，这波能涨上去吗
+• @我 WLFI这个币我现在入场的话是应该卖空还是买入
+• @我 帮我看看SOL的技术指标
+
+⚡ *使用规则：*
+• 只回答加密货币相关问题，一次只能分析一个交易对
+• 每个群同时只能进行一个分析（避免刷屏）
+• 支持所有币安交易对
+
+💡 *使用技巧：*
+• 默认我会取这个交易对的现货数据进行分析，如果没有现货的话我会设法获取合约数据。如果你有特定的要求，可以明确告诉我分析那种交易对，例如：@我 看一下WLFI币现在是个什么情况，注意我要合约数据
+
+🚀 开始体验吧，@我试试看！`;
+        
+        // 使用纯文本模式发送欢迎消息，避免Markdown解析错误
+        await sendSafeMessage(msg.chat.id, newMemberWelcomeText, { parse_mode: undefined });
+      }
+    }
+  }
+}
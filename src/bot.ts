@@ -1,5 +1,7 @@
 /**
  * Telegram Bot 主逻辑模块
+ * 负责启动和停止、接收更新（长轮询或 Webhook）以及切换机器人令牌，
+ * 事件分发见 bot-handlers.ts，文本消息、命令和按钮回调的处理分别在 bot-text-handler.ts、bot-commands.ts、bot-callbacks.ts 中
  * 严格遵守 300 行以内规范
  */
 
@@ -10,654 +12,174 @@ const require = createRequire(import.meta.url);
 const TelegramBot = require('node-telegram-bot-api');
 import { config } from './config.js';
 import { logger } from './logger.js';
-import { analyzeMessage } from './analyzer.js';
-import { getKlineData } from './binance.js';
-import { analyzeStreamingTrading } from './ai.js';
-import { TradingAnalysisError, TelegramMessage } from './types.js';
+import type { BotTokenSwitchStatus, ConfigChangeEvent, TelegramUpdate, TelegramUpdateMode } from './types.js';
 import { concurrencyManager } from './concurrency.js';
-import { auditLogger } from './audit-logger.js';
+import { priceAlertManager } from './price-alerts.js';
+import { scheduleManager } from './scheduler.js';
+import { symbolRegistry } from './symbol-registry.js';
+import { aiUsageTracker } from './ai-usage.js';
+import { accuracyTracker } from './accuracy-tracker.js';
+import { configEvents } from './config-events.js';
+import { webhookUpdateDeduplicator } from './telegram-webhook.js';
+import { getBot, getBotInfo, setBotClient, sendSafeMessage } from './bot-client.js';
+import { initializeBotHandlers } from './bot-handlers.js';
+import { notifyAlertTriggered } from './bot-commands.js';
 
-// Telegram Bot 实例（延迟初始化）
-let bot: any = null;
+// 当前接收更新的方式（未在接收时为 null）
+let receivingMode: TelegramUpdateMode | null = null;
 
-// 机器人信息缓存
-let botInfo: any = null;
+// 取消订阅机器人令牌和接收方式变更（机器人运行期间有效）
+let unsubscribeConfigChange: (() => void) | null = null;
 
-/**
- * 发送安全的消息（处理长消息）
- */
-async function sendSafeMessage(chatId: number, text: string, options?: any): Promise<TelegramMessage> {
-  const MAX_LENGTH = 4000; // Telegram 消息长度限制
-  
-  // 默认使用Markdown格式
-  const messageOptions = {
-    parse_mode: 'Markdown',
-    ...options
-  };
-  
-  if (text.length <= MAX_LENGTH) {
-    logger.debug('发送消息', {
-      chatId,
-      messageLength: text.length,
-      messagePreview: text.substring(0, 200) + (text.length > 200 ? '...' : '')
-    });
-    return await bot.sendMessage(chatId, text, messageOptions);
-  }
+// 切换机器人令牌前等待进行中分析完成的最长时间
+const BOT_DRAIN_TIMEOUT_MS = 60 * 1000;
 
-  // 分割长消息
-  const chunks = [];
-  for (let i = 0; i < text.length; i += MAX_LENGTH) {
-    chunks.push(text.slice(i, i + MAX_LENGTH));
-  }
+// 机器人令牌切换状态（切换在后台进行，通过统计接口查询结果）
+let tokenSwitchStatus: BotTokenSwitchStatus = { state: 'idle', startedAt: null, finishedAt: null, error: null };
 
-  logger.debug('发送长消息', {
-    chatId,
-    totalLength: text.length,
-    chunksCount: chunks.length
-  });
+// 后台进行的令牌切换（连续多次变更时按顺序执行）
+let tokenSwitchTask: Promise<void> = Promise.resolve();
 
-  let lastMessage: TelegramMessage;
-  for (const chunk of chunks) {
-    lastMessage = await bot.sendMessage(chatId, chunk, messageOptions);
-    // 短暂延迟避免频率限制
-    await new Promise(resolve => setTimeout(resolve, 100));
+/**
+ * 定时分析结果推送
+ */
+async function sendScheduledMessage(chatId: number, text: string): Promise<void> {
+  if (!getBot()) {
+    return;
   }
-  
-  return lastMessage!;
+  await sendSafeMessage(chatId, text);
 }
 
 /**
- * 安全地编辑消息（处理Markdown格式错误）
+ * 发送AI花费预算提醒到管理员聊天
  */
-async function editSafeMessage(
-  chatId: number, 
-  messageId: number, 
-  text: string, 
-  options?: any
-): Promise<TelegramMessage | null> {
-  const MAX_LENGTH = 4000; // Telegram 消息长度限制
-  
-  // 如果消息太长，截断处理
-  let finalText = text;
-  if (text.length > MAX_LENGTH) {
-    finalText = text.slice(0, MAX_LENGTH - 100) + '\n\n...(内容过长，已截断)';
-  }
-  
-  // 默认使用Markdown格式
-  const messageOptions = {
-    parse_mode: 'Markdown',
-    ...options
-  };
-  
-  try {
-    // 首先尝试使用Markdown格式
-    logger.debug('尝试编辑消息', {
-      chatId,
-      messageId,
-      contentLength: finalText.length,
-      contentPreview: finalText.substring(0, 200) + (finalText.length > 200 ? '...' : '')
-    });
-    return await bot.editMessageText(finalText, {
-      chat_id: chatId,
-      message_id: messageId,
-      ...messageOptions
-    });
-  } catch (error: any) {
-    logger.debug('Markdown格式编辑失败，尝试纯文本', {
-      chatId,
-      messageId,
-      error: error.message
-    });
-    
-    try {
-      // 如果Markdown失败，移除所有格式标记后重试
-      const plainText = finalText
-        .replace(/\*\*(.*?)\*\*/g, '$1')  // 移除粗体
-        .replace(/\*(.*?)\*/g, '$1')      // 移除斜体
-        .replace(/`(.*?)`/g, '$1')        // 移除代码块
-        .replace(/_(.*?)_/g, '$1');       // 移除下划线
-      
-      return await bot.editMessageText(plainText, {
-        chat_id: chatId,
-        message_id: messageId,
-        parse_mode: undefined  // 使用纯文本模式
-      });
-    } catch (secondError: any) {
-      logger.debug('消息编辑失败', {
-        chatId,
-        messageId,
-        error: secondError.message
-      });
-      return null;
-    }
+async function sendBudgetAlert(chatId: number, text: string): Promise<void> {
+  if (!getBot()) {
+    return;
   }
+  await sendSafeMessage(chatId, text, { parse_mode: undefined });
 }
 
 /**
- * 发送欢迎消息
+ * 按配置的方式开始接收更新：长轮询，或向 Telegram 注册 Webhook
  */
-async function sendWelcomeMessage(chatId: number): Promise<void> {
-  const welcomeText = `🤖 *欢迎使用加密货币交易分析机器人！*
-
-我可以帮助您分析各种加密货币交易对。
-
-📝 *使用示例：*
-• 分析一下大饼当前的走势如何
-• 二饼各种上下插针，这波能涨上去吗
-• WLFI这个币我现在入场的话是应该卖空还是买入
-• 帮我看看SOL的技术指标
-
-⚡ *我会自动：*
-• 识别您的分析需求
-• 获取实时K线数据
-• 提供专业技术分析
-• 给出交易建议
-
-💡 支持所有币安交易对，开始提问吧！
-`;
-
-  await sendSafeMessage(chatId, welcomeText);
+async function startReceivingUpdates(): Promise<void> {
+  if (config.telegramMode === 'webhook') {
+    await getBot().setWebHook(config.telegramWebhookUrl, { secret_token: config.telegramWebhookSecret });
+    logger.info('已注册Telegram Webhook', { url: config.telegramWebhookUrl });
+  } else {
+    // 之前以 webhook 模式运行过（或由其他实例注册过）时 Telegram 会拒绝 getUpdates，需要先删除 Webhook
+    await getBot().deleteWebHook();
+    await getBot().startPolling();
+  }
+  receivingMode = config.telegramMode;
 }
 
 /**
- * 检查消息是否是对机器人的回复或@提及
+ * 停止接收更新（按当前实际使用的方式停止，webhook 模式下向 Telegram 删除 Webhook）
  */
-function isMessageForBot(msg: TelegramMessage): boolean {
-  const text = msg.text || '';
-  const chatType = msg.chat.type;
-  const chatId = msg.chat.id;
-  
-  logger.info('检查消息是否给机器人', {
-    chatId,
-    chatType,
-    textPreview: text.substring(0, 100),
-    botInfoExists: !!botInfo,
-    botUsername: botInfo?.username,
-    botId: botInfo?.id,
-    hasReplyToMessage: !!msg.reply_to_message,
-    replyToMessageFromId: msg.reply_to_message?.from?.id
-  });
-  
-  // 私聊消息总是处理
-  if (chatType === 'private') {
-    logger.info('私聊消息，直接处理', { chatId });
-    return true;
+async function stopReceivingUpdates(): Promise<void> {
+  if (receivingMode === 'webhook') {
+    await getBot().deleteWebHook();
+    logger.info('已删除Telegram Webhook');
+  } else if (receivingMode === 'polling') {
+    await getBot().stopPolling();
   }
-  
-  // 群聊消息需要检查是否@了机器人
-  if (chatType === 'group' || chatType === 'supergroup') {
-    // 检查botInfo是否正确获取
-    if (!botInfo || !botInfo.username) {
-      logger.error('botInfo未正确获取', {
-        chatId,
-        botInfo: botInfo ? { id: botInfo.id, username: botInfo.username } : null
-      });
-      return false;
-    }
-    
-    // 检查是否@了机器人（使用用户名）
-    const botMention = `@${botInfo.username}`;
-    if (text.includes(botMention)) {
-      logger.info('检测到@机器人', {
-        chatId,
-        botMention,
-        textContainsMention: true
-      });
-      return true;
-    }
-    
-    // 检查是否是回复机器人的消息
-    if (msg.reply_to_message && msg.reply_to_message.from) {
-      const isReplyToBot = msg.reply_to_message.from.id === botInfo.id;
-      logger.info('检查回复消息', {
-        chatId,
-        replyToMessageFromId: msg.reply_to_message.from.id,
-        botId: botInfo.id,
-        isReplyToBot
-      });
-      return isReplyToBot;
-    }
-    
-    logger.info('群聊消息未@机器人且非回复', {
-      chatId,
-      botMention,
-      textIncludes: text.includes(botMention),
-      hasReply: !!msg.reply_to_message
-    });
-    return false;
-  }
-  
-  logger.info('未知聊天类型', { chatId, chatType });
-  return false;
+  receivingMode = null;
 }
 
 /**
- * 清理消息文本（移除@机器人的部分）
+ * 切换到新的机器人令牌：先用新令牌调用 getMe 验证，验证失败时继续使用原客户端（错误返回给保存配置的请求）；
+ * 验证通过后在后台等待进行中的分析完成再切换，不阻塞保存配置的请求
  */
-function cleanMessageText(text: string): string {
-  if (!botInfo || !botInfo.username) {
-    return text;
-  }
-  
-  const botMention = `@${botInfo.username}`;
-  return text.replace(new RegExp(botMention, 'gi'), '').trim();
+async function switchBotToken(): Promise<void> {
+  const nextBot = new TelegramBot(config.telegramBotToken, { polling: false });
+  const nextBotInfo = await nextBot.getMe();
+
+  tokenSwitchStatus = { state: 'switching', startedAt: new Date().toISOString(), finishedAt: null, error: null };
+  tokenSwitchTask = tokenSwitchTask
+    .then(() => drainAndSwitchBot(nextBot, nextBotInfo))
+    .then(
+      () => {
+        tokenSwitchStatus = { ...tokenSwitchStatus, state: 'switched', finishedAt: new Date().toISOString() };
+      },
+      (error: unknown) => {
+        const message = error instanceof Error ? error.message : String(error);
+        tokenSwitchStatus = { ...tokenSwitchStatus, state: 'failed', finishedAt: new Date().toISOString(), error: message };
+        logger.error('切换机器人令牌失败', { error: message });
+      }
+    );
 }
 
 /**
- * 处理分析错误
+ * 停止接收新消息，等进行中和排队的分析用原客户端回复完，再切换到新客户端
  */
-async function handleAnalysisError(
-  chatId: number, 
-  error: unknown, 
-  context: string
-): Promise<void> {
-  let errorMessage = '❌ 分析过程中发生错误，请稍后重试。';
+async function drainAndSwitchBot(nextBot: any, nextBotInfo: any): Promise<void> {
+  if (getBot()) {
+    await stopReceivingUpdates();
+    logger.info('机器人令牌已变更，等待进行中的分析完成', { ...concurrencyManager.getStatus() });
 
-  if (error instanceof TradingAnalysisError) {
-    switch (error.code) {
-      case 'INVALID_SYMBOL':
-        errorMessage = '❌ 无效的交易对符号，请检查拼写是否正确。';
-        break;
-      case 'RATE_LIMIT':
-        errorMessage = '⏰ 请求过于频繁，请稍等片刻再试。';
-        break;
-      case 'CONCURRENCY_LIMIT':
-        errorMessage = '🚦 当前正在分析，请稍后再试。';
-        break;
-      case 'OPENAI_ERROR_401':
-        errorMessage = '❌ AI服务认证失败，请联系管理员。';
-        break;
-      case 'BINANCE_API_ERROR':
-        errorMessage = '❌ 获取市场数据失败，请稍后重试。';
-        break;
-      default:
-        errorMessage = `❌ ${error.message}`;
+    if (!(await concurrencyManager.waitForIdle(BOT_DRAIN_TIMEOUT_MS))) {
+      logger.warn('等待分析完成超时，强制切换机器人令牌', { timeoutMs: BOT_DRAIN_TIMEOUT_MS });
     }
   }
 
-  logger.error(`${context}处理失败`, {
-    chatId,
-    error: error instanceof Error ? error.message : String(error)
-  });
+  // 等待期间机器人已停止
+  if (!unsubscribeConfigChange) {
+    logger.info('机器人已停止，不再切换令牌');
+    return;
+  }
+
+  setBotClient(nextBot, nextBotInfo);
+  webhookUpdateDeduplicator.clear();
+  initializeBotHandlers(getBot());
+  await startReceivingUpdates();
 
-  await sendSafeMessage(chatId, errorMessage);
+  logger.info('Telegram客户端已切换', {
+    botId: nextBotInfo.id,
+    botUsername: nextBotInfo.username,
+    mode: receivingMode
+  });
 }
 
 /**
- * 处理文本消息 - 支持流式分析
+ * 机器人令牌、接收方式或 Webhook 设置变更后重新开始接收更新
  */
-async function handleTextMessage(msg: TelegramMessage): Promise<void> {
-  const chatId = msg.chat.id;
-  const originalText = msg.text;
-  const startTime = auditLogger.startTiming(); // 开始计时
-
-  if (!originalText) {
-    await sendSafeMessage(chatId, '❌ 请发送文本消息。');
-    return;
-  }
-  
-  // 检查消息是否是给机器人的
-  if (!isMessageForBot(msg)) {
-    logger.debug('忽略非机器人消息', {
-      chatId,
-      chatType: msg.chat.type,
-      text: originalText.substring(0, 100)
-    });
+async function applyTelegramConfigChange(event: ConfigChangeEvent): Promise<void> {
+  if (event.changedKeys.includes('telegramBotToken')) {
+    await switchBotToken();
     return;
   }
-  
-  // 清理消息文本
-  const messageText = cleanMessageText(originalText);
-  
-  if (!messageText.trim()) {
-    await sendSafeMessage(chatId, '❌ 请发送有效的文本消息。');
-    return;
-  }
-
-  // 准备审计日志基础信息
-  const baseAuditParams = {
-    telegramUserId: msg.from?.id || 0,
-    telegramUsername: msg.from?.username || undefined,
-    telegramDisplayName: msg.from ? auditLogger.generateDisplayName(msg.from) : undefined,
-    chatId,
-    chatType: msg.chat.type as 'private' | 'group' | 'supergroup',
-    sourceType: auditLogger.determineSourceType(msg),
-    questionText: messageText
-  };
-
-  logger.info('收到用户消息', {
-    chatId,
-    chatType: msg.chat.type,
-    userId: msg.from?.id,
-    username: msg.from?.username,
-    messageLength: messageText.length,
-    isGroupMessage: msg.chat.type !== 'private'
-  });
-
-  // 检查并发限制
-  if (!concurrencyManager.canStartAnalysis(chatId)) {
-    const status = concurrencyManager.getStatus();
-    logger.warn('分析请求被拒绝 - 并发限制', {
-      chatId,
-      globalCount: status.globalCount,
-      maxConcurrent: status.maxConcurrent,
-      isGroupBusy: concurrencyManager.groupAnalysis.get(chatId) === true
-    });
-    
-    // 记录并发限制错误的审计日志
-    await auditLogger.log({
-      ...baseAuditParams,
-      resultStatus: 'other_error',
-      errorMessage: '并发限制 - 分析请求过多',
-      processingTimeMs: auditLogger.calculateProcessingTime(startTime)
-    });
 
-    await handleAnalysisError(chatId, new TradingAnalysisError(
-      '当前分析请求过多，请稍后再试',
-      'CONCURRENCY_LIMIT'
-    ), '并发控制');
+  // 令牌切换完成时会按最新配置开始接收更新
+  if (tokenSwitchStatus.state === 'switching') {
+    logger.info('机器人令牌正在切换，切换完成后按新的接收方式接收更新');
     return;
   }
-  
-  // 开始分析（增加并发计数）
-  concurrencyManager.startAnalysis(chatId);
-  
-  try {
-    // 发送处理中消息
-    await bot.sendChatAction(chatId, 'typing');
-
-    // 1. AI意图识别和交易对提取
-    const parseResult = await analyzeMessage(messageText);
-
-    // 检查是否是AI调用错误
-    if (parseResult.hasAIError) {
-      await auditLogger.log({
-        ...baseAuditParams,
-        resultStatus: 'ai_error',
-        errorMessage: parseResult.errorMessage || 'AI服务调用失败',
-        processingTimeMs: auditLogger.calculateProcessingTime(startTime)
-      });
-
-      await sendSafeMessage(
-        chatId,
-        '❌ AI服务出问题啦，请稍后再试或联系管理员处理。'
-      );
-      return;
-    }
 
-    // 检查是否为交易分析请求
-    if (!parseResult.isTradeAnalysis) {
-      await auditLogger.log({
-        ...baseAuditParams,
-        resultStatus: 'other_error',
-        errorMessage: '非交易分析请求',
-        processingTimeMs: auditLogger.calculateProcessingTime(startTime)
-      });
-
-      await sendSafeMessage(
-        chatId,
-        '💡 我是加密货币交易分析专家。请发送包含交易对的分析请求，例如：\n\n• "分析一下大饼当前的走势如何"\n• "WLFI币现在是涨还是跌"\n• "帮我看看SOL的技术指标"'
-      );
-      return;
-    }
-
-    // 检查是否识别到交易对
-    if (!parseResult.tradingPair) {
-      if (parseResult.hasAIError) {
-        // 如果是因为AI错误导致无法识别交易对
-        await auditLogger.log({
-          ...baseAuditParams,
-          resultStatus: 'ai_error',
-          errorMessage: 'AI错误导致无法识别交易对',
-          processingTimeMs: auditLogger.calculateProcessingTime(startTime)
-        });
-
-        await sendSafeMessage(
-          chatId,
-          '❌ AI服务出问题啦，请稍后再试或联系管理员处理。'
-        );
-      } else {
-        // 正常情况下无法识别交易对
-        await auditLogger.log({
-          ...baseAuditParams,
-          resultStatus: 'currency_not_identified',
-          errorMessage: '未能识别到具体的交易对',
-          processingTimeMs: auditLogger.calculateProcessingTime(startTime)
-        });
-
-        await sendSafeMessage(
-          chatId,
-          '❓ 未能识别到具体的交易对，请明确指定要分析的币种，例如："WLFI币现在是涨还是跌"、"AVAAI币我还能追进去吗"'
-        );
-      }
-      return;
-    }
-
-    // 发送数据获取中消息
-    await bot.sendChatAction(chatId, 'typing');
-    const pairTypeText = parseResult.tradingPairType === 'futures' ? '合约' : '现货';
-    let statusMessage: TelegramMessage | null = await sendSafeMessage(chatId, `📊 正在获取 *${parseResult.tradingPair}* (${pairTypeText}) 的市场数据...`);
-
-    // 2. 获取K线数据（根据交易对类型调用对应接口）
-    const klineData = await getKlineData(parseResult.tradingPair, parseResult.tradingPairType);
-
-    // 更新状态消息
-    if (statusMessage) {
-      await editSafeMessage(chatId, statusMessage.message_id, `🤖 AI正在分析，请稍候...\n\n_实时分析中，内容将动态更新_ ⏳`);
-    }
-
-    // 3. 流式AI分析
-    let fullContent = '';
-    
-    await analyzeStreamingTrading(
-      messageText,
-      parseResult.tradingPair,
-      klineData,
-      async (content: string, isComplete: boolean, isNewSegment?: boolean) => {
-        try {
-          if (isNewSegment) {
-            // 新段落，发送新消息
-            fullContent = content; // 记录当前段落内容
-            await sendSafeMessage(chatId, content);
-            
-            // 如果这是第一个段落，删除状态消息
-            if (statusMessage) {
-              try {
-                const msgId = statusMessage.message_id;
-                await bot.deleteMessage(chatId, msgId);
-              } catch (e) {
-                // 删除失败不影响主流程
-              }
-              statusMessage = null; // 避免重复删除
-            }
-          }
-          
-          // 保持typing状态
-          if (!isComplete) {
-            await bot.sendChatAction(chatId, 'typing');
-          }
-        } catch (error) {
-          logger.error('流式更新消息失败', {
-            chatId,
-            error: error instanceof Error ? error.message : String(error)
-          });
-        }
-      }
-    );
-
-    // 记录成功的审计日志
-    await auditLogger.log({
-      ...baseAuditParams,
-      identifiedCurrency: parseResult.tradingPair,
-      currencyType: parseResult.tradingPairType,
-      resultStatus: 'success',
-      responseLength: fullContent.length,
-      processingTimeMs: auditLogger.calculateProcessingTime(startTime)
-    });
-
-    logger.info('流式分析完成', {
-      chatId,
-      tradingPair: parseResult.tradingPair,
-      resultLength: fullContent.length
-    });
-
-  } catch (error) {
-    // 记录错误的审计日志
-    await auditLogger.log({
-      ...baseAuditParams,
-      resultStatus: 'other_error',
-      errorMessage: error instanceof Error ? error.message : String(error),
-      processingTimeMs: auditLogger.calculateProcessingTime(startTime)
-    });
-
-    await handleAnalysisError(chatId, error, '消息');
-  } finally {
-    // 完成分析（减少并发计数）
-    concurrencyManager.finishAnalysis(chatId);
-  }
+  // 只切换接收方式，进行中的分析不受影响
+  await stopReceivingUpdates();
+  await startReceivingUpdates();
+  logger.info('Telegram更新接收方式已切换', { mode: receivingMode });
 }
 
 /**
- * 初始化 Bot 事件监听
+ * 获取机器人令牌切换状态
  */
-function initializeBotHandlers(): void {
-  // 处理 /start 命令
-  bot.onText(/\/start/, async (msg: TelegramMessage) => {
-    logger.info('用户启动Bot', {
-      chatId: msg.chat.id,
-      userId: msg.from?.id,
-      username: msg.from?.username
-    });
-    await sendWelcomeMessage(msg.chat.id);
-  });
-
-  // 处理所有文本消息
-  bot.on('message', async (msg: TelegramMessage) => {
-    logger.info('接收到消息', {
-      chatId: msg.chat.id,
-      chatType: msg.chat.type,
-      messageId: msg.message_id,
-      fromUserId: msg.from?.id,
-      fromUsername: msg.from?.username,
-      text: msg.text?.substring(0, 200),
-      isCommand: msg.text?.startsWith('/'),
-      hasText: !!msg.text
-    });
-    
-    // 忽略命令消息，已经在 onText 中处理
-    if (msg.text?.startsWith('/')) {
-      logger.info('忽略命令消息', { chatId: msg.chat.id, text: msg.text });
-      return;
-    }
-    
-    // 只处理文本消息
-    if (msg.text) {
-      await handleTextMessage(msg);
-    } else {
-      logger.info('忽略非文本消息', {
-        chatId: msg.chat.id,
-        messageType: typeof msg.text
-      });
-    }
-  });
-  
-  // 处理新成员加入群聊事件
-  bot.on('new_chat_members', async (msg: TelegramMessage) => {
-    logger.info('检测到新成员加入', {
-      chatId: msg.chat.id,
-      chatTitle: msg.chat.title,
-      newMembersCount: msg.new_chat_members?.length || 0
-    });
-    
-    if (msg.new_chat_members) {
-      // 检查是否是机器人自己加入群聊
-      const botJoined = msg.new_chat_members.some((member: any) => 
-        member.id === botInfo?.id
-      );
-      
-      if (botJoined) {
-        logger.info('机器人加入新群', {
-          chatId: msg.chat.id,
-          chatTitle: msg.chat.title,
-          chatType: msg.chat.type
-        });
-        
-        const groupWelcomeText = `🤖 *感谢邀请我加入群聊！*
-
-我是加密货币交易分析机器人，可以帮助分析各种交易对。
-
-📝 *在群聊中使用方法：*
-• @我 分析一下大饼当前的走势如何
-• @我 二饼各种上下插针，这波能涨上去吗
-• @我 WLFI这个币我现在入场的话是应该卖空还是买入
-• @我 帮我看看SOL的技术指标
-
-⚡ *并发控制：*
-• 群内同时只能进行一个交易对分析
-• 私聊和群聊分析互不影响
-
-💡 支持所有币安交易对，@我开始分析吧！`;
-        
-        // 使用纯文本模式发送欢迎消息，避免Markdown解析错误
-        await sendSafeMessage(msg.chat.id, groupWelcomeText, { parse_mode: undefined });
-      } else if (config.enableNewMemberWelcome) {
-        // 普通用户加入群聊（仅在启用欢迎消息时）
-        const newMembers = msg.new_chat_members.filter((member: any) => 
-          !member.is_bot && member.id !== botInfo?.id
-        );
-        
-        if (newMembers.length > 0) {
-          logger.info('普通用户加入群聊', {
-            chatId: msg.chat.id,
-            newMembersCount: newMembers.length,
-            usernames: newMembers.map((m: any) => m.username || m.first_name)
-          });
-          
-          // 为新成员生成欢迎消息
-          const memberNames = newMembers.map((member: any) => {
-            if (member.username) {
-              return `@${member.username}`;
-            } else {
-              return member.first_name || '新朋友';
-            }
-          }).join(' ');
-          
-          const newMemberWelcomeText = `🎉 *欢迎 ${memberNames} 加入群聊！*
-
-我是群里的加密货币交易分析机器人 🤖，可以为大家提供专业的交易分析服务。
-
-📊 *如何使用我：@我正常提问，我会自动识别加密货币相关问题并给予回答，常用的货币我可以直接识别名称、外号，山寨币需要提供完整的货币名，例如：*
-• @我 分析一下大饼当前的走势如何
-• @我 二饼各种上下插针，这波能涨上去吗
-• @我 WLFI这个币我现在入场的话是应该卖空还是买入
-• @我 帮我看看SOL的技术指标
-
-⚡ *使用规则：*
-• 只回答加密货币相关问题，一次只能分析一个交易对
-• 每个群同时只能进行一个分析（避免刷屏）
-• 支持所有币安交易对
-
-💡 *使用技巧：*
-• 默认我会取这个交易对的现货数据进行分析，如果没有现货的话我会设法获取合约数据。如果你有特定的要求，可以明确告诉我分析那种交易对，例如：@我 看一下WLFI币现在是个什么情况，注意我要合约数据
-
-🚀 开始体验吧，@我试试看！`;
-          
-          // 使用纯文本模式发送欢迎消息，避免Markdown解析错误
-          await sendSafeMessage(msg.chat.id, newMemberWelcomeText, { parse_mode: undefined });
-        }
-      }
-    }
-  });
-
-  // 错误处理
-  bot.on('error', (error: Error) => {
-    logger.error('Bot错误', { error: error.message });
-  });
+export function getBotTokenSwitchStatus(): BotTokenSwitchStatus {
+  return { ...tokenSwitchStatus };
+}
 
-  // 轮询错误处理
-  bot.on('polling_error', (error: Error) => {
-    logger.error('轮询错误', { error: error.message });
-  });
+/**
+ * 处理 Webhook 收到的更新，机器人未运行或未使用 webhook 模式时返回 false
+ */
+export function processWebhookUpdate(update: TelegramUpdate): boolean {
+  const bot = getBot();
+  if (!bot || receivingMode !== 'webhook') {
+    return false;
+  }
+  bot.processUpdate(update);
+  return true;
 }
 
 /**
@@ -665,21 +187,36 @@ function initializeBotHandlers(): void {
  */
 export async function startBot(): Promise<void> {
   try {
-    // 初始化 Telegram Bot 实例
-    if (!bot) {
-      bot = new TelegramBot(config.telegramBotToken, { polling: true });
-    }
+    // 初始化 Telegram Bot 实例（按配置的方式接收更新）
+    const bot = getBot() ?? new TelegramBot(config.telegramBotToken, { polling: false });
+    setBotClient(bot, getBotInfo());
     
     logger.info('初始化Telegram Bot', {
       botToken: config.telegramBotToken.slice(-10), // 只显示后10位
-      polling: true
+      mode: config.telegramMode
     });
 
     // 初始化事件处理器
-    initializeBotHandlers();
+    initializeBotHandlers(getBot());
+    await startReceivingUpdates();
+
+    // 机器人令牌或接收方式变更后无需重启进程，直接切换
+    unsubscribeConfigChange ??= configEvents.subscribe(
+      'Telegram机器人',
+      ['telegramBotToken', 'telegramMode', 'telegramWebhookUrl', 'telegramWebhookSecret'],
+      applyTelegramConfigChange
+    );
+
+    // 启动交易对注册表同步、价格提醒监控和定时分析调度
+    symbolRegistry.start();
+    priceAlertManager.start(notifyAlertTriggered);
+    aiUsageTracker.start(sendBudgetAlert);
+    accuracyTracker.start();
+    scheduleManager.start(sendScheduledMessage);
 
     // 获取Bot信息并缓存
-    botInfo = await bot.getMe();
+    const botInfo = await bot.getMe();
+    setBotClient(bot, botInfo);
     logger.info('Bot启动成功', {
       botId: botInfo.id,
       botUsername: botInfo.username,
@@ -710,9 +247,17 @@ export async function startBot(): Promise<void> {
  */
 export async function stopBot(): Promise<void> {
   try {
-    if (bot) {
-      await bot.stopPolling();
-      bot = null;
+    unsubscribeConfigChange?.();
+    unsubscribeConfigChange = null;
+    symbolRegistry.stop();
+    priceAlertManager.stop();
+    aiUsageTracker.stop();
+    accuracyTracker.stop();
+    scheduleManager.stop();
+    
+    if (getBot()) {
+      await stopReceivingUpdates();
+      setBotClient(null, null);
     }
     logger.info('Bot已停止');
   } catch (error) {
@@ -0,0 +1,246 @@
+/**
+ * Bybit 行情数据提供者（使用 v5 公开 REST API）
+ * 现货对应 category=spot，合约对应 U 本位永续 category=linear，交易对写法与币安一致
+ */
+
+import axios from 'axios';
+import { logger } from './logger.js';
+import type { KlineData, MarketDataProvider, SymbolInfo, TimeframeType, TradingPairType } from './types.js';
+import { TradingAnalysisError } from './types.js';
+import { createKline, getKlineCloseTime, parseOptionalNumber, toCanonicalSymbol } from './exchange-utils.js';
+
+// Bybit公开API基础URL
+const BYBIT_API_BASE = 'https://api.bybit.com/v5';
+
+// Bybit单次K线请求的最大数量
+const BYBIT_MAX_KLINE_LIMIT = 1000;
+// 交易对列表分页大小
+const BYBIT_INSTRUMENTS_PAGE_LIMIT = 1000;
+
+// 请求频率限制的错误码
+const BYBIT_RATE_LIMIT_CODE = 10006;
+
+/**
+ * 时间框架映射
+ */
+const BYBIT_INTERVALS: Record<TimeframeType, string> = {
+  '15m': '15',
+  '1h': '60',
+  '4h': '240',
+  '1d': 'D',
+  '1w': 'W',
+  '1M': 'M'
+};
+
+/**
+ * 获取产品类别参数
+ */
+function getCategory(tradingPairType: TradingPairType): string {
+  return tradingPairType === 'futures' ? 'linear' : 'spot';
+}
+
+/**
+ * 将 Bybit 请求异常或业务错误转换为统一的 TradingAnalysisError
+ */
+function toBybitError(
+  error: unknown,
+  symbol: string,
+  tradingPairType: TradingPairType,
+  details: Record<string, unknown> = {}
+): TradingAnalysisError {
+  if (error instanceof TradingAnalysisError) {
+    return error;
+  }
+
+  let errorMessage = error instanceof Error ? error.message : String(error);
+  let errorCode = 'BYBIT_API_ERROR';
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const data = error.response?.data;
+
+    if (/symbol/i.test(String(data?.retMsg)) && /invalid|not (exist|support)/i.test(String(data?.retMsg))) {
+      errorCode = 'INVALID_SYMBOL';
+      errorMessage = `无效的交易对: ${symbol} (${tradingPairType})`;
+    } else if (status === 429 || data?.retCode === BYBIT_RATE_LIMIT_CODE) {
+      errorCode = 'RATE_LIMIT';
+      errorMessage = '请求频率限制，请稍后重试';
+    } else {
+      errorMessage = `Bybit API错误: ${data?.retMsg || error.message}`;
+    }
+  }
+
+  return new TradingAnalysisError(
+    errorMessage,
+    errorCode,
+    { symbol, tradingPairType, exchange: 'bybit', ...details }
+  );
+}
+
+/**
+ * 发送请求并检查业务错误码（Bybit 出错时 HTTP 状态通常仍为 200）
+ */
+async function bybitGet(path: string, params: Record<string, unknown>, timeout: number): Promise<any> {
+  const response = await axios.get(`${BYBIT_API_BASE}${path}`, { params, timeout });
+  const data = response.data;
+
+  if (data?.retCode !== 0) {
+    const error = new axios.AxiosError(data?.retMsg || `Bybit错误码 ${data?.retCode}`);
+    error.response = response;
+    throw error;
+  }
+
+  return data.result;
+}
+
+/**
+ * Bybit 行情数据提供者
+ */
+class BybitProvider implements MarketDataProvider {
+  readonly id = 'bybit' as const;
+  readonly displayName = 'Bybit';
+
+  /**
+   * 获取单个时间框架的K线数据
+   * 返回格式：[开盘时间, 开盘价, 最高价, 最低价, 收盘价, 成交量, 成交额]，按时间倒序
+   */
+  async getKlines(
+    symbol: string,
+    interval: TimeframeType,
+    tradingPairType: TradingPairType,
+    limit: number
+  ): Promise<KlineData[]> {
+    const cleanSymbol = toCanonicalSymbol(symbol);
+
+    try {
+      logger.debug(`获取K线数据`, { exchange: this.id, symbol: cleanSymbol, interval, tradingPairType, limit });
+
+      const result = await bybitGet('/market/kline', {
+        category: getCategory(tradingPairType),
+        symbol: cleanSymbol,
+        interval: BYBIT_INTERVALS[interval],
+        limit: Math.min(limit, BYBIT_MAX_KLINE_LIMIT)
+      }, 10000);
+
+      const rows: any[] = result?.list || [];
+      if (rows.length === 0) {
+        throw new TradingAnalysisError(
+          `无效的交易对: ${cleanSymbol} (${tradingPairType})`,
+          'INVALID_SYMBOL',
+          { symbol: cleanSymbol, tradingPairType, exchange: this.id }
+        );
+      }
+
+      return rows.reverse().map(row => {
+        const openTimeMs = parseInt(row[0]);
+        return createKline(this.id, openTimeMs, getKlineCloseTime(openTimeMs, interval), {
+          open: row[1],
+          high: row[2],
+          low: row[3],
+          close: row[4],
+          volume: row[5]
+        });
+      });
+
+    } catch (error) {
+      throw toBybitError(error, cleanSymbol, tradingPairType, { interval });
+    }
+  }
+
+  /**
+   * 获取交易对交易规则（合约列表需要分页获取）
+   */
+  async getSymbolInfos(tradingPairType: TradingPairType): Promise<SymbolInfo[]> {
+    try {
+      const symbols: SymbolInfo[] = [];
+      let cursor = '';
+
+      do {
+        const result = await bybitGet('/market/instruments-info', {
+          category: getCategory(tradingPairType),
+          limit: BYBIT_INSTRUMENTS_PAGE_LIMIT,
+          ...(cursor ? { cursor } : {})
+        }, 10000);
+
+        for (const item of result?.list || []) {
+          // 合约只保留永续，排除交割合约
+          if (tradingPairType === 'futures' && item.contractType !== 'LinearPerpetual') {
+            continue;
+          }
+
+          const lotSizeFilter = item.lotSizeFilter || {};
+          symbols.push({
+            symbol: toCanonicalSymbol(item.symbol),
+            exchange: this.id,
+            tradingPairType,
+            baseAsset: item.baseCoin,
+            quoteAsset: item.quoteCoin,
+            status: item.status,
+            trading: item.status === 'Trading',
+            tickSize: parseOptionalNumber(item.priceFilter?.tickSize),
+            stepSize: parseOptionalNumber(lotSizeFilter.qtyStep ?? lotSizeFilter.basePrecision),
+            minQty: parseOptionalNumber(lotSizeFilter.minOrderQty),
+            minNotional: parseOptionalNumber(lotSizeFilter.minNotionalValue ?? lotSizeFilter.minOrderAmt),
+            listedAt: parseOptionalNumber(item.launchTime),
+            contractType: tradingPairType === 'futures' ? 'PERPETUAL' : null
+          });
+        }
+        cursor = result?.nextPageCursor || '';
+      } while (cursor);
+
+      return symbols;
+
+    } catch (error) {
+      throw new TradingAnalysisError(
+        `获取Bybit${tradingPairType === 'futures' ? '合约' : '现货'}交易对信息失败`,
+        'BYBIT_API_ERROR',
+        { error: error instanceof Error ? error.message : String(error) }
+      );
+    }
+  }
+
+  /**
+   * 验证交易对是否存在
+   */
+  async validateSymbol(symbol: string, tradingPairType: TradingPairType): Promise<boolean> {
+    try {
+      const result = await bybitGet('/market/kline', {
+        category: getCategory(tradingPairType),
+        symbol: toCanonicalSymbol(symbol),
+        interval: '60',
+        limit: 1
+      }, 3000);
+      return (result?.list || []).length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 获取最新成交价（一次请求获取整个市场的行情，再按交易对过滤）
+   */
+  async getTickerPrices(symbols: string[], tradingPairType: TradingPairType): Promise<Map<string, number>> {
+    const wanted = new Set(symbols.map(symbol => toCanonicalSymbol(symbol)));
+
+    try {
+      const result = await bybitGet('/market/tickers', {
+        category: getCategory(tradingPairType)
+      }, 10000);
+
+      const prices = new Map<string, number>();
+      for (const ticker of (result?.list || []) as Array<{ symbol: string; lastPrice: string }>) {
+        if (wanted.has(ticker.symbol)) {
+          prices.set(ticker.symbol, parseFloat(ticker.lastPrice));
+        }
+      }
+
+      return prices;
+
+    } catch (error) {
+      throw toBybitError(error, symbols.join(','), tradingPairType);
+    }
+  }
+}
+
+// 导出单例实例
+export const bybitProvider = new BybitProvider();
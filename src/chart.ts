@@ -0,0 +1,551 @@
+/**
+ * K线图渲染模块
+ * 纯JS栅格化绘制蜡烛图、成交量、均线和关键价位，并直接编码为PNG，不依赖 canvas 等原生模块
+ */
+
+import { deflateSync } from 'node:zlib';
+import { sma } from './indicators.js';
+import { getDateParts } from './timezone.js';
+import { TradingAnalysisError } from './types.js';
+import type { ChartLevel, KlineData, TimeframeType, TradingPairType } from './types.js';
+
+type RGB = [number, number, number];
+
+// 图片尺寸与布局
+const CHART_WIDTH = 1100;
+const CHART_HEIGHT = 620;
+const PADDING_LEFT = 12;
+const PRICE_AXIS_WIDTH = 130;
+const TITLE_HEIGHT = 44;
+const TIME_AXIS_HEIGHT = 28;
+const PANEL_GAP = 8;
+const VOLUME_PANEL_RATIO = 0.2;
+
+// 默认绘制的K线数量
+const DEFAULT_MAX_CANDLES = 120;
+
+// 关键价位识别参数：摆动高低点左右各需要的K线数量、相近价位合并阈值、与当前价格的最大偏离
+const PIVOT_SPAN = 3;
+const LEVEL_MERGE_RATIO = 0.005;
+const LEVEL_MAX_DISTANCE = 0.3;
+
+/**
+ * 十六进制颜色转RGB
+ */
+function hex(color: string): RGB {
+  const value = parseInt(color.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+const COLORS = {
+  background: hex('#131722'),
+  grid: hex('#242833'),
+  text: hex('#d1d4dc'),
+  mutedText: hex('#787b86'),
+  up: hex('#26a69a'),
+  down: hex('#ef5350'),
+  upVolume: hex('#1d5a57'),
+  downVolume: hex('#7a3233'),
+  ma20: hex('#f0b90b'),
+  ma50: hex('#ab47bc'),
+  support: hex('#2196f3'),
+  resistance: hex('#ff9800')
+};
+
+// 5x7 点阵字体（仅包含图表需要的字符，未定义的字符按空格处理）
+const GLYPH_WIDTH = 5;
+const GLYPH_HEIGHT = 7;
+const GLYPHS: Record<string, string> = {
+  '0': '01110 10001 10011 10101 11001 10001 01110',
+  '1': '00100 01100 00100 00100 00100 00100 01110',
+  '2': '01110 10001 00001 00010 00100 01000 11111',
+  '3': '11111 00010 00100 00010 00001 10001 01110',
+  '4': '00010 00110 01010 10010 11111 00010 00010',
+  '5': '11111 10000 11110 00001 00001 10001 01110',
+  '6': '00110 01000 10000 11110 10001 10001 01110',
+  '7': '11111 00001 00010 00100 01000 01000 01000',
+  '8': '01110 10001 10001 01110 10001 10001 01110',
+  '9': '01110 10001 10001 01111 00001 00010 01100',
+  '.': '00000 00000 00000 00000 00000 01100 01100',
+  '-': '00000 00000 00000 11111 00000 00000 00000',
+  '+': '00000 00100 00100 11111 00100 00100 00000',
+  ':': '00000 01100 01100 00000 01100 01100 00000',
+  '/': '00001 00010 00010 00100 01000 01000 10000',
+  '%': '11001 11010 00010 00100 01000 01011 10011',
+  'A': '01110 10001 10001 11111 10001 10001 10001',
+  'B': '11110 10001 10001 11110 10001 10001 11110',
+  'C': '01110 10001 10000 10000 10000 10001 01110',
+  'D': '11110 10001 10001 10001 10001 10001 11110',
+  'E': '11111 10000 10000 11110 10000 10000 11111',
+  'F': '11111 10000 10000 11110 10000 10000 10000',
+  'G': '01110 10001 10000 10111 10001 10001 01111',
+  'H': '10001 10001 10001 11111 10001 10001 10001',
+  'I': '01110 00100 00100 00100 00100 00100 01110',
+  'J': '00111 00010 00010 00010 00010 10010 01100',
+  'K': '10001 10010 10100 11000 10100 10010 10001',
+  'L': '10000 10000 10000 10000 10000 10000 11111',
+  'M': '10001 11011 10101 10101 10001 10001 10001',
+  'N': '10001 10001 11001 10101 10011 10001 10001',
+  'O': '01110 10001 10001 10001 10001 10001 01110',
+  'P': '11110 10001 10001 11110 10000 10000 10000',
+  'Q': '01110 10001 10001 10001 10101 10010 01101',
+  'R': '11110 10001 10001 11110 10100 10010 10001',
+  'S': '01111 10000 10000 01110 00001 00001 11110',
+  'T': '11111 00100 00100 00100 00100 00100 00100',
+  'U': '10001 10001 10001 10001 10001 10001 01110',
+  'V': '10001 10001 10001 10001 10001 01010 00100',
+  'W': '10001 10001 10001 10101 10101 10101 01010',
+  'X': '10001 10001 01010 00100 01010 10001 10001',
+  'Y': '10001 10001 01010 00100 00100 00100 00100',
+  'Z': '11111 00001 00010 00100 01000 10000 11111',
+  'd': '00001 00001 01101 10011 10001 10001 01111',
+  'h': '10000 10000 10110 11001 10001 10001 10001',
+  'm': '00000 00000 11010 10101 10101 10001 10001',
+  'w': '00000 00000 10001 10001 10101 10101 01010'
+};
+
+/**
+ * K线图绘制选项
+ */
+export interface ChartOptions {
+  symbol: string;
+  timeframe: TimeframeType;
+  tradingPairType?: TradingPairType | undefined;
+  /** 需要标注的支撑/阻力位 */
+  levels?: ChartLevel[] | undefined;
+  /** 最多绘制的K线数量（取最近的K线） */
+  maxCandles?: number | undefined;
+}
+
+// PNG 编码：文件签名和分块CRC校验
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length, 0);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body), 0);
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * 简单的RGB栅格画布
+ */
+class RasterCanvas {
+  private pixels: Buffer;
+
+  constructor(readonly width: number, readonly height: number, background: RGB) {
+    this.pixels = Buffer.alloc(width * height * 3);
+    this.fillRect(0, 0, width, height, background);
+  }
+
+  fillRect(x: number, y: number, w: number, h: number, color: RGB): void {
+    const x0 = Math.max(0, Math.round(x));
+    const y0 = Math.max(0, Math.round(y));
+    const x1 = Math.min(this.width, Math.round(x + w));
+    const y1 = Math.min(this.height, Math.round(y + h));
+    for (let py = y0; py < y1; py++) {
+      for (let px = x0; px < x1; px++) {
+        this.setPixel(px, py, color);
+      }
+    }
+  }
+
+  /**
+   * 水平线，dash 大于0时绘制虚线
+   */
+  horizontalLine(x0: number, x1: number, y: number, color: RGB, dash: number = 0): void {
+    const py = Math.round(y);
+    for (let px = Math.round(x0); px <= Math.round(x1); px++) {
+      if (dash > 0 && Math.floor((px - x0) / dash) % 2 === 1) continue;
+      this.setPixel(px, py, color);
+    }
+  }
+
+  verticalLine(x: number, y0: number, y1: number, color: RGB): void {
+    const px = Math.round(x);
+    for (let py = Math.round(Math.min(y0, y1)); py <= Math.round(Math.max(y0, y1)); py++) {
+      this.setPixel(px, py, color);
+    }
+  }
+
+  /**
+   * 任意方向直线（Bresenham）
+   */
+  line(fromX: number, fromY: number, toX: number, toY: number, color: RGB): void {
+    let x = Math.round(fromX);
+    let y = Math.round(fromY);
+    const endX = Math.round(toX);
+    const endY = Math.round(toY);
+    const dx = Math.abs(endX - x);
+    const dy = -Math.abs(endY - y);
+    const stepX = x < endX ? 1 : -1;
+    const stepY = y < endY ? 1 : -1;
+    let err = dx + dy;
+
+    for (;;) {
+      this.setPixel(x, y, color);
+      if (x === endX && y === endY) break;
+      const e2 = 2 * err;
+      if (e2 >= dy) {
+        err += dy;
+        x += stepX;
+      }
+      if (e2 <= dx) {
+        err += dx;
+        y += stepY;
+      }
+    }
+  }
+
+  /**
+   * 使用点阵字体绘制文本，(x, y) 为左上角
+   */
+  text(x: number, y: number, content: string, color: RGB, scale: number = 2): void {
+    let cursorX = Math.round(x);
+    for (const char of content) {
+      const glyph = GLYPHS[char] ?? GLYPHS[char.toUpperCase()];
+      if (glyph) {
+        const rows = glyph.split(' ');
+        for (let row = 0; row < GLYPH_HEIGHT; row++) {
+          for (let col = 0; col < GLYPH_WIDTH; col++) {
+            if (rows[row]![col] === '1') {
+              this.fillRect(cursorX + col * scale, y + row * scale, scale, scale, color);
+            }
+          }
+        }
+      }
+      cursorX += (GLYPH_WIDTH + 1) * scale;
+    }
+  }
+
+  toPng(): Buffer {
+    // 每行前加一个过滤类型字节（0 = None）
+    const rowLength = this.width * 3;
+    const raw = Buffer.alloc((rowLength + 1) * this.height);
+    for (let y = 0; y < this.height; y++) {
+      this.pixels.copy(raw, y * (rowLength + 1) + 1, y * rowLength, (y + 1) * rowLength);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(this.width, 0);
+    header.writeUInt32BE(this.height, 4);
+    header[8] = 8;  // 位深度
+    header[9] = 2;  // 颜色类型：RGB
+    header[10] = 0; // 压缩方法
+    header[11] = 0; // 过滤方法
+    header[12] = 0; // 不隔行扫描
+
+    return Buffer.concat([
+      PNG_SIGNATURE,
+      pngChunk('IHDR', header),
+      pngChunk('IDAT', deflateSync(raw)),
+      pngChunk('IEND', Buffer.alloc(0))
+    ]);
+  }
+
+  private setPixel(x: number, y: number, color: RGB): void {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return;
+    const offset = (y * this.width + x) * 3;
+    this.pixels[offset] = color[0];
+    this.pixels[offset + 1] = color[1];
+    this.pixels[offset + 2] = color[2];
+  }
+}
+
+/**
+ * 文本像素宽度
+ */
+function textWidth(content: string, scale: number = 2): number {
+  return content.length * (GLYPH_WIDTH + 1) * scale;
+}
+
+/**
+ * 价格格式化：保留6位有效数字，避免出现科学计数法
+ */
+export function formatChartPrice(value: number): string {
+  if (!Number.isFinite(value)) return '-';
+  const abs = Math.abs(value);
+  if (abs !== 0 && abs < 0.0001) {
+    return value.toFixed(10).replace(/0+$/, '');
+  }
+  return String(Number(value.toPrecision(6)));
+}
+
+/**
+ * 时间轴标签：日线及以上只显示日期
+ */
+function formatTimeLabel(openTime: string, timeframe: TimeframeType): string {
+  const parts = getDateParts(new Date(openTime).getTime());
+  const pad = (value: number) => String(value).padStart(2, '0');
+  if (timeframe === '1d' || timeframe === '1w' || timeframe === '1M') {
+    return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+  }
+  return `${pad(parts.month)}-${pad(parts.day)} ${pad(parts.hour)}:${pad(parts.minute)}`;
+}
+
+/**
+ * 合并相近价位（输入已按优先级排序，保留靠前的价位）
+ */
+function mergeLevels(prices: number[]): number[] {
+  const result: number[] = [];
+  for (const price of prices) {
+    if (!result.some(existing => Math.abs(existing - price) / existing < LEVEL_MERGE_RATIO)) {
+      result.push(price);
+    }
+  }
+  return result;
+}
+
+/**
+ * 基于摆动高低点识别当前价格上下方最近的支撑/阻力位
+ */
+export function findKeyLevels(klines: KlineData[], maxPerSide: number = 2): ChartLevel[] {
+  const candles = klines.slice(-DEFAULT_MAX_CANDLES);
+  if (candles.length < PIVOT_SPAN * 2 + 1) {
+    return [];
+  }
+
+  const highs = candles.map(k => parseFloat(k.high));
+  const lows = candles.map(k => parseFloat(k.low));
+  const price = parseFloat(candles[candles.length - 1]!.close);
+  const pivotHighs: number[] = [];
+  const pivotLows: number[] = [];
+
+  for (let i = PIVOT_SPAN; i < candles.length - PIVOT_SPAN; i++) {
+    const windowHighs = highs.slice(i - PIVOT_SPAN, i + PIVOT_SPAN + 1);
+    const windowLows = lows.slice(i - PIVOT_SPAN, i + PIVOT_SPAN + 1);
+    if (highs[i] === Math.max(...windowHighs)) pivotHighs.push(highs[i]!);
+    if (lows[i] === Math.min(...windowLows)) pivotLows.push(lows[i]!);
+  }
+
+  const resistances = mergeLevels(pivotHighs.filter(p => p > price).sort((a, b) => a - b)).slice(0, maxPerSide);
+  const supports = mergeLevels(pivotLows.filter(p => p < price).sort((a, b) => b - a)).slice(0, maxPerSide);
+
+  return [
+    ...supports.map(p => ({ price: p, type: 'support' as const })),
+    ...resistances.map(p => ({ price: p, type: 'resistance' as const }))
+  ];
+}
+
+/**
+ * 从AI分析文本中提取支撑/阻力位
+ * 按行扫描，出现"支撑"后的数字记为支撑位，出现"阻力/压力"后的数字记为阻力位；
+ * 百分比、指标名中的数字（如 MA20）以及偏离当前价格过大的数字会被忽略
+ */
+export function extractLevelsFromAnalysis(text: string, referencePrice: number, maxPerSide: number = 3): ChartLevel[] {
+  const supports: number[] = [];
+  const resistances: number[] = [];
+  const tokenPattern = /(支撑|阻力|压力)|(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)/g;
+
+  for (const line of text.split('\n')) {
+    let currentType: ChartLevel['type'] | null = null;
+
+    for (const match of line.matchAll(tokenPattern)) {
+      if (match[1]) {
+        currentType = match[1] === '支撑' ? 'support' : 'resistance';
+        continue;
+      }
+      if (!currentType) continue;
+
+      const start = match.index ?? 0;
+      const before = line[start - 1] || '';
+      const after = line[start + match[0].length] || '';
+      if (/[A-Za-z]/.test(before) || after === '%' || after === '％') continue;
+
+      const value = parseFloat(match[2]!.replace(/,/g, ''));
+      if (!(Math.abs(value - referencePrice) / referencePrice <= LEVEL_MAX_DISTANCE)) continue;
+
+      (currentType === 'support' ? supports : resistances).push(value);
+    }
+  }
+
+  return [
+    ...mergeLevels(supports).slice(0, maxPerSide).map(p => ({ price: p, type: 'support' as const })),
+    ...mergeLevels(resistances).slice(0, maxPerSide).map(p => ({ price: p, type: 'resistance' as const }))
+  ];
+}
+
+/**
+ * 在价格轴上绘制带背景色的价格标签
+ */
+function drawAxisLabel(canvas: RasterCanvas, y: number, label: string, color: RGB): void {
+  const x = CHART_WIDTH - PRICE_AXIS_WIDTH + 4;
+  canvas.fillRect(x, y - 10, textWidth(label) + 8, 20, color);
+  canvas.text(x + 4, y - 7, label, COLORS.background);
+}
+
+/**
+ * 绘制均线（跳过尚未形成的前导 NaN）
+ */
+function drawMovingAverage(
+  canvas: RasterCanvas,
+  values: number[],
+  xAt: (index: number) => number,
+  yAt: (price: number) => number,
+  color: RGB
+): void {
+  for (let i = 1; i < values.length; i++) {
+    const prev = values[i - 1]!;
+    const curr = values[i]!;
+    if (Number.isFinite(prev) && Number.isFinite(curr)) {
+      canvas.line(xAt(i - 1), yAt(prev), xAt(i), yAt(curr), color);
+    }
+  }
+}
+
+/**
+ * 绘制K线图并返回PNG图片数据
+ */
+export function renderCandlestickChart(klines: KlineData[], options: ChartOptions): Buffer {
+  const maxCandles = options.maxCandles ?? DEFAULT_MAX_CANDLES;
+  const candles = klines.slice(-maxCandles);
+  if (candles.length < 2) {
+    throw new TradingAnalysisError(
+      'K线数据不足，无法绘制图表',
+      'INSUFFICIENT_CHART_DATA',
+      { symbol: options.symbol, timeframe: options.timeframe, count: candles.length }
+    );
+  }
+
+  const opens = candles.map(k => parseFloat(k.open));
+  const highs = candles.map(k => parseFloat(k.high));
+  const lows = candles.map(k => parseFloat(k.low));
+  const closes = candles.map(k => parseFloat(k.close));
+  const volumes = candles.map(k => parseFloat(k.volume));
+
+  // 均线基于全部K线计算，再截取可见部分，避免开头一段空白
+  const allCloses = klines.map(k => parseFloat(k.close));
+  const ma20 = sma(allCloses, 20).slice(-candles.length);
+  const ma50 = sma(allCloses, 50).slice(-candles.length);
+
+  const lastClose = closes[closes.length - 1]!;
+
+  // 距离当前价格过远的价位不参与绘制，避免压缩K线区域
+  const levels = (options.levels || []).filter(level =>
+    Number.isFinite(level.price) && Math.abs(level.price - lastClose) / lastClose <= LEVEL_MAX_DISTANCE
+  );
+
+  let minPrice = Math.min(...lows, ...levels.map(l => l.price));
+  let maxPrice = Math.max(...highs, ...levels.map(l => l.price));
+  const padding = (maxPrice - minPrice) * 0.05 || lastClose * 0.01;
+  minPrice -= padding;
+  maxPrice += padding;
+
+  // 布局
+  const plotLeft = PADDING_LEFT;
+  const plotRight = CHART_WIDTH - PRICE_AXIS_WIDTH;
+  const plotWidth = plotRight - plotLeft;
+  const priceTop = TITLE_HEIGHT;
+  const chartBottom = CHART_HEIGHT - TIME_AXIS_HEIGHT;
+  const volumeHeight = Math.round((chartBottom - priceTop) * VOLUME_PANEL_RATIO);
+  const volumeTop = chartBottom - volumeHeight;
+  const priceBottom = volumeTop - PANEL_GAP;
+  const priceHeight = priceBottom - priceTop;
+
+  const step = plotWidth / candles.length;
+  const bodyWidth = Math.max(1, Math.floor(step * 0.7));
+  const xAt = (index: number) => plotLeft + step * index + step / 2;
+  const yAt = (price: number) => priceTop + (maxPrice - price) / (maxPrice - minPrice) * priceHeight;
+  const maxVolume = Math.max(...volumes) || 1;
+
+  const canvas = new RasterCanvas(CHART_WIDTH, CHART_HEIGHT, COLORS.background);
+
+  // 价格网格和刻度
+  const gridLines = 6;
+  for (let i = 0; i <= gridLines; i++) {
+    const y = priceTop + priceHeight * i / gridLines;
+    canvas.horizontalLine(plotLeft, plotRight, y, COLORS.grid);
+    const price = maxPrice - (maxPrice - minPrice) * i / gridLines;
+    canvas.text(plotRight + 8, y - 7, formatChartPrice(price), COLORS.mutedText);
+  }
+  canvas.horizontalLine(plotLeft, plotRight, volumeTop, COLORS.grid);
+  canvas.verticalLine(plotRight, priceTop, chartBottom, COLORS.grid);
+
+  // 时间网格和标签
+  const labelEvery = Math.max(1, Math.ceil(candles.length / 5));
+  let lastLabelEnd = -Infinity;
+  for (let i = Math.floor(labelEvery / 2); i < candles.length; i += labelEvery) {
+    const x = xAt(i);
+    const label = formatTimeLabel(candles[i]!.openTime, options.timeframe);
+    const labelX = Math.min(Math.max(x - textWidth(label) / 2, plotLeft), plotRight - textWidth(label));
+    if (labelX < lastLabelEnd + 12) continue;
+    canvas.verticalLine(x, priceTop, chartBottom, COLORS.grid);
+    canvas.text(labelX, chartBottom + 8, label, COLORS.mutedText);
+    lastLabelEnd = labelX + textWidth(label);
+  }
+
+  // 成交量
+  for (let i = 0; i < candles.length; i++) {
+    const barHeight = volumes[i]! / maxVolume * (volumeHeight - 2);
+    const color = closes[i]! >= opens[i]! ? COLORS.upVolume : COLORS.downVolume;
+    canvas.fillRect(xAt(i) - bodyWidth / 2, chartBottom - barHeight, bodyWidth, barHeight, color);
+  }
+
+  // 关键价位（虚线）
+  for (const level of levels) {
+    const color = level.type === 'support' ? COLORS.support : COLORS.resistance;
+    canvas.horizontalLine(plotLeft, plotRight, yAt(level.price), color, 6);
+  }
+
+  // 均线
+  drawMovingAverage(canvas, ma50, xAt, yAt, COLORS.ma50);
+  drawMovingAverage(canvas, ma20, xAt, yAt, COLORS.ma20);
+
+  // 蜡烛
+  for (let i = 0; i < candles.length; i++) {
+    const isUp = closes[i]! >= opens[i]!;
+    const color = isUp ? COLORS.up : COLORS.down;
+    const x = xAt(i);
+    canvas.verticalLine(x, yAt(highs[i]!), yAt(lows[i]!), color);
+    const bodyTop = yAt(Math.max(opens[i]!, closes[i]!));
+    const bodyBottom = yAt(Math.min(opens[i]!, closes[i]!));
+    canvas.fillRect(x - bodyWidth / 2, bodyTop, bodyWidth, Math.max(1, bodyBottom - bodyTop), color);
+  }
+
+  // 价格轴标签：关键价位和最新价
+  for (const level of levels) {
+    const color = level.type === 'support' ? COLORS.support : COLORS.resistance;
+    drawAxisLabel(canvas, yAt(level.price), `${level.type === 'support' ? 'S' : 'R'} ${formatChartPrice(level.price)}`, color);
+  }
+  const lastColor = lastClose >= opens[opens.length - 1]! ? COLORS.up : COLORS.down;
+  canvas.horizontalLine(plotLeft, plotRight, yAt(lastClose), lastColor, 2);
+  drawAxisLabel(canvas, yAt(lastClose), formatChartPrice(lastClose), lastColor);
+
+  // 标题：交易对、周期、市场类型、涨跌幅和均线图例
+  const firstClose = closes[0]!;
+  const change = firstClose > 0 ? (lastClose / firstClose - 1) * 100 : 0;
+  const marketLabel = options.tradingPairType === 'futures' ? 'PERP' : 'SPOT';
+  const title = `${options.symbol} ${options.timeframe} ${marketLabel}`;
+  canvas.text(plotLeft, 14, title, COLORS.text);
+  let cursorX = plotLeft + textWidth(title) + 24;
+  const changeText = `${formatChartPrice(lastClose)} ${change >= 0 ? '+' : ''}${change.toFixed(2)}%`;
+  canvas.text(cursorX, 14, changeText, change >= 0 ? COLORS.up : COLORS.down);
+  cursorX += textWidth(changeText) + 24;
+  canvas.text(cursorX, 14, 'MA20', COLORS.ma20);
+  cursorX += textWidth('MA20') + 16;
+  canvas.text(cursorX, 14, 'MA50', COLORS.ma50);
+
+  return canvas.toPng();
+}
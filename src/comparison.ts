@@ -0,0 +1,215 @@
+/**
+ * 多币种对比分析数据模块
+ * 基于各交易对的K线计算相对强弱、收益率相关性和比价序列，供对比分析提示词使用
+ */
+
+import { sma, rsi } from './indicators.js';
+import type { KlineData, TimeframeKlineData, TimeframeType, TradingPairType } from './types.js';
+
+// 相对强弱统计的回看K线数量
+const STRENGTH_LOOKBACK = 20;
+
+// 相关性计算使用的最大K线数量
+const CORRELATION_WINDOW = 100;
+
+// 比价序列分析的时间框架及展示的最近数据点数量
+const RATIO_TIMEFRAMES: TimeframeType[] = ['4h', '1d'];
+const RATIO_RECENT_POINTS = 20;
+
+/**
+ * 对比分析的单个交易对输入
+ */
+export interface ComparisonInput {
+  symbol: string;
+  tradingPairType: TradingPairType;
+  klineData: TimeframeKlineData;
+}
+
+/**
+ * 数值格式化：保留6位有效数字
+ */
+function formatValue(value: number): string {
+  if (!Number.isFinite(value)) return '-';
+  return String(Number(value.toPrecision(6)));
+}
+
+/**
+ * 百分比格式化，带正负号
+ */
+function formatPercent(value: number): string {
+  if (!Number.isFinite(value)) return '-';
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+}
+
+/**
+ * 最近 lookback 根K线的涨跌幅（数据不足时使用全部数据）
+ */
+function periodChange(klines: KlineData[], lookback: number): number {
+  if (klines.length < 2) return NaN;
+  const last = parseFloat(klines[klines.length - 1]!.close);
+  const base = parseFloat(klines[Math.max(0, klines.length - 1 - lookback)]!.close);
+  return base > 0 ? (last / base - 1) * 100 : NaN;
+}
+
+/**
+ * 按开盘时间对齐两组K线的收盘价
+ */
+function alignCloses(a: KlineData[], b: KlineData[]): Array<[number, number]> {
+  const closesB = new Map(b.map(k => [k.openTime, parseFloat(k.close)]));
+  const aligned: Array<[number, number]> = [];
+  for (const k of a) {
+    const closeB = closesB.get(k.openTime);
+    if (closeB !== undefined) {
+      aligned.push([parseFloat(k.close), closeB]);
+    }
+  }
+  return aligned;
+}
+
+/**
+ * 对数收益率的皮尔逊相关系数
+ */
+function returnCorrelation(aligned: Array<[number, number]>): number {
+  const pairs = aligned.slice(-CORRELATION_WINDOW - 1);
+  const returnsA: number[] = [];
+  const returnsB: number[] = [];
+  for (let i = 1; i < pairs.length; i++) {
+    returnsA.push(Math.log(pairs[i]![0] / pairs[i - 1]![0]));
+    returnsB.push(Math.log(pairs[i]![1] / pairs[i - 1]![1]));
+  }
+
+  const n = returnsA.length;
+  if (n < 10) return NaN;
+
+  const meanA = returnsA.reduce((sum, v) => sum + v, 0) / n;
+  const meanB = returnsB.reduce((sum, v) => sum + v, 0) / n;
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = returnsA[i]! - meanA;
+    const db = returnsB[i]! - meanB;
+    cov += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+  return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : NaN;
+}
+
+/**
+ * 两两组合
+ */
+function pairCombinations<T>(items: T[]): Array<[T, T]> {
+  const result: Array<[T, T]> = [];
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      result.push([items[i]!, items[j]!]);
+    }
+  }
+  return result;
+}
+
+/**
+ * 取输入中都有数据的时间框架
+ */
+function commonTimeframes(inputs: ComparisonInput[]): TimeframeType[] {
+  const first = inputs[0];
+  if (!first) return [];
+  return (Object.keys(first.klineData) as TimeframeType[]).filter(timeframe =>
+    inputs.every(input => (input.klineData[timeframe]?.length || 0) > 1)
+  );
+}
+
+/**
+ * 相对强弱：各时间框架最近N根K线涨跌幅及强弱排序
+ */
+function buildRelativeStrength(inputs: ComparisonInput[], timeframes: TimeframeType[]): string[] {
+  const lines = [`**相对强弱**（各时间框架最近${STRENGTH_LOOKBACK}根K线涨跌幅）`];
+
+  for (const input of inputs) {
+    const changes = timeframes.map(timeframe =>
+      `${timeframe} ${formatPercent(periodChange(input.klineData[timeframe]!, STRENGTH_LOOKBACK))}`
+    );
+    lines.push(`- ${input.symbol}: ${changes.join(' | ')}`);
+  }
+
+  for (const timeframe of timeframes) {
+    const ranking = inputs
+      .map(input => ({ symbol: input.symbol, change: periodChange(input.klineData[timeframe]!, STRENGTH_LOOKBACK) }))
+      .filter(item => Number.isFinite(item.change))
+      .sort((a, b) => b.change - a.change)
+      .map(item => item.symbol);
+    if (ranking.length > 1) {
+      lines.push(`- ${timeframe} 强弱排序: ${ranking.join(' > ')}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * 相关性：两两交易对对数收益率的相关系数
+ */
+function buildCorrelation(inputs: ComparisonInput[], timeframes: TimeframeType[]): string[] {
+  const lines = [`**收益率相关性**（最近${CORRELATION_WINDOW}根K线对数收益率，1为完全同向，-1为完全反向）`];
+
+  for (const [a, b] of pairCombinations(inputs)) {
+    const values = timeframes.map(timeframe => {
+      const aligned = alignCloses(a.klineData[timeframe]!, b.klineData[timeframe]!);
+      return `${timeframe} ${formatValue(returnCorrelation(aligned))}`;
+    });
+    lines.push(`- ${a.symbol} / ${b.symbol}: ${values.join(' | ')}`);
+  }
+
+  return lines;
+}
+
+/**
+ * 比价序列：A/B 收盘价比值的趋势、均线和RSI
+ */
+function buildRatioSeries(inputs: ComparisonInput[], timeframes: TimeframeType[]): string[] {
+  const lines = ['**比价序列**（A/B 收盘价比值，比值上升表示 A 相对 B 走强）'];
+
+  for (const [a, b] of pairCombinations(inputs)) {
+    for (const timeframe of RATIO_TIMEFRAMES.filter(tf => timeframes.includes(tf))) {
+      const ratios = alignCloses(a.klineData[timeframe]!, b.klineData[timeframe]!)
+        .filter(([, closeB]) => closeB > 0)
+        .map(([closeA, closeB]) => closeA / closeB);
+      if (ratios.length < 2) continue;
+
+      const current = ratios[ratios.length - 1]!;
+      const base = ratios[Math.max(0, ratios.length - 1 - STRENGTH_LOOKBACK)]!;
+      const ratioSma = sma(ratios, 20);
+      const ratioRsi = rsi(ratios, 14);
+      const lastSma = ratioSma[ratioSma.length - 1]!;
+      const position = Number.isFinite(lastSma) ? (current >= lastSma ? '上方' : '下方') : '-';
+      const recent = ratios.slice(-RATIO_RECENT_POINTS).map(formatValue).join(', ');
+
+      lines.push(
+        `- ${a.symbol}/${b.symbol} [${timeframe}] 当前 ${formatValue(current)} | ${STRENGTH_LOOKBACK}根变化 ${formatPercent((current / base - 1) * 100)}` +
+        ` | SMA20 ${formatValue(lastSma)}（比值位于均线${position}） | RSI14 ${formatValue(ratioRsi[ratioRsi.length - 1]!)}`
+      );
+      lines.push(`  最近${RATIO_RECENT_POINTS}个比值: ${recent}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * 生成对比分析数据文本
+ */
+export function buildComparisonData(inputs: ComparisonInput[]): string {
+  const timeframes = commonTimeframes(inputs);
+  if (inputs.length < 2 || timeframes.length === 0) {
+    return '对比数据不足';
+  }
+
+  return [
+    ...buildRelativeStrength(inputs, timeframes),
+    '',
+    ...buildCorrelation(inputs, timeframes),
+    '',
+    ...buildRatioSeries(inputs, timeframes)
+  ].join('\n');
+}
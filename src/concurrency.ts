@@ -5,7 +5,14 @@
 
 import { logger } from './logger.js';
 import { config } from './config.js';
-import type { ConcurrencyManager } from './types.js';
+import { configEvents } from './config-events.js';
+import { AnalysisQueue } from './analysis-queue.js';
+import type {
+  AnalysisQueueOptions,
+  AnalysisQueueTicket,
+  ConcurrencyManager,
+  ConcurrencyStatus
+} from './types.js';
 
 /**
  * 并发控制管理器实现
@@ -16,16 +23,33 @@ class ConcurrencyManagerImpl implements ConcurrencyManager {
   
   /** 每个群的并发状态 - true表示该群正在进行分析 */
   public groupAnalysis: Map<number, boolean> = new Map();
+
+  /** 每个群当前分析占用的并发名额 */
+  private groupWeights: Map<number, number> = new Map();
+
+  /** 名额不足时的公平排队队列 */
+  private queue = new AnalysisQueue(() => this.notifyIfIdle());
+
+  /** 等待分析全部结束的回调（名额释放或排队请求移除后检查） */
+  private idleWaiters: Set<() => void> = new Set();
+
+  constructor() {
+    // 并发上限调高后立即开始排队中的请求，无需重启
+    configEvents.subscribe('并发控制', ['maxConcurrentAnalysis', 'maxQueueSize', 'maxQueuePerChat'], () => this.dispatch());
+  }
   
   /**
-   * 检查是否可以开始新的分析
+   * 检查是否可以开始新的分析（对比分析按交易对数量占用多个名额）
    */
-  canStartAnalysis(chatId: number): boolean {
+  canStartAnalysis(chatId: number, weight: number = 1): boolean {
+    const effectiveWeight = this.normalizeWeight(weight);
+
     // 检查全局并发限制
-    if (this.globalCount >= config.maxConcurrentAnalysis) {
+    if (this.globalCount + effectiveWeight > config.maxConcurrentAnalysis) {
       logger.debug('全局并发已达上限', {
         currentGlobal: this.globalCount,
         maxConcurrent: config.maxConcurrentAnalysis,
+        weight: effectiveWeight,
         chatId
       });
       return false;
@@ -46,16 +70,19 @@ class ConcurrencyManagerImpl implements ConcurrencyManager {
   /**
    * 开始分析（增加计数）
    */
-  startAnalysis(chatId: number): void {
-    if (!this.canStartAnalysis(chatId)) {
+  startAnalysis(chatId: number, weight: number = 1): void {
+    if (!this.canStartAnalysis(chatId, weight)) {
       throw new Error('Cannot start analysis: concurrency limit exceeded');
     }
     
-    this.globalCount++;
+    const effectiveWeight = this.normalizeWeight(weight);
+    this.globalCount += effectiveWeight;
     this.groupAnalysis.set(chatId, true);
+    this.groupWeights.set(chatId, effectiveWeight);
     
     logger.info('开始分析', {
       chatId,
+      weight: effectiveWeight,
       globalCount: this.globalCount,
       maxConcurrent: config.maxConcurrentAnalysis
     });
@@ -66,14 +93,19 @@ class ConcurrencyManagerImpl implements ConcurrencyManager {
    */
   finishAnalysis(chatId: number): void {
     if (this.groupAnalysis.get(chatId) === true) {
-      this.globalCount = Math.max(0, this.globalCount - 1);
+      const weight = this.groupWeights.get(chatId) || 1;
+      this.globalCount = Math.max(0, this.globalCount - weight);
       this.groupAnalysis.set(chatId, false);
+      this.groupWeights.delete(chatId);
       
       logger.info('完成分析', {
         chatId,
         globalCount: this.globalCount,
         maxConcurrent: config.maxConcurrentAnalysis
       });
+
+      this.dispatch();
+      this.notifyIfIdle();
     } else {
       logger.warn('尝试完成未开始的分析', {
         chatId,
@@ -82,25 +114,132 @@ class ConcurrencyManagerImpl implements ConcurrencyManager {
     }
   }
   
+  /**
+   * 调整进行中分析占用的名额（识别出对比分析后按交易对数量重新计算）
+   * 新增名额超出全局上限时返回 false，原占用保持不变
+   */
+  resizeAnalysis(chatId: number, weight: number): boolean {
+    if (this.groupAnalysis.get(chatId) !== true) {
+      return false;
+    }
+
+    const currentWeight = this.groupWeights.get(chatId) || 1;
+    const newWeight = this.normalizeWeight(weight);
+    if (this.globalCount - currentWeight + newWeight > config.maxConcurrentAnalysis) {
+      logger.debug('调整分析名额失败，全局并发不足', {
+        chatId,
+        currentWeight,
+        newWeight,
+        currentGlobal: this.globalCount
+      });
+      return false;
+    }
+
+    this.globalCount += newWeight - currentWeight;
+    this.groupWeights.set(chatId, newWeight);
+
+    logger.info('调整分析名额', {
+      chatId,
+      weight: newWeight,
+      globalCount: this.globalCount
+    });
+    return true;
+  }
+
+  /**
+   * 申请开始分析：该聊天没有排队请求且有名额时立即开始，否则加入该聊天的队列（见 analysis-queue.ts）
+   */
+  enqueueAnalysis(chatId: number, options: AnalysisQueueOptions = {}): AnalysisQueueTicket {
+    const weight = this.normalizeWeight(options.weight ?? 1);
+
+    if (!this.queue.has(chatId) && this.canStartAnalysis(chatId, weight)) {
+      this.startAnalysis(chatId, weight);
+      return { id: this.queue.createTicketId(), position: 0, result: Promise.resolve('started') };
+    }
+    return this.queue.enqueue(chatId, weight, options);
+  }
+
+  /**
+   * 取消排队中的请求
+   */
+  cancelQueued(ticketId: number): boolean {
+    return this.queue.remove(ticketId, 'cancelled');
+  }
+
+  /**
+   * 等待进行中和排队的分析全部结束（用于切换机器人令牌前排空请求），
+   * 最后一个名额释放时返回 true，超过 timeoutMs 仍未结束时返回 false
+   */
+  waitForIdle(timeoutMs: number): Promise<boolean> {
+    if (this.isIdle()) {
+      return Promise.resolve(true);
+    }
+
+    return new Promise(resolve => {
+      const finish = (idle: boolean) => {
+        clearTimeout(timer);
+        this.idleWaiters.delete(onIdle);
+        resolve(idle);
+      };
+      const onIdle = () => finish(true);
+      const timer = setTimeout(() => finish(false), timeoutMs);
+      this.idleWaiters.add(onIdle);
+    });
+  }
+
+  /**
+   * 没有进行中和排队的分析
+   */
+  private isIdle(): boolean {
+    return this.globalCount === 0 && this.queue.isEmpty();
+  }
+
+  /**
+   * 空闲时通知所有等待方
+   */
+  private notifyIfIdle(): void {
+    if (this.isIdle()) {
+      [...this.idleWaiters].forEach(onIdle => onIdle());
+    }
+  }
+
+  /**
+   * 名额释放或上限调高后开始排队中的请求
+   */
+  private dispatch(): void {
+    this.queue.dispatch(
+      (chatId, weight) => this.canStartAnalysis(chatId, weight),
+      (chatId, weight) => this.startAnalysis(chatId, weight)
+    );
+  }
+
+  /**
+   * 名额至少为1，且不超过全局上限（避免大请求永远无法开始）
+   */
+  private normalizeWeight(weight: number): number {
+    return Math.min(Math.max(1, weight), config.maxConcurrentAnalysis);
+  }
+  
   /**
    * 获取当前状态信息
    */
-  getStatus(): {
-    globalCount: number;
-    maxConcurrent: number;
-    activeGroups: number[];
-  } {
+  getStatus(): ConcurrencyStatus {
     const activeGroups: number[] = [];
     for (const [chatId, isActive] of this.groupAnalysis.entries()) {
       if (isActive) {
         activeGroups.push(chatId);
       }
     }
-    
+
     return {
       globalCount: this.globalCount,
       maxConcurrent: config.maxConcurrentAnalysis,
-      activeGroups
+      activeGroups,
+      queueDepth: this.queue.getDepth(),
+      queuedChats: this.queue.getChatCount(),
+      maxQueueSize: config.maxQueueSize,
+      oldestWaitMs: this.queue.getOldestWaitMs(),
+      averageWaitMs: this.queue.getAverageWaitMs()
     };
   }
   
@@ -0,0 +1,82 @@
+/**
+ * 配置变更事件总线
+ * 配置重新加载后找出发生变化的配置项，按订阅的配置项通知各模块，无需重启进程即可生效
+ */
+
+import { logger } from './logger.js';
+import type { Config, ConfigChangeEvent, ConfigKey, ConfigSubscriberFailure } from './types.js';
+
+/**
+ * 配置变更处理函数
+ */
+export type ConfigChangeListener = (event: ConfigChangeEvent) => void | Promise<void>;
+
+/**
+ * 订阅记录
+ */
+interface ConfigSubscription {
+  /** 订阅方名称（用于日志和失败报告） */
+  name: string;
+  keys: ReadonlySet<ConfigKey>;
+  listener: ConfigChangeListener;
+}
+
+/**
+ * 比较两份配置，返回值发生变化的配置项（数组和对象按内容比较）
+ */
+export function diffConfig(previous: Config, current: Config): ConfigKey[] {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(current)] as ConfigKey[]);
+  return Array.from(keys).filter(key => JSON.stringify(previous[key]) !== JSON.stringify(current[key]));
+}
+
+/**
+ * 配置变更事件总线类
+ */
+export class ConfigEventBus {
+  private subscriptions: ConfigSubscription[] = [];
+
+  /**
+   * 订阅配置项的变更，返回取消订阅的函数
+   */
+  subscribe(name: string, keys: readonly ConfigKey[], listener: ConfigChangeListener): () => void {
+    const subscription: ConfigSubscription = { name, keys: new Set(keys), listener };
+    this.subscriptions.push(subscription);
+
+    return () => {
+      this.subscriptions = this.subscriptions.filter(item => item !== subscription);
+    };
+  }
+
+  /**
+   * 通知订阅了变更配置项的模块（按订阅顺序依次处理），单个订阅方失败不影响其他订阅方
+   */
+  async publish(event: ConfigChangeEvent): Promise<ConfigSubscriberFailure[]> {
+    const failures: ConfigSubscriberFailure[] = [];
+    if (event.changedKeys.length === 0) {
+      return failures;
+    }
+
+    logger.info('配置已变更', { changedKeys: event.changedKeys });
+
+    for (const subscription of [...this.subscriptions]) {
+      const keys = event.changedKeys.filter(key => subscription.keys.has(key));
+      if (keys.length === 0) {
+        continue;
+      }
+
+      try {
+        await subscription.listener(event);
+        logger.info('配置变更已应用', { subscriber: subscription.name, keys });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push({ subscriber: subscription.name, error: message });
+        logger.error('应用配置变更失败', { subscriber: subscription.name, keys, error: message });
+      }
+    }
+
+    return failures;
+  }
+}
+
+// 导出单例实例
+export const configEvents = new ConfigEventBus();
@@ -4,8 +4,17 @@
  */
 
 import { config as loadEnv } from 'dotenv';
-import type { Config, LogLevel } from './types.js';
+import type {
+  AIStageSettings,
+  AIThinkingSetting,
+  Config,
+  ConfigReloadResult,
+  ExchangeId,
+  LogLevel,
+  TelegramUpdateMode
+} from './types.js';
 import { basicConfigManager } from './config/basic-config-manager.js';
+import { configEvents, diffConfig } from './config-events.js';
 
 // 加载环境变量
 loadEnv();
@@ -13,6 +22,9 @@ loadEnv();
 // 全局配置缓存
 let globalConfig: Config | null = null;
 
+// 支持的行情数据源
+const EXCHANGE_IDS: readonly ExchangeId[] = ['binance', 'okx', 'bybit'];
+
 
 
 /**
@@ -48,6 +60,88 @@ function validateMaxConcurrency(concurrencyStr: string): number {
   return concurrency;
 }
 
+/**
+ * 验证整数配置项（数据库中的值无效时为 NaN）
+ */
+function validateInteger(value: number, name: string, min: number, max: number = Number.MAX_SAFE_INTEGER): number {
+  if (!Number.isInteger(value) || value < min || value > max) {
+    const range = max !== Number.MAX_SAFE_INTEGER
+      ? `${min}-${max}之间的整数`
+      : min === Number.MIN_SAFE_INTEGER ? '整数' : `不小于${min}的整数`;
+    throw new Error(`无效的${name}: ${value}，应为${range}`);
+  }
+  return value;
+}
+
+/**
+ * 验证每日花费预算（美元，0为不设置）
+ */
+function validateDailyBudget(value: number): number {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`无效的每日AI花费预算: ${value}，应为不小于0的数值`);
+  }
+  return value;
+}
+
+/**
+ * 验证行情数据源优先级（逗号分隔，去重后保持原顺序）
+ */
+function validateMarketDataProviders(value: string): ExchangeId[] {
+  const providers = Array.from(new Set(
+    value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean)
+  ));
+  const invalid = providers.filter(item => !EXCHANGE_IDS.includes(item as ExchangeId));
+  if (invalid.length > 0) {
+    throw new Error(`无效的行情数据源: ${invalid.join(', ')}，可选值为 ${EXCHANGE_IDS.join(', ')}`);
+  }
+  if (providers.length === 0) {
+    throw new Error('行情数据源不能为空');
+  }
+  return providers as ExchangeId[];
+}
+
+/**
+ * 解析思考模式设置：off 关闭，auto 动态预算，正整数为思考预算，其他值沿用调用方默认值
+ */
+function parseThinkingSetting(value: string): AIThinkingSetting {
+  const normalized = String(value ?? '').trim().toLowerCase();
+  if (normalized === 'off' || normalized === 'auto') {
+    return normalized;
+  }
+  const budget = parseInt(normalized, 10);
+  return /^\d+$/.test(normalized) && budget > 0 ? budget : 'default';
+}
+
+/**
+ * 构建单个环节的模型设置（温度小于0表示使用调用方默认值）
+ */
+function buildStageSettings(profile: string, model: string, temperature: number, thinking: string): AIStageSettings {
+  return {
+    profile: String(profile ?? '').trim(),
+    model: String(model ?? '').trim(),
+    temperature: Number.isFinite(temperature) && temperature >= 0 ? temperature : null,
+    thinking: parseThinkingSetting(thinking)
+  };
+}
+
+/**
+ * 验证Telegram更新接收方式，webhook 模式必须配置HTTPS地址和密钥
+ */
+function validateTelegramMode(mode: string, webhookUrl: string, webhookSecret: string): TelegramUpdateMode {
+  if (mode !== 'polling' && mode !== 'webhook') {
+    throw new Error(`无效的Telegram更新接收方式: ${mode}，应为 polling 或 webhook`);
+  }
+  if (mode === 'webhook') {
+    if (!/^https:\/\/[^\s/]+/.test(webhookUrl)) {
+      throw new Error(`无效的Webhook地址: ${webhookUrl}，webhook 模式需要 https:// 开头的公网地址`);
+    }
+    if (!/^[A-Za-z0-9_-]{1,256}$/.test(webhookSecret)) {
+      throw new Error('webhook 模式需要配置Webhook密钥（1-256位字母、数字、下划线或连字符）');
+    }
+  }
+  return mode;
+}
+
 /**
  * 验证时区格式
  */
@@ -64,36 +158,69 @@ function validateTimezone(timezone: string): string {
 
 
 /**
- * 从数据库创建项目配置
+ * 从数据库创建项目配置，配置无效时抛出错误
  */
 async function createConfigFromDatabase(): Promise<Config> {
-  try {
-    // 从数据库加载基础配置
-    const basicConfig = await basicConfigManager.getConfig();
+  // 从数据库加载基础配置
+  const basicConfig = await basicConfigManager.getConfig();
+
+  return {
+    // 从数据库加载的配置
+    telegramBotToken: basicConfig.telegramBotToken,
+    openaiApiKey: basicConfig.openaiApiKey,
+    openaiBaseUrl: basicConfig.openaiBaseUrl,
+    openaiModel: basicConfig.openaiModel,
+    aiProvider: basicConfig.aiProvider,
+    timezone: validateTimezone(basicConfig.timezone),
+    binanceApiKey: basicConfig.binanceApiKey,
+    binanceSecret: basicConfig.binanceSecret,
+    maxConcurrentAnalysis: validateMaxConcurrency(String(basicConfig.maxConcurrentAnalysis)),
+    enableNewMemberWelcome: basicConfig.enableNewMemberWelcome,
+    maxAlertsPerUser: validateInteger(basicConfig.maxAlertsPerUser, '每用户价格提醒数量', 1),
+    conversationTtlMinutes: validateInteger(basicConfig.conversationTtlMinutes, '追问上下文保留时间', 0),
+    maxCompareSymbols: validateInteger(basicConfig.maxCompareSymbols, '对比分析交易对数量', 2),
+    enableAnalysisChart: basicConfig.enableAnalysisChart,
+    marketDataProviders: validateMarketDataProviders(basicConfig.marketDataProviders),
+    telegramMode: validateTelegramMode(basicConfig.telegramMode, basicConfig.telegramWebhookUrl, basicConfig.telegramWebhookSecret),
+    telegramWebhookUrl: basicConfig.telegramWebhookUrl,
+    telegramWebhookSecret: basicConfig.telegramWebhookSecret,
+    enableTradeSetup: basicConfig.enableTradeSetup,
+    enableFeedbackButtons: basicConfig.enableFeedbackButtons,
+    enableQuota: basicConfig.enableQuota,
+    userRateLimitPerMinute: validateInteger(basicConfig.userRateLimitPerMinute, '用户每分钟分析次数', 0),
+    userDailyQuota: validateInteger(basicConfig.userDailyQuota, '用户每日分析次数', 0),
+    userMonthlyQuota: validateInteger(basicConfig.userMonthlyQuota, '用户每月分析次数', 0),
+    chatRateLimitPerMinute: validateInteger(basicConfig.chatRateLimitPerMinute, '群每分钟分析次数', 0),
+    chatDailyQuota: validateInteger(basicConfig.chatDailyQuota, '群每日分析次数', 0),
+    chatMonthlyQuota: validateInteger(basicConfig.chatMonthlyQuota, '群每月分析次数', 0),
+    maxQueueSize: validateInteger(basicConfig.maxQueueSize, '全局排队数量', 0),
+    maxQueuePerChat: validateInteger(basicConfig.maxQueuePerChat, '每个聊天排队数量', 0),
+    queueTimeoutSeconds: validateInteger(basicConfig.queueTimeoutSeconds, '排队超时时间', 1),
+    dailyBudgetUsd: validateDailyBudget(basicConfig.dailyBudgetUsd),
+    budgetAlertChatId: validateInteger(basicConfig.budgetAlertChatId, '预算提醒聊天ID', Number.MIN_SAFE_INTEGER),
+    aiMaxRetries: validateInteger(basicConfig.aiMaxRetries, 'AI重试次数', 0, 10),
+    aiRetryBaseDelayMs: validateInteger(basicConfig.aiRetryBaseDelayMs, 'AI重试初始等待时间', 0),
+    aiRequestTimeoutSeconds: validateInteger(basicConfig.aiRequestTimeoutSeconds, 'AI请求超时时间', 1),
+    aiCircuitFailureThreshold: validateInteger(basicConfig.aiCircuitFailureThreshold, 'AI熔断失败次数', 0),
+    aiCircuitCooldownSeconds: validateInteger(basicConfig.aiCircuitCooldownSeconds, 'AI熔断冷却时间', 0),
+    aiStageSettings: {
+      intent: buildStageSettings(basicConfig.intentAiProfile, basicConfig.intentModel, basicConfig.intentTemperature, basicConfig.intentThinking),
+      intent_context: buildStageSettings(
+        basicConfig.intentContextAiProfile,
+        basicConfig.intentContextModel,
+        basicConfig.intentContextTemperature,
+        basicConfig.intentContextThinking
+      ),
+      analysis: buildStageSettings(basicConfig.analysisAiProfile, basicConfig.analysisModel, basicConfig.analysisTemperature, basicConfig.analysisThinking),
+      follow_up: buildStageSettings(basicConfig.followUpAiProfile, basicConfig.followUpModel, basicConfig.followUpTemperature, basicConfig.followUpThinking)
+    },
     
-    return {
-      // 从数据库加载的配置
-      telegramBotToken: basicConfig.telegramBotToken,
-      openaiApiKey: basicConfig.openaiApiKey,
-      openaiBaseUrl: basicConfig.openaiBaseUrl,
-      openaiModel: basicConfig.openaiModel,
-      aiProvider: basicConfig.aiProvider,
-      timezone: validateTimezone(basicConfig.timezone),
-      binanceApiKey: basicConfig.binanceApiKey,
-      binanceSecret: basicConfig.binanceSecret,
-      maxConcurrentAnalysis: validateMaxConcurrency(String(basicConfig.maxConcurrentAnalysis)),
-      enableNewMemberWelcome: basicConfig.enableNewMemberWelcome,
-      
-      // 仍然从环境变量加载的配置
-      port: validatePort(process.env.PORT || '3000'),
-      host: process.env.HOST || '0.0.0.0',
-      nodeEnv: process.env.NODE_ENV || 'development',
-      logLevel: validateLogLevel(process.env.LOG_LEVEL || 'info')
-    };
-  } catch (error) {
-    console.error('配置加载失败:', error);
-    process.exit(1);
-  }
+    // 仍然从环境变量加载的配置
+    port: validatePort(process.env.PORT || '3000'),
+    host: process.env.HOST || '0.0.0.0',
+    nodeEnv: process.env.NODE_ENV || 'development',
+    logLevel: validateLogLevel(process.env.LOG_LEVEL || 'info')
+  };
 }
 
 /**
@@ -104,7 +231,12 @@ async function initializeConfig(): Promise<Config> {
     return globalConfig;
   }
   
-  globalConfig = await createConfigFromDatabase();
+  try {
+    globalConfig = await createConfigFromDatabase();
+  } catch (error) {
+    console.error('配置加载失败:', error);
+    process.exit(1);
+  }
   return globalConfig;
 }
 
@@ -116,14 +248,20 @@ export async function getConfig(): Promise<Config> {
 }
 
 /**
- * 重新加载配置
+ * 重新加载配置并通知订阅了变更配置项的模块
+ * 新配置无效时抛出错误，当前配置保持不变
  */
-export async function reloadConfig(): Promise<Config> {
-  globalConfig = null;
-  const newConfig = await initializeConfig();
-  // 更新全局config对象
+export async function reloadConfig(): Promise<ConfigReloadResult> {
+  const newConfig = await createConfigFromDatabase();
+  const previous = { ...config };
+  const changedKeys = diffConfig(previous, newConfig);
+
+  // 原地更新全局config对象，各模块持有的引用立即读到新值
   Object.assign(config, newConfig);
-  return newConfig;
+  globalConfig = config;
+
+  const failures = await configEvents.publish({ changedKeys, previous, current: config });
+  return { config, changedKeys, failures };
 }
 
 // 为了向后兼容，保留同步导出（在应用启动时初始化）
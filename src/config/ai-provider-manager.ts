@@ -0,0 +1,421 @@
+/**
+ * AI服务商档案管理模块
+ * 基础配置中的服务商为主服务商，档案表中启用的服务商按优先级排在其后作为故障转移备用；
+ * 每个档案可以限定只用于意图识别或分析环节。意图识别、分析和追问还可以在基础配置中
+ * 指定首选档案和模型，此时主服务商退为第一个备用
+ */
+
+import { databaseManager } from './database-manager.js';
+import { aiCircuitBreaker } from '../ai-circuit-breaker.js';
+import { config } from '../config.js';
+import { logger } from '../logger.js';
+import { TradingAnalysisError } from '../types.js';
+import type {
+  AIProvider,
+  AIProviderProfile,
+  AIProviderProfileView,
+  AIProviderRole,
+  AIProviderTarget,
+  AIModelStage,
+  AIStageSettings,
+  AIUsageStage,
+  Config,
+  CreateAIProviderProfileParams,
+  UpdateAIProviderProfileParams
+} from '../types.js';
+
+// 基础配置中的主服务商使用的档案ID
+export const PRIMARY_PROFILE_ID = 0;
+
+const PROVIDERS: readonly AIProvider[] = ['openai', 'gemini', 'claude'];
+const ROLES: readonly AIProviderRole[] = ['all', 'intent', 'analysis'];
+
+// 意图识别相关的调用环节，其余环节都归为分析
+const INTENT_STAGES: readonly AIUsageStage[] = ['intent', 'intent_context'];
+
+// 调用环节对应的模型设置（多币种对比沿用分析的设置，交易计划等其他环节使用主服务商）
+const MODEL_STAGES: Partial<Record<AIUsageStage, AIModelStage>> = {
+  intent: 'intent',
+  intent_context: 'intent_context',
+  analysis: 'analysis',
+  comparison: 'analysis',
+  follow_up: 'follow_up'
+};
+
+// 环节单独指定模型时使用的档案ID（负数，与数据库中的档案区分，熔断状态单独统计）
+const STAGE_TARGET_IDS: Record<AIModelStage, number> = {
+  intent: -1,
+  intent_context: -2,
+  analysis: -3,
+  follow_up: -4
+};
+
+const STAGE_NAMES: Record<AIModelStage, string> = {
+  intent: '意图识别',
+  intent_context: '意图识别第二步',
+  analysis: '分析',
+  follow_up: '追问'
+};
+
+// 档案名称最大长度
+const MAX_NAME_LENGTH = 50;
+
+// 模型名允许的字符
+const MODEL_NAME_PATTERN = /^[\w.:\/-]{1,100}$/;
+
+/**
+ * 构建主服务商所需的基础配置项
+ */
+type PrimaryProviderSource = Pick<Config, 'aiProvider' | 'openaiBaseUrl' | 'openaiApiKey' | 'openaiModel'>;
+
+/**
+ * 数据库记录结构
+ */
+interface AIProviderProfileRecord {
+  id: number;
+  name: string;
+  provider: AIProvider;
+  base_url: string;
+  api_key: string;
+  model: string;
+  role: AIProviderRole;
+  priority: number;
+  enabled: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * 将数据库记录转换为档案对象
+ */
+function toProfile(record: AIProviderProfileRecord): AIProviderProfile {
+  return {
+    id: record.id,
+    name: record.name,
+    provider: record.provider,
+    baseUrl: record.base_url,
+    apiKey: record.api_key,
+    model: record.model,
+    role: record.role,
+    priority: record.priority,
+    enabled: Boolean(record.enabled),
+    createdAt: record.created_at,
+    updatedAt: record.updated_at
+  };
+}
+
+/**
+ * 去掉API密钥，用于管理接口返回
+ */
+export function toProfileView(profile: AIProviderProfile): AIProviderProfileView {
+  const { apiKey, ...view } = profile;
+  return { ...view, hasApiKey: apiKey.length > 0 };
+}
+
+/**
+ * 将档案转换为故障转移链中的服务商
+ */
+function toTarget(profile: AIProviderProfile): AIProviderTarget {
+  return {
+    id: profile.id,
+    name: profile.name,
+    provider: profile.provider,
+    baseUrl: profile.baseUrl,
+    apiKey: profile.apiKey,
+    model: profile.model,
+    role: profile.role,
+    enabled: profile.enabled
+  };
+}
+
+/**
+ * 判断档案是否适用于调用环节
+ */
+function matchesStage(role: AIProviderRole, stage: AIUsageStage): boolean {
+  if (role === 'all') {
+    return true;
+  }
+  return (role === 'intent') === INTENT_STAGES.includes(stage);
+}
+
+/**
+ * AI服务商档案管理器类
+ */
+class AIProviderManager {
+  /** 启用的档案（按优先级排序），为 null 时需要重新加载 */
+  private enabledProfiles: AIProviderProfile[] | null = null;
+
+  /**
+   * 获取基础配置中的主服务商（默认为当前生效的配置）
+   */
+  getPrimaryTarget(source: PrimaryProviderSource = config): AIProviderTarget {
+    return {
+      id: PRIMARY_PROFILE_ID,
+      name: '主服务商（基础配置）',
+      provider: source.aiProvider,
+      baseUrl: source.openaiBaseUrl,
+      apiKey: source.openaiApiKey,
+      model: source.openaiModel,
+      role: 'all',
+      enabled: true
+    };
+  }
+
+  /**
+   * 获取需要测试连接的服务商：按给定的基础配置（可以是尚未保存的值）构建主服务商，再加上全部启用的档案
+   */
+  getTestTargets(source: PrimaryProviderSource): AIProviderTarget[] {
+    return [this.getPrimaryTarget(source), ...this.getEnabledProfiles().map(toTarget)];
+  }
+
+  /**
+   * 获取调用环节在基础配置中的模型设置，没有单独设置的环节返回 null
+   */
+  getStageSettings(stage: AIUsageStage): AIStageSettings | null {
+    const modelStage = MODEL_STAGES[stage];
+    return modelStage ? config.aiStageSettings?.[modelStage] ?? null : null;
+  }
+
+  /**
+   * 获取调用环节的首选服务商：环节指定了档案时使用该档案，指定了模型时替换模型，否则为主服务商
+   */
+  getStageTarget(stage: AIUsageStage): AIProviderTarget {
+    const primary = this.getPrimaryTarget();
+    const modelStage = MODEL_STAGES[stage];
+    const settings = this.getStageSettings(stage);
+    if (!modelStage || !settings || (!settings.profile && !settings.model)) {
+      return primary;
+    }
+
+    let base = primary;
+    if (settings.profile) {
+      const profile = this.getEnabledProfiles().find(item => item.name === settings.profile);
+      if (profile) {
+        base = toTarget(profile);
+      } else {
+        logger.warn('环节指定的AI服务商档案不存在或已停用，使用主服务商', { stage, profile: settings.profile });
+      }
+    }
+
+    if (!settings.model || settings.model === base.model) {
+      return base;
+    }
+    return {
+      ...base,
+      id: STAGE_TARGET_IDS[modelStage],
+      name: `${base.name} · ${STAGE_NAMES[modelStage]}`,
+      model: settings.model
+    };
+  }
+
+  /**
+   * 获取调用环节的故障转移链：环节的首选服务商在前，其次是主服务商，之后是适用于该环节的启用档案
+   */
+  getChain(stage: AIUsageStage): AIProviderTarget[] {
+    const chain = [this.getStageTarget(stage)];
+    if (chain[0]!.id !== PRIMARY_PROFILE_ID) {
+      chain.push(this.getPrimaryTarget());
+    }
+
+    for (const profile of this.getEnabledProfiles()) {
+      if (matchesStage(profile.role, stage) && !chain.some(target => target.id === profile.id)) {
+        chain.push(toTarget(profile));
+      }
+    }
+    return chain;
+  }
+
+  /**
+   * 获取所有服务商（主服务商、环节单独指定模型的服务商和全部档案），用于展示健康状态
+   */
+  listTargets(): AIProviderTarget[] {
+    const targets = [this.getPrimaryTarget()];
+    for (const stage of Object.keys(MODEL_STAGES) as AIUsageStage[]) {
+      const target = this.getStageTarget(stage);
+      if (target.id < 0 && !targets.some(item => item.id === target.id)) {
+        targets.push(target);
+      }
+    }
+    return [...targets, ...this.listProfiles().map(toTarget)];
+  }
+
+  /**
+   * 获取全部档案（按优先级排序）
+   */
+  listProfiles(): AIProviderProfile[] {
+    const records = databaseManager.getDatabase()
+      .prepare('SELECT * FROM ai_provider_profiles ORDER BY priority, id')
+      .all() as AIProviderProfileRecord[];
+    return records.map(toProfile);
+  }
+
+  /**
+   * 获取单个档案
+   */
+  getProfile(id: number): AIProviderProfile | null {
+    const record = databaseManager.getDatabase()
+      .prepare('SELECT * FROM ai_provider_profiles WHERE id = ?')
+      .get(id) as AIProviderProfileRecord | undefined;
+    return record ? toProfile(record) : null;
+  }
+
+  /**
+   * 新增档案
+   */
+  createProfile(params: CreateAIProviderProfileParams): AIProviderProfile {
+    const normalized = this.validateParams(params);
+    this.assertNameAvailable(normalized.name);
+
+    const result = databaseManager.getDatabase().prepare(`
+      INSERT INTO ai_provider_profiles (name, provider, base_url, api_key, model, role, priority, enabled)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      normalized.name,
+      normalized.provider,
+      normalized.baseUrl,
+      normalized.apiKey,
+      normalized.model,
+      normalized.role,
+      normalized.priority,
+      normalized.enabled ? 1 : 0
+    );
+
+    this.enabledProfiles = null;
+    const profile = this.getProfile(Number(result.lastInsertRowid))!;
+    logger.info('AI服务商档案已添加', { id: profile.id, name: profile.name, provider: profile.provider, model: profile.model });
+    return profile;
+  }
+
+  /**
+   * 更新档案（未提供的字段保持不变，apiKey 为空时保留原密钥）
+   */
+  updateProfile(id: number, updates: UpdateAIProviderProfileParams): AIProviderProfile | null {
+    const existing = this.getProfile(id);
+    if (!existing) {
+      return null;
+    }
+
+    const normalized = this.validateParams({
+      name: updates.name ?? existing.name,
+      provider: updates.provider ?? existing.provider,
+      baseUrl: updates.baseUrl ?? existing.baseUrl,
+      apiKey: updates.apiKey || existing.apiKey,
+      model: updates.model ?? existing.model,
+      role: updates.role ?? existing.role,
+      priority: updates.priority ?? existing.priority,
+      enabled: updates.enabled ?? existing.enabled
+    });
+    this.assertNameAvailable(normalized.name, id);
+
+    databaseManager.getDatabase().prepare(`
+      UPDATE ai_provider_profiles
+      SET name = ?, provider = ?, base_url = ?, api_key = ?, model = ?, role = ?, priority = ?, enabled = ?,
+          updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(
+      normalized.name,
+      normalized.provider,
+      normalized.baseUrl,
+      normalized.apiKey,
+      normalized.model,
+      normalized.role,
+      normalized.priority,
+      normalized.enabled ? 1 : 0,
+      id
+    );
+
+    this.enabledProfiles = null;
+    // 地址、密钥或模型可能已变化，之前的熔断状态不再适用
+    aiCircuitBreaker.reset(id);
+    logger.info('AI服务商档案已更新', { id, name: normalized.name, provider: normalized.provider, model: normalized.model });
+    return this.getProfile(id);
+  }
+
+  /**
+   * 删除档案
+   */
+  deleteProfile(id: number): boolean {
+    const result = databaseManager.getDatabase().prepare('DELETE FROM ai_provider_profiles WHERE id = ?').run(id);
+    if (result.changes === 0) {
+      return false;
+    }
+
+    this.enabledProfiles = null;
+    aiCircuitBreaker.reset(id);
+    logger.info('AI服务商档案已删除', { id });
+    return true;
+  }
+
+  /**
+   * 获取启用的档案（按优先级排序）
+   */
+  private getEnabledProfiles(): AIProviderProfile[] {
+    if (this.enabledProfiles === null) {
+      const records = databaseManager.getDatabase()
+        .prepare('SELECT * FROM ai_provider_profiles WHERE enabled = 1 ORDER BY priority, id')
+        .all() as AIProviderProfileRecord[];
+      this.enabledProfiles = records.map(toProfile);
+    }
+    return this.enabledProfiles;
+  }
+
+  /**
+   * 校验并规范化档案参数
+   */
+  private validateParams(params: CreateAIProviderProfileParams): Omit<AIProviderProfile, 'id' | 'createdAt' | 'updatedAt'> {
+    const name = String(params.name ?? '').trim();
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw new TradingAnalysisError(`档案名称不能为空且不超过${MAX_NAME_LENGTH}个字符`, 'INVALID_AI_PROVIDER');
+    }
+
+    if (!PROVIDERS.includes(params.provider)) {
+      throw new TradingAnalysisError(
+        `AI服务提供商必须为 ${PROVIDERS.join(' / ')}`,
+        'INVALID_AI_PROVIDER',
+        { provider: params.provider }
+      );
+    }
+
+    const baseUrl = String(params.baseUrl ?? '').trim();
+    if (!/^https?:\/\/\S+$/.test(baseUrl)) {
+      throw new TradingAnalysisError('API基础URL必须以 http:// 或 https:// 开头', 'INVALID_AI_PROVIDER', { baseUrl });
+    }
+
+    const apiKey = String(params.apiKey ?? '').trim();
+    if (!apiKey) {
+      throw new TradingAnalysisError('API密钥不能为空', 'INVALID_AI_PROVIDER');
+    }
+
+    const model = String(params.model ?? '').trim();
+    if (!MODEL_NAME_PATTERN.test(model)) {
+      throw new TradingAnalysisError(`无效的模型名: ${params.model}`, 'INVALID_AI_PROVIDER', { model: params.model });
+    }
+
+    const role = params.role ?? 'all';
+    if (!ROLES.includes(role)) {
+      throw new TradingAnalysisError(`适用环节必须为 ${ROLES.join(' / ')}`, 'INVALID_AI_PROVIDER', { role });
+    }
+
+    const priority = params.priority ?? 100;
+    if (!Number.isInteger(priority)) {
+      throw new TradingAnalysisError('优先级必须是整数', 'INVALID_AI_PROVIDER', { priority });
+    }
+
+    return { name, provider: params.provider, baseUrl, apiKey, model, role, priority, enabled: params.enabled ?? true };
+  }
+
+  /**
+   * 检查档案名称是否已被其他档案使用
+   */
+  private assertNameAvailable(name: string, excludeId?: number): void {
+    const record = databaseManager.getDatabase()
+      .prepare('SELECT id FROM ai_provider_profiles WHERE name = ?')
+      .get(name) as { id: number } | undefined;
+    if (record && record.id !== excludeId) {
+      throw new TradingAnalysisError(`档案名称已存在: ${name}`, 'INVALID_AI_PROVIDER', { existingId: record.id });
+    }
+  }
+}
+
+// 导出单例实例
+export const aiProviderManager = new AIProviderManager();
@@ -5,6 +5,7 @@
 
 import { databaseManager } from './database-manager.js';
 import { logger } from '../logger.js';
+import type { BasicConfigTestResults } from '../types.js';
 
 /**
  * 基础配置接口
@@ -21,6 +22,49 @@ export interface BasicConfig {
   binanceSecret?: string;
   maxConcurrentAnalysis: number;
   enableNewMemberWelcome: boolean;
+  maxAlertsPerUser: number;
+  conversationTtlMinutes: number;
+  maxCompareSymbols: number;
+  enableAnalysisChart: boolean;
+  marketDataProviders: string;
+  enableTradeSetup: boolean;
+  enableFeedbackButtons: boolean;
+  enableQuota: boolean;
+  userRateLimitPerMinute: number;
+  userDailyQuota: number;
+  userMonthlyQuota: number;
+  chatRateLimitPerMinute: number;
+  chatDailyQuota: number;
+  chatMonthlyQuota: number;
+  maxQueueSize: number;
+  maxQueuePerChat: number;
+  queueTimeoutSeconds: number;
+  dailyBudgetUsd: number;
+  budgetAlertChatId: number;
+  aiMaxRetries: number;
+  aiRetryBaseDelayMs: number;
+  aiRequestTimeoutSeconds: number;
+  aiCircuitFailureThreshold: number;
+  aiCircuitCooldownSeconds: number;
+  intentAiProfile: string;
+  intentModel: string;
+  intentTemperature: number;
+  intentThinking: string;
+  intentContextAiProfile: string;
+  intentContextModel: string;
+  intentContextTemperature: number;
+  intentContextThinking: string;
+  analysisAiProfile: string;
+  analysisModel: string;
+  analysisTemperature: number;
+  analysisThinking: string;
+  followUpAiProfile: string;
+  followUpModel: string;
+  followUpTemperature: number;
+  followUpThinking: string;
+  telegramMode: string;
+  telegramWebhookUrl: string;
+  telegramWebhookSecret: string;
 }
 
 /**
@@ -28,7 +72,8 @@ export interface BasicConfig {
  */
 interface ConfigItem {
   key: string;
-  type: 'string' | 'number' | 'boolean';
+  /** number 为整数，decimal 为小数（预算、温度） */
+  type: 'string' | 'number' | 'decimal' | 'boolean';
   description: string;
   defaultValue: string;
   required: boolean;
@@ -135,6 +180,307 @@ class BasicConfigManager {
       description: '是否启用新成员欢迎消息',
       defaultValue: 'true',
       required: false
+    },
+    {
+      key: 'maxAlertsPerUser',
+      type: 'number',
+      description: '每个用户最多可设置的价格提醒数量',
+      defaultValue: '10',
+      required: false
+    },
+    {
+      key: 'conversationTtlMinutes',
+      type: 'number',
+      description: '追问对话上下文保留时间（分钟，0为关闭）',
+      defaultValue: '30',
+      required: false
+    },
+    {
+      key: 'maxCompareSymbols',
+      type: 'number',
+      description: '单次对比分析最多包含的交易对数量',
+      defaultValue: '4',
+      required: false
+    },
+    {
+      key: 'enableAnalysisChart',
+      type: 'boolean',
+      description: '分析回复前是否发送K线图',
+      defaultValue: 'true',
+      required: false
+    },
+    {
+      key: 'marketDataProviders',
+      type: 'string',
+      description: '行情数据源优先级（逗号分隔，可选 binance、okx、bybit，依次回退）',
+      defaultValue: 'binance,okx,bybit',
+      required: false
+    },
+    {
+      key: 'enableTradeSetup',
+      type: 'boolean',
+      description: '分析完成后是否生成结构化交易计划（方向、入场、止损、止盈，需额外调用一次AI）',
+      defaultValue: 'true',
+      required: false
+    },
+    {
+      key: 'enableFeedbackButtons',
+      type: 'boolean',
+      description: '分析回复是否附带反馈按钮（👍/👎、太长了、币种不对）',
+      defaultValue: 'true',
+      required: false
+    },
+    {
+      key: 'enableQuota',
+      type: 'boolean',
+      description: '是否启用用户和群的请求频率限制及每日/每月配额',
+      defaultValue: 'true',
+      required: false
+    },
+    {
+      key: 'userRateLimitPerMinute',
+      type: 'number',
+      description: '每个用户每分钟最多分析次数（令牌桶，默认等级，0为不限制）',
+      defaultValue: '3',
+      required: false
+    },
+    {
+      key: 'userDailyQuota',
+      type: 'number',
+      description: '每个用户每天最多分析次数（默认等级，0为不限制）',
+      defaultValue: '30',
+      required: false
+    },
+    {
+      key: 'userMonthlyQuota',
+      type: 'number',
+      description: '每个用户每月最多分析次数（默认等级，0为不限制）',
+      defaultValue: '300',
+      required: false
+    },
+    {
+      key: 'chatRateLimitPerMinute',
+      type: 'number',
+      description: '每个群每分钟最多分析次数（令牌桶，默认等级，0为不限制）',
+      defaultValue: '6',
+      required: false
+    },
+    {
+      key: 'chatDailyQuota',
+      type: 'number',
+      description: '每个群每天最多分析次数（默认等级，0为不限制）',
+      defaultValue: '100',
+      required: false
+    },
+    {
+      key: 'chatMonthlyQuota',
+      type: 'number',
+      description: '每个群每月最多分析次数（默认等级，0为不限制）',
+      defaultValue: '0',
+      required: false
+    },
+    {
+      key: 'maxQueueSize',
+      type: 'number',
+      description: '并发已满时全局最多排队的分析请求数（0为不排队，直接拒绝）',
+      defaultValue: '20',
+      required: false
+    },
+    {
+      key: 'maxQueuePerChat',
+      type: 'number',
+      description: '每个聊天最多排队的分析请求数',
+      defaultValue: '3',
+      required: false
+    },
+    {
+      key: 'queueTimeoutSeconds',
+      type: 'number',
+      description: '分析请求最长排队时间（秒），超时后取消',
+      defaultValue: '120',
+      required: false
+    },
+    {
+      key: 'dailyBudgetUsd',
+      type: 'decimal',
+      description: '每日AI花费预算（美元，0为不设置），超出时发送提醒',
+      defaultValue: '0',
+      required: false
+    },
+    {
+      key: 'budgetAlertChatId',
+      type: 'number',
+      description: '接收AI花费预算提醒的Telegram聊天ID（0为不发送）',
+      defaultValue: '0',
+      required: false
+    },
+    {
+      key: 'aiMaxRetries',
+      type: 'number',
+      description: 'AI请求遇到网络错误、超时、限流（429）或服务端错误（5xx）时在同一服务商上的重试次数（0-10）',
+      defaultValue: '2',
+      required: false
+    },
+    {
+      key: 'aiRetryBaseDelayMs',
+      type: 'number',
+      description: 'AI请求重试的初始等待时间（毫秒），每次重试翻倍',
+      defaultValue: '1000',
+      required: false
+    },
+    {
+      key: 'aiRequestTimeoutSeconds',
+      type: 'number',
+      description: 'AI单次请求的超时时间（秒，含流式输出），超时按网络错误重试',
+      defaultValue: '300',
+      required: false
+    },
+    {
+      key: 'aiCircuitFailureThreshold',
+      type: 'number',
+      description: 'AI服务商连续失败多少次后熔断（暂时跳过该服务商）',
+      defaultValue: '3',
+      required: false
+    },
+    {
+      key: 'aiCircuitCooldownSeconds',
+      type: 'number',
+      description: 'AI服务商熔断后的冷却时间（秒），冷却结束后允许一次试探请求',
+      defaultValue: '60',
+      required: false
+    },
+    {
+      key: 'intentAiProfile',
+      type: 'string',
+      description: '意图识别第一步使用的AI服务商档案名称（为空使用主服务商）',
+      defaultValue: '',
+      required: false
+    },
+    {
+      key: 'intentModel',
+      type: 'string',
+      description: '意图识别第一步使用的模型（为空使用服务商的模型）',
+      defaultValue: '',
+      required: false
+    },
+    {
+      key: 'intentTemperature',
+      type: 'decimal',
+      description: '意图识别第一步的温度（-1为使用默认值）',
+      defaultValue: '-1',
+      required: false
+    },
+    {
+      key: 'intentThinking',
+      type: 'string',
+      description: '意图识别第一步的思考模式（为空使用默认值，off关闭，auto动态，数字为思考预算token数）',
+      defaultValue: '',
+      required: false
+    },
+    {
+      key: 'intentContextAiProfile',
+      type: 'string',
+      description: '意图识别第二步（带交易对上下文）使用的AI服务商档案名称（为空使用主服务商）',
+      defaultValue: '',
+      required: false
+    },
+    {
+      key: 'intentContextModel',
+      type: 'string',
+      description: '意图识别第二步（带交易对上下文）使用的模型（为空使用服务商的模型）',
+      defaultValue: '',
+      required: false
+    },
+    {
+      key: 'intentContextTemperature',
+      type: 'decimal',
+      description: '意图识别第二步（带交易对上下文）的温度（-1为使用默认值）',
+      defaultValue: '-1',
+      required: false
+    },
+    {
+      key: 'intentContextThinking',
+      type: 'string',
+      description: '意图识别第二步（带交易对上下文）的思考模式（为空使用默认值，off关闭，auto动态，数字为思考预算token数）',
+      defaultValue: '',
+      required: false
+    },
+    {
+      key: 'analysisAiProfile',
+      type: 'string',
+      description: '分析（含多币种对比）使用的AI服务商档案名称（为空使用主服务商）',
+      defaultValue: '',
+      required: false
+    },
+    {
+      key: 'analysisModel',
+      type: 'string',
+      description: '分析（含多币种对比）使用的模型（为空使用服务商的模型）',
+      defaultValue: '',
+      required: false
+    },
+    {
+      key: 'analysisTemperature',
+      type: 'decimal',
+      description: '分析（含多币种对比）的温度（-1为使用默认值）',
+      defaultValue: '-1',
+      required: false
+    },
+    {
+      key: 'analysisThinking',
+      type: 'string',
+      description: '分析（含多币种对比）的思考模式（为空使用默认值，off关闭，auto动态，数字为思考预算token数）',
+      defaultValue: '',
+      required: false
+    },
+    {
+      key: 'followUpAiProfile',
+      type: 'string',
+      description: '追问使用的AI服务商档案名称（为空使用主服务商）',
+      defaultValue: '',
+      required: false
+    },
+    {
+      key: 'followUpModel',
+      type: 'string',
+      description: '追问使用的模型（为空使用服务商的模型）',
+      defaultValue: '',
+      required: false
+    },
+    {
+      key: 'followUpTemperature',
+      type: 'decimal',
+      description: '追问的温度（-1为使用默认值）',
+      defaultValue: '-1',
+      required: false
+    },
+    {
+      key: 'followUpThinking',
+      type: 'string',
+      description: '追问的思考模式（为空使用默认值，off关闭，auto动态，数字为思考预算token数）',
+      defaultValue: '',
+      required: false
+    },
+    {
+      key: 'telegramMode',
+      type: 'string',
+      description: 'Telegram更新接收方式（polling 长轮询，webhook 由Telegram推送到本服务）',
+      defaultValue: 'polling',
+      required: true
+    },
+    {
+      key: 'telegramWebhookUrl',
+      type: 'string',
+      description: 'Webhook公网地址（HTTPS，反向代理转发到本服务的 /telegram/webhook），仅 webhook 模式使用',
+      defaultValue: '',
+      required: false
+    },
+    {
+      key: 'telegramWebhookSecret',
+      type: 'string',
+      description: 'Webhook密钥（1-256位字母、数字、下划线或连字符，用于校验请求来自Telegram），仅 webhook 模式使用',
+      defaultValue: '',
+      required: false
     }
   ];
 
@@ -205,8 +551,10 @@ class BasicConfigManager {
 
       const config: any = {};
       
+      // 按当前的配置项定义解析（旧数据库中记录的类型可能已过时，如预算从整数改为小数）
+      const itemTypes = new Map(this.configItems.map(item => [item.key, item.type]));
       for (const record of configRecords) {
-        const value = this.parseConfigValue(record.config_value, record.config_type);
+        const value = this.parseConfigValue(record.config_value, itemTypes.get(record.config_key) ?? record.config_type);
         config[record.config_key] = value;
       }
 
@@ -305,7 +653,10 @@ class BasicConfigManager {
       case 'boolean':
         return value === 'true';
       case 'number':
-        return parseInt(value, 10);
+        // 不截断小数，交给 config.ts 校验时拒绝（如 0.5 不会被当作 0）
+        return value.trim() === '' ? NaN : Number(value);
+      case 'decimal':
+        return parseFloat(value);
       case 'string':
       default:
         return value;
@@ -356,41 +707,23 @@ class BasicConfigManager {
   }
 
   /**
-   * 测试配置连接
+   * 测试配置连接（Telegram、AI服务商、币安）
+   * @param candidate 尚未保存的配置值，覆盖数据库中的配置后再测试
    */
-  async testConfig(): Promise<{ [key: string]: { success: boolean; message?: string } }> {
-    await this.initialize();
-    
-    const config = await this.getConfig();
-    const results: { [key: string]: { success: boolean; message?: string } } = {};
-
-    // 测试Telegram Bot连接
-    try {
-      // 这里可以添加实际的Telegram Bot测试逻辑
-      results.telegram = { success: true, message: 'Telegram配置有效' };
-    } catch (error) {
-      results.telegram = { success: false, message: '无法连接到Telegram' };
-    }
-
-    // 测试OpenAI连接
-    try {
-      // 这里可以添加实际的OpenAI测试逻辑
-      results.openai = { success: true, message: 'OpenAI配置有效' };
-    } catch (error) {
-      results.openai = { success: false, message: '无法连接到OpenAI' };
-    }
-
-    // 测试Binance连接（如果配置了）
-    if (config.binanceApiKey) {
-      try {
-        // 这里可以添加实际的Binance测试逻辑
-        results.binance = { success: true, message: 'Binance配置有效' };
-      } catch (error) {
-        results.binance = { success: false, message: '无法连接到Binance' };
+  async testConfig(candidate: Record<string, unknown> = {}): Promise<BasicConfigTestResults> {
+    const config: any = await this.getConfig();
+
+    // 候选值按配置项类型解析，与保存后读取的结果一致；未知的键忽略
+    for (const item of this.configItems) {
+      const value = candidate[item.key];
+      if (value !== undefined && value !== null) {
+        config[item.key] = this.parseConfigValue(String(value), item.type);
       }
     }
 
-    return results;
+    // 动态导入，避免与 config.ts 形成循环依赖
+    const { testConnections } = await import('../connection-test.js');
+    return testConnections(config as BasicConfig);
   }
 }
 
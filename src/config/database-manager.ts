@@ -68,6 +68,7 @@ export class DatabaseManager {
         version TEXT NOT NULL,
         system_prompt TEXT NOT NULL,
         analysis_prompt TEXT NOT NULL,
+        comparison_prompt TEXT NOT NULL DEFAULT '',
         enabled BOOLEAN NOT NULL DEFAULT FALSE,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
@@ -97,7 +98,7 @@ export class DatabaseManager {
         telegram_display_name TEXT,
         chat_id INTEGER NOT NULL,
         chat_type TEXT NOT NULL CHECK(chat_type IN ('private', 'group', 'supergroup')),
-        source_type TEXT NOT NULL CHECK(source_type IN ('private_chat', 'group_mention', 'group_reply')),
+        source_type TEXT NOT NULL CHECK(source_type IN ('private_chat', 'group_mention', 'group_reply', 'scheduled')),
         question_text TEXT NOT NULL,
         identified_currency TEXT,
         currency_type TEXT CHECK(currency_type IN ('spot', 'futures')),
@@ -105,10 +106,253 @@ export class DatabaseManager {
         error_message TEXT,
         response_length INTEGER,
         processing_time_ms INTEGER,
+        resolution_path TEXT,
+        prompt_config_id INTEGER,
+        experiment_id INTEGER,
+        ai_model TEXT,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )
     `;
 
+    // 创建价格提醒表
+    const createPriceAlertTable = `
+      CREATE TABLE IF NOT EXISTS price_alerts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        telegram_user_id INTEGER NOT NULL,
+        chat_id INTEGER NOT NULL,
+        symbol TEXT NOT NULL,
+        market_type TEXT NOT NULL DEFAULT 'spot' CHECK(market_type IN ('spot', 'futures')),
+        condition_type TEXT NOT NULL CHECK(condition_type IN ('above', 'below', 'percent_change', 'ma_cross')),
+        target_value REAL NOT NULL,
+        direction TEXT CHECK(direction IN ('up', 'down', 'both')),
+        ma_interval TEXT,
+        reference_price REAL,
+        last_state TEXT CHECK(last_state IN ('above', 'below')),
+        status TEXT NOT NULL DEFAULT 'active' CHECK(status IN ('active', 'triggered')),
+        triggered_price REAL,
+        triggered_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
+    // 创建定时分析任务表
+    const createScheduleTable = `
+      CREATE TABLE IF NOT EXISTS analysis_schedules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        chat_id INTEGER NOT NULL,
+        cron_expression TEXT NOT NULL,
+        symbols TEXT NOT NULL,
+        market_type TEXT NOT NULL DEFAULT 'spot' CHECK(market_type IN ('spot', 'futures')),
+        timeframes TEXT NOT NULL,
+        prompt_config_id INTEGER,
+        question TEXT NOT NULL,
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by INTEGER,
+        last_run_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
+    // 创建K线缓存表（只保存已收盘的K线，按交易所/市场/交易对/周期区分）
+    const createKlineCacheTable = `
+      CREATE TABLE IF NOT EXISTS kline_cache (
+        exchange TEXT NOT NULL,
+        market_type TEXT NOT NULL CHECK(market_type IN ('spot', 'futures')),
+        symbol TEXT NOT NULL,
+        timeframe TEXT NOT NULL,
+        open_time INTEGER NOT NULL,
+        close_time INTEGER NOT NULL,
+        open TEXT NOT NULL,
+        high TEXT NOT NULL,
+        low TEXT NOT NULL,
+        close TEXT NOT NULL,
+        volume TEXT NOT NULL,
+        PRIMARY KEY (exchange, market_type, symbol, timeframe, open_time)
+      ) WITHOUT ROWID
+    `;
+
+    // 创建交易对注册表（定时从各交易所同步交易规则）
+    const createSymbolRegistryTable = `
+      CREATE TABLE IF NOT EXISTS symbol_registry (
+        exchange TEXT NOT NULL,
+        market_type TEXT NOT NULL CHECK(market_type IN ('spot', 'futures')),
+        symbol TEXT NOT NULL,
+        base_asset TEXT NOT NULL,
+        quote_asset TEXT NOT NULL,
+        status TEXT NOT NULL,
+        trading BOOLEAN NOT NULL,
+        tick_size REAL,
+        step_size REAL,
+        min_qty REAL,
+        min_notional REAL,
+        listed_at INTEGER,
+        contract_type TEXT,
+        first_seen_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (exchange, market_type, symbol)
+      )
+    `;
+
+    // 创建币种别名表
+    const createSymbolAliasTable = `
+      CREATE TABLE IF NOT EXISTS symbol_aliases (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        alias TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        symbol TEXT NOT NULL,
+        market_type TEXT CHECK(market_type IN ('spot', 'futures')),
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
+    // 创建结构化交易计划表（关联产生该计划的审计日志）
+    const createTradeSetupTable = `
+      CREATE TABLE IF NOT EXISTS trade_setups (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        audit_log_id INTEGER,
+        prompt_config_id INTEGER,
+        symbol TEXT NOT NULL,
+        market_type TEXT NOT NULL CHECK(market_type IN ('spot', 'futures')),
+        exchange TEXT,
+        direction TEXT NOT NULL CHECK(direction IN ('long', 'short', 'neutral')),
+        confidence INTEGER NOT NULL,
+        timeframe TEXT NOT NULL,
+        entry_low REAL,
+        entry_high REAL,
+        stop_loss REAL,
+        take_profits TEXT NOT NULL DEFAULT '[]',
+        invalidation TEXT NOT NULL,
+        rationale TEXT NOT NULL,
+        reference_price REAL NOT NULL,
+        outcome TEXT NOT NULL DEFAULT 'pending',
+        targets_hit INTEGER NOT NULL DEFAULT 0,
+        r_multiple REAL,
+        evaluated_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
+    // 创建提示词A/B实验表（variants 为版本及流量占比的JSON数组）
+    const createPromptExperimentTable = `
+      CREATE TABLE IF NOT EXISTS prompt_experiments (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'running' CHECK(status IN ('running', 'stopped')),
+        variants TEXT NOT NULL,
+        winner_prompt_config_id INTEGER,
+        started_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        ended_at DATETIME
+      )
+    `;
+
+    // 创建分析反馈表（同一用户对同一条审计日志只保留一条反馈）
+    const createAnalysisFeedbackTable = `
+      CREATE TABLE IF NOT EXISTS analysis_feedback (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        audit_log_id INTEGER NOT NULL,
+        telegram_user_id INTEGER NOT NULL,
+        chat_id INTEGER NOT NULL,
+        feedback_type TEXT NOT NULL CHECK(feedback_type IN ('up', 'down', 'too_long', 'wrong_coin')),
+        corrected_symbol TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(audit_log_id, telegram_user_id)
+      )
+    `;
+
+    // 创建配额等级表（限制值为0表示不限制）
+    const createQuotaTierTable = `
+      CREATE TABLE IF NOT EXISTS quota_tiers (
+        name TEXT PRIMARY KEY,
+        description TEXT,
+        rate_limit_per_minute INTEGER NOT NULL DEFAULT 0,
+        daily_quota INTEGER NOT NULL DEFAULT 0,
+        monthly_quota INTEGER NOT NULL DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
+    // 创建用户/群的配额等级分配表
+    const createQuotaAssignmentTable = `
+      CREATE TABLE IF NOT EXISTS quota_tier_assignments (
+        scope TEXT NOT NULL CHECK(scope IN ('user', 'chat')),
+        scope_id INTEGER NOT NULL,
+        tier TEXT NOT NULL,
+        note TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (scope, scope_id)
+      )
+    `;
+
+    // 创建令牌桶状态表（updated_at 为毫秒时间戳）
+    const createQuotaBucketTable = `
+      CREATE TABLE IF NOT EXISTS quota_buckets (
+        scope TEXT NOT NULL,
+        scope_id INTEGER NOT NULL,
+        tokens REAL NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (scope, scope_id)
+      )
+    `;
+
+    // 创建配额用量表（period 为配置时区下的日期 YYYY-MM-DD 或月份 YYYY-MM）
+    const createQuotaUsageTable = `
+      CREATE TABLE IF NOT EXISTS quota_usage (
+        scope TEXT NOT NULL,
+        scope_id INTEGER NOT NULL,
+        period TEXT NOT NULL,
+        count INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (scope, scope_id, period)
+      )
+    `;
+
+    // 创建AI模型价格表（美元/百万token）
+    const createAIModelPriceTable = `
+      CREATE TABLE IF NOT EXISTS ai_model_prices (
+        model TEXT PRIMARY KEY,
+        input_price_per_million REAL NOT NULL,
+        output_price_per_million REAL NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
+    // 创建AI用量表（usage_date 为配置时区下的日期 YYYY-MM-DD）
+    const createAIUsageTable = `
+      CREATE TABLE IF NOT EXISTS ai_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        audit_log_id INTEGER,
+        stage TEXT NOT NULL,
+        provider TEXT NOT NULL,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL DEFAULT 0,
+        completion_tokens INTEGER NOT NULL DEFAULT 0,
+        thinking_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL,
+        usage_date TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
+    // 创建AI服务商档案表（基础配置中的服务商之后的故障转移链）
+    const createAIProviderProfileTable = `
+      CREATE TABLE IF NOT EXISTS ai_provider_profiles (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE,
+        provider TEXT NOT NULL CHECK (provider IN ('openai', 'gemini', 'claude')),
+        base_url TEXT NOT NULL,
+        api_key TEXT NOT NULL,
+        model TEXT NOT NULL,
+        role TEXT NOT NULL DEFAULT 'all' CHECK (role IN ('all', 'intent', 'analysis')),
+        priority INTEGER NOT NULL DEFAULT 100,
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
     // 创建索引
     const createIndexes = [
       'CREATE INDEX IF NOT EXISTS idx_enabled ON prompt_configs (enabled)',
@@ -120,13 +364,52 @@ export class DatabaseManager {
       'CREATE INDEX IF NOT EXISTS idx_audit_chat_id ON audit_logs (chat_id)',
       'CREATE INDEX IF NOT EXISTS idx_audit_result_status ON audit_logs (result_status)',
       'CREATE INDEX IF NOT EXISTS idx_audit_currency ON audit_logs (identified_currency)',
-      'CREATE INDEX IF NOT EXISTS idx_audit_created_at ON audit_logs (created_at DESC)'
+      'CREATE INDEX IF NOT EXISTS idx_audit_created_at ON audit_logs (created_at DESC)',
+      'CREATE INDEX IF NOT EXISTS idx_price_alert_status ON price_alerts (status)',
+      'CREATE INDEX IF NOT EXISTS idx_price_alert_user ON price_alerts (telegram_user_id, status)',
+      'CREATE INDEX IF NOT EXISTS idx_schedule_chat_id ON analysis_schedules (chat_id)',
+      'CREATE INDEX IF NOT EXISTS idx_trade_setup_audit ON trade_setups (audit_log_id)',
+      'CREATE INDEX IF NOT EXISTS idx_trade_setup_symbol ON trade_setups (symbol, created_at DESC)',
+      'CREATE INDEX IF NOT EXISTS idx_trade_setup_outcome ON trade_setups (outcome)',
+      'CREATE INDEX IF NOT EXISTS idx_audit_experiment ON audit_logs (experiment_id, prompt_config_id)',
+      "CREATE UNIQUE INDEX IF NOT EXISTS idx_experiment_running_unique ON prompt_experiments (status) WHERE status = 'running'",
+      'CREATE INDEX IF NOT EXISTS idx_feedback_created_at ON analysis_feedback (created_at DESC)',
+      'CREATE INDEX IF NOT EXISTS idx_ai_usage_date ON ai_usage (usage_date)',
+      'CREATE INDEX IF NOT EXISTS idx_ai_usage_audit ON ai_usage (audit_log_id)'
     ];
 
     try {
       this.db.exec(createConfigTable);
       this.db.exec(createBasicConfigTable);
       this.db.exec(createAuditLogTable);
+      this.db.exec(createPriceAlertTable);
+      this.db.exec(createScheduleTable);
+      this.db.exec(createKlineCacheTable);
+      this.db.exec(createSymbolRegistryTable);
+      this.db.exec(createSymbolAliasTable);
+      this.db.exec(createTradeSetupTable);
+      this.db.exec(createPromptExperimentTable);
+      this.db.exec(createAnalysisFeedbackTable);
+      this.db.exec(createQuotaTierTable);
+      this.db.exec(createQuotaAssignmentTable);
+      this.db.exec(createQuotaBucketTable);
+      this.db.exec(createQuotaUsageTable);
+      this.db.exec(createAIModelPriceTable);
+      this.db.exec(createAIUsageTable);
+      this.db.exec(createAIProviderProfileTable);
+      
+      // 旧版本数据库的表结构迁移（需要在创建索引之前执行）
+      this.migrateAuditLogSourceType(createAuditLogTable);
+      this.addColumnIfMissing('prompt_configs', 'comparison_prompt', "TEXT NOT NULL DEFAULT ''");
+      this.addColumnIfMissing('audit_logs', 'resolution_path', 'TEXT');
+      this.addColumnIfMissing('audit_logs', 'prompt_config_id', 'INTEGER');
+      this.addColumnIfMissing('audit_logs', 'experiment_id', 'INTEGER');
+      this.addColumnIfMissing('audit_logs', 'ai_model', 'TEXT');
+      this.addColumnIfMissing('trade_setups', 'prompt_config_id', 'INTEGER');
+      this.addColumnIfMissing('trade_setups', 'outcome', "TEXT NOT NULL DEFAULT 'pending'");
+      this.addColumnIfMissing('trade_setups', 'targets_hit', 'INTEGER NOT NULL DEFAULT 0');
+      this.addColumnIfMissing('trade_setups', 'r_multiple', 'REAL');
+      this.addColumnIfMissing('trade_setups', 'evaluated_at', 'DATETIME');
       
       createIndexes.forEach(indexSql => {
         this.db!.exec(indexSql);
@@ -142,6 +425,50 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * 为旧版本数据库的表补充新增的列
+   */
+  private addColumnIfMissing(table: string, column: string, definition: string): void {
+    const columns = this.db!.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (columns.some(c => c.name === column)) {
+      return;
+    }
+
+    this.db!.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    logger.info('数据库表新增列', { table, column });
+  }
+
+  /**
+   * 迁移审计日志表的 source_type 约束（新增 scheduled 类型）
+   * SQLite 不支持修改 CHECK 约束，需要重建表并复制数据
+   */
+  private migrateAuditLogSourceType(createAuditLogTable: string): void {
+    const table = this.db!.prepare(`
+      SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'audit_logs'
+    `).get() as { sql: string } | undefined;
+
+    if (!table || table.sql.includes("'scheduled'")) {
+      return;
+    }
+
+    const columns = [
+      'id', 'timestamp', 'telegram_user_id', 'telegram_username', 'telegram_display_name',
+      'chat_id', 'chat_type', 'source_type', 'question_text', 'identified_currency',
+      'currency_type', 'result_status', 'error_message', 'response_length',
+      'processing_time_ms', 'created_at'
+    ].join(', ');
+
+    const migrate = this.db!.transaction(() => {
+      this.db!.exec('ALTER TABLE audit_logs RENAME TO audit_logs_old');
+      this.db!.exec(createAuditLogTable);
+      this.db!.exec(`INSERT INTO audit_logs (${columns}) SELECT ${columns} FROM audit_logs_old`);
+      this.db!.exec('DROP TABLE audit_logs_old');
+    });
+    migrate();
+
+    logger.info('审计日志表结构迁移完成', { change: 'source_type 新增 scheduled' });
+  }
+
   /**
    * 获取数据库连接
    */
@@ -0,0 +1,342 @@
+/**
+ * 提示词A/B实验管理模块
+ * 按流量占比把用户分配到多个提示词版本（按Telegram用户ID哈希分桶，同一用户在同一实验中始终使用同一版本），
+ * 统计各版本的成功率、耗时、回复长度、交易计划命中率和用户反馈，并支持将效果最好的版本推广为正式版本
+ */
+
+import crypto from 'crypto';
+import { databaseManager } from './database-manager.js';
+import { promptManager } from './prompt-manager-v2.js';
+import { logger } from '../logger.js';
+import { TradingAnalysisError } from '../types.js';
+import type {
+  CreatePromptExperimentParams,
+  PromptExperiment,
+  PromptExperimentStatus,
+  PromptExperimentVariant,
+  PromptVariantStats
+} from '../types.js';
+
+/**
+ * 分析使用的提示词版本（experimentId 为 null 表示使用当前启用版本，未参与实验）
+ */
+export interface PromptSelection {
+  promptConfigId: number | null;
+  experimentId: number | null;
+}
+
+/**
+ * 数据库记录结构
+ */
+interface PromptExperimentRecord {
+  id: number;
+  name: string;
+  status: PromptExperimentStatus;
+  variants: string;
+  winner_prompt_config_id: number | null;
+  started_at: string;
+  ended_at: string | null;
+}
+
+/**
+ * 版本统计查询的原始结果
+ */
+interface VariantStatsRow {
+  prompt_config_id: number;
+  total_calls: number;
+  unique_users: number;
+  success_calls: number;
+  avg_processing_time: number | null;
+  avg_response_length: number | null;
+}
+
+/**
+ * 将数据库记录转换为实验对象
+ */
+function toPromptExperiment(record: PromptExperimentRecord): PromptExperiment {
+  return {
+    id: record.id,
+    name: record.name,
+    status: record.status,
+    variants: JSON.parse(record.variants) as PromptExperimentVariant[],
+    winnerPromptConfigId: record.winner_prompt_config_id,
+    startedAt: record.started_at,
+    endedAt: record.ended_at
+  };
+}
+
+/**
+ * 计算用户在实验中的分桶（0-99）
+ */
+export function getExperimentBucket(experimentId: number, telegramUserId: number): number {
+  const hash = crypto.createHash('sha256').update(`${experimentId}:${telegramUserId}`).digest();
+  return hash.readUInt32BE(0) % 100;
+}
+
+/**
+ * 提示词A/B实验管理器类
+ */
+class PromptExperimentManager {
+  /** 运行中实验的缓存，undefined 表示需要重新加载 */
+  private runningExperiment: PromptExperiment | null | undefined = undefined;
+
+  /**
+   * 获取实验列表（最近创建的在前）
+   */
+  listExperiments(limit: number = 20): PromptExperiment[] {
+    const records = databaseManager.getDatabase()
+      .prepare('SELECT * FROM prompt_experiments ORDER BY id DESC LIMIT ?')
+      .all(limit) as PromptExperimentRecord[];
+    return records.map(toPromptExperiment);
+  }
+
+  /**
+   * 获取单个实验
+   */
+  getExperiment(id: number): PromptExperiment | null {
+    const record = databaseManager.getDatabase()
+      .prepare('SELECT * FROM prompt_experiments WHERE id = ?')
+      .get(id) as PromptExperimentRecord | undefined;
+    return record ? toPromptExperiment(record) : null;
+  }
+
+  /**
+   * 获取运行中的实验
+   */
+  getRunningExperiment(): PromptExperiment | null {
+    if (this.runningExperiment === undefined) {
+      const record = databaseManager.getDatabase()
+        .prepare(`SELECT * FROM prompt_experiments WHERE status = 'running' LIMIT 1`)
+        .get() as PromptExperimentRecord | undefined;
+      this.runningExperiment = record ? toPromptExperiment(record) : null;
+    }
+    return this.runningExperiment;
+  }
+
+  /**
+   * 创建并启动实验（同一时间只能运行一个实验）
+   */
+  createExperiment(params: CreatePromptExperimentParams): PromptExperiment {
+    const name = typeof params.name === 'string' ? params.name.trim() : '';
+    if (!name) {
+      throw new TradingAnalysisError('实验名称不能为空', 'INVALID_EXPERIMENT');
+    }
+    const variants = this.validateVariants(params.variants);
+
+    const running = this.getRunningExperiment();
+    if (running) {
+      throw new TradingAnalysisError(
+        `已有运行中的实验：${running.name}，请先停止`,
+        'INVALID_EXPERIMENT',
+        { runningExperimentId: running.id }
+      );
+    }
+
+    const result = databaseManager.getDatabase()
+      .prepare('INSERT INTO prompt_experiments (name, variants) VALUES (?, ?)')
+      .run(name, JSON.stringify(variants));
+    this.runningExperiment = undefined;
+
+    const experiment = this.getExperiment(Number(result.lastInsertRowid))!;
+    logger.info('提示词A/B实验已启动', { id: experiment.id, name, variants });
+    return experiment;
+  }
+
+  /**
+   * 停止实验，所有用户恢复使用当前启用版本
+   */
+  stopExperiment(id: number): PromptExperiment | null {
+    const result = databaseManager.getDatabase().prepare(`
+      UPDATE prompt_experiments SET status = 'stopped', ended_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND status = 'running'
+    `).run(id);
+    this.runningExperiment = undefined;
+
+    if (result.changes > 0) {
+      logger.info('提示词A/B实验已停止', { id });
+    }
+    return this.getExperiment(id);
+  }
+
+  /**
+   * 将实验中的某个版本推广为正式启用版本，并结束实验
+   */
+  async promoteWinner(id: number, promptConfigId: number): Promise<PromptExperiment> {
+    const experiment = this.getExperiment(id);
+    if (!experiment) {
+      throw new TradingAnalysisError(`实验不存在: ${id}`, 'EXPERIMENT_NOT_FOUND');
+    }
+    if (!experiment.variants.some(variant => variant.promptConfigId === promptConfigId)) {
+      throw new TradingAnalysisError(
+        `提示词版本 ${promptConfigId} 不在实验中`,
+        'INVALID_EXPERIMENT',
+        { experimentId: id, promptConfigId }
+      );
+    }
+
+    await promptManager.switchToVersion(promptConfigId);
+
+    databaseManager.getDatabase().prepare(`
+      UPDATE prompt_experiments
+      SET status = 'stopped', winner_prompt_config_id = ?, ended_at = COALESCE(ended_at, CURRENT_TIMESTAMP)
+      WHERE id = ?
+    `).run(promptConfigId, id);
+    this.runningExperiment = undefined;
+
+    logger.info('提示词A/B实验版本已推广', { id, promptConfigId });
+    return this.getExperiment(id)!;
+  }
+
+  /**
+   * 为用户选择分析使用的提示词版本：有运行中的实验时按分桶分配，否则使用当前启用版本
+   */
+  async selectPrompt(telegramUserId: number): Promise<PromptSelection> {
+    const experiment = this.getRunningExperiment();
+
+    if (experiment && telegramUserId) {
+      const bucket = getExperimentBucket(experiment.id, telegramUserId);
+      let upperBound = 0;
+      const variant = experiment.variants.find(candidate => {
+        upperBound += candidate.trafficPercent;
+        return bucket < upperBound;
+      });
+
+      // 实验中的版本被删除时回退到当前启用版本
+      if (variant && this.promptConfigExists(variant.promptConfigId)) {
+        return { promptConfigId: variant.promptConfigId, experimentId: experiment.id };
+      }
+      logger.warn('实验分配的提示词版本不存在，使用当前启用版本', {
+        experimentId: experiment.id,
+        bucket,
+        promptConfigId: variant?.promptConfigId
+      });
+    }
+
+    const promptConfig = await promptManager.getConfig();
+    return { promptConfigId: promptConfig.id ?? null, experimentId: null };
+  }
+
+  /**
+   * 统计实验中各版本的效果
+   */
+  getVariantStats(id: number): PromptVariantStats[] {
+    const experiment = this.getExperiment(id);
+    if (!experiment) {
+      throw new TradingAnalysisError(`实验不存在: ${id}`, 'EXPERIMENT_NOT_FOUND');
+    }
+
+    const db = databaseManager.getDatabase();
+    const rows = db.prepare(`
+      SELECT
+        prompt_config_id,
+        COUNT(*) AS total_calls,
+        COUNT(DISTINCT telegram_user_id) AS unique_users,
+        SUM(result_status = 'success') AS success_calls,
+        AVG(CASE WHEN result_status = 'success' THEN processing_time_ms END) AS avg_processing_time,
+        AVG(CASE WHEN result_status = 'success' THEN response_length END) AS avg_response_length
+      FROM audit_logs
+      WHERE experiment_id = ?
+      GROUP BY prompt_config_id
+    `).all(id) as VariantStatsRow[];
+
+    const setupRows = db.prepare(`
+      SELECT
+        al.prompt_config_id,
+        SUM(ts.outcome = 'target_hit') AS target_hit,
+        SUM(ts.outcome IN ('target_hit', 'stop_hit', 'expired')) AS triggered,
+        AVG(ts.r_multiple) AS avg_r
+      FROM trade_setups ts
+      JOIN audit_logs al ON al.id = ts.audit_log_id
+      WHERE al.experiment_id = ?
+      GROUP BY al.prompt_config_id
+    `).all(id) as Array<{ prompt_config_id: number; target_hit: number; triggered: number; avg_r: number | null }>;
+
+    const feedbackRows = db.prepare(`
+      SELECT
+        al.prompt_config_id,
+        COUNT(*) AS total,
+        SUM(af.feedback_type = 'up') AS up
+      FROM analysis_feedback af
+      JOIN audit_logs al ON al.id = af.audit_log_id
+      WHERE al.experiment_id = ?
+      GROUP BY al.prompt_config_id
+    `).all(id) as Array<{ prompt_config_id: number; total: number; up: number }>;
+
+    const versions = db.prepare(`
+      SELECT id, version FROM prompt_configs WHERE id IN (${experiment.variants.map(() => '?').join(', ')})
+    `).all(...experiment.variants.map(variant => variant.promptConfigId)) as Array<{ id: number; version: string }>;
+
+    return experiment.variants.map(variant => {
+      const row = rows.find(candidate => candidate.prompt_config_id === variant.promptConfigId);
+      const setupRow = setupRows.find(candidate => candidate.prompt_config_id === variant.promptConfigId);
+      const feedbackRow = feedbackRows.find(candidate => candidate.prompt_config_id === variant.promptConfigId);
+      const totalCalls = row?.total_calls ?? 0;
+
+      return {
+        ...variant,
+        promptVersion: versions.find(version => version.id === variant.promptConfigId)?.version ?? null,
+        totalCalls,
+        uniqueUsers: row?.unique_users ?? 0,
+        successRate: totalCalls > 0 ? Math.round((row!.success_calls / totalCalls) * 10000) / 100 : 0,
+        avgProcessingTimeMs: row?.avg_processing_time != null ? Math.round(row.avg_processing_time) : null,
+        avgResponseLength: row?.avg_response_length != null ? Math.round(row.avg_response_length) : null,
+        tradeSetupHitRate: setupRow && setupRow.triggered > 0
+          ? Math.round((setupRow.target_hit / setupRow.triggered) * 10000) / 100
+          : null,
+        tradeSetupAvgRMultiple: setupRow?.avg_r != null ? Math.round(setupRow.avg_r * 100) / 100 : null,
+        feedbackCount: feedbackRow?.total ?? 0,
+        feedbackPositiveRate: feedbackRow ? Math.round((feedbackRow.up / feedbackRow.total) * 10000) / 100 : null
+      };
+    });
+  }
+
+  /**
+   * 校验实验版本：至少两个不重复的已存在版本，流量为正整数且合计100
+   */
+  private validateVariants(input: unknown): PromptExperimentVariant[] {
+    if (!Array.isArray(input) || input.length < 2) {
+      throw new TradingAnalysisError('实验至少需要两个提示词版本', 'INVALID_EXPERIMENT');
+    }
+
+    const variants = input.map((item): PromptExperimentVariant => ({
+      promptConfigId: Number(item?.promptConfigId),
+      trafficPercent: Number(item?.trafficPercent)
+    }));
+
+    for (const variant of variants) {
+      if (!Number.isInteger(variant.promptConfigId) || !this.promptConfigExists(variant.promptConfigId)) {
+        throw new TradingAnalysisError(
+          `提示词版本不存在: ${variant.promptConfigId}`,
+          'INVALID_EXPERIMENT',
+          { promptConfigId: variant.promptConfigId }
+        );
+      }
+      if (!Number.isInteger(variant.trafficPercent) || variant.trafficPercent < 1 || variant.trafficPercent > 100) {
+        throw new TradingAnalysisError('流量占比必须是1-100之间的整数', 'INVALID_EXPERIMENT', { ...variant });
+      }
+    }
+
+    if (new Set(variants.map(variant => variant.promptConfigId)).size !== variants.length) {
+      throw new TradingAnalysisError('实验中的提示词版本不能重复', 'INVALID_EXPERIMENT');
+    }
+
+    const totalPercent = variants.reduce((sum, variant) => sum + variant.trafficPercent, 0);
+    if (totalPercent !== 100) {
+      throw new TradingAnalysisError(`流量占比合计必须为100，当前为 ${totalPercent}`, 'INVALID_EXPERIMENT');
+    }
+
+    return variants;
+  }
+
+  /**
+   * 检查提示词版本是否存在
+   */
+  private promptConfigExists(promptConfigId: number): boolean {
+    return databaseManager.getDatabase()
+      .prepare('SELECT 1 FROM prompt_configs WHERE id = ?')
+      .get(promptConfigId) !== undefined;
+  }
+}
+
+// 导出单例实例
+export const promptExperimentManager = new PromptExperimentManager();
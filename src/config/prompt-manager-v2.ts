@@ -18,6 +18,8 @@ export interface PromptConfig {
   lastModified: string;
   systemPrompt: string;
   analysisPrompt: string;
+  /** 多币种对比分析提示词 */
+  comparisonPrompt: string;
   enabled?: boolean;
 }
 
@@ -29,6 +31,7 @@ interface PromptConfigRecord {
   version: string;
   system_prompt: string;
   analysis_prompt: string;
+  comparison_prompt: string;
   enabled: boolean;
   created_at: string;
   updated_at: string;
@@ -41,6 +44,8 @@ class PromptManagerV2 {
   private cachedConfig: PromptConfig | null = null;
   private lastLoadTime: number = 0;
   private initialized = false;
+  /** 配置记录中未填写对比提示词时使用的默认模板 */
+  private defaultComparisonPrompt = this.getHardcodedDefaultConfig().comparisonPrompt;
 
   /**
    * 初始化管理器
@@ -51,6 +56,7 @@ class PromptManagerV2 {
     }
 
     await databaseManager.initialize();
+    this.defaultComparisonPrompt = (await this.loadDefaultConfigFromFile()).comparisonPrompt;
     await this.ensureDefaultConfig();
     this.initialized = true;
     
@@ -78,14 +84,15 @@ class PromptManagerV2 {
     
     // 插入默认配置并设为启用
     const insertStmt = db.prepare(`
-      INSERT INTO prompt_configs (version, system_prompt, analysis_prompt, enabled)
-      VALUES (?, ?, ?, TRUE)
+      INSERT INTO prompt_configs (version, system_prompt, analysis_prompt, comparison_prompt, enabled)
+      VALUES (?, ?, ?, ?, TRUE)
     `);
 
     const result = insertStmt.run(
       defaultConfig.version,
       defaultConfig.systemPrompt,
-      defaultConfig.analysisPrompt
+      defaultConfig.analysisPrompt,
+      defaultConfig.comparisonPrompt
     );
 
     logger.info('默认配置已创建并启用', { 
@@ -107,7 +114,8 @@ class PromptManagerV2 {
         version: defaultData.version || '1.0.0',
         lastModified: getCurrentTime(),
         systemPrompt: defaultData.systemPrompt,
-        analysisPrompt: defaultData.analysisPrompt
+        analysisPrompt: defaultData.analysisPrompt,
+        comparisonPrompt: defaultData.comparisonPrompt || this.getHardcodedDefaultConfig().comparisonPrompt
       };
     } catch (error) {
       logger.error('加载默认配置文件失败', {
@@ -127,7 +135,8 @@ class PromptManagerV2 {
       version: '1.0.0',
       lastModified: getCurrentTime(),
       systemPrompt: '你是一位资深的加密货币交易分析师，拥有10年以上金融市场经验，精通缠论、威科夫、江恩、道氏、波浪等各种主流技术分析理论。',
-      analysisPrompt: '请基于提供的K线数据进行专业的技术分析。\n\n用户问题: {question}\n交易对: {symbol}\n当前时间: {currentTime}\n时区: {timezone}\n\nK线数据:\n{klineData}'
+      analysisPrompt: '请基于提供的K线数据进行专业的技术分析。\n\n用户问题: {question}\n交易对: {symbol}\n当前时间: {currentTime}\n时区: {timezone}\n\nK线数据:\n{klineData}',
+      comparisonPrompt: '请对比分析以下交易对的强弱和联动关系。\n\n用户问题: {question}\n交易对: {symbols}\n当前时间: {currentTime}\n时区: {timezone}\n\n对比数据:\n{comparisonData}\n\n技术指标:\n{indicators}'
     };
   }
 
@@ -184,6 +193,7 @@ class PromptManagerV2 {
         lastModified: configRecord.updated_at,
         systemPrompt: configRecord.system_prompt,
         analysisPrompt: configRecord.analysis_prompt,
+        comparisonPrompt: configRecord.comparison_prompt || this.defaultComparisonPrompt,
         enabled: configRecord.enabled
       };
 
@@ -213,6 +223,32 @@ class PromptManagerV2 {
     }
   }
 
+  /**
+   * 获取指定ID的配置（不影响当前启用的版本）
+   */
+  async getConfigById(configId: number): Promise<PromptConfig> {
+    await this.initialize();
+    
+    const db = databaseManager.getDatabase();
+    const configRecord = db.prepare(`
+      SELECT * FROM prompt_configs WHERE id = ?
+    `).get(configId) as PromptConfigRecord | undefined;
+
+    if (!configRecord) {
+      throw new Error(`配置ID ${configId} 不存在`);
+    }
+
+    return {
+      id: configRecord.id,
+      version: configRecord.version,
+      lastModified: configRecord.updated_at,
+      systemPrompt: configRecord.system_prompt,
+      analysisPrompt: configRecord.analysis_prompt,
+      comparisonPrompt: configRecord.comparison_prompt || this.defaultComparisonPrompt,
+      enabled: configRecord.enabled
+    };
+  }
+
   /**
    * 保存新版本配置并设为当前使用
    */
@@ -234,12 +270,13 @@ class PromptManagerV2 {
 
         // 2. 插入新配置并设为启用
         const insertResult = db.prepare(`
-          INSERT INTO prompt_configs (version, system_prompt, analysis_prompt, enabled)
-          VALUES (?, ?, ?, TRUE)
+          INSERT INTO prompt_configs (version, system_prompt, analysis_prompt, comparison_prompt, enabled)
+          VALUES (?, ?, ?, ?, TRUE)
         `).run(
           config.version,
           config.systemPrompt,
-          config.analysisPrompt
+          config.analysisPrompt,
+          config.comparisonPrompt || ''
         );
 
         return insertResult.lastInsertRowid;
@@ -258,6 +295,7 @@ class PromptManagerV2 {
         lastModified: newConfig.updated_at,
         systemPrompt: newConfig.system_prompt,
         analysisPrompt: newConfig.analysis_prompt,
+        comparisonPrompt: newConfig.comparison_prompt || this.defaultComparisonPrompt,
         enabled: newConfig.enabled
       };
 
@@ -305,12 +343,13 @@ class PromptManagerV2 {
       // 更新当前配置
       db.prepare(`
         UPDATE prompt_configs 
-        SET version = ?, system_prompt = ?, analysis_prompt = ?, updated_at = CURRENT_TIMESTAMP
+        SET version = ?, system_prompt = ?, analysis_prompt = ?, comparison_prompt = ?, updated_at = CURRENT_TIMESTAMP
         WHERE id = ?
       `).run(
         config.version,
         config.systemPrompt,
         config.analysisPrompt,
+        config.comparisonPrompt || '',
         currentConfig.id
       );
 
@@ -325,6 +364,7 @@ class PromptManagerV2 {
         lastModified: updatedConfigRecord.updated_at,
         systemPrompt: updatedConfigRecord.system_prompt,
         analysisPrompt: updatedConfigRecord.analysis_prompt,
+        comparisonPrompt: updatedConfigRecord.comparison_prompt || this.defaultComparisonPrompt,
         enabled: updatedConfigRecord.enabled
       };
 
@@ -424,6 +464,7 @@ class PromptManagerV2 {
       lastModified: record.updated_at,
       systemPrompt: record.system_prompt,
       analysisPrompt: record.analysis_prompt,
+      comparisonPrompt: record.comparison_prompt || this.defaultComparisonPrompt,
       enabled: record.enabled
     }));
   }
@@ -567,6 +608,11 @@ class PromptManagerV2 {
         description: '交易对符号',
         example: 'BTCUSDT'
       },
+      {
+        name: 'exchange',
+        description: 'K线数据来源交易所（按数据源优先级回退后实际使用的交易所）',
+        example: 'OKX'
+      },
       {
         name: 'timezone',
         description: '当前配置的时区',
@@ -581,6 +627,61 @@ class PromptManagerV2 {
         name: 'klineData',
         description: '完整的多时间框架K线数据JSON',
         example: 'JSON.stringify(fullKlineData, null, 2)'
+      },
+      {
+        name: 'recentKlineData',
+        description: '精简的多时间框架K线数据JSON（每个时间框架仅保留最近30条）',
+        example: 'JSON.stringify(recentKlineData, null, 2)'
+      },
+      {
+        name: 'indicators',
+        description: '本地计算的多时间框架技术指标（SMA/EMA、RSI、MACD、布林带、ATR、KD、OBV、VWAP、ADX）',
+        example: '[1h, 100根] 收盘 64012.5 | SMA20 63880.1 SMA50 63500.4 | ... | RSI14 56.3 | ...'
+      },
+      {
+        name: 'futuresData',
+        description: '合约市场数据汇总（标记价格、资金费率、持仓量、大户多空比、主动买卖量），现货交易对为占位说明',
+        example: '【资金费率】\n当前预测资金费率 0.0100% | 下次结算 25/01/01 16:00\n...'
+      },
+      {
+        name: 'markPrice',
+        description: '合约标记价格、指数价格和基差',
+        example: '标记价格 64012.5 | 指数价格 64030.1 | 基差 -0.0275%'
+      },
+      {
+        name: 'fundingRate',
+        description: '合约当前预测资金费率、最近结算记录及平均/年化费率',
+        example: '当前预测资金费率 0.0100% | 下次结算 25/01/01 16:00'
+      },
+      {
+        name: 'openInterest',
+        description: '合约持仓量及近24小时变化',
+        example: '持仓量 85231.2 币（价值 5455000000 USDT）\n近24小时变化: 持仓量 +3.21% ...'
+      },
+      {
+        name: 'longShortRatio',
+        description: '合约大户持仓多空比和大户账户多空比',
+        example: '大户持仓多空比 1.85（多 64.9% / 空 35.1%），近24小时 1.70 → 1.85 ...'
+      },
+      {
+        name: 'takerVolume',
+        description: '合约主动买卖量比',
+        example: '最新1h主动买卖比 1.12（买 1520.3 / 卖 1357.4）'
+      },
+      {
+        name: 'orderBook',
+        description: '盘口与近期成交摘要（挂单区间、买卖墙、买卖盘力量、主动买卖和大额成交），仅在短线进出场类问题时获取',
+        example: '【订单簿 · 现货】\n中间价 64012.5 | 买卖价差 0.0002% | ...\n- 卖墙 64500~64550（距中间价 +0.76%）...'
+      },
+      {
+        name: 'symbols',
+        description: '对比分析涉及的交易对列表（仅对比分析提示词）',
+        example: 'SOLUSDT（现货）、ETHUSDT（现货）'
+      },
+      {
+        name: 'comparisonData',
+        description: '相对强弱、收益率相关性和比价序列数据（仅对比分析提示词）',
+        example: '- 4h 强弱排序: SOLUSDT > ETHUSDT\n- SOLUSDT/ETHUSDT [1d] 当前 0.0452 | ...'
       }
     ];
   }
@@ -0,0 +1,128 @@
+/**
+ * 连接测试模块
+ * 用基础配置（可以是尚未保存的值）实际调用 Telegram、AI服务商和币安接口，检查配置是否可用
+ */
+
+import axios from 'axios';
+import { logger } from './logger.js';
+import { probeAIProvider } from './ai-client.js';
+import { binanceHttp } from './binance-http.js';
+import { aiProviderManager } from './config/ai-provider-manager.js';
+import type { BasicConfig } from './config/basic-config-manager.js';
+import type { BasicConfigTestResults, BinanceTestResult, ConnectionTestResult } from './types.js';
+
+// Telegram Bot API基础URL
+const TELEGRAM_API_BASE = 'https://api.telegram.org';
+// 币安公开API基础URL
+const BINANCE_API_BASE = 'https://api.binance.com/api/v3';
+// 用于检查交易规则接口的交易对
+const BINANCE_TEST_SYMBOL = 'BTCUSDT';
+// 本机时钟与币安服务器允许的最大偏差（超过后签名请求可能被拒绝）
+const MAX_CLOCK_SKEW_MS = 1000;
+// 单个请求的超时时间
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * 提取请求错误信息（包含接口返回的错误描述）
+ */
+function describeRequestError(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    const description = error.response?.data?.description ?? error.response?.data?.msg;
+    return error.response
+      ? `HTTP ${error.response.status}${description ? ` - ${description}` : ''}`
+      : error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * 测试Telegram机器人令牌（调用 getMe）
+ */
+export async function testTelegramConnection(token: string): Promise<ConnectionTestResult> {
+  if (!token) {
+    return { success: false, message: '未配置Telegram机器人令牌' };
+  }
+
+  const startedAt = Date.now();
+  try {
+    const response = await axios.get(`${TELEGRAM_API_BASE}/bot${token}/getMe`, { timeout: REQUEST_TIMEOUT_MS });
+    const bot = response.data.result;
+    return {
+      success: true,
+      message: `连接成功：@${bot.username}（${bot.first_name}）`,
+      latencyMs: Date.now() - startedAt
+    };
+  } catch (error) {
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    return {
+      success: false,
+      message: status === 401 || status === 404 ? '机器人令牌无效' : describeRequestError(error),
+      latencyMs: Date.now() - startedAt
+    };
+  }
+}
+
+/**
+ * 测试币安接口：ping 检查连通性，time 检查本机时钟偏差，exchangeInfo 检查行情接口
+ */
+export async function testBinanceConnection(): Promise<BinanceTestResult> {
+  const startedAt = Date.now();
+  try {
+    await binanceHttp.get(`${BINANCE_API_BASE}/ping`, { timeout: REQUEST_TIMEOUT_MS });
+    const latencyMs = Date.now() - startedAt;
+
+    // 以请求发出和收到响应的中点作为服务器时间对应的本机时间
+    const requestedAt = Date.now();
+    const timeResponse = await binanceHttp.get(`${BINANCE_API_BASE}/time`, { timeout: REQUEST_TIMEOUT_MS });
+    const clockSkewMs = Math.round((requestedAt + Date.now()) / 2 - timeResponse.data.serverTime);
+
+    const infoResponse = await binanceHttp.get(`${BINANCE_API_BASE}/exchangeInfo`, {
+      params: { symbol: BINANCE_TEST_SYMBOL },
+      timeout: REQUEST_TIMEOUT_MS
+    });
+    const symbolStatus = infoResponse.data.symbols?.[0]?.status ?? '未知';
+
+    if (Math.abs(clockSkewMs) > MAX_CLOCK_SKEW_MS) {
+      return {
+        success: false,
+        message: `本机时钟与币安服务器相差 ${clockSkewMs}ms，请同步系统时间`,
+        latencyMs,
+        clockSkewMs
+      };
+    }
+    return {
+      success: true,
+      message: `连接成功，${BINANCE_TEST_SYMBOL} 状态 ${symbolStatus}，时钟偏差 ${clockSkewMs}ms`,
+      latencyMs,
+      clockSkewMs
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: describeRequestError(error),
+      latencyMs: Date.now() - startedAt
+    };
+  }
+}
+
+/**
+ * 按基础配置测试全部连接（Telegram、主服务商和启用的备用服务商、币安），各项并行测试
+ */
+export async function testConnections(basicConfig: BasicConfig): Promise<BasicConfigTestResults> {
+  const useBinance = Boolean(basicConfig.binanceApiKey)
+    || basicConfig.marketDataProviders.split(',').some(provider => provider.trim() === 'binance');
+
+  const [telegram, aiProviders, binance] = await Promise.all([
+    testTelegramConnection(basicConfig.telegramBotToken),
+    Promise.all(aiProviderManager.getTestTargets(basicConfig).map(target => probeAIProvider(target))),
+    useBinance ? testBinanceConnection() : Promise.resolve(undefined)
+  ]);
+
+  logger.info('基础配置连接测试完成', {
+    telegram: telegram.success,
+    aiProviders: aiProviders.map(result => `${result.name}:${result.success ? 'ok' : 'failed'}`),
+    ...(binance && { binance: binance.success, clockSkewMs: binance.clockSkewMs })
+  });
+
+  return { telegram, aiProviders, ...(binance && { binance }) };
+}
@@ -0,0 +1,148 @@
+/**
+ * 多轮对话记忆模块
+ * 按聊天和机器人消息ID保存分析上下文，用户回复分析消息时可以继续追问
+ */
+
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { getCurrentTime } from './timezone.js';
+import { calculateTimeframeIndicators, formatIndicatorsForPrompt } from './indicator-snapshot.js';
+import type { AIMessage } from './ai-client.js';
+import type {
+  ConversationContext,
+  ConversationTurn,
+  TimeframeKlineData,
+  TradingPairType
+} from './types.js';
+
+// 每个对话保留的最大轮次，避免历史消息无限增长
+const MAX_HISTORY_TURNS = 3;
+
+// 单轮分析输出保留的最大长度
+const MAX_ANSWER_LENGTH = 6000;
+
+/**
+ * 生成行情快照摘要（时间 + 各时间框架的本地指标）
+ */
+export function buildKlineSummary(klineData: TimeframeKlineData): string {
+  const indicators = formatIndicatorsForPrompt(calculateTimeframeIndicators(klineData));
+  return `快照时间: ${getCurrentTime()}\n${indicators}`;
+}
+
+/**
+ * 将对话上下文转换为 AI 历史消息（user/assistant 交替）
+ */
+export function buildConversationHistory(context: ConversationContext): AIMessage[] {
+  return context.turns.flatMap(turn => [
+    {
+      role: 'user' as const,
+      content: `${turn.question}\n\n（当时 ${context.tradingPair} 的行情快照）\n${turn.klineSummary}`
+    },
+    {
+      role: 'assistant' as const,
+      content: turn.answer
+    }
+  ]);
+}
+
+/**
+ * 对话记忆管理器类
+ */
+export class ConversationMemory {
+  /** key 为 chatId:messageId，同一轮分析的多条消息指向同一个上下文 */
+  private contexts: Map<string, ConversationContext> = new Map();
+
+  /**
+   * 获取回复消息对应的对话上下文（已过期返回 null）
+   */
+  get(chatId: number, messageId: number): ConversationContext | null {
+    const key = this.buildKey(chatId, messageId);
+    const context = this.contexts.get(key);
+    if (!context) {
+      return null;
+    }
+
+    if (this.isExpired(context, Date.now())) {
+      this.contexts.delete(key);
+      return null;
+    }
+    return context;
+  }
+
+  /**
+   * 记录一轮分析，并关联到本轮发送的所有消息
+   * 追问时传入上一轮的上下文，会在其历史基础上追加（原上下文保持不变，支持回复链分叉）
+   */
+  remember(
+    chatId: number,
+    messageIds: number[],
+    tradingPair: string,
+    tradingPairType: TradingPairType,
+    turn: ConversationTurn,
+    previous?: ConversationContext | null
+  ): void {
+    if (config.conversationTtlMinutes <= 0 || messageIds.length === 0) {
+      return;
+    }
+
+    const answer = turn.answer.length > MAX_ANSWER_LENGTH
+      ? turn.answer.slice(0, MAX_ANSWER_LENGTH) + '\n...(已截断)'
+      : turn.answer;
+
+    // 只有同一交易对的历史才有参考价值
+    const previousTurns = previous && previous.tradingPair === tradingPair ? previous.turns : [];
+
+    const context: ConversationContext = {
+      chatId,
+      tradingPair,
+      tradingPairType,
+      turns: [...previousTurns, { ...turn, answer }].slice(-MAX_HISTORY_TURNS),
+      updatedAt: Date.now()
+    };
+
+    for (const messageId of messageIds) {
+      this.contexts.set(this.buildKey(chatId, messageId), context);
+    }
+
+    this.cleanup();
+
+    logger.debug('记录对话上下文', {
+      chatId,
+      tradingPair,
+      turns: context.turns.length,
+      messageIds
+    });
+  }
+
+  /**
+   * 清理过期的上下文
+   */
+  cleanup(): void {
+    const now = Date.now();
+    let cleanedCount = 0;
+    for (const [key, context] of this.contexts.entries()) {
+      if (this.isExpired(context, now)) {
+        this.contexts.delete(key);
+        cleanedCount++;
+      }
+    }
+
+    if (cleanedCount > 0) {
+      logger.debug('清理过期对话上下文', {
+        cleanedCount,
+        remaining: this.contexts.size
+      });
+    }
+  }
+
+  private isExpired(context: ConversationContext, now: number): boolean {
+    return now - context.updatedAt > config.conversationTtlMinutes * 60 * 1000;
+  }
+
+  private buildKey(chatId: number, messageId: number): string {
+    return `${chatId}:${messageId}`;
+  }
+}
+
+// 导出单例实例
+export const conversationMemory = new ConversationMemory();
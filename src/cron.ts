@@ -0,0 +1,150 @@
+/**
+ * Cron 表达式解析模块
+ * 支持标准5段式表达式：分 时 日 月 周
+ * 每段支持通配符 *、范围（如 1-5）、步长（如 0-59/15，也可写作星号加步长）以及逗号分隔的列表
+ */
+
+import { getDateParts } from './timezone.js';
+
+/**
+ * 解析后的 Cron 表达式
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** 日期段是否覆盖全部日期（未限制，如 * 或 1-31） */
+  dayOfMonthAny: boolean;
+  /** 星期段是否覆盖全部星期（未限制，如 * 或 0-6） */
+  dayOfWeekAny: boolean;
+}
+
+// 各字段的名称和取值范围（星期允许7表示周日）
+const FIELDS = [
+  { name: '分钟', min: 0, max: 59 },
+  { name: '小时', min: 0, max: 23 },
+  { name: '日期', min: 1, max: 31 },
+  { name: '月份', min: 1, max: 12 },
+  { name: '星期', min: 0, max: 7 }
+] as const;
+
+/**
+ * 解析单个字段
+ */
+function parseField(expr: string, index: number): Set<number> {
+  const { name, min, max } = FIELDS[index]!;
+  const values = new Set<number>();
+
+  for (const part of expr.split(',')) {
+    const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`${name}字段格式无效: ${part}`);
+    }
+
+    const range = match[1]!;
+    const step = match[2] !== undefined ? parseInt(match[2], 10) : 1;
+    if (step < 1) {
+      throw new Error(`${name}字段步长必须大于0: ${part}`);
+    }
+
+    let start: number = min;
+    let end: number = max;
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = parseInt(from!, 10);
+      // 单个数值带步长（如 5/15）表示从该值开始到最大值
+      end = to !== undefined ? parseInt(to, 10) : (match[2] !== undefined ? max : start);
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`${name}字段超出范围 ${min}-${max}: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * 解析 Cron 表达式，格式错误时抛出异常
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('Cron表达式需要5个字段：分 时 日 月 周');
+  }
+
+  const daysOfMonth = parseField(fields[2]!, 2);
+  const daysOfWeek = parseField(fields[4]!, 4);
+  // 7 和 0 都表示周日
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  // 带步长的星号（如 */2）只覆盖部分取值，与数值列表一样视为有限制
+  return {
+    minutes: parseField(fields[0]!, 0),
+    hours: parseField(fields[1]!, 1),
+    daysOfMonth,
+    months: parseField(fields[3]!, 3),
+    daysOfWeek,
+    dayOfMonthAny: daysOfMonth.size === 31,
+    dayOfWeekAny: daysOfWeek.size === 7
+  };
+}
+
+/**
+ * 校验 Cron 表达式是否有效
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 计算相邻两次触发之间的最短间隔（分钟）
+ * 只按一天内的触发时刻计算（含跨到次日第一次触发），日期、月份和星期的限制只会拉长间隔
+ */
+export function getMinIntervalMinutes(schedule: CronSchedule): number {
+  const times: number[] = [];
+  for (const hour of [...schedule.hours].sort((a, b) => a - b)) {
+    for (const minute of [...schedule.minutes].sort((a, b) => a - b)) {
+      times.push(hour * 60 + minute);
+    }
+  }
+
+  let minInterval = times[0]! + 24 * 60 - times[times.length - 1]!;
+  for (let i = 1; i < times.length; i++) {
+    minInterval = Math.min(minInterval, times[i]! - times[i - 1]!);
+  }
+  return minInterval;
+}
+
+/**
+ * 判断指定时间（按给定时区）是否匹配 Cron 表达式
+ * 与标准 cron 一致：日期和星期同时限制时，满足其一即可
+ */
+export function matchesCron(schedule: CronSchedule, timestamp: number, timezone?: string): boolean {
+  const parts = getDateParts(timestamp, timezone);
+
+  if (!schedule.minutes.has(parts.minute) || !schedule.hours.has(parts.hour) || !schedule.months.has(parts.month)) {
+    return false;
+  }
+
+  const dayOfMonthMatch = schedule.daysOfMonth.has(parts.day);
+  const dayOfWeekMatch = schedule.daysOfWeek.has(parts.weekday);
+
+  if (schedule.dayOfMonthAny || schedule.dayOfWeekAny) {
+    return dayOfMonthMatch && dayOfWeekMatch;
+  }
+  return dayOfMonthMatch || dayOfWeekMatch;
+}
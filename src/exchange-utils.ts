@@ -0,0 +1,109 @@
+/**
+ * 交易所适配公共工具
+ * 不同交易所的交易对写法不同（BTCUSDT / BTC-USDT / BTC-USDT-SWAP / BTC/USDT:USDT），
+ * 项目内部统一使用币安风格的规范写法，进出各交易所时再转换；K线也统一转换为 KlineData
+ */
+
+import type { ExchangeId, KlineData, TimeframeType } from './types.js';
+import { formatTimestampCompact } from './timezone.js';
+
+// 固定时长时间框架的毫秒数（1M 按自然月计算）
+const INTERVAL_MS: Record<Exclude<TimeframeType, '1M'>, number> = {
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * 常见计价币种，按长度降序排列，保证 FDUSD 优先于 USD 被匹配
+ */
+const QUOTE_ASSETS = [
+  'FDUSD', 'USDT', 'USDC', 'BUSD', 'TUSD', 'USDE',
+  'EUR', 'TRY', 'BRL', 'DAI', 'BTC', 'ETH', 'BNB', 'USD'
+].sort((a, b) => b.length - a.length);
+
+/**
+ * 拆分后的交易对
+ */
+export interface SymbolParts {
+  base: string;
+  quote: string;
+}
+
+/**
+ * 将任意交易所写法转换为规范写法
+ * 例如：btc-usdt-swap、BTC/USDT:USDT、BTC_USDT、BTCUSDTPERP 均转换为 BTCUSDT
+ */
+export function toCanonicalSymbol(raw: string): string {
+  return raw
+    .trim()
+    .toUpperCase()
+    .replace(/:[A-Z]+$/, '')
+    .replace(/[-_]?(SWAP|PERP)$/, '')
+    .replace(/[-_/\s]/g, '');
+}
+
+/**
+ * 将规范写法拆分为基础币种和计价币种，无法识别计价币种时返回 null
+ */
+export function splitSymbol(symbol: string): SymbolParts | null {
+  const normalized = toCanonicalSymbol(symbol);
+
+  for (const quote of QUOTE_ASSETS) {
+    if (normalized.length > quote.length && normalized.endsWith(quote)) {
+      return { base: normalized.slice(0, -quote.length), quote };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 由基础币种和计价币种拼出规范写法
+ */
+export function joinSymbol(base: string, quote: string): string {
+  return `${base}${quote}`.toUpperCase();
+}
+
+/**
+ * 计算K线收盘时间（与币安一致，为下一根K线开盘时间减 1 毫秒）
+ */
+export function getKlineCloseTime(openTimeMs: number, interval: TimeframeType): number {
+  if (interval === '1M') {
+    const open = new Date(openTimeMs);
+    return Date.UTC(open.getUTCFullYear(), open.getUTCMonth() + 1, 1) - 1;
+  }
+  return openTimeMs + INTERVAL_MS[interval] - 1;
+}
+
+/**
+ * 构建统一格式的K线数据
+ */
+export function createKline(
+  exchange: ExchangeId,
+  openTimeMs: number,
+  closeTimeMs: number,
+  ohlcv: { open: string; high: string; low: string; close: string; volume: string }
+): KlineData {
+  return {
+    openTime: new Date(openTimeMs).toISOString(),
+    ...ohlcv,
+    closeTime: new Date(closeTimeMs).toISOString(),
+    openTimeFormatted: formatTimestampCompact(openTimeMs),
+    closeTimeFormatted: formatTimestampCompact(closeTimeMs),
+    exchange
+  };
+}
+
+/**
+ * 解析交易所返回的数值字段，缺失或无效时返回 null
+ */
+export function parseOptionalNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
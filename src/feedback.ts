@@ -0,0 +1,266 @@
+/**
+ * 分析回复的用户反馈模块
+ * 在分析回复的最后一条消息上附加反馈按钮（👍/👎、太长了、币种不对），
+ * 反馈按审计日志保存，按提示词版本、交易对和AI模型汇总；
+ * 用户反馈"币种不对"时根据原问题推荐候选交易对，选择后重新分析
+ */
+
+import { databaseManager } from './config/database-manager.js';
+import { symbolRegistry } from './symbol-registry.js';
+import { aliasResolver } from './alias-resolver.js';
+import { logger } from './logger.js';
+import type {
+  FeedbackReport,
+  FeedbackStats,
+  FeedbackType,
+  ModelFeedbackStats,
+  PromptFeedbackStats,
+  SymbolFeedbackStats,
+  TelegramInlineKeyboardMarkup,
+  TradingPairInfo,
+  TradingPairType
+} from './types.js';
+
+// 反馈按钮的回调数据前缀（fb:审计日志ID:反馈类型）
+const FEEDBACK_CALLBACK_PREFIX = 'fb';
+
+// 重新分析按钮的回调数据前缀（rc:审计日志ID:交易对:s|f）
+const RERUN_CALLBACK_PREFIX = 'rc';
+
+// "币种不对"时最多推荐的候选交易对数量
+const MAX_SUGGESTIONS = 4;
+
+// 从原问题中提取可能是币种代码的英文单词
+const TOKEN_PATTERN = /(?<![A-Za-z0-9])[A-Za-z][A-Za-z0-9]{1,19}(?![A-Za-z0-9])/g;
+
+const FEEDBACK_TYPES: readonly FeedbackType[] = ['up', 'down', 'too_long', 'wrong_coin'];
+
+/**
+ * 反馈按钮回调的解析结果
+ */
+export type FeedbackCallback =
+  | { action: 'feedback'; auditLogId: number; feedbackType: FeedbackType }
+  | { action: 'rerun'; auditLogId: number; pair: TradingPairInfo };
+
+/**
+ * 汇总查询的原始结果
+ */
+interface FeedbackRow {
+  total: number;
+  up: number | null;
+  down: number | null;
+  too_long: number | null;
+  wrong_coin: number | null;
+}
+
+const AGGREGATE_COLUMNS = `
+  COUNT(*) AS total,
+  SUM(af.feedback_type = 'up') AS up,
+  SUM(af.feedback_type = 'down') AS down,
+  SUM(af.feedback_type = 'too_long') AS too_long,
+  SUM(af.feedback_type = 'wrong_coin') AS wrong_coin
+`;
+
+/**
+ * 将汇总结果转换为反馈统计
+ */
+function toFeedbackStats(row: FeedbackRow): FeedbackStats {
+  const total = row.total ?? 0;
+  const up = row.up ?? 0;
+  return {
+    total,
+    up,
+    down: row.down ?? 0,
+    tooLong: row.too_long ?? 0,
+    wrongCoin: row.wrong_coin ?? 0,
+    positiveRate: total > 0 ? Math.round((up / total) * 10000) / 100 : null
+  };
+}
+
+/**
+ * 生成分析回复的反馈按钮
+ */
+export function buildFeedbackKeyboard(auditLogId: number): TelegramInlineKeyboardMarkup {
+  const button = (text: string, feedbackType: FeedbackType) => ({
+    text,
+    callback_data: `${FEEDBACK_CALLBACK_PREFIX}:${auditLogId}:${feedbackType}`
+  });
+
+  return {
+    inline_keyboard: [
+      [button('👍', 'up'), button('👎', 'down')],
+      [button('📏 太长了', 'too_long'), button('🪙 币种不对', 'wrong_coin')]
+    ]
+  };
+}
+
+/**
+ * 生成候选交易对按钮，每行一个
+ */
+export function buildRerunKeyboard(auditLogId: number, pairs: TradingPairInfo[]): TelegramInlineKeyboardMarkup {
+  return {
+    inline_keyboard: pairs.map(pair => [{
+      text: `${pair.symbol}${pair.tradingPairType === 'futures' ? ' 合约' : ''}`,
+      callback_data: `${RERUN_CALLBACK_PREFIX}:${auditLogId}:${pair.symbol}:${pair.tradingPairType === 'futures' ? 'f' : 's'}`
+    }])
+  };
+}
+
+/**
+ * 解析按钮回调数据，不是反馈相关的回调时返回 null
+ */
+export function parseFeedbackCallback(data: string | undefined): FeedbackCallback | null {
+  const parts = (data || '').split(':');
+  const auditLogId = parseInt(parts[1] ?? '', 10);
+  if (isNaN(auditLogId)) {
+    return null;
+  }
+
+  if (parts[0] === FEEDBACK_CALLBACK_PREFIX && parts.length === 3) {
+    const feedbackType = parts[2] as FeedbackType;
+    return FEEDBACK_TYPES.includes(feedbackType) ? { action: 'feedback', auditLogId, feedbackType } : null;
+  }
+
+  if (parts[0] === RERUN_CALLBACK_PREFIX && parts.length === 4 && /^[A-Z0-9]{2,30}$/.test(parts[2]!)) {
+    return {
+      action: 'rerun',
+      auditLogId,
+      pair: { symbol: parts[2]!, tradingPairType: parts[3] === 'f' ? 'futures' : 'spot' }
+    };
+  }
+
+  return null;
+}
+
+/**
+ * 根据原问题推荐正确的交易对：先取问题中命中的别名，再取问题中英文单词的模糊匹配，
+ * 最后补充与识别结果名称相近的交易对；已识别的交易对不再推荐
+ */
+export function suggestCorrectSymbols(
+  questionText: string,
+  identifiedSymbols: string[],
+  tradingPairType: TradingPairType
+): TradingPairInfo[] {
+  const suggestions: TradingPairInfo[] = [];
+  const add = (symbol: string, type: TradingPairType) => {
+    if (
+      suggestions.length < MAX_SUGGESTIONS &&
+      !identifiedSymbols.includes(symbol) &&
+      !suggestions.some(pair => pair.symbol === symbol && pair.tradingPairType === type)
+    ) {
+      suggestions.push({ symbol, tradingPairType: type });
+    }
+  };
+
+  const lowerQuestion = questionText.toLowerCase();
+  for (const alias of aliasResolver.listAliases()) {
+    if (alias.enabled && lowerQuestion.includes(alias.alias.toLowerCase())) {
+      add(alias.symbol, alias.marketType ?? tradingPairType);
+    }
+  }
+
+  const tokenMatches = Array.from(questionText.matchAll(TOKEN_PATTERN))
+    .flatMap(match => symbolRegistry.fuzzyMatch(match[0], tradingPairType, MAX_SUGGESTIONS))
+    .sort((a, b) => b.score - a.score);
+  for (const match of tokenMatches) {
+    add(match.info.symbol, match.info.tradingPairType);
+  }
+
+  for (const symbol of identifiedSymbols) {
+    for (const match of symbolRegistry.fuzzyMatch(symbol, tradingPairType, MAX_SUGGESTIONS + 1)) {
+      add(match.info.symbol, match.info.tradingPairType);
+    }
+  }
+
+  return suggestions;
+}
+
+/**
+ * 分析反馈存储类
+ */
+export class FeedbackStore {
+  /**
+   * 保存反馈，同一用户重复点击时以最后一次为准
+   */
+  record(auditLogId: number, telegramUserId: number, chatId: number, feedbackType: FeedbackType): void {
+    databaseManager.getDatabase().prepare(`
+      INSERT INTO analysis_feedback (audit_log_id, telegram_user_id, chat_id, feedback_type)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(audit_log_id, telegram_user_id) DO UPDATE SET
+        feedback_type = excluded.feedback_type,
+        corrected_symbol = NULL,
+        created_at = CURRENT_TIMESTAMP
+    `).run(auditLogId, telegramUserId, chatId, feedbackType);
+
+    logger.info('收到分析反馈', { auditLogId, telegramUserId, chatId, feedbackType });
+  }
+
+  /**
+   * 记录用户选择的正确交易对（仅对"币种不对"的反馈生效）
+   */
+  setCorrectedSymbol(auditLogId: number, telegramUserId: number, symbol: string): boolean {
+    const result = databaseManager.getDatabase().prepare(`
+      UPDATE analysis_feedback SET corrected_symbol = ?
+      WHERE audit_log_id = ? AND telegram_user_id = ? AND feedback_type = 'wrong_coin'
+    `).run(symbol, auditLogId, telegramUserId);
+    return result.changes > 0;
+  }
+
+  /**
+   * 获取反馈报表（整体、按提示词版本、按交易对、按AI模型）
+   */
+  getReport(days: number | null): FeedbackReport {
+    const db = databaseManager.getDatabase();
+    const from = 'FROM analysis_feedback af JOIN audit_logs al ON al.id = af.audit_log_id';
+    const where = days !== null ? `WHERE af.created_at >= datetime('now', ?)` : '';
+    const params = days !== null ? [`-${days} days`] : [];
+
+    const overall = db.prepare(`SELECT ${AGGREGATE_COLUMNS} ${from} ${where}`).get(...params) as FeedbackRow;
+
+    const promptRows = db.prepare(`
+      SELECT al.prompt_config_id, pc.version AS prompt_version, ${AGGREGATE_COLUMNS}
+      ${from}
+      LEFT JOIN prompt_configs pc ON pc.id = al.prompt_config_id
+      ${where}
+      GROUP BY al.prompt_config_id
+      ORDER BY al.prompt_config_id DESC
+    `).all(...params) as Array<FeedbackRow & { prompt_config_id: number | null; prompt_version: string | null }>;
+
+    const symbolRows = db.prepare(`
+      SELECT al.identified_currency AS symbol, ${AGGREGATE_COLUMNS}
+      ${from}
+      ${where}
+      GROUP BY al.identified_currency
+      ORDER BY total DESC, al.identified_currency
+    `).all(...params) as Array<FeedbackRow & { symbol: string | null }>;
+
+    const modelRows = db.prepare(`
+      SELECT al.ai_model, ${AGGREGATE_COLUMNS}
+      ${from}
+      ${where}
+      GROUP BY al.ai_model
+      ORDER BY total DESC
+    `).all(...params) as Array<FeedbackRow & { ai_model: string | null }>;
+
+    return {
+      days,
+      overall: toFeedbackStats(overall),
+      byPromptVersion: promptRows.map((row): PromptFeedbackStats => ({
+        promptConfigId: row.prompt_config_id,
+        promptVersion: row.prompt_version,
+        ...toFeedbackStats(row)
+      })),
+      bySymbol: symbolRows.map((row): SymbolFeedbackStats => ({
+        symbol: row.symbol ?? '未识别',
+        ...toFeedbackStats(row)
+      })),
+      byModel: modelRows.map((row): ModelFeedbackStats => ({
+        aiModel: row.ai_model,
+        ...toFeedbackStats(row)
+      }))
+    };
+  }
+}
+
+// 导出单例实例
+export const feedbackStore = new FeedbackStore();
@@ -12,6 +12,9 @@ import { readFile } from 'fs/promises';
 import { join } from 'path';
 import { handleConfigRoutes } from './routes/config-routes.js';
 import { handleDashboardRoutes } from './routes/dashboard-routes.js';
+import { handleScheduleRoutes } from './routes/schedule-routes.js';
+import { handleWebhookRoutes } from './routes/webhook-routes.js';
+import { TELEGRAM_WEBHOOK_PATH } from './telegram-webhook.js';
 
 // 全局变量存储HTTP服务器实例
 let httpServer: any = null;
@@ -52,6 +55,11 @@ function startHttpServer(): Promise<void> {
           }
         }
 
+        // Telegram Webhook（webhook 模式下接收 Telegram 推送的更新）
+        if (await handleWebhookRoutes(req, res, pathname)) {
+          return;
+        }
+
         // 配置API路由
         if (await handleConfigRoutes(req, res, pathname)) {
           return;
@@ -62,6 +70,11 @@ function startHttpServer(): Promise<void> {
           return;
         }
 
+        // 定时分析API路由
+        if (await handleScheduleRoutes(req, res, pathname)) {
+          return;
+        }
+
         // 404 处理
         res.writeHead(404, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({ error: 'Not Found' }));
@@ -86,6 +99,8 @@ function startHttpServer(): Promise<void> {
         adminInterface: `/admin`,
         configApi: `/api/config/prompts`,
         dashboardApi: `/api/dashboard/stats`,
+        scheduleApi: `/api/schedules`,
+        telegramWebhook: config.telegramMode === 'webhook' ? TELEGRAM_WEBHOOK_PATH : '未启用（长轮询模式）',
         externalAccess: config.host === '0.0.0.0' ? '支持外部访问' : '仅本地访问'
       });
       resolve();
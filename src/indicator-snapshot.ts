@@ -0,0 +1,122 @@
+/**
+ * 技术指标快照模块
+ * 基于 indicators.ts 的指标序列计算各时间框架的最新指标值，并格式化为提示词文本
+ * 严格遵守 300 行以内规范
+ */
+
+import { sma, ema, rsi, macd, bollingerBands, atr, stochastic, obv, vwap, adx } from './indicators.js';
+import type {
+  KlineData,
+  TimeframeKlineData,
+  TimeframeType,
+  IndicatorSnapshot,
+  TimeframeIndicators
+} from './types.js';
+
+/**
+ * 取序列最后一个值，NaN 转为 null
+ */
+function lastValue(values: number[]): number | null {
+  const value = values[values.length - 1];
+  return value === undefined || Number.isNaN(value) ? null : value;
+}
+
+/**
+ * 计算单个时间框架的指标快照
+ */
+export function calculateIndicators(klines: KlineData[]): IndicatorSnapshot {
+  const highs = klines.map(k => parseFloat(k.high));
+  const lows = klines.map(k => parseFloat(k.low));
+  const closes = klines.map(k => parseFloat(k.close));
+  const volumes = klines.map(k => parseFloat(k.volume));
+
+  const macdResult = macd(closes);
+  const boll = bollingerBands(closes);
+  const stoch = stochastic(highs, lows, closes);
+  const obvLine = obv(closes, volumes);
+  const adxResult = adx(highs, lows, closes);
+
+  const macdValue = lastValue(macdResult.macd);
+  const signalValue = lastValue(macdResult.signal);
+  const upper = lastValue(boll.upper);
+  const middle = lastValue(boll.middle);
+  const lower = lastValue(boll.lower);
+  const k = lastValue(stoch.k);
+  const d = lastValue(stoch.d);
+  const latestObv = lastValue(obvLine);
+  const previousObv = obvLine.length > 20 ? obvLine[obvLine.length - 21]! : NaN;
+  const adxValue = lastValue(adxResult.adx);
+
+  return {
+    candleCount: klines.length,
+    close: closes[closes.length - 1] ?? NaN,
+    sma20: lastValue(sma(closes, 20)),
+    sma50: lastValue(sma(closes, 50)),
+    ema12: lastValue(ema(closes, 12)),
+    ema26: lastValue(ema(closes, 26)),
+    rsi14: lastValue(rsi(closes, 14)),
+    macd: macdValue !== null && signalValue !== null
+      ? { macd: macdValue, signal: signalValue, histogram: macdValue - signalValue }
+      : null,
+    bollinger: upper !== null && middle !== null && lower !== null
+      ? { upper, middle, lower, bandwidth: middle === 0 ? 0 : ((upper - lower) / middle) * 100 }
+      : null,
+    atr14: lastValue(atr(highs, lows, closes, 14)),
+    stochastic: k !== null && d !== null ? { k, d } : null,
+    obv: latestObv,
+    obvChange20: latestObv !== null && !Number.isNaN(previousObv) ? latestObv - previousObv : null,
+    vwap: lastValue(vwap(highs, lows, closes, volumes)),
+    adx: adxValue !== null
+      ? { adx: adxValue, plusDI: lastValue(adxResult.plusDI)!, minusDI: lastValue(adxResult.minusDI)! }
+      : null
+  };
+}
+
+/**
+ * 计算多时间框架的指标快照
+ */
+export function calculateTimeframeIndicators(klineData: TimeframeKlineData): TimeframeIndicators {
+  const result: TimeframeIndicators = {};
+  for (const [timeframe, klines] of Object.entries(klineData) as Array<[TimeframeType, KlineData[]]>) {
+    if (klines.length > 0) {
+      result[timeframe] = calculateIndicators(klines);
+    }
+  }
+  return result;
+}
+
+/**
+ * 数值格式化：保留6位有效数字，null 显示为 -
+ */
+function formatValue(value: number | null): string {
+  if (value === null || Number.isNaN(value)) return '-';
+  return String(Number(value.toPrecision(6)));
+}
+
+/**
+ * 将多时间框架指标格式化为提示词文本（每个时间框架一行，便于模型引用）
+ */
+export function formatIndicatorsForPrompt(indicators: TimeframeIndicators): string {
+  return Object.entries(indicators).map(([timeframe, s]) => {
+    const parts = [
+      `收盘 ${formatValue(s.close)}`,
+      `SMA20 ${formatValue(s.sma20)} SMA50 ${formatValue(s.sma50)}`,
+      `EMA12 ${formatValue(s.ema12)} EMA26 ${formatValue(s.ema26)}`,
+      `RSI14 ${formatValue(s.rsi14)}`,
+      s.macd
+        ? `MACD DIF ${formatValue(s.macd.macd)} DEA ${formatValue(s.macd.signal)} 柱 ${formatValue(s.macd.histogram)}`
+        : 'MACD -',
+      s.bollinger
+        ? `布林 上 ${formatValue(s.bollinger.upper)} 中 ${formatValue(s.bollinger.middle)} 下 ${formatValue(s.bollinger.lower)} 带宽 ${formatValue(s.bollinger.bandwidth)}%`
+        : '布林 -',
+      `ATR14 ${formatValue(s.atr14)}`,
+      s.stochastic ? `KD ${formatValue(s.stochastic.k)}/${formatValue(s.stochastic.d)}` : 'KD -',
+      `OBV ${formatValue(s.obv)} (20根变化 ${formatValue(s.obvChange20)})`,
+      `VWAP ${formatValue(s.vwap)}`,
+      s.adx
+        ? `ADX ${formatValue(s.adx.adx)} (+DI ${formatValue(s.adx.plusDI)} -DI ${formatValue(s.adx.minusDI)})`
+        : 'ADX -'
+    ];
+    return `[${timeframe}, ${s.candleCount}根] ${parts.join(' | ')}`;
+  }).join('\n');
+}
@@ -0,0 +1,229 @@
+/**
+ * 技术指标计算模块（纯TypeScript实现，无外部依赖）
+ * 严格遵守 300 行以内规范
+ *
+ * 所有序列函数返回与输入等长的数组，数据不足的位置填充 NaN
+ */
+
+/**
+ * 简单移动平均线 SMA
+ */
+export function sma(values: number[], period: number): number[] {
+  const result: number[] = new Array(values.length).fill(NaN);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i]!;
+    if (i >= period) sum -= values[i - period]!;
+    if (i >= period - 1) result[i] = sum / period;
+  }
+  return result;
+}
+
+/**
+ * 指数移动平均线 EMA（以前 period 个值的 SMA 作为初始值，跳过前导 NaN）
+ */
+export function ema(values: number[], period: number): number[] {
+  const result: number[] = new Array(values.length).fill(NaN);
+  const k = 2 / (period + 1);
+  const start = values.findIndex(v => !Number.isNaN(v));
+  if (start === -1 || values.length - start < period) return result;
+
+  let prev = values.slice(start, start + period).reduce((a, b) => a + b, 0) / period;
+  result[start + period - 1] = prev;
+  for (let i = start + period; i < values.length; i++) {
+    prev = values[i]! * k + prev * (1 - k);
+    result[i] = prev;
+  }
+  return result;
+}
+
+/**
+ * Wilder 平滑（RSI、ATR、ADX 使用）
+ */
+function wilderSmooth(values: number[], period: number): number[] {
+  const result: number[] = new Array(values.length).fill(NaN);
+  if (values.length < period) return result;
+
+  let prev = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+  result[period - 1] = prev;
+  for (let i = period; i < values.length; i++) {
+    prev = (prev * (period - 1) + values[i]!) / period;
+    result[i] = prev;
+  }
+  return result;
+}
+
+/**
+ * 相对强弱指数 RSI
+ */
+export function rsi(closes: number[], period: number = 14): number[] {
+  const result: number[] = new Array(closes.length).fill(NaN);
+  if (closes.length <= period) return result;
+
+  const gains: number[] = [];
+  const losses: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    const change = closes[i]! - closes[i - 1]!;
+    gains.push(Math.max(change, 0));
+    losses.push(Math.max(-change, 0));
+  }
+
+  const avgGain = wilderSmooth(gains, period);
+  const avgLoss = wilderSmooth(losses, period);
+  for (let i = period - 1; i < gains.length; i++) {
+    const loss = avgLoss[i]!;
+    result[i + 1] = loss === 0 ? 100 : 100 - 100 / (1 + avgGain[i]! / loss);
+  }
+  return result;
+}
+
+/**
+ * MACD 指标（DIF、DEA、柱状图）
+ */
+export function macd(
+  closes: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): { macd: number[]; signal: number[]; histogram: number[] } {
+  const fast = ema(closes, fastPeriod);
+  const slow = ema(closes, slowPeriod);
+  const macdLine = fast.map((f, i) => f - slow[i]!);
+  const signal = ema(macdLine, signalPeriod);
+  const histogram = macdLine.map((m, i) => m - signal[i]!);
+  return { macd: macdLine, signal, histogram };
+}
+
+/**
+ * 布林带 Bollinger Bands
+ */
+export function bollingerBands(
+  closes: number[],
+  period: number = 20,
+  multiplier: number = 2
+): { upper: number[]; middle: number[]; lower: number[] } {
+  const middle = sma(closes, period);
+  const upper: number[] = new Array(closes.length).fill(NaN);
+  const lower: number[] = new Array(closes.length).fill(NaN);
+
+  for (let i = period - 1; i < closes.length; i++) {
+    const mean = middle[i]!;
+    const window = closes.slice(i - period + 1, i + 1);
+    const std = Math.sqrt(window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period);
+    upper[i] = mean + multiplier * std;
+    lower[i] = mean - multiplier * std;
+  }
+  return { upper, middle, lower };
+}
+
+/**
+ * 真实波幅序列 TR
+ */
+function trueRange(highs: number[], lows: number[], closes: number[]): number[] {
+  return highs.map((high, i) => {
+    const low = lows[i]!;
+    if (i === 0) return high - low;
+    const prevClose = closes[i - 1]!;
+    return Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose));
+  });
+}
+
+/**
+ * 平均真实波幅 ATR
+ */
+export function atr(highs: number[], lows: number[], closes: number[], period: number = 14): number[] {
+  return wilderSmooth(trueRange(highs, lows, closes), period);
+}
+
+/**
+ * 随机指标 Stochastic（%K 与 %D）
+ */
+export function stochastic(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  kPeriod: number = 14,
+  dPeriod: number = 3
+): { k: number[]; d: number[] } {
+  const k: number[] = new Array(closes.length).fill(NaN);
+  for (let i = kPeriod - 1; i < closes.length; i++) {
+    const highest = Math.max(...highs.slice(i - kPeriod + 1, i + 1));
+    const lowest = Math.min(...lows.slice(i - kPeriod + 1, i + 1));
+    k[i] = highest === lowest ? 50 : ((closes[i]! - lowest) / (highest - lowest)) * 100;
+  }
+
+  const d: number[] = new Array(closes.length).fill(NaN);
+  for (let i = kPeriod + dPeriod - 2; i < closes.length; i++) {
+    d[i] = k.slice(i - dPeriod + 1, i + 1).reduce((a, b) => a + b, 0) / dPeriod;
+  }
+  return { k, d };
+}
+
+/**
+ * 能量潮 OBV
+ */
+export function obv(closes: number[], volumes: number[]): number[] {
+  const result: number[] = new Array(closes.length).fill(NaN);
+  if (closes.length === 0) return result;
+
+  result[0] = 0;
+  for (let i = 1; i < closes.length; i++) {
+    const direction = Math.sign(closes[i]! - closes[i - 1]!);
+    result[i] = result[i - 1]! + direction * volumes[i]!;
+  }
+  return result;
+}
+
+/**
+ * 成交量加权平均价 VWAP（以序列起点为锚点累计计算）
+ */
+export function vwap(highs: number[], lows: number[], closes: number[], volumes: number[]): number[] {
+  let cumulativePV = 0;
+  let cumulativeVolume = 0;
+  return closes.map((close, i) => {
+    const typicalPrice = (highs[i]! + lows[i]! + close) / 3;
+    cumulativePV += typicalPrice * volumes[i]!;
+    cumulativeVolume += volumes[i]!;
+    return cumulativeVolume === 0 ? NaN : cumulativePV / cumulativeVolume;
+  });
+}
+
+/**
+ * 平均趋向指数 ADX（含 +DI / -DI）
+ */
+export function adx(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period: number = 14
+): { adx: number[]; plusDI: number[]; minusDI: number[] } {
+  const length = closes.length;
+  const plusDM: number[] = [0];
+  const minusDM: number[] = [0];
+  for (let i = 1; i < length; i++) {
+    const upMove = highs[i]! - highs[i - 1]!;
+    const downMove = lows[i - 1]! - lows[i]!;
+    plusDM.push(upMove > downMove && upMove > 0 ? upMove : 0);
+    minusDM.push(downMove > upMove && downMove > 0 ? downMove : 0);
+  }
+
+  // 第一根K线没有前值，从第二根开始平滑
+  const smoothedTR = [NaN, ...wilderSmooth(trueRange(highs, lows, closes).slice(1), period)];
+  const smoothedPlus = [NaN, ...wilderSmooth(plusDM.slice(1), period)];
+  const smoothedMinus = [NaN, ...wilderSmooth(minusDM.slice(1), period)];
+
+  const plusDI = smoothedPlus.map((v, i) => (v / smoothedTR[i]!) * 100);
+  const minusDI = smoothedMinus.map((v, i) => (v / smoothedTR[i]!) * 100);
+  const dx = plusDI.map((p, i) => {
+    const m = minusDI[i]!;
+    return p + m === 0 ? 0 : (Math.abs(p - m) / (p + m)) * 100;
+  });
+
+  const firstValid = dx.findIndex(v => !Number.isNaN(v));
+  const adxLine: number[] = new Array(length).fill(NaN);
+  if (firstValid !== -1) {
+    const smoothedDX = wilderSmooth(dx.slice(firstValid), period);
+    smoothedDX.forEach((v, i) => { adxLine[firstValid + i] = v; });
+  }
+  return { adx: adxLine, plusDI, minusDI };
+}
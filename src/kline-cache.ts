@@ -0,0 +1,308 @@
+/**
+ * K线缓存模块
+ * 已收盘的K线保存在 SQLite 中，之后只增量获取最后一根已收盘K线之后的数据；
+ * 未收盘的最新K线在内存中短暂缓存，过期后再随增量请求一起刷新
+ */
+
+import { logger } from './logger.js';
+import { databaseManager } from './config/database-manager.js';
+import { createKline, getKlineCloseTime } from './exchange-utils.js';
+import type { ExchangeId, KlineData, MarketDataProvider, TimeframeType, TradingPairType } from './types.js';
+
+// 未收盘K线的缓存时间
+const OPEN_CANDLE_TTL_MS = 15 * 1000;
+
+// 每个交易对/周期最多保留的已收盘K线数量
+const MAX_STORED_CANDLES = 500;
+
+/**
+ * 数据库中的K线记录
+ */
+interface KlineCacheRecord {
+  open_time: number;
+  close_time: number;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  volume: string;
+}
+
+/**
+ * 内存中的未收盘K线
+ */
+interface OpenCandleEntry {
+  kline: KlineData;
+  fetchedAt: number;
+}
+
+/**
+ * K线缓存统计
+ */
+export interface KlineCacheStats {
+  /** 完全由缓存返回的请求数 */
+  hits: number;
+  /** 只增量获取最新K线的请求数 */
+  partialHits: number;
+  /** 需要完整获取的请求数 */
+  misses: number;
+  /** 缓存命中率（完全命中 + 增量命中） */
+  hitRate: number;
+  /** 实际从交易所获取的K线数量 */
+  fetchedCandles: number;
+  /** 由缓存提供、未重复请求的K线数量 */
+  servedFromCache: number;
+  /** 数据库中缓存的已收盘K线数量 */
+  storedCandles: number;
+  /** 内存中缓存的未收盘K线数量 */
+  openCandles: number;
+}
+
+/**
+ * K线缓存管理器
+ */
+class KlineCache {
+  private openCandles = new Map<string, OpenCandleEntry>();
+  // 相同参数的并发请求共享同一次获取
+  private inflight = new Map<string, Promise<KlineData[]>>();
+  private hits = 0;
+  private partialHits = 0;
+  private misses = 0;
+  private fetchedCandles = 0;
+  private servedFromCache = 0;
+
+  /**
+   * 获取K线数据（返回最近 limit 根，包含未收盘的最新K线）
+   */
+  async getKlines(
+    provider: MarketDataProvider,
+    symbol: string,
+    interval: TimeframeType,
+    tradingPairType: TradingPairType,
+    limit: number
+  ): Promise<KlineData[]> {
+    const requestKey = `${this.getKey(provider.id, tradingPairType, symbol, interval)}|${limit}`;
+    const pending = this.inflight.get(requestKey);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.loadKlines(provider, symbol, interval, tradingPairType, limit)
+      .finally(() => this.inflight.delete(requestKey));
+    this.inflight.set(requestKey, request);
+    return request;
+  }
+
+  /**
+   * 获取缓存统计
+   */
+  getStats(): KlineCacheStats {
+    const total = this.hits + this.partialHits + this.misses;
+    const stored = databaseManager.getDatabase()
+      .prepare('SELECT COUNT(*) as count FROM kline_cache')
+      .get() as { count: number };
+
+    return {
+      hits: this.hits,
+      partialHits: this.partialHits,
+      misses: this.misses,
+      hitRate: total > 0 ? Number(((this.hits + this.partialHits) / total).toFixed(4)) : 0,
+      fetchedCandles: this.fetchedCandles,
+      servedFromCache: this.servedFromCache,
+      storedCandles: stored.count,
+      openCandles: this.openCandles.size
+    };
+  }
+
+  /**
+   * 读取缓存并按需增量获取
+   */
+  private async loadKlines(
+    provider: MarketDataProvider,
+    symbol: string,
+    interval: TimeframeType,
+    tradingPairType: TradingPairType,
+    limit: number
+  ): Promise<KlineData[]> {
+    const key = this.getKey(provider.id, tradingPairType, symbol, interval);
+    const now = Date.now();
+    const stored = this.readClosedCandles(provider.id, tradingPairType, symbol, interval, limit);
+    const openCandle = this.openCandles.get(key);
+    const lastStored = stored[stored.length - 1];
+
+    // 需要补齐的K线数量：最后一根已收盘K线之后到当前未收盘K线为止
+    const missing = lastStored
+      ? this.countCandlesSince(Date.parse(lastStored.openTime), interval, now, limit)
+      : limit;
+    const hasEnoughHistory = stored.length + missing >= limit;
+
+    // 完全命中：已收盘K线连续到当前，未收盘K线未过期且仍在当前周期内
+    if (
+      hasEnoughHistory &&
+      missing === 1 &&
+      openCandle &&
+      now - openCandle.fetchedAt < OPEN_CANDLE_TTL_MS &&
+      Date.parse(openCandle.kline.closeTime) >= now
+    ) {
+      this.hits++;
+      this.servedFromCache += Math.min(limit, stored.length + 1);
+      return [...stored, openCandle.kline].slice(-limit);
+    }
+
+    const incremental = hasEnoughHistory && missing < limit;
+    const fetchLimit = incremental ? missing : limit;
+    const fetched = await provider.getKlines(symbol, interval, tradingPairType, fetchLimit);
+
+    if (incremental) {
+      this.partialHits++;
+      this.servedFromCache += Math.max(0, limit - fetched.length);
+    } else {
+      this.misses++;
+      // 缓存与最新数据之间存在断档时清空旧数据，保证缓存中的K线连续
+      if (lastStored && missing >= limit) {
+        this.clearCandles(provider.id, tradingPairType, symbol, interval);
+      }
+    }
+    this.fetchedCandles += fetched.length;
+
+    const closed = fetched.filter(kline => Date.parse(kline.closeTime) < now);
+    const latest = fetched[fetched.length - 1];
+    if (latest && Date.parse(latest.closeTime) >= now) {
+      this.openCandles.set(key, { kline: latest, fetchedAt: now });
+    } else {
+      this.openCandles.delete(key);
+    }
+    this.saveClosedCandles(provider.id, tradingPairType, symbol, interval, closed);
+
+    logger.debug('K线缓存已更新', {
+      exchange: provider.id,
+      symbol,
+      interval,
+      tradingPairType,
+      mode: incremental ? 'incremental' : 'full',
+      fetched: fetched.length,
+      cached: stored.length
+    });
+
+    // 合并缓存与新获取的数据（按开盘时间去重，新数据优先）
+    const merged = new Map<string, KlineData>();
+    for (const kline of [...stored, ...fetched]) {
+      merged.set(kline.openTime, kline);
+    }
+    return Array.from(merged.values())
+      .sort((a, b) => Date.parse(a.openTime) - Date.parse(b.openTime))
+      .slice(-limit);
+  }
+
+  /**
+   * 计算某根K线之后到当前时间为止的K线数量（含未收盘的一根），最多计算到 cap
+   */
+  private countCandlesSince(openTimeMs: number, interval: TimeframeType, now: number, cap: number): number {
+    let count = 0;
+    let nextOpenTime = getKlineCloseTime(openTimeMs, interval) + 1;
+
+    while (count < cap) {
+      count++;
+      const closeTime = getKlineCloseTime(nextOpenTime, interval);
+      if (closeTime >= now) {
+        break;
+      }
+      nextOpenTime = closeTime + 1;
+    }
+
+    return count;
+  }
+
+  /**
+   * 读取最近的已收盘K线（按时间升序）
+   */
+  private readClosedCandles(
+    exchange: ExchangeId,
+    tradingPairType: TradingPairType,
+    symbol: string,
+    interval: TimeframeType,
+    limit: number
+  ): KlineData[] {
+    const records = databaseManager.getDatabase().prepare(`
+      SELECT open_time, close_time, open, high, low, close, volume
+      FROM kline_cache
+      WHERE exchange = ? AND market_type = ? AND symbol = ? AND timeframe = ?
+      ORDER BY open_time DESC
+      LIMIT ?
+    `).all(exchange, tradingPairType, symbol, interval, limit) as KlineCacheRecord[];
+
+    return records.reverse().map(record => createKline(exchange, record.open_time, record.close_time, {
+      open: record.open,
+      high: record.high,
+      low: record.low,
+      close: record.close,
+      volume: record.volume
+    }));
+  }
+
+  /**
+   * 保存已收盘K线，并清理超出保留数量的旧数据
+   */
+  private saveClosedCandles(
+    exchange: ExchangeId,
+    tradingPairType: TradingPairType,
+    symbol: string,
+    interval: TimeframeType,
+    klines: KlineData[]
+  ): void {
+    if (klines.length === 0) {
+      return;
+    }
+
+    const db = databaseManager.getDatabase();
+    const insert = db.prepare(`
+      INSERT OR REPLACE INTO kline_cache (
+        exchange, market_type, symbol, timeframe, open_time, close_time, open, high, low, close, volume
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const prune = db.prepare(`
+      DELETE FROM kline_cache
+      WHERE exchange = ? AND market_type = ? AND symbol = ? AND timeframe = ?
+        AND open_time < (
+          SELECT open_time FROM kline_cache
+          WHERE exchange = ? AND market_type = ? AND symbol = ? AND timeframe = ?
+          ORDER BY open_time DESC
+          LIMIT 1 OFFSET ?
+        )
+    `);
+
+    db.transaction(() => {
+      for (const kline of klines) {
+        insert.run(
+          exchange, tradingPairType, symbol, interval,
+          Date.parse(kline.openTime), Date.parse(kline.closeTime),
+          kline.open, kline.high, kline.low, kline.close, kline.volume
+        );
+      }
+      prune.run(
+        exchange, tradingPairType, symbol, interval,
+        exchange, tradingPairType, symbol, interval,
+        MAX_STORED_CANDLES - 1
+      );
+    })();
+  }
+
+  /**
+   * 清空某个交易对/周期的缓存
+   */
+  private clearCandles(exchange: ExchangeId, tradingPairType: TradingPairType, symbol: string, interval: TimeframeType): void {
+    databaseManager.getDatabase().prepare(`
+      DELETE FROM kline_cache WHERE exchange = ? AND market_type = ? AND symbol = ? AND timeframe = ?
+    `).run(exchange, tradingPairType, symbol, interval);
+  }
+
+  /**
+   * 生成缓存键
+   */
+  private getKey(exchange: ExchangeId, tradingPairType: TradingPairType, symbol: string, interval: TimeframeType): string {
+    return `${exchange}|${tradingPairType}|${symbol}|${interval}`;
+  }
+}
+
+// 导出单例实例
+export const klineCache = new KlineCache();
@@ -0,0 +1,318 @@
+/**
+ * 行情数据获取模块
+ * 按配置的数据源优先级依次尝试各交易所，前一个交易所没有该交易对或请求失败时回退到下一个
+ */
+
+import { config } from './config.js';
+import { logger } from './logger.js';
+import type {
+  ExchangeId,
+  KlineData,
+  MarketDataProvider,
+  TimeframeKlineData,
+  TimeframeType,
+  TradingPairInfo,
+  TradingPairType
+} from './types.js';
+import { TradingAnalysisError } from './types.js';
+import { binanceProvider } from './binance.js';
+import { okxProvider } from './okx.js';
+import { bybitProvider } from './bybit.js';
+import { toCanonicalSymbol } from './exchange-utils.js';
+import { klineCache } from './kline-cache.js';
+
+/**
+ * 支持的时间框架
+ */
+const TIMEFRAMES = [
+  '15m',  // 15分钟
+  '1h',   // 1小时
+  '4h',   // 4小时
+  '1d',   // 1天
+  '1w',   // 1周
+  '1M'    // 1月
+] as const;
+
+// 交易对验证结果的缓存时间（只缓存验证成功的结果）
+const VALIDATION_CACHE_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * 已实现的行情数据提供者
+ */
+const PROVIDERS: Record<ExchangeId, MarketDataProvider> = {
+  binance: binanceProvider,
+  okx: okxProvider,
+  bybit: bybitProvider
+};
+
+/**
+ * 识别到的交易对及其所在交易所
+ */
+export interface ResolvedTradingPair extends TradingPairInfo {
+  exchange: ExchangeId;
+}
+
+/**
+ * 单个数据源的失败记录
+ */
+interface FailedAttempt {
+  exchange: ExchangeId;
+  error: TradingAnalysisError;
+}
+
+/**
+ * 获取交易所展示名称
+ */
+export function getExchangeName(exchange: ExchangeId): string {
+  return PROVIDERS[exchange].displayName;
+}
+
+// 已验证存在的交易对，键为 交易对|请求类型
+const validationCache = new Map<string, { result: ResolvedTradingPair; expiresAt: number }>();
+
+/**
+ * 按配置获取数据源回退链
+ */
+export function getProviderChain(): MarketDataProvider[] {
+  const chain = (config?.marketDataProviders || []).map(id => PROVIDERS[id]);
+  return chain.length > 0 ? chain : [binanceProvider];
+}
+
+/**
+ * 将任意异常转换为 TradingAnalysisError
+ */
+function toAnalysisError(error: unknown): TradingAnalysisError {
+  return error instanceof TradingAnalysisError
+    ? error
+    : new TradingAnalysisError(error instanceof Error ? error.message : String(error), 'MARKET_DATA_ERROR');
+}
+
+/**
+ * 汇总所有数据源的失败原因
+ * 错误类型一致时保留原错误（如全部为无效交易对），否则统一为市场数据获取失败
+ */
+function mergeErrors(attempts: FailedAttempt[], symbol: string, tradingPairType: TradingPairType): TradingAnalysisError {
+  const codes = new Set(attempts.map(attempt => attempt.error.code));
+  if (codes.size === 1) {
+    return attempts[attempts.length - 1]!.error;
+  }
+
+  return new TradingAnalysisError(
+    `所有数据源均获取失败: ${symbol} (${tradingPairType})`,
+    'MARKET_DATA_ERROR',
+    {
+      symbol,
+      tradingPairType,
+      attempts: attempts.map(({ exchange, error }) => ({ exchange, code: error.code, message: error.message }))
+    }
+  );
+}
+
+/**
+ * 依次在各数据源上执行请求，返回第一个成功的结果
+ */
+async function withFallback<T>(
+  action: string,
+  symbol: string,
+  tradingPairType: TradingPairType,
+  run: (provider: MarketDataProvider) => Promise<T>
+): Promise<T> {
+  const attempts: FailedAttempt[] = [];
+
+  for (const provider of getProviderChain()) {
+    try {
+      const result = await run(provider);
+      if (attempts.length > 0) {
+        logger.info(`${action}已回退到备用数据源`, {
+          symbol,
+          tradingPairType,
+          exchange: provider.id,
+          failed: attempts.map(attempt => attempt.exchange)
+        });
+      }
+      return result;
+    } catch (error) {
+      const analysisError = toAnalysisError(error);
+      attempts.push({ exchange: provider.id, error: analysisError });
+
+      logger.warn(`${action}失败，尝试下一个数据源`, {
+        exchange: provider.id,
+        symbol,
+        tradingPairType,
+        code: analysisError.code,
+        error: analysisError.message
+      });
+    }
+  }
+
+  throw mergeErrors(attempts, symbol, tradingPairType);
+}
+
+/**
+ * 获取单个时间框架的K线数据（支持现货和合约）
+ */
+async function getSingleTimeframeKlines(
+  symbol: string,
+  interval: TimeframeType,
+  tradingPairType: TradingPairType = 'spot',
+  limit: number = 100
+): Promise<KlineData[]> {
+  const cleanSymbol = toCanonicalSymbol(symbol);
+  return withFallback('获取K线数据', cleanSymbol, tradingPairType, provider =>
+    klineCache.getKlines(provider, cleanSymbol, interval, tradingPairType, limit)
+  );
+}
+
+/**
+ * 从同一个数据源并行获取多时间框架K线数据，避免不同交易所的数据混在一起
+ * 未选中的时间框架返回空数组
+ */
+async function getMultiTimeframeKlines(
+  symbol: string,
+  tradingPairType: TradingPairType,
+  limit: number,
+  timeframes: readonly TimeframeType[]
+): Promise<TimeframeKlineData> {
+  logger.info(`开始获取多时间框架K线数据`, { symbol, tradingPairType, limit, timeframes });
+
+  const klineData = await withFallback('获取多时间框架K线数据', symbol, tradingPairType, async provider => {
+    const results = await Promise.all(TIMEFRAMES.map(timeframe =>
+      timeframes.includes(timeframe)
+        ? klineCache.getKlines(provider, symbol, timeframe, tradingPairType, limit)
+        : Promise.resolve([])
+    ));
+
+    return {
+      '15m': results[0],
+      '1h': results[1],
+      '4h': results[2],
+      '1d': results[3],
+      '1w': results[4],
+      '1M': results[5]
+    } as TimeframeKlineData;
+  });
+
+  logger.info(`多时间框架K线数据获取完成`, {
+    symbol,
+    tradingPairType,
+    exchange: getKlineExchange(klineData),
+    timeframes: timeframes.length,
+    totalDataPoints: Object.values(klineData).reduce((sum, data) => sum + data.length, 0)
+  });
+
+  return klineData;
+}
+
+/**
+ * 获取最新成交价
+ * 优先使用第一个数据源，找不到的交易对再依次到后续数据源查询
+ */
+async function getTickerPrices(
+  symbols: string[],
+  tradingPairType: TradingPairType = 'spot'
+): Promise<Map<string, number>> {
+  const prices = new Map<string, number>();
+  const chain = getProviderChain();
+  const attempts: FailedAttempt[] = [];
+  let remaining = Array.from(new Set(symbols.map(symbol => toCanonicalSymbol(symbol))));
+
+  for (const provider of chain) {
+    if (remaining.length === 0) {
+      break;
+    }
+
+    try {
+      const found = await provider.getTickerPrices(remaining, tradingPairType);
+      found.forEach((price, symbol) => prices.set(symbol, price));
+      remaining = remaining.filter(symbol => !prices.has(symbol));
+    } catch (error) {
+      const analysisError = toAnalysisError(error);
+      attempts.push({ exchange: provider.id, error: analysisError });
+
+      logger.warn('获取最新价格失败，尝试下一个数据源', {
+        exchange: provider.id,
+        tradingPairType,
+        error: analysisError.message
+      });
+    }
+  }
+
+  // 所有数据源都请求失败时才视为错误，部分交易对找不到由调用方处理
+  if (prices.size === 0 && attempts.length === chain.length) {
+    throw mergeErrors(attempts, symbols.join(','), tradingPairType);
+  }
+
+  logger.debug('最新价格获取成功', {
+    tradingPairType,
+    requested: symbols.length,
+    found: prices.size
+  });
+
+  return prices;
+}
+
+/**
+ * 在各数据源中查找交易对
+ * 优先匹配指定类型（各交易所并行验证，按优先级取第一个存在的），找不到时再尝试另一种类型
+ */
+export async function findTradingPair(
+  symbol: string,
+  tradingPairType: TradingPairType = 'spot'
+): Promise<ResolvedTradingPair | null> {
+  const cleanSymbol = toCanonicalSymbol(symbol);
+  const cacheKey = `${cleanSymbol}|${tradingPairType}`;
+  const cached = validationCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.result;
+  }
+
+  const chain = getProviderChain();
+  const fallbackType: TradingPairType = tradingPairType === 'spot' ? 'futures' : 'spot';
+
+  for (const type of [tradingPairType, fallbackType]) {
+    const results = await Promise.all(chain.map(provider => provider.validateSymbol(cleanSymbol, type)));
+    const index = results.indexOf(true);
+
+    if (index >= 0) {
+      const result: ResolvedTradingPair = { symbol: cleanSymbol, tradingPairType: type, exchange: chain[index]!.id };
+      validationCache.set(cacheKey, { result, expiresAt: Date.now() + VALIDATION_CACHE_TTL_MS });
+      logger.debug('交易对验证成功', { requestedType: tradingPairType, ...result });
+      return result;
+    }
+  }
+
+  logger.debug('所有数据源均未找到交易对', { symbol: cleanSymbol, tradingPairType });
+  return null;
+}
+
+/**
+ * 获取K线数据的来源交易所（取第一个非空时间框架）
+ */
+export function getKlineExchange(klineData: TimeframeKlineData): ExchangeId | null {
+  const klines = Object.values(klineData).find(data => data.length > 0);
+  return klines?.[0]?.exchange ?? null;
+}
+
+/**
+ * 主要导出函数：获取K线数据
+ */
+export async function getKlineData(
+  symbol: string,
+  tradingPairType: TradingPairType = 'spot',
+  limit: number = 100,
+  timeframes: readonly TimeframeType[] = TIMEFRAMES
+): Promise<TimeframeKlineData> {
+  if (!symbol || symbol.trim().length === 0) {
+    throw new TradingAnalysisError(
+      '交易对符号不能为空',
+      'EMPTY_SYMBOL'
+    );
+  }
+
+  return await getMultiTimeframeKlines(toCanonicalSymbol(symbol), tradingPairType, limit, timeframes);
+}
+
+/**
+ * 导出函数
+ */
+export { getSingleTimeframeKlines, getTickerPrices, TIMEFRAMES };
@@ -0,0 +1,295 @@
+/**
+ * OKX 行情数据提供者（使用 v5 公开 REST API）
+ * 现货对应 SPOT（BTC-USDT），合约对应 U 本位永续 SWAP（BTC-USDT-SWAP）
+ */
+
+import axios from 'axios';
+import { logger } from './logger.js';
+import type { KlineData, MarketDataProvider, SymbolInfo, TimeframeType, TradingPairType } from './types.js';
+import { TradingAnalysisError } from './types.js';
+import { createKline, getKlineCloseTime, parseOptionalNumber, toCanonicalSymbol, splitSymbol } from './exchange-utils.js';
+
+// OKX公开API基础URL
+const OKX_API_BASE = 'https://www.okx.com/api/v5';
+
+// OKX单次K线请求的最大数量
+const OKX_MAX_KLINE_LIMIT = 300;
+
+// 交易对不存在的错误码
+const OKX_INVALID_INSTRUMENT_CODES = new Set(['51001', '51000']);
+// 请求频率限制的错误码
+const OKX_RATE_LIMIT_CODE = '50011';
+
+/**
+ * OKX 接口统一返回格式（code 为 '0' 表示成功）
+ */
+interface OkxResponse<T> {
+  code: string;
+  msg: string;
+  data: T[];
+}
+
+/**
+ * K线：[开盘时间, 开盘价, 最高价, 最低价, 收盘价, 成交量(张/币), 成交量(币), 成交额, 是否完结]
+ */
+type OkxCandle = [string, string, string, string, string, string, string, string, string];
+
+/**
+ * 交易产品基础信息（只列出用到的字段）
+ */
+interface OkxInstrument {
+  instId: string;
+  /** 现货的交易货币和计价货币，合约为空字符串 */
+  baseCcy: string;
+  quoteCcy: string;
+  /** 合约的标的指数和交易品种（如 BTC-USDT），现货为空字符串 */
+  uly: string;
+  instFamily: string;
+  /** 合约类型：linear 为U本位，inverse 为币本位 */
+  ctType: string;
+  state: string;
+  tickSz: string;
+  lotSz: string;
+  minSz: string;
+  listTime: string;
+}
+
+/**
+ * 行情快照（只列出用到的字段）
+ */
+interface OkxTicker {
+  instId: string;
+  last: string;
+}
+
+/**
+ * 时间框架映射（日线及以上使用 UTC 对齐，与币安保持一致）
+ */
+const OKX_BARS: Record<TimeframeType, string> = {
+  '15m': '15m',
+  '1h': '1H',
+  '4h': '4H',
+  '1d': '1Dutc',
+  '1w': '1Wutc',
+  '1M': '1Mutc'
+};
+
+/**
+ * 将规范交易对转换为 OKX 产品ID
+ */
+function toInstId(symbol: string, tradingPairType: TradingPairType): string {
+  const parts = splitSymbol(symbol);
+  if (!parts) {
+    throw new TradingAnalysisError(
+      `无效的交易对: ${symbol} (${tradingPairType})`,
+      'INVALID_SYMBOL',
+      { symbol, tradingPairType, exchange: 'okx' }
+    );
+  }
+  const instId = `${parts.base}-${parts.quote}`;
+  return tradingPairType === 'futures' ? `${instId}-SWAP` : instId;
+}
+
+/**
+ * 获取产品类型参数
+ */
+function getInstType(tradingPairType: TradingPairType): string {
+  return tradingPairType === 'futures' ? 'SWAP' : 'SPOT';
+}
+
+/**
+ * 将 OKX 请求异常或业务错误转换为统一的 TradingAnalysisError
+ */
+function toOkxError(
+  error: unknown,
+  symbol: string,
+  tradingPairType: TradingPairType,
+  details: Record<string, unknown> = {}
+): TradingAnalysisError {
+  if (error instanceof TradingAnalysisError) {
+    return error;
+  }
+
+  let errorMessage = error instanceof Error ? error.message : String(error);
+  let errorCode = 'OKX_API_ERROR';
+
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    const data = error.response?.data;
+
+    if (OKX_INVALID_INSTRUMENT_CODES.has(String(data?.code))) {
+      errorCode = 'INVALID_SYMBOL';
+      errorMessage = `无效的交易对: ${symbol} (${tradingPairType})`;
+    } else if (status === 429 || data?.code === OKX_RATE_LIMIT_CODE) {
+      errorCode = 'RATE_LIMIT';
+      errorMessage = '请求频率限制，请稍后重试';
+    } else {
+      errorMessage = `OKX API错误: ${data?.msg || error.message}`;
+    }
+  }
+
+  return new TradingAnalysisError(
+    errorMessage,
+    errorCode,
+    { symbol, tradingPairType, exchange: 'okx', ...details }
+  );
+}
+
+/**
+ * 发送请求并检查业务错误码（OKX 出错时 HTTP 状态可能仍为 200）
+ */
+async function okxGet<T>(path: string, params: Record<string, unknown>, timeout: number): Promise<T[]> {
+  const response = await axios.get<OkxResponse<T>>(`${OKX_API_BASE}${path}`, { params, timeout });
+  const data = response.data;
+
+  if (data?.code !== '0') {
+    const error = new axios.AxiosError(data?.msg || `OKX错误码 ${data?.code}`);
+    error.response = response;
+    throw error;
+  }
+
+  return data.data;
+}
+
+/**
+ * OKX 行情数据提供者
+ */
+class OkxProvider implements MarketDataProvider {
+  readonly id = 'okx' as const;
+  readonly displayName = 'OKX';
+
+  /**
+   * 获取单个时间框架的K线数据
+   * 返回格式：[开盘时间, 开盘价, 最高价, 最低价, 收盘价, 成交量(张/币), 成交量(币), 成交额, 是否完结]，按时间倒序
+   */
+  async getKlines(
+    symbol: string,
+    interval: TimeframeType,
+    tradingPairType: TradingPairType,
+    limit: number
+  ): Promise<KlineData[]> {
+    try {
+      const instId = toInstId(symbol, tradingPairType);
+      logger.debug(`获取K线数据`, { exchange: this.id, instId, interval, limit });
+
+      const rows = await okxGet<OkxCandle>('/market/candles', {
+        instId,
+        bar: OKX_BARS[interval],
+        limit: Math.min(limit, OKX_MAX_KLINE_LIMIT)
+      }, 10000);
+
+      if (rows.length === 0) {
+        throw new TradingAnalysisError(
+          `无效的交易对: ${symbol} (${tradingPairType})`,
+          'INVALID_SYMBOL',
+          { symbol, tradingPairType, exchange: this.id }
+        );
+      }
+
+      // 合约的 vol 单位为张，统一使用以币计价的成交量
+      const volumeIndex = tradingPairType === 'futures' ? 6 : 5;
+
+      return rows.reverse().map(row => {
+        const openTimeMs = parseInt(row[0]);
+        return createKline(this.id, openTimeMs, getKlineCloseTime(openTimeMs, interval), {
+          open: row[1],
+          high: row[2],
+          low: row[3],
+          close: row[4],
+          volume: row[volumeIndex]
+        });
+      });
+
+    } catch (error) {
+      throw toOkxError(error, symbol, tradingPairType, { interval });
+    }
+  }
+
+  /**
+   * 获取交易对交易规则（合约只保留 U 本位线性永续）
+   */
+  async getSymbolInfos(tradingPairType: TradingPairType): Promise<SymbolInfo[]> {
+    try {
+      const instruments = await okxGet<OkxInstrument>('/public/instruments', {
+        instType: getInstType(tradingPairType)
+      }, 10000);
+
+      return instruments
+        .filter(item => tradingPairType === 'spot' || item.ctType === 'linear')
+        .map((item): SymbolInfo => {
+          // 永续合约没有 baseCcy/quoteCcy，从标的指数（如 BTC-USDT）中拆分
+          const [baseAsset, quoteAsset] = tradingPairType === 'spot'
+            ? [item.baseCcy, item.quoteCcy]
+            : String(item.uly || item.instFamily || '').split('-');
+
+          return {
+            symbol: toCanonicalSymbol(item.instId),
+            exchange: this.id,
+            tradingPairType,
+            baseAsset: baseAsset || '',
+            quoteAsset: quoteAsset || '',
+            status: item.state,
+            trading: item.state === 'live',
+            tickSize: parseOptionalNumber(item.tickSz),
+            stepSize: parseOptionalNumber(item.lotSz),
+            minQty: parseOptionalNumber(item.minSz),
+            minNotional: null,
+            listedAt: parseOptionalNumber(item.listTime),
+            contractType: tradingPairType === 'futures' ? 'PERPETUAL' : null
+          };
+        });
+
+    } catch (error) {
+      throw new TradingAnalysisError(
+        `获取OKX${tradingPairType === 'futures' ? '合约' : '现货'}交易对信息失败`,
+        'OKX_API_ERROR',
+        { error: error instanceof Error ? error.message : String(error) }
+      );
+    }
+  }
+
+  /**
+   * 验证交易对是否存在
+   */
+  async validateSymbol(symbol: string, tradingPairType: TradingPairType): Promise<boolean> {
+    try {
+      const rows = await okxGet<OkxCandle>('/market/candles', {
+        instId: toInstId(symbol, tradingPairType),
+        bar: '1H',
+        limit: 1
+      }, 3000);
+      return rows.length > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 获取最新成交价（一次请求获取整个市场的行情，再按交易对过滤）
+   */
+  async getTickerPrices(symbols: string[], tradingPairType: TradingPairType): Promise<Map<string, number>> {
+    const wanted = new Set(symbols.map(symbol => toCanonicalSymbol(symbol)));
+
+    try {
+      const tickers = await okxGet<OkxTicker>('/market/tickers', {
+        instType: getInstType(tradingPairType)
+      }, 10000);
+
+      const prices = new Map<string, number>();
+      for (const ticker of tickers) {
+        const symbol = toCanonicalSymbol(ticker.instId);
+        if (wanted.has(symbol)) {
+          prices.set(symbol, parseFloat(ticker.last));
+        }
+      }
+
+      return prices;
+
+    } catch (error) {
+      throw toOkxError(error, symbols.join(','), tradingPairType);
+    }
+  }
+}
+
+// 导出单例实例
+export const okxProvider = new OkxProvider();
@@ -0,0 +1,404 @@
+/**
+ * 盘口深度与近期成交模块
+ * 获取现货/合约的订单簿和归集成交，按价格区间聚合挂单、识别挂单墙和买卖盘失衡，
+ * 汇总主动买卖力量和大额成交，用于回答短线进出场类问题
+ */
+
+import { logger } from './logger.js';
+import { binanceHttp, toBinanceError } from './binance-http.js';
+import { formatTimestampCompact } from './timezone.js';
+import type {
+  LargeTrade,
+  MarketDepthSnapshot,
+  OrderBookBucket,
+  OrderBookImbalance,
+  OrderBookSummary,
+  OrderBookWall,
+  TradeFlowSummary,
+  TradingPairType
+} from './types.js';
+
+// 币安现货/合约API基础URL
+const BINANCE_API_BASE = 'https://api.binance.com/api/v3';
+const BINANCE_FUTURES_API_BASE = 'https://fapi.binance.com/fapi/v1';
+
+// 订单簿档位数量和归集成交条数
+const DEPTH_LIMIT = 500;
+const AGG_TRADES_LIMIT = 1000;
+
+// 价格分桶大小约为中间价的 0.1%（取 1/2/5 整数倍）
+const BUCKET_RATIO = 0.001;
+
+// 提示词中每侧展示的区间数量
+const PROMPT_BUCKETS_PER_SIDE = 10;
+
+// 挂单墙：区间挂单金额达到同侧中位数的倍数，每侧最多报告的数量
+const WALL_MULTIPLE = 3;
+const MAX_WALLS_PER_SIDE = 3;
+
+// 买卖盘力量对比的范围（距中间价百分比）
+const IMBALANCE_RANGES = [0.5, 1, 2];
+
+// 大额成交：成交金额分位数阈值（且不低于中位数的倍数）和最多展示的笔数
+const LARGE_TRADE_PERCENTILE = 0.95;
+const LARGE_TRADE_MEDIAN_MULTIPLE = 5;
+const MAX_LARGE_TRADES = 8;
+
+// 未请求盘口数据时的变量值
+const NOT_REQUESTED_PLACEHOLDER = '本次问题不涉及短线进出场，未获取盘口和成交数据';
+
+type DepthLevel = [number, number];
+
+interface AggTrade {
+  time: number;
+  price: number;
+  quantity: number;
+  /** 买方是否为挂单方（true 表示主动卖出） */
+  isBuyerMaker: boolean;
+}
+
+/**
+ * 币安归集成交接口返回的单条记录（只列出用到的字段）
+ */
+interface BinanceAggTrade {
+  /** 成交时间（毫秒） */
+  T: number;
+  /** 成交价 */
+  p: string;
+  /** 成交量 */
+  q: string;
+  /** 买方是否为挂单方 */
+  m: boolean;
+}
+
+/**
+ * 获取订单簿
+ */
+async function fetchDepth(symbol: string, tradingPairType: TradingPairType): Promise<{ bids: DepthLevel[]; asks: DepthLevel[] }> {
+  const apiBase = tradingPairType === 'futures' ? BINANCE_FUTURES_API_BASE : BINANCE_API_BASE;
+  const response = await binanceHttp.get(`${apiBase}/depth`, {
+    params: { symbol, limit: DEPTH_LIMIT },
+    timeout: 10000
+  });
+  const toLevels = (levels: string[][]): DepthLevel[] =>
+    levels.map(([price, quantity]) => [parseFloat(price!), parseFloat(quantity!)]);
+  return {
+    bids: toLevels(response.data.bids),
+    asks: toLevels(response.data.asks)
+  };
+}
+
+/**
+ * 获取最近的归集成交
+ */
+async function fetchAggTrades(symbol: string, tradingPairType: TradingPairType): Promise<AggTrade[]> {
+  const apiBase = tradingPairType === 'futures' ? BINANCE_FUTURES_API_BASE : BINANCE_API_BASE;
+  const response = await binanceHttp.get<BinanceAggTrade[]>(`${apiBase}/aggTrades`, {
+    params: { symbol, limit: AGG_TRADES_LIMIT },
+    timeout: 10000
+  });
+  return response.data.map(item => ({
+    time: item.T,
+    price: parseFloat(item.p),
+    quantity: parseFloat(item.q),
+    isBuyerMaker: item.m === true
+  }));
+}
+
+/**
+ * 计算分桶大小：中间价的约 0.1%，取 1/2/5 × 10^n
+ */
+function niceBucketSize(price: number): number {
+  const raw = price * BUCKET_RATIO;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const normalized = raw / magnitude;
+  const nice = normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : normalized < 7.5 ? 5 : 10;
+  return nice * magnitude;
+}
+
+/**
+ * 按价格区间聚合挂单（返回由近到远排序的区间）
+ */
+function aggregateBuckets(levels: DepthLevel[], bucketSize: number, side: 'bid' | 'ask'): OrderBookBucket[] {
+  const buckets = new Map<number, OrderBookBucket>();
+  for (const [price, quantity] of levels) {
+    const index = Math.floor(price / bucketSize);
+    const bucket = buckets.get(index) || { price: index * bucketSize, quantity: 0, notional: 0 };
+    bucket.quantity += quantity;
+    bucket.notional += price * quantity;
+    buckets.set(index, bucket);
+  }
+  return [...buckets.values()].sort((a, b) => side === 'bid' ? b.price - a.price : a.price - b.price);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1]! + sorted[middle]!) / 2 : sorted[middle]!;
+}
+
+/**
+ * 识别挂单墙：挂单金额显著高于同侧中位数的区间
+ */
+function detectWalls(buckets: OrderBookBucket[], side: 'bid' | 'ask', midPrice: number): OrderBookWall[] {
+  const typical = median(buckets.map(bucket => bucket.notional));
+  if (typical <= 0) return [];
+
+  return buckets
+    .filter(bucket => bucket.notional >= typical * WALL_MULTIPLE)
+    .sort((a, b) => b.notional - a.notional)
+    .slice(0, MAX_WALLS_PER_SIDE)
+    .map(bucket => ({
+      side,
+      price: bucket.price,
+      quantity: bucket.quantity,
+      notional: bucket.notional,
+      distancePercent: (bucket.price - midPrice) / midPrice * 100,
+      multiple: bucket.notional / typical
+    }));
+}
+
+/**
+ * 汇总订单簿
+ */
+function summarizeOrderBook(bids: DepthLevel[], asks: DepthLevel[]): OrderBookSummary | null {
+  const bestBid = bids[0];
+  const bestAsk = asks[0];
+  if (!bestBid || !bestAsk) return null;
+
+  const midPrice = (bestBid[0] + bestAsk[0]) / 2;
+  const bucketSize = niceBucketSize(midPrice);
+  const bidBuckets = aggregateBuckets(bids, bucketSize, 'bid');
+  const askBuckets = aggregateBuckets(asks, bucketSize, 'ask');
+
+  const imbalance: OrderBookImbalance[] = IMBALANCE_RANGES.map(rangePercent => {
+    const lower = midPrice * (1 - rangePercent / 100);
+    const upper = midPrice * (1 + rangePercent / 100);
+    const bidNotional = bids.filter(([price]) => price >= lower).reduce((sum, [price, qty]) => sum + price * qty, 0);
+    const askNotional = asks.filter(([price]) => price <= upper).reduce((sum, [price, qty]) => sum + price * qty, 0);
+    return { rangePercent, bidNotional, askNotional, ratio: askNotional > 0 ? bidNotional / askNotional : NaN };
+  });
+
+  return {
+    midPrice,
+    spreadPercent: (bestAsk[0] - bestBid[0]) / midPrice * 100,
+    bucketSize,
+    bidBuckets,
+    askBuckets,
+    walls: [...detectWalls(bidBuckets, 'bid', midPrice), ...detectWalls(askBuckets, 'ask', midPrice)],
+    imbalance,
+    bidDepthPercent: (midPrice - bids[bids.length - 1]![0]) / midPrice * 100,
+    askDepthPercent: (asks[asks.length - 1]![0] - midPrice) / midPrice * 100
+  };
+}
+
+/**
+ * 汇总近期成交：主动买卖金额、近期窗口买卖力量和大额成交
+ */
+function summarizeTrades(trades: AggTrade[]): TradeFlowSummary | null {
+  if (trades.length === 0) return null;
+
+  const sorted = [...trades].sort((a, b) => a.time - b.time);
+  const fromTime = sorted[0]!.time;
+  const toTime = sorted[sorted.length - 1]!.time;
+  const recentStart = toTime - (toTime - fromTime) / 4;
+
+  let buyNotional = 0;
+  let sellNotional = 0;
+  let recentBuyNotional = 0;
+  let recentSellNotional = 0;
+  let totalQuantity = 0;
+
+  for (const trade of sorted) {
+    const notional = trade.price * trade.quantity;
+    totalQuantity += trade.quantity;
+    if (trade.isBuyerMaker) {
+      sellNotional += notional;
+      if (trade.time >= recentStart) recentSellNotional += notional;
+    } else {
+      buyNotional += notional;
+      if (trade.time >= recentStart) recentBuyNotional += notional;
+    }
+  }
+
+  const notionals = sorted.map(trade => trade.price * trade.quantity).sort((a, b) => a - b);
+  const largeTradeThreshold = Math.max(
+    notionals[Math.min(notionals.length - 1, Math.floor(notionals.length * LARGE_TRADE_PERCENTILE))]!,
+    median(notionals) * LARGE_TRADE_MEDIAN_MULTIPLE
+  );
+  const largeTrades: LargeTrade[] = sorted
+    .filter(trade => trade.price * trade.quantity >= largeTradeThreshold)
+    .sort((a, b) => b.price * b.quantity - a.price * a.quantity)
+    .slice(0, MAX_LARGE_TRADES)
+    .map(trade => ({
+      time: new Date(trade.time).toISOString(),
+      price: trade.price,
+      quantity: trade.quantity,
+      notional: trade.price * trade.quantity,
+      side: trade.isBuyerMaker ? 'sell' as const : 'buy' as const
+    }));
+
+  return {
+    tradeCount: sorted.length,
+    fromTime: new Date(fromTime).toISOString(),
+    toTime: new Date(toTime).toISOString(),
+    buyNotional,
+    sellNotional,
+    recentBuyNotional,
+    recentSellNotional,
+    vwap: totalQuantity > 0 ? (buyNotional + sellNotional) / totalQuantity : NaN,
+    largeTradeThreshold,
+    largeTrades
+  };
+}
+
+/**
+ * 获取盘口与成交快照（不会抛出异常，获取失败的数据项记录在 unavailable 中）
+ */
+export async function getMarketDepthSnapshot(symbol: string, tradingPairType: TradingPairType = 'spot'): Promise<MarketDepthSnapshot> {
+  const cleanSymbol = symbol.trim().toUpperCase();
+  const unavailable: string[] = [];
+
+  const [depthResult, tradesResult] = await Promise.allSettled([
+    fetchDepth(cleanSymbol, tradingPairType),
+    fetchAggTrades(cleanSymbol, tradingPairType)
+  ]);
+
+  const logFailure = (item: string, reason: unknown) => {
+    unavailable.push(item);
+    logger.warn('盘口数据获取失败', {
+      symbol: cleanSymbol,
+      tradingPairType,
+      item,
+      error: toBinanceError(reason, cleanSymbol, tradingPairType).message
+    });
+  };
+
+  let orderBook: OrderBookSummary | null = null;
+  if (depthResult.status === 'fulfilled') {
+    orderBook = summarizeOrderBook(depthResult.value.bids, depthResult.value.asks);
+  } else {
+    logFailure('订单簿', depthResult.reason);
+  }
+
+  let trades: TradeFlowSummary | null = null;
+  if (tradesResult.status === 'fulfilled') {
+    trades = summarizeTrades(tradesResult.value);
+  } else {
+    logFailure('近期成交', tradesResult.reason);
+  }
+
+  logger.info('盘口数据获取完成', {
+    symbol: cleanSymbol,
+    tradingPairType,
+    walls: orderBook?.walls.length ?? 0,
+    trades: trades?.tradeCount ?? 0,
+    unavailable
+  });
+
+  return { symbol: cleanSymbol, tradingPairType, orderBook, trades, unavailable };
+}
+
+/**
+ * 数值格式化：保留6位有效数字
+ */
+function formatValue(value: number): string {
+  if (!Number.isFinite(value)) return '-';
+  return String(Number(value.toPrecision(6)));
+}
+
+/**
+ * 金额格式化（万/亿为单位，便于模型理解量级）
+ */
+function formatNotional(value: number): string {
+  if (!Number.isFinite(value)) return '-';
+  if (value >= 1e8) return `${(value / 1e8).toFixed(2)}亿`;
+  if (value >= 1e4) return `${(value / 1e4).toFixed(2)}万`;
+  return value.toFixed(2);
+}
+
+function formatSignedPercent(value: number, digits: number = 2): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(digits)}%`;
+}
+
+/**
+ * 订单簿摘要文本
+ */
+function formatOrderBook(summary: OrderBookSummary): string {
+  const lines = [
+    `中间价 ${formatValue(summary.midPrice)} | 买卖价差 ${summary.spreadPercent.toFixed(4)}% | ` +
+    `盘口覆盖范围 买盘 -${summary.bidDepthPercent.toFixed(2)}% / 卖盘 +${summary.askDepthPercent.toFixed(2)}%`,
+    `买卖盘力量（买盘金额/卖盘金额）: ` + summary.imbalance
+      .map(item => `±${item.rangePercent}% ${formatValue(item.ratio)}（买 ${formatNotional(item.bidNotional)} / 卖 ${formatNotional(item.askNotional)}）`)
+      .join('；')
+  ];
+
+  if (summary.walls.length > 0) {
+    lines.push('挂单墙:');
+    for (const wall of summary.walls) {
+      lines.push(
+        `- ${wall.side === 'ask' ? '卖墙' : '买墙'} ${formatValue(wall.price)}~${formatValue(wall.price + summary.bucketSize)}` +
+        `（距中间价 ${formatSignedPercent(wall.distancePercent)}）挂单 ${formatValue(wall.quantity)}，金额 ${formatNotional(wall.notional)}，为同侧中位数的 ${wall.multiple.toFixed(1)} 倍`
+      );
+    }
+  } else {
+    lines.push('挂单墙: 盘口覆盖范围内未发现明显的大额挂单');
+  }
+
+  const describeBuckets = (buckets: OrderBookBucket[]) => buckets
+    .slice(0, PROMPT_BUCKETS_PER_SIDE)
+    .map(bucket => `${formatValue(bucket.price)}: ${formatNotional(bucket.notional)}`)
+    .join(', ');
+  lines.push(`卖盘区间（区间宽度 ${formatValue(summary.bucketSize)}，由近到远）: ${describeBuckets(summary.askBuckets)}`);
+  lines.push(`买盘区间（由近到远）: ${describeBuckets(summary.bidBuckets)}`);
+
+  return lines.join('\n');
+}
+
+/**
+ * 近期成交摘要文本
+ */
+function formatTrades(summary: TradeFlowSummary): string {
+  const from = formatTimestampCompact(new Date(summary.fromTime).getTime());
+  const to = formatTimestampCompact(new Date(summary.toTime).getTime());
+  const ratio = summary.sellNotional > 0 ? summary.buyNotional / summary.sellNotional : NaN;
+  const recentRatio = summary.recentSellNotional > 0 ? summary.recentBuyNotional / summary.recentSellNotional : NaN;
+
+  const lines = [
+    `最近 ${summary.tradeCount} 笔归集成交（${from} ~ ${to}），成交均价 ${formatValue(summary.vwap)}`,
+    `主动买入 ${formatNotional(summary.buyNotional)} / 主动卖出 ${formatNotional(summary.sellNotional)}，买卖比 ${formatValue(ratio)}`,
+    `最近四分之一时间窗口买卖比 ${formatValue(recentRatio)}（买 ${formatNotional(summary.recentBuyNotional)} / 卖 ${formatNotional(summary.recentSellNotional)}）`
+  ];
+
+  if (summary.largeTrades.length > 0) {
+    lines.push(`大额成交（单笔金额 ≥ ${formatNotional(summary.largeTradeThreshold)}）:`);
+    for (const trade of summary.largeTrades) {
+      lines.push(
+        `- ${formatTimestampCompact(new Date(trade.time).getTime())} ${trade.side === 'buy' ? '主动买入' : '主动卖出'} ` +
+        `${formatValue(trade.quantity)} @ ${formatValue(trade.price)}（${formatNotional(trade.notional)}）`
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * 生成盘口与成交数据的提示词文本（未请求时使用占位说明）
+ */
+export function formatMarketDepthForPrompt(snapshot: MarketDepthSnapshot | null | undefined): string {
+  if (!snapshot) {
+    return NOT_REQUESTED_PLACEHOLDER;
+  }
+
+  const typeText = snapshot.tradingPairType === 'futures' ? '合约' : '现货';
+  const sections = [
+    `【订单簿 · ${typeText}】\n${snapshot.orderBook ? formatOrderBook(snapshot.orderBook) : '订单簿数据暂不可用'}`,
+    `【近期成交 · ${typeText}】\n${snapshot.trades ? formatTrades(snapshot.trades) : '近期成交数据暂不可用'}`
+  ];
+  if (snapshot.unavailable.length > 0) {
+    sections.push(`（以下数据暂不可用：${snapshot.unavailable.join('、')}）`);
+  }
+  return sections.join('\n\n');
+}
@@ -0,0 +1,464 @@
+/**
+ * 价格提醒模块
+ * 负责提醒命令解析、SQLite持久化以及后台价格监控
+ */
+
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { databaseManager } from './config/database-manager.js';
+import { getTickerPrices, getSingleTimeframeKlines } from './market-data.js';
+import { sma } from './indicators.js';
+import { TradingAnalysisError } from './types.js';
+import type {
+  PriceAlert,
+  CreatePriceAlertParams,
+  PriceAlertDirection,
+  TimeframeType,
+  TradingPairType
+} from './types.js';
+
+// 后台检查间隔
+const ALERT_CHECK_INTERVAL_MS = 30 * 1000;
+
+// 均线穿越提醒支持的K线周期
+const MA_INTERVALS: TimeframeType[] = ['15m', '1h', '4h', '1d', '1w'];
+
+// 均线周期上限（受单次K线请求数量限制）
+const MAX_MA_PERIOD = 200;
+
+// 用户只输入币种时自动补全的计价资产
+const QUOTE_ASSETS = ['USDT', 'USDC', 'FDUSD', 'BUSD', 'BTC', 'ETH', 'BNB'];
+
+/**
+ * 提醒触发时的通知回调
+ */
+export type AlertNotifier = (alert: PriceAlert, price: number) => Promise<void>;
+
+/**
+ * 提醒命令解析结果（不含用户和聊天信息）
+ */
+export type ParsedAlertCommand =
+  | { params: Omit<CreatePriceAlertParams, 'telegramUserId' | 'chatId'> }
+  | { error: string };
+
+/**
+ * 标准化交易对符号，如 btc → BTCUSDT
+ */
+export function normalizeSymbol(input: string): string {
+  const symbol = input.replace(/[\/\-_]/g, '').toUpperCase();
+  return QUOTE_ASSETS.some(quote => symbol.length > quote.length && symbol.endsWith(quote))
+    ? symbol
+    : `${symbol}USDT`;
+}
+
+/**
+ * 解析 /alert 命令参数
+ * 支持格式：
+ *   BTCUSDT > 70000          价格高于
+ *   BTCUSDT < 60000          价格低于
+ *   BTCUSDT +5% / -5% / 5%   相对当前价格上涨、下跌或双向波动
+ *   BTCUSDT cross ma20 4h    价格穿越均线（周期默认1h）
+ * 交易对后可跟 合约/futures 指定合约市场
+ */
+export function parseAlertCommand(args: string): ParsedAlertCommand {
+  const tokens = args.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length < 2) {
+    return { error: '格式错误，示例：/alert BTCUSDT > 70000' };
+  }
+
+  const symbol = normalizeSymbol(tokens[0]!);
+  let marketType: TradingPairType = 'spot';
+  let rest = tokens.slice(1);
+
+  const marketKeyword = rest[0]!.toLowerCase();
+  if (['futures', '合约', 'spot', '现货'].includes(marketKeyword)) {
+    marketType = marketKeyword === 'futures' || marketKeyword === '合约' ? 'futures' : 'spot';
+    rest = rest.slice(1);
+  }
+
+  const condition = rest.join(' ');
+
+  const priceMatch = condition.match(/^([<>])\s*(\d+(?:\.\d+)?)$/);
+  if (priceMatch) {
+    return {
+      params: {
+        symbol,
+        marketType,
+        conditionType: priceMatch[1] === '>' ? 'above' : 'below',
+        targetValue: parseFloat(priceMatch[2]!)
+      }
+    };
+  }
+
+  const percentMatch = condition.match(/^([+-]?)(\d+(?:\.\d+)?)%$/);
+  if (percentMatch) {
+    const percent = parseFloat(percentMatch[2]!);
+    if (percent <= 0 || percent >= 1000) {
+      return { error: '涨跌幅需要在 0% 到 1000% 之间' };
+    }
+    const direction: PriceAlertDirection = percentMatch[1] === '+' ? 'up' : percentMatch[1] === '-' ? 'down' : 'both';
+    return {
+      params: { symbol, marketType, conditionType: 'percent_change', targetValue: percent, direction }
+    };
+  }
+
+  const maMatch = condition.match(/^cross\s+ma(\d+)(?:\s+(\w+))?$/i);
+  if (maMatch) {
+    const period = parseInt(maMatch[1]!, 10);
+    const interval = (maMatch[2] || '1h') as TimeframeType;
+    if (period < 2 || period > MAX_MA_PERIOD) {
+      return { error: `均线周期需要在 2 到 ${MAX_MA_PERIOD} 之间` };
+    }
+    if (!MA_INTERVALS.includes(interval)) {
+      return { error: `不支持的K线周期，可选：${MA_INTERVALS.join(', ')}` };
+    }
+    return {
+      params: { symbol, marketType, conditionType: 'ma_cross', targetValue: period, maInterval: interval }
+    };
+  }
+
+  return { error: '无法识别的提醒条件，支持：> 价格、< 价格、±涨跌幅%、cross ma周期 K线周期' };
+}
+
+/**
+ * 生成提醒的可读描述
+ */
+export function describeAlert(alert: PriceAlert): string {
+  const market = alert.marketType === 'futures' ? '合约' : '现货';
+  const prefix = `${alert.symbol}(${market})`;
+
+  switch (alert.conditionType) {
+    case 'above':
+      return `${prefix} 价格 > ${alert.targetValue}`;
+    case 'below':
+      return `${prefix} 价格 < ${alert.targetValue}`;
+    case 'percent_change': {
+      const sign = alert.direction === 'up' ? '+' : alert.direction === 'down' ? '-' : '±';
+      return `${prefix} 涨跌幅 ${sign}${alert.targetValue}%（基准价 ${alert.referencePrice}）`;
+    }
+    case 'ma_cross':
+      return `${prefix} 穿越 ${alert.maInterval} MA${alert.targetValue}`;
+    default:
+      return prefix;
+  }
+}
+
+/**
+ * 价格提醒管理器类
+ */
+export class PriceAlertManager {
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+  private notifier: AlertNotifier | null = null;
+
+  /**
+   * 创建价格提醒（会校验用户提醒数量并获取当前价格作为基准）
+   */
+  async createAlert(params: CreatePriceAlertParams): Promise<PriceAlert> {
+    const activeCount = this.countActiveAlerts(params.telegramUserId);
+    if (activeCount >= config.maxAlertsPerUser) {
+      throw new TradingAnalysisError(
+        `每个用户最多设置 ${config.maxAlertsPerUser} 个价格提醒，请先使用 /unalert 删除不需要的提醒`,
+        'ALERT_LIMIT',
+        { activeCount }
+      );
+    }
+
+    const prices = await getTickerPrices([params.symbol], params.marketType);
+    const currentPrice = prices.get(params.symbol);
+    if (currentPrice === undefined) {
+      throw new TradingAnalysisError(
+        `无效的交易对: ${params.symbol} (${params.marketType})`,
+        'INVALID_SYMBOL',
+        { symbol: params.symbol, marketType: params.marketType }
+      );
+    }
+
+    // 条件已经成立的提醒会在下一轮检查时立即触发，直接拒绝
+    const alreadyMet = (params.conditionType === 'above' && currentPrice >= params.targetValue)
+      || (params.conditionType === 'below' && currentPrice <= params.targetValue);
+    if (alreadyMet) {
+      throw new TradingAnalysisError(
+        `当前价格 ${currentPrice} 已${params.conditionType === 'above' ? '高于' : '低于'} ${params.targetValue}，提醒会立即触发，请重新设置目标价格`,
+        'ALERT_CONDITION_MET',
+        { currentPrice, targetValue: params.targetValue }
+      );
+    }
+
+    let lastState: 'above' | 'below' | null = null;
+    if (params.conditionType === 'ma_cross' && params.maInterval) {
+      const ma = await this.getMovingAverage(params.symbol, params.marketType, params.maInterval, params.targetValue);
+      if (ma === null) {
+        throw new TradingAnalysisError('K线数据不足，无法计算均线', 'INSUFFICIENT_DATA');
+      }
+      lastState = currentPrice >= ma ? 'above' : 'below';
+    }
+
+    const db = databaseManager.getDatabase();
+    const result = db.prepare(`
+      INSERT INTO price_alerts (
+        telegram_user_id, chat_id, symbol, market_type, condition_type,
+        target_value, direction, ma_interval, reference_price, last_state
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      params.telegramUserId,
+      params.chatId,
+      params.symbol,
+      params.marketType,
+      params.conditionType,
+      params.targetValue,
+      params.direction || null,
+      params.maInterval || null,
+      currentPrice,
+      lastState
+    );
+
+    const alert = this.getAlert(result.lastInsertRowid as number)!;
+
+    logger.info('价格提醒创建成功', {
+      alertId: alert.id,
+      userId: params.telegramUserId,
+      chatId: params.chatId,
+      description: describeAlert(alert)
+    });
+
+    return alert;
+  }
+
+  /**
+   * 获取单个提醒
+   */
+  getAlert(id: number): PriceAlert | null {
+    const db = databaseManager.getDatabase();
+    const row = db.prepare('SELECT * FROM price_alerts WHERE id = ?').get(id);
+    return row ? this.mapRow(row) : null;
+  }
+
+  /**
+   * 获取用户在指定聊天中的有效提醒
+   */
+  listActiveAlerts(userId: number, chatId: number): PriceAlert[] {
+    const db = databaseManager.getDatabase();
+    const rows = db.prepare(`
+      SELECT * FROM price_alerts
+      WHERE telegram_user_id = ? AND chat_id = ? AND status = 'active'
+      ORDER BY id
+    `).all(userId, chatId);
+    return rows.map(row => this.mapRow(row));
+  }
+
+  /**
+   * 统计用户的有效提醒数量
+   */
+  countActiveAlerts(userId: number): number {
+    const db = databaseManager.getDatabase();
+    const row = db.prepare(`
+      SELECT COUNT(*) as count FROM price_alerts WHERE telegram_user_id = ? AND status = 'active'
+    `).get(userId) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * 删除提醒（只能删除自己的提醒）
+   */
+  deleteAlert(id: number, userId: number): boolean {
+    const db = databaseManager.getDatabase();
+    const result = db.prepare(`
+      DELETE FROM price_alerts WHERE id = ? AND telegram_user_id = ?
+    `).run(id, userId);
+
+    if (result.changes > 0) {
+      logger.info('价格提醒已删除', { alertId: id, userId });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * 启动后台价格监控
+   */
+  start(notifier: AlertNotifier): void {
+    this.notifier = notifier;
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.checkAlerts().catch(error => {
+        logger.error('价格提醒检查失败', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }, ALERT_CHECK_INTERVAL_MS);
+
+    logger.info('价格提醒监控已启动', { intervalMs: ALERT_CHECK_INTERVAL_MS });
+  }
+
+  /**
+   * 停止后台价格监控
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('价格提醒监控已停止');
+    }
+    this.notifier = null;
+  }
+
+  /**
+   * 检查所有有效提醒，按市场批量获取价格
+   */
+  async checkAlerts(): Promise<void> {
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+
+    try {
+      const db = databaseManager.getDatabase();
+      const alerts = db.prepare(`SELECT * FROM price_alerts WHERE status = 'active'`).all()
+        .map(row => this.mapRow(row));
+      if (alerts.length === 0) {
+        return;
+      }
+
+      const marketPrices = new Map<TradingPairType, Map<string, number>>();
+      for (const marketType of ['spot', 'futures'] as TradingPairType[]) {
+        const symbols = [...new Set(alerts.filter(a => a.marketType === marketType).map(a => a.symbol))];
+        if (symbols.length > 0) {
+          marketPrices.set(marketType, await getTickerPrices(symbols, marketType));
+        }
+      }
+
+      // 同一轮检查中相同的均线只计算一次
+      const maCache = new Map<string, number | null>();
+
+      for (const alert of alerts) {
+        const price = marketPrices.get(alert.marketType)?.get(alert.symbol);
+        if (price === undefined) {
+          continue;
+        }
+
+        try {
+          if (await this.isTriggered(alert, price, maCache)) {
+            await this.triggerAlert(alert, price);
+          }
+        } catch (error) {
+          logger.warn('单个价格提醒检查失败', {
+            alertId: alert.id,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * 判断提醒是否触发
+   */
+  private async isTriggered(alert: PriceAlert, price: number, maCache: Map<string, number | null>): Promise<boolean> {
+    switch (alert.conditionType) {
+      case 'above':
+        return price >= alert.targetValue;
+      case 'below':
+        return price <= alert.targetValue;
+      case 'percent_change': {
+        if (!alert.referencePrice) return false;
+        const change = ((price - alert.referencePrice) / alert.referencePrice) * 100;
+        if (alert.direction === 'up') return change >= alert.targetValue;
+        if (alert.direction === 'down') return change <= -alert.targetValue;
+        return Math.abs(change) >= alert.targetValue;
+      }
+      case 'ma_cross': {
+        if (!alert.maInterval) return false;
+        const cacheKey = `${alert.marketType}:${alert.symbol}:${alert.maInterval}:${alert.targetValue}`;
+        if (!maCache.has(cacheKey)) {
+          maCache.set(cacheKey, await this.getMovingAverage(alert.symbol, alert.marketType, alert.maInterval, alert.targetValue));
+        }
+        const ma = maCache.get(cacheKey);
+        if (ma === null || ma === undefined) return false;
+        const state = price >= ma ? 'above' : 'below';
+        return alert.lastState !== undefined && state !== alert.lastState;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 标记提醒为已触发并发送通知（先标记，避免重复通知）
+   */
+  private async triggerAlert(alert: PriceAlert, price: number): Promise<void> {
+    const db = databaseManager.getDatabase();
+    const triggeredAt = new Date().toISOString();
+    db.prepare(`
+      UPDATE price_alerts SET status = 'triggered', triggered_price = ?, triggered_at = ? WHERE id = ?
+    `).run(price, triggeredAt, alert.id);
+
+    logger.info('价格提醒已触发', {
+      alertId: alert.id,
+      chatId: alert.chatId,
+      price,
+      description: describeAlert(alert)
+    });
+
+    if (this.notifier) {
+      try {
+        await this.notifier({ ...alert, status: 'triggered', triggeredPrice: price, triggeredAt }, price);
+      } catch (error) {
+        logger.error('价格提醒通知发送失败', {
+          alertId: alert.id,
+          chatId: alert.chatId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
+  /**
+   * 计算最新的简单移动平均值（包含当前未收盘K线）
+   */
+  private async getMovingAverage(
+    symbol: string,
+    marketType: TradingPairType,
+    interval: TimeframeType,
+    period: number
+  ): Promise<number | null> {
+    const klines = await getSingleTimeframeKlines(symbol, interval, marketType, period);
+    const values = sma(klines.map(k => parseFloat(k.close)), period);
+    const latest = values[values.length - 1];
+    return latest === undefined || Number.isNaN(latest) ? null : latest;
+  }
+
+  /**
+   * 数据库记录转换为提醒对象
+   */
+  private mapRow(row: any): PriceAlert {
+    const alert: PriceAlert = {
+      id: row.id,
+      telegramUserId: row.telegram_user_id,
+      chatId: row.chat_id,
+      symbol: row.symbol,
+      marketType: row.market_type,
+      conditionType: row.condition_type,
+      targetValue: row.target_value,
+      status: row.status,
+      createdAt: row.created_at
+    };
+
+    // 只有非空时才添加可选字段
+    if (row.direction) alert.direction = row.direction;
+    if (row.ma_interval) alert.maInterval = row.ma_interval;
+    if (row.reference_price !== null) alert.referencePrice = row.reference_price;
+    if (row.last_state) alert.lastState = row.last_state;
+    if (row.triggered_price !== null) alert.triggeredPrice = row.triggered_price;
+    if (row.triggered_at) alert.triggeredAt = row.triggered_at;
+
+    return alert;
+  }
+}
+
+// 导出单例实例
+export const priceAlertManager = new PriceAlertManager();
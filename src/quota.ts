@@ -0,0 +1,518 @@
+/**
+ * 请求配额模块
+ * 按用户和群分别进行令牌桶频率限制和每日/每月次数限制，状态保存在SQLite中，重启后继续生效；
+ * 默认限制来自基础配置，也可以为指定用户或群分配配额等级（如 vip）
+ */
+
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { databaseManager } from './config/database-manager.js';
+import { TimezoneConverter, getDateParts, getNextPeriodStart } from './timezone.js';
+import { TradingAnalysisError } from './types.js';
+import type {
+  QuotaDenial,
+  QuotaLimits,
+  QuotaScope,
+  QuotaTier,
+  QuotaTierAssignment,
+  QuotaUsage,
+  SaveQuotaTierParams
+} from './types.js';
+
+// 未分配等级时使用的默认等级名（限制值来自基础配置，不能在等级表中定义）
+const DEFAULT_TIER = 'default';
+
+// 等级名格式
+const TIER_NAME_PATTERN = /^[a-z0-9_-]{1,32}$/;
+
+// 清理过期用量和令牌桶的间隔
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * 等级表记录结构
+ */
+interface QuotaTierRecord {
+  name: string;
+  description: string | null;
+  rate_limit_per_minute: number;
+  daily_quota: number;
+  monthly_quota: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * 等级分配表记录结构
+ */
+interface QuotaAssignmentRecord {
+  scope: QuotaScope;
+  scope_id: number;
+  tier: string;
+  note: string | null;
+  created_at: string;
+}
+
+/**
+ * 用量周期标识（配置时区下的日期 YYYY-MM-DD 和月份 YYYY-MM）
+ */
+interface PeriodKeys {
+  day: string;
+  month: string;
+}
+
+/**
+ * 某个用户或群在本次请求时的配额状态
+ */
+interface QuotaState {
+  scope: QuotaScope;
+  scopeId: number;
+  tier: string;
+  limits: QuotaLimits;
+  /** 补充后的令牌数，不限制频率时为 null */
+  tokens: number | null;
+  dailyUsed: number;
+  monthlyUsed: number;
+}
+
+/**
+ * 将数据库记录转换为配额等级对象
+ */
+function toQuotaTier(record: QuotaTierRecord): QuotaTier {
+  return {
+    name: record.name,
+    description: record.description,
+    rateLimitPerMinute: record.rate_limit_per_minute,
+    dailyQuota: record.daily_quota,
+    monthlyQuota: record.monthly_quota,
+    createdAt: record.created_at,
+    updatedAt: record.updated_at
+  };
+}
+
+/**
+ * 将数据库记录转换为等级分配对象
+ */
+function toQuotaAssignment(record: QuotaAssignmentRecord): QuotaTierAssignment {
+  return {
+    scope: record.scope,
+    scopeId: record.scope_id,
+    tier: record.tier,
+    note: record.note,
+    createdAt: record.created_at
+  };
+}
+
+/**
+ * 获取时间戳所在的用量周期
+ */
+function getPeriodKeys(timestamp: number): PeriodKeys {
+  const parts = getDateParts(timestamp, config.timezone);
+  const month = `${parts.year}-${String(parts.month).padStart(2, '0')}`;
+  return { month, day: `${month}-${String(parts.day).padStart(2, '0')}` };
+}
+
+/**
+ * 校验限制值：非负整数，0 表示不限制
+ */
+function validateLimit(value: unknown, field: string): number {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new TradingAnalysisError(`${field}必须是非负整数`, 'INVALID_QUOTA', { [field]: value });
+  }
+  return limit;
+}
+
+/**
+ * 校验配额对象类型
+ */
+function validateScope(scope: unknown): QuotaScope {
+  if (scope !== 'user' && scope !== 'chat') {
+    throw new TradingAnalysisError('配额对象必须为 user 或 chat', 'INVALID_QUOTA', { scope });
+  }
+  return scope;
+}
+
+/**
+ * 生成超出配额时记录到审计日志的错误信息
+ */
+export function describeQuotaAuditMessage(denial: QuotaDenial): string {
+  const limitText = { rate: '请求频率', daily: '每日次数', monthly: '每月次数' }[denial.limitType];
+  return `配额限制 - ${denial.scope === 'user' ? '用户' : '群'}${limitText}`;
+}
+
+/**
+ * 生成超出配额时回复给用户的提示（重置时间按配置的时区显示）
+ */
+export function describeQuotaDenial(denial: QuotaDenial): string {
+  const subject = denial.scope === 'user' ? '你' : '本群';
+  const resetTime = new TimezoneConverter(config.timezone).formatTimestamp(denial.resetAt);
+
+  switch (denial.limitType) {
+    case 'rate':
+      return `⏳ 请求太频繁啦，${subject}每分钟最多分析 ${denial.limit} 次，请在 ${resetTime} 后再试`;
+    case 'daily':
+      return `📅 ${subject}今天的 ${denial.limit} 次分析额度已用完，将于 ${resetTime} 重置`;
+    case 'monthly':
+      return `📅 ${subject}本月的 ${denial.limit} 次分析额度已用完，将于 ${resetTime} 重置`;
+  }
+}
+
+/**
+ * 请求配额管理器类
+ */
+export class QuotaManager {
+  private lastCleanupAt = 0;
+
+  /**
+   * 获取所有配额等级
+   */
+  listTiers(): QuotaTier[] {
+    const records = databaseManager.getDatabase()
+      .prepare('SELECT * FROM quota_tiers ORDER BY name')
+      .all() as QuotaTierRecord[];
+    return records.map(toQuotaTier);
+  }
+
+  /**
+   * 获取配额等级
+   */
+  getTier(name: string): QuotaTier | null {
+    const record = databaseManager.getDatabase()
+      .prepare('SELECT * FROM quota_tiers WHERE name = ?')
+      .get(name) as QuotaTierRecord | undefined;
+    return record ? toQuotaTier(record) : null;
+  }
+
+  /**
+   * 新增或更新配额等级
+   */
+  saveTier(params: SaveQuotaTierParams): QuotaTier {
+    const name = String(params.name ?? '').trim().toLowerCase();
+    if (!TIER_NAME_PATTERN.test(name)) {
+      throw new TradingAnalysisError('等级名只能包含小写字母、数字、下划线和短横线（最多32个字符）', 'INVALID_QUOTA', { name: params.name });
+    }
+    if (name === DEFAULT_TIER) {
+      throw new TradingAnalysisError('default 等级的限制请在基础配置中修改', 'INVALID_QUOTA');
+    }
+
+    const rateLimitPerMinute = validateLimit(params.rateLimitPerMinute, 'rateLimitPerMinute');
+    const dailyQuota = validateLimit(params.dailyQuota, 'dailyQuota');
+    const monthlyQuota = validateLimit(params.monthlyQuota, 'monthlyQuota');
+    const description = params.description ? String(params.description).trim() : null;
+
+    databaseManager.getDatabase().prepare(`
+      INSERT INTO quota_tiers (name, description, rate_limit_per_minute, daily_quota, monthly_quota)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(name) DO UPDATE SET
+        description = excluded.description,
+        rate_limit_per_minute = excluded.rate_limit_per_minute,
+        daily_quota = excluded.daily_quota,
+        monthly_quota = excluded.monthly_quota,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(name, description, rateLimitPerMinute, dailyQuota, monthlyQuota);
+
+    logger.info('配额等级已保存', { name, rateLimitPerMinute, dailyQuota, monthlyQuota });
+    return this.getTier(name)!;
+  }
+
+  /**
+   * 删除配额等级，分配到该等级的用户和群恢复默认限制
+   */
+  deleteTier(name: string): boolean {
+    const db = databaseManager.getDatabase();
+    const deleted = db.transaction(() => {
+      db.prepare('DELETE FROM quota_tier_assignments WHERE tier = ?').run(name);
+      return db.prepare('DELETE FROM quota_tiers WHERE name = ?').run(name).changes > 0;
+    })();
+
+    if (deleted) {
+      logger.info('配额等级已删除', { name });
+    }
+    return deleted;
+  }
+
+  /**
+   * 获取所有等级分配
+   */
+  listAssignments(): QuotaTierAssignment[] {
+    const records = databaseManager.getDatabase()
+      .prepare('SELECT * FROM quota_tier_assignments ORDER BY tier, scope, scope_id')
+      .all() as QuotaAssignmentRecord[];
+    return records.map(toQuotaAssignment);
+  }
+
+  /**
+   * 为用户或群分配配额等级（已有分配时覆盖）
+   */
+  assignTier(scope: QuotaScope, scopeId: number, tier: string, note?: string | null): QuotaTierAssignment {
+    const validScope = validateScope(scope);
+    if (!Number.isInteger(scopeId) || scopeId === 0) {
+      throw new TradingAnalysisError('无效的用户或群ID', 'INVALID_QUOTA', { scopeId });
+    }
+    if (!this.getTier(tier)) {
+      throw new TradingAnalysisError(`配额等级不存在: ${tier}`, 'INVALID_QUOTA', { tier });
+    }
+
+    const db = databaseManager.getDatabase();
+    db.prepare(`
+      INSERT INTO quota_tier_assignments (scope, scope_id, tier, note)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(scope, scope_id) DO UPDATE SET tier = excluded.tier, note = excluded.note
+    `).run(validScope, scopeId, tier, note ? String(note).trim() : null);
+
+    logger.info('已分配配额等级', { scope: validScope, scopeId, tier });
+    return toQuotaAssignment(db
+      .prepare('SELECT * FROM quota_tier_assignments WHERE scope = ? AND scope_id = ?')
+      .get(validScope, scopeId) as QuotaAssignmentRecord);
+  }
+
+  /**
+   * 取消用户或群的等级分配，恢复默认限制
+   */
+  removeAssignment(scope: QuotaScope, scopeId: number): boolean {
+    return databaseManager.getDatabase()
+      .prepare('DELETE FROM quota_tier_assignments WHERE scope = ? AND scope_id = ?')
+      .run(scope, scopeId).changes > 0;
+  }
+
+  /**
+   * 获取默认等级的限制（来自基础配置）
+   */
+  getDefaultLimits(scope: QuotaScope): QuotaLimits {
+    return scope === 'user'
+      ? {
+        rateLimitPerMinute: config.userRateLimitPerMinute,
+        dailyQuota: config.userDailyQuota,
+        monthlyQuota: config.userMonthlyQuota
+      }
+      : {
+        rateLimitPerMinute: config.chatRateLimitPerMinute,
+        dailyQuota: config.chatDailyQuota,
+        monthlyQuota: config.chatMonthlyQuota
+      };
+  }
+
+  /**
+   * 检查并扣减一次配额：用户和群（私聊只检查用户）的所有限制都满足时才扣减，
+   * 否则不扣减并返回第一个不满足的限制
+   */
+  consume(telegramUserId: number, chatId: number, chatType: string): QuotaDenial | null {
+    return this.evaluate(telegramUserId, chatId, chatType, true);
+  }
+
+  /**
+   * 只检查配额是否允许本次请求，不扣减（排队前使用，开始分析后再调用 consume 扣减）
+   */
+  check(telegramUserId: number, chatId: number, chatType: string): QuotaDenial | null {
+    return this.evaluate(telegramUserId, chatId, chatType, false);
+  }
+
+  /**
+   * 获取用户或群当前的配额使用情况
+   */
+  getUsage(scope: QuotaScope, scopeId: number): QuotaUsage {
+    const validScope = validateScope(scope);
+    const now = Date.now();
+    const state = this.loadState(validScope, scopeId, now, getPeriodKeys(now));
+
+    return {
+      scope: validScope,
+      scopeId,
+      tier: state.tier,
+      limits: state.limits,
+      availableTokens: state.tokens !== null ? Math.floor(state.tokens * 100) / 100 : null,
+      dailyUsed: state.dailyUsed,
+      monthlyUsed: state.monthlyUsed,
+      dailyResetAt: getNextPeriodStart(now, 'day', config.timezone),
+      monthlyResetAt: getNextPeriodStart(now, 'month', config.timezone)
+    };
+  }
+
+  /**
+   * 清空用户或群的用量和令牌桶
+   */
+  resetUsage(scope: QuotaScope, scopeId: number): void {
+    const validScope = validateScope(scope);
+    const db = databaseManager.getDatabase();
+    db.transaction(() => {
+      db.prepare('DELETE FROM quota_usage WHERE scope = ? AND scope_id = ?').run(validScope, scopeId);
+      db.prepare('DELETE FROM quota_buckets WHERE scope = ? AND scope_id = ?').run(validScope, scopeId);
+    })();
+    logger.info('配额用量已重置', { scope: validScope, scopeId });
+  }
+
+  /**
+   * 检查用户和群的所有限制，commit 为 true 且全部满足时扣减
+   */
+  private evaluate(telegramUserId: number, chatId: number, chatType: string, commit: boolean): QuotaDenial | null {
+    if (!config.enableQuota) {
+      return null;
+    }
+
+    const targets: Array<{ scope: QuotaScope; scopeId: number }> = [];
+    if (telegramUserId) {
+      targets.push({ scope: 'user', scopeId: telegramUserId });
+    }
+    if (chatType !== 'private') {
+      targets.push({ scope: 'chat', scopeId: chatId });
+    }
+
+    const now = Date.now();
+    const periods = getPeriodKeys(now);
+    const db = databaseManager.getDatabase();
+
+    const denial = db.transaction((): QuotaDenial | null => {
+      const states = targets.map(target => this.loadState(target.scope, target.scopeId, now, periods));
+      for (const state of states) {
+        const stateDenial = this.checkState(state, now);
+        if (stateDenial) {
+          return stateDenial;
+        }
+      }
+      if (commit) {
+        states.forEach(state => this.commitState(state, now, periods));
+      }
+      return null;
+    })();
+
+    if (denial) {
+      logger.info('请求超出配额', {
+        telegramUserId,
+        chatId,
+        scope: denial.scope,
+        limitType: denial.limitType,
+        limit: denial.limit,
+        resetAt: new Date(denial.resetAt).toISOString()
+      });
+    }
+
+    this.cleanupIfDue(now, periods);
+    return denial;
+  }
+
+  /**
+   * 获取生效的等级和限制：有分配且等级存在时使用等级限制，否则使用默认限制
+   */
+  private getEffectiveLimits(scope: QuotaScope, scopeId: number): { tier: string; limits: QuotaLimits } {
+    const record = databaseManager.getDatabase().prepare(`
+      SELECT t.* FROM quota_tier_assignments a
+      JOIN quota_tiers t ON t.name = a.tier
+      WHERE a.scope = ? AND a.scope_id = ?
+    `).get(scope, scopeId) as QuotaTierRecord | undefined;
+
+    if (!record) {
+      return { tier: DEFAULT_TIER, limits: this.getDefaultLimits(scope) };
+    }
+    return {
+      tier: record.name,
+      limits: {
+        rateLimitPerMinute: record.rate_limit_per_minute,
+        dailyQuota: record.daily_quota,
+        monthlyQuota: record.monthly_quota
+      }
+    };
+  }
+
+  /**
+   * 读取配额状态，令牌桶按上次更新后经过的时间补充令牌（容量为每分钟次数）
+   */
+  private loadState(scope: QuotaScope, scopeId: number, now: number, periods: PeriodKeys): QuotaState {
+    const db = databaseManager.getDatabase();
+    const { tier, limits } = this.getEffectiveLimits(scope, scopeId);
+
+    let tokens: number | null = null;
+    if (limits.rateLimitPerMinute > 0) {
+      const bucket = db
+        .prepare('SELECT tokens, updated_at FROM quota_buckets WHERE scope = ? AND scope_id = ?')
+        .get(scope, scopeId) as { tokens: number; updated_at: number } | undefined;
+      const capacity = limits.rateLimitPerMinute;
+      tokens = bucket
+        ? Math.min(capacity, bucket.tokens + (Math.max(0, now - bucket.updated_at) * capacity) / 60000)
+        : capacity;
+    }
+
+    const usageRows = db
+      .prepare('SELECT period, count FROM quota_usage WHERE scope = ? AND scope_id = ? AND period IN (?, ?)')
+      .all(scope, scopeId, periods.day, periods.month) as Array<{ period: string; count: number }>;
+
+    return {
+      scope,
+      scopeId,
+      tier,
+      limits,
+      tokens,
+      dailyUsed: usageRows.find(row => row.period === periods.day)?.count ?? 0,
+      monthlyUsed: usageRows.find(row => row.period === periods.month)?.count ?? 0
+    };
+  }
+
+  /**
+   * 检查配额状态是否允许本次请求
+   */
+  private checkState(state: QuotaState, now: number): QuotaDenial | null {
+    const { scope, limits } = state;
+
+    if (state.tokens !== null && state.tokens < 1) {
+      return {
+        scope,
+        limitType: 'rate',
+        limit: limits.rateLimitPerMinute,
+        resetAt: now + Math.ceil(((1 - state.tokens) * 60000) / limits.rateLimitPerMinute)
+      };
+    }
+    if (limits.dailyQuota > 0 && state.dailyUsed >= limits.dailyQuota) {
+      return { scope, limitType: 'daily', limit: limits.dailyQuota, resetAt: getNextPeriodStart(now, 'day', config.timezone) };
+    }
+    if (limits.monthlyQuota > 0 && state.monthlyUsed >= limits.monthlyQuota) {
+      return { scope, limitType: 'monthly', limit: limits.monthlyQuota, resetAt: getNextPeriodStart(now, 'month', config.timezone) };
+    }
+    return null;
+  }
+
+  /**
+   * 扣减令牌并累加当日和当月用量
+   */
+  private commitState(state: QuotaState, now: number, periods: PeriodKeys): void {
+    const db = databaseManager.getDatabase();
+
+    if (state.tokens !== null) {
+      db.prepare(`
+        INSERT INTO quota_buckets (scope, scope_id, tokens, updated_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT(scope, scope_id) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at
+      `).run(state.scope, state.scopeId, state.tokens - 1, now);
+    }
+
+    const incrementUsage = db.prepare(`
+      INSERT INTO quota_usage (scope, scope_id, period, count) VALUES (?, ?, ?, 1)
+      ON CONFLICT(scope, scope_id, period) DO UPDATE SET count = count + 1
+    `);
+    incrementUsage.run(state.scope, state.scopeId, periods.day);
+    incrementUsage.run(state.scope, state.scopeId, periods.month);
+  }
+
+  /**
+   * 定期删除过期周期的用量和早已补满的令牌桶
+   */
+  private cleanupIfDue(now: number, periods: PeriodKeys): void {
+    if (now - this.lastCleanupAt < CLEANUP_INTERVAL_MS) {
+      return;
+    }
+    this.lastCleanupAt = now;
+
+    try {
+      const db = databaseManager.getDatabase();
+      const usage = db.prepare('DELETE FROM quota_usage WHERE period NOT IN (?, ?)').run(periods.day, periods.month);
+      const buckets = db.prepare('DELETE FROM quota_buckets WHERE updated_at < ?').run(now - CLEANUP_INTERVAL_MS);
+      if (usage.changes > 0 || buckets.changes > 0) {
+        logger.debug('清理过期配额记录', { usage: usage.changes, buckets: buckets.changes });
+      }
+    } catch (error) {
+      logger.warn('清理过期配额记录失败', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
+
+// 导出单例实例
+export const quotaManager = new QuotaManager();
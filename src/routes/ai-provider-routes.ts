@@ -0,0 +1,176 @@
+/**
+ * AI服务商API路由
+ * 提供模型价格表和备用服务商档案（故障转移链、熔断状态）的管理接口（由 config-routes.ts 在访问控制检查后分发）
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { logger } from '../logger.js';
+import { aiUsageTracker } from '../ai-usage.js';
+import { aiProviderManager, toProfileView } from '../config/ai-provider-manager.js';
+import { aiCircuitBreaker } from '../ai-circuit-breaker.js';
+import { readRequestBody } from './http-utils.js';
+import { TradingAnalysisError } from '../types.js';
+
+/**
+ * 发送JSON响应
+ */
+function sendJsonResponse(res: ServerResponse, data: any, statusCode = 200): void {
+  res.writeHead(statusCode, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * 发送错误响应
+ */
+function sendErrorResponse(res: ServerResponse, message: string, statusCode = 500): void {
+  logger.error('API错误响应', { message, statusCode });
+  sendJsonResponse(res, { error: message }, statusCode);
+}
+
+/**
+ * 处理AI模型价格表API路由
+ */
+export async function handleAIPriceRoutes(req: IncomingMessage, res: ServerResponse, pathname: string): Promise<void> {
+  try {
+    // GET /api/config/ai-prices - 获取价格表
+    if (pathname === '/api/config/ai-prices' && req.method === 'GET') {
+      sendJsonResponse(res, { success: true, prices: aiUsageTracker.listPrices() });
+      return;
+    }
+
+    // POST /api/config/ai-prices - 新增或更新模型价格
+    if (pathname === '/api/config/ai-prices' && req.method === 'POST') {
+      const body = JSON.parse(await readRequestBody(req));
+      const price = aiUsageTracker.savePrice({
+        model: body.model,
+        inputPricePerMillion: body.inputPricePerMillion,
+        outputPricePerMillion: body.outputPricePerMillion
+      });
+      sendJsonResponse(res, { success: true, message: '模型价格已保存', price });
+      return;
+    }
+
+    // DELETE /api/config/ai-prices/:model - 删除模型价格
+    const priceMatch = pathname.match(/^\/api\/config\/ai-prices\/(.+)$/);
+    if (priceMatch && req.method === 'DELETE') {
+      if (!aiUsageTracker.deletePrice(decodeURIComponent(priceMatch[1]!))) {
+        sendErrorResponse(res, '模型价格不存在', 404);
+        return;
+      }
+      sendJsonResponse(res, { success: true, message: '模型价格已删除' });
+      return;
+    }
+
+    sendErrorResponse(res, '未找到API端点', 404);
+
+  } catch (error) {
+    if (error instanceof TradingAnalysisError) {
+      sendErrorResponse(res, error.message, 400);
+      return;
+    }
+    if (error instanceof SyntaxError) {
+      sendErrorResponse(res, '请求体不是有效的JSON', 400);
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 处理AI服务商档案API路由
+ */
+export async function handleAIProviderRoutes(req: IncomingMessage, res: ServerResponse, pathname: string): Promise<void> {
+  try {
+    // GET /api/config/ai-providers - 获取备用服务商档案和各服务商的健康状态
+    if (pathname === '/api/config/ai-providers' && req.method === 'GET') {
+      sendJsonResponse(res, {
+        success: true,
+        profiles: aiProviderManager.listProfiles().map(toProfileView),
+        health: aiCircuitBreaker.getHealth(aiProviderManager.listTargets())
+      });
+      return;
+    }
+
+    // POST /api/config/ai-providers - 新增备用服务商档案
+    if (pathname === '/api/config/ai-providers' && req.method === 'POST') {
+      const body = JSON.parse(await readRequestBody(req));
+      const profile = aiProviderManager.createProfile({
+        name: body.name,
+        provider: body.provider,
+        baseUrl: body.baseUrl,
+        apiKey: body.apiKey,
+        model: body.model,
+        role: body.role,
+        priority: body.priority !== undefined ? Number(body.priority) : undefined,
+        enabled: body.enabled !== undefined ? Boolean(body.enabled) : undefined
+      });
+      sendJsonResponse(res, { success: true, message: '服务商档案添加成功', profile: toProfileView(profile) });
+      return;
+    }
+
+    // POST /api/config/ai-providers/:id/reset - 重置服务商的熔断状态（0 为主服务商，负数为环节单独指定的模型）
+    const resetMatch = pathname.match(/^\/api\/config\/ai-providers\/(-?\d+)\/reset$/);
+    if (resetMatch && req.method === 'POST') {
+      const profileId = parseInt(resetMatch[1]!, 10);
+      if (!aiProviderManager.listTargets().some(target => target.id === profileId)) {
+        sendErrorResponse(res, '服务商档案不存在', 404);
+        return;
+      }
+      aiCircuitBreaker.reset(profileId);
+      sendJsonResponse(res, { success: true, message: '熔断状态已重置' });
+      return;
+    }
+
+    const idMatch = pathname.match(/^\/api\/config\/ai-providers\/(\d+)$/);
+    const profileId = idMatch ? parseInt(idMatch[1]!, 10) : 0;
+
+    // PUT /api/config/ai-providers/:id - 更新备用服务商档案（apiKey 为空时保留原密钥）
+    if (profileId && req.method === 'PUT') {
+      const body = JSON.parse(await readRequestBody(req));
+      const profile = aiProviderManager.updateProfile(profileId, {
+        name: body.name,
+        provider: body.provider,
+        baseUrl: body.baseUrl,
+        apiKey: body.apiKey,
+        model: body.model,
+        role: body.role,
+        priority: body.priority !== undefined ? Number(body.priority) : undefined,
+        enabled: body.enabled !== undefined ? Boolean(body.enabled) : undefined
+      });
+      if (!profile) {
+        sendErrorResponse(res, '服务商档案不存在', 404);
+        return;
+      }
+      sendJsonResponse(res, { success: true, message: '服务商档案更新成功', profile: toProfileView(profile) });
+      return;
+    }
+
+    // DELETE /api/config/ai-providers/:id - 删除备用服务商档案
+    if (profileId && req.method === 'DELETE') {
+      if (!aiProviderManager.deleteProfile(profileId)) {
+        sendErrorResponse(res, '服务商档案不存在', 404);
+        return;
+      }
+      sendJsonResponse(res, { success: true, message: '服务商档案已删除' });
+      return;
+    }
+
+    sendErrorResponse(res, '未找到API端点', 404);
+
+  } catch (error) {
+    if (error instanceof TradingAnalysisError) {
+      sendErrorResponse(res, error.message, 400);
+      return;
+    }
+    if (error instanceof SyntaxError) {
+      sendErrorResponse(res, '请求体不是有效的JSON', 400);
+      return;
+    }
+    throw error;
+  }
+}
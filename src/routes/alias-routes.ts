@@ -0,0 +1,111 @@
+/**
+ * 币种别名词典API路由
+ * 提供别名的增删改查和识别测试接口（由 config-routes.ts 在访问控制检查后分发）
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { logger } from '../logger.js';
+import { aliasResolver } from '../alias-resolver.js';
+import { readRequestBody } from './http-utils.js';
+import { TradingAnalysisError } from '../types.js';
+
+/**
+ * 发送JSON响应
+ */
+function sendJsonResponse(res: ServerResponse, data: any, statusCode = 200): void {
+  res.writeHead(statusCode, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * 发送错误响应
+ */
+function sendErrorResponse(res: ServerResponse, message: string, statusCode = 500): void {
+  logger.error('API错误响应', { message, statusCode });
+  sendJsonResponse(res, { error: message }, statusCode);
+}
+
+/**
+ * 处理币种别名API路由
+ */
+export async function handleAliasRoutes(req: IncomingMessage, res: ServerResponse, pathname: string): Promise<void> {
+  try {
+    // GET /api/config/aliases - 获取别名列表
+    if (pathname === '/api/config/aliases' && req.method === 'GET') {
+      sendJsonResponse(res, { success: true, aliases: aliasResolver.listAliases() });
+      return;
+    }
+
+    // POST /api/config/aliases - 新增别名
+    if (pathname === '/api/config/aliases' && req.method === 'POST') {
+      const body = JSON.parse(await readRequestBody(req));
+      const alias = aliasResolver.createAlias({
+        alias: body.alias,
+        symbol: body.symbol,
+        marketType: body.marketType || null,
+        enabled: body.enabled !== undefined ? Boolean(body.enabled) : undefined
+      });
+      sendJsonResponse(res, { success: true, message: '别名添加成功', alias });
+      return;
+    }
+
+    // POST /api/config/aliases/test - 测试消息的本地识别结果
+    if (pathname === '/api/config/aliases/test' && req.method === 'POST') {
+      const { message } = JSON.parse(await readRequestBody(req));
+      if (!message) {
+        sendErrorResponse(res, '缺少必需字段：message', 400);
+        return;
+      }
+      sendJsonResponse(res, { success: true, resolution: aliasResolver.resolve(String(message)) });
+      return;
+    }
+
+    const idMatch = pathname.match(/^\/api\/config\/aliases\/(\d+)$/);
+    const aliasId = idMatch ? parseInt(idMatch[1]!, 10) : 0;
+
+    // PUT /api/config/aliases/:id - 更新别名
+    if (aliasId && req.method === 'PUT') {
+      const body = JSON.parse(await readRequestBody(req));
+      const alias = aliasResolver.updateAlias(aliasId, {
+        alias: body.alias,
+        symbol: body.symbol,
+        marketType: body.marketType === undefined ? undefined : (body.marketType || null),
+        enabled: body.enabled !== undefined ? Boolean(body.enabled) : undefined
+      });
+      if (!alias) {
+        sendErrorResponse(res, '别名不存在', 404);
+        return;
+      }
+      sendJsonResponse(res, { success: true, message: '别名更新成功', alias });
+      return;
+    }
+
+    // DELETE /api/config/aliases/:id - 删除别名
+    if (aliasId && req.method === 'DELETE') {
+      if (!aliasResolver.deleteAlias(aliasId)) {
+        sendErrorResponse(res, '别名不存在', 404);
+        return;
+      }
+      sendJsonResponse(res, { success: true, message: '别名已删除' });
+      return;
+    }
+
+    sendErrorResponse(res, '未找到API端点', 404);
+
+  } catch (error) {
+    if (error instanceof TradingAnalysisError) {
+      sendErrorResponse(res, error.message, 400);
+      return;
+    }
+    if (error instanceof SyntaxError) {
+      sendErrorResponse(res, '请求体不是有效的JSON', 400);
+      return;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * 管理API访问控制
+ * 管理员密码登录生成的访问token（内存中保存，24小时过期），以及 Bearer / Basic 认证检查
+ */
+
+import { IncomingMessage } from 'http';
+import crypto from 'crypto';
+import { logger } from '../logger.js';
+import { basicConfigManager } from '../config/basic-config-manager.js';
+
+// 内存中存储的token及其过期时间
+const tokenStore = new Map<string, { expireAt: number; createdAt: number }>();
+
+/**
+ * 生成访问token
+ */
+function generateToken(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+/**
+ * 验证密码并生成token
+ */
+export async function authenticateAndGenerateToken(password: string): Promise<string | null> {
+  try {
+    const adminPassword = await basicConfigManager.getConfigItem('adminPassword') || '123456';
+    
+    if (password === adminPassword) {
+      const token = generateToken();
+      const expireAt = Date.now() + 24 * 60 * 60 * 1000; // 24小时过期
+      tokenStore.set(token, { expireAt, createdAt: Date.now() });
+      
+      // 清理过期token
+      cleanupExpiredTokens();
+      
+      logger.info('新的访问token已生成', { tokenPrefix: token.substring(0, 8) });
+      return token;
+    }
+    
+    return null;
+  } catch (error) {
+    logger.error('认证失败', { error: error instanceof Error ? error.message : String(error) });
+    return null;
+  }
+}
+
+/**
+ * 验证token是否有效
+ */
+function validateToken(token: string): boolean {
+  const tokenInfo = tokenStore.get(token);
+  if (!tokenInfo) {
+    return false;
+  }
+  
+  if (Date.now() > tokenInfo.expireAt) {
+    tokenStore.delete(token);
+    return false;
+  }
+  
+  return true;
+}
+
+/**
+ * 清理过期token
+ */
+function cleanupExpiredTokens(): void {
+  const now = Date.now();
+  for (const [token, info] of tokenStore.entries()) {
+    if (now > info.expireAt) {
+      tokenStore.delete(token);
+    }
+  }
+}
+
+/**
+ * 简单的访问控制
+ */
+export async function checkAuth(req: IncomingMessage): Promise<boolean> {
+  try {
+    const auth = req.headers.authorization;
+    if (!auth) {
+      return false;
+    }
+
+    // 支持Bearer Token（推荐方式）
+    if (auth.startsWith('Bearer ')) {
+      const token = auth.substring(7);
+      return validateToken(token);
+    }
+
+    // 仍然支持Basic Auth作为备用
+    if (auth.startsWith('Basic ')) {
+      const credentials = Buffer.from(auth.substring(6), 'base64').toString();
+      const [username, password] = credentials.split(':');
+      const adminPassword = await basicConfigManager.getConfigItem('adminPassword') || '123456';
+      return username === 'admin' && password === adminPassword;
+    }
+
+    return false;
+  } catch (error) {
+    logger.error('认证检查失败', { error: error instanceof Error ? error.message : String(error) });
+    return false;
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * 基础配置API路由
+ * 提供基础配置的查询、保存（立即生效）、连接测试、重启服务和修改管理员密码接口（由 config-routes.ts 在访问控制检查后分发）
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { logger } from '../logger.js';
+import { basicConfigManager } from '../config/basic-config-manager.js';
+import { readRequestBody } from './http-utils.js';
+
+/**
+ * 发送JSON响应
+ */
+function sendJsonResponse(res: ServerResponse, data: any, statusCode = 200): void {
+  res.writeHead(statusCode, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * 发送错误响应
+ */
+function sendErrorResponse(res: ServerResponse, message: string, statusCode = 500): void {
+  logger.error('API错误响应', { message, statusCode });
+  sendJsonResponse(res, { error: message }, statusCode);
+}
+
+/**
+ * 处理基础配置API路由
+ */
+export async function handleBasicConfigRoutes(req: IncomingMessage, res: ServerResponse, pathname: string): Promise<void> {
+  if (pathname === '/api/basic-config' && req.method === 'GET') {
+    // 获取基础配置
+    const basicConfig = await basicConfigManager.getConfig();
+    const configItems = basicConfigManager.getConfigItems();
+    
+    sendJsonResponse(res, {
+      success: true,
+      config: basicConfig,
+      configItems
+    });
+
+  } else if (pathname === '/api/basic-config' && req.method === 'POST') {
+    // 保存基础配置并立即生效（订阅了变更配置项的模块自行应用），新配置无效时恢复原配置
+    const body = await readRequestBody(req);
+    const newConfig = JSON.parse(body);
+    const previousConfig = await basicConfigManager.getConfig();
+
+    await basicConfigManager.saveConfig(newConfig);
+
+    const { reloadConfig } = await import('../config.js');
+    let reloadResult;
+    try {
+      reloadResult = await reloadConfig();
+    } catch (error) {
+      await basicConfigManager.saveConfig(previousConfig);
+      sendErrorResponse(res, `配置无效，已恢复原配置: ${error instanceof Error ? error.message : String(error)}`, 400);
+      return;
+    }
+
+    const { changedKeys, failures } = reloadResult;
+    // 机器人令牌在后台等待进行中的分析完成后切换，结果通过统计接口查询
+    const { getBotTokenSwitchStatus } = await import('../bot.js');
+    const botTokenSwitch = getBotTokenSwitchStatus();
+    sendJsonResponse(res, {
+      success: true,
+      message: failures.length > 0
+        ? `基础配置已保存，以下模块应用失败：${failures.map(failure => `${failure.subscriber}（${failure.error}）`).join('；')}`
+        : '基础配置已保存并生效',
+      changedKeys,
+      failures,
+      botTokenSwitch
+    });
+
+  } else if (pathname === '/api/basic-config/test' && req.method === 'POST') {
+    // 测试基础配置（请求体中可以带尚未保存的配置值）
+    const body = await readRequestBody(req);
+    const candidate = body.trim() ? JSON.parse(body) : {};
+    const testResults = await basicConfigManager.testConfig(candidate);
+    const allSuccess = testResults.telegram.success
+      && testResults.aiProviders.every(result => result.success)
+      && (!testResults.binance || testResults.binance.success);
+    
+    sendJsonResponse(res, {
+      success: true,
+      results: testResults,
+      allSuccess
+    });
+
+  } else if (pathname === '/api/basic-config/restart' && req.method === 'POST') {
+    // 重新启动服务
+    try {
+      // 重新加载配置
+      const { reloadConfig } = await import('../config.js');
+      await reloadConfig();
+      
+      // 重新启动机器人服务
+      const { stopBot, startBot } = await import('../bot.js');
+      
+      // 先停止现有的机器人
+      await stopBot();
+      
+      // 等待一秒确保完全停止
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      
+      // 启动机器人
+      await startBot();
+      
+      sendJsonResponse(res, {
+        success: true,
+        message: '服务重新启动成功'
+      });
+      
+    } catch (error) {
+      logger.error('重新启动服务失败', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      
+      sendJsonResponse(res, {
+        success: false,
+        message: `重新启动失败: ${error instanceof Error ? error.message : String(error)}`
+      });
+    }
+    
+  } else if (pathname === '/api/basic-config/change-password' && req.method === 'POST') {
+    // 修改管理员密码
+    try {
+      const body = await readRequestBody(req);
+      const { oldPassword, newPassword } = JSON.parse(body);
+      
+      // 验证输入
+      if (!oldPassword || !newPassword) {
+        sendErrorResponse(res, '缺少必需字段：oldPassword 或 newPassword', 400);
+        return;
+      }
+      
+      if (newPassword.length < 6) {
+        sendErrorResponse(res, '新密码长度不能少于6位', 400);
+        return;
+      }
+      
+      // 修改密码
+      await basicConfigManager.changeAdminPassword(oldPassword, newPassword);
+      
+      sendJsonResponse(res, { 
+        success: true, 
+        message: '密码修改成功' 
+      });
+      
+    } catch (error) {
+      logger.error('修改密码失败', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      sendErrorResponse(res, error instanceof Error ? error.message : String(error));
+    }
+  } else {
+    sendErrorResponse(res, '未找到API端点', 404);
+  }
+}
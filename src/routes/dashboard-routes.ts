@@ -7,6 +7,15 @@ import { IncomingMessage, ServerResponse } from 'http';
 import { parse } from 'url';
 import { logger } from '../logger.js';
 import { auditLogger } from '../audit-logger.js';
+import { accuracyTracker } from '../accuracy-tracker.js';
+import { tradeSetupStore } from '../trade-setup.js';
+import { promptExperimentManager } from '../config/prompt-experiment-manager.js';
+import { feedbackStore } from '../feedback.js';
+import { aiUsageTracker } from '../ai-usage.js';
+import type { AISpendDimension, TradeOutcome } from '../types.js';
+
+// 可用于筛选交易计划的评估结果
+const TRADE_OUTCOMES: TradeOutcome[] = ['pending', 'target_hit', 'stop_hit', 'expired', 'not_triggered', 'neutral', 'unavailable'];
 
 /**
  * 发送JSON响应
@@ -105,6 +114,163 @@ async function handleGetUserDetails(req: IncomingMessage, res: ServerResponse, u
   }
 }
 
+/**
+ * 获取交易计划准确率报表（整体、按提示词版本、按交易对）
+ * GET /api/dashboard/accuracy?days=30
+ */
+async function handleGetAccuracy(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    const query = parse(req.url || '', true).query;
+    const days = parseInt(query.days as string);
+
+    const report = accuracyTracker.getReport(days > 0 ? Math.min(days, 365) : null);
+
+    sendJsonResponse(res, {
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    sendErrorResponse(res, '获取准确率统计失败');
+  }
+}
+
+/**
+ * 获取交易计划及评估结果列表
+ * GET /api/dashboard/accuracy/setups?page=1&limit=20&symbol=BTCUSDT&promptConfigId=3&outcome=stop_hit
+ */
+async function handleGetTradeSetups(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    const query = parse(req.url || '', true).query;
+
+    const page = parseInt(query.page as string) || 1;
+    const limit = parseInt(query.limit as string) || 20;
+    const promptConfigId = parseInt(query.promptConfigId as string);
+    const outcome = query.outcome as TradeOutcome | undefined;
+
+    if (outcome && !TRADE_OUTCOMES.includes(outcome)) {
+      sendErrorResponse(res, '无效的评估结果筛选条件', 400);
+      return;
+    }
+
+    // 限制limit范围
+    const validLimit = Math.min(Math.max(limit, 1), 50);
+
+    const setups = tradeSetupStore.listPaged(page, validLimit, {
+      ...(query.symbol && { symbol: String(query.symbol).toUpperCase() }),
+      ...(!isNaN(promptConfigId) && { promptConfigId }),
+      ...(outcome && { outcome })
+    });
+
+    sendJsonResponse(res, {
+      success: true,
+      data: setups.data,
+      pagination: setups.pagination
+    });
+  } catch (error) {
+    sendErrorResponse(res, '获取交易计划列表失败');
+  }
+}
+
+/**
+ * 获取用户反馈报表（整体、按提示词版本、按交易对、按AI模型）
+ * GET /api/dashboard/feedback?days=30
+ */
+async function handleGetFeedback(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    const query = parse(req.url || '', true).query;
+    const days = parseInt(query.days as string);
+
+    const report = feedbackStore.getReport(days > 0 ? Math.min(days, 365) : null);
+
+    sendJsonResponse(res, {
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    sendErrorResponse(res, '获取用户反馈统计失败');
+  }
+}
+
+/**
+ * 获取最近的提示词A/B实验及各版本效果
+ * GET /api/dashboard/experiments?limit=5
+ */
+async function handleGetExperiments(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  try {
+    const query = parse(req.url || '', true).query;
+    const limit = Math.min(Math.max(parseInt(query.limit as string) || 5, 1), 20);
+
+    const experiments = promptExperimentManager.listExperiments(limit).map(experiment => ({
+      ...experiment,
+      variantStats: promptExperimentManager.getVariantStats(experiment.id)
+    }));
+
+    sendJsonResponse(res, {
+      success: true,
+      data: experiments
+    });
+  } catch (error) {
+    sendErrorResponse(res, '获取实验统计失败');
+  }
+}
+
+/**
+ * 获取指定实验的各版本效果
+ * GET /api/dashboard/experiments/:id
+ */
+async function handleGetExperimentDetails(_req: IncomingMessage, res: ServerResponse, experimentId: number): Promise<void> {
+  try {
+    const experiment = promptExperimentManager.getExperiment(experimentId);
+    if (!experiment) {
+      sendErrorResponse(res, '实验不存在', 404);
+      return;
+    }
+
+    sendJsonResponse(res, {
+      success: true,
+      data: {
+        ...experiment,
+        variantStats: promptExperimentManager.getVariantStats(experimentId)
+      }
+    });
+  } catch (error) {
+    sendErrorResponse(res, '获取实验统计失败');
+  }
+}
+
+/**
+ * 获取AI用量和费用（按日期、用户、群或模型分组）
+ * GET /api/dashboard/ai-usage/daily|users|chats|models?days=30
+ */
+async function handleGetAIUsage(req: IncomingMessage, res: ServerResponse, dimension: AISpendDimension): Promise<void> {
+  try {
+    const query = parse(req.url || '', true).query;
+    const days = Math.min(Math.max(parseInt(query.days as string) || 30, 1), 365);
+
+    sendJsonResponse(res, {
+      success: true,
+      data: aiUsageTracker.getReport(dimension, days)
+    });
+  } catch (error) {
+    sendErrorResponse(res, '获取AI用量统计失败');
+  }
+}
+
+/**
+ * 获取审计日志关联的AI调用用量
+ * GET /api/dashboard/ai-usage/logs/:auditLogId
+ */
+async function handleGetAuditLogUsage(_req: IncomingMessage, res: ServerResponse, auditLogId: number): Promise<void> {
+  try {
+    sendJsonResponse(res, {
+      success: true,
+      data: aiUsageTracker.getUsageByAuditLog(auditLogId)
+    });
+  } catch (error) {
+    sendErrorResponse(res, '获取AI用量失败');
+  }
+}
+
 /**
  * 处理Dashboard API路由
  */
@@ -142,6 +308,51 @@ export async function handleDashboardRoutes(
           return true;
         }
         
+        // GET /api/dashboard/accuracy - 获取交易计划准确率
+        if (apiPath === 'accuracy') {
+          await handleGetAccuracy(req, res);
+          return true;
+        }
+
+        // GET /api/dashboard/accuracy/setups - 获取交易计划评估明细
+        if (apiPath === 'accuracy/setups') {
+          await handleGetTradeSetups(req, res);
+          return true;
+        }
+        
+        // GET /api/dashboard/feedback - 获取用户反馈统计
+        if (apiPath === 'feedback') {
+          await handleGetFeedback(req, res);
+          return true;
+        }
+
+        // GET /api/dashboard/experiments - 获取提示词A/B实验效果
+        if (apiPath === 'experiments') {
+          await handleGetExperiments(req, res);
+          return true;
+        }
+
+        // GET /api/dashboard/experiments/:id - 获取指定实验效果
+        const experimentMatch = apiPath.match(/^experiments\/(\d+)$/);
+        if (experimentMatch) {
+          await handleGetExperimentDetails(req, res, parseInt(experimentMatch[1]!, 10));
+          return true;
+        }
+        
+        // GET /api/dashboard/ai-usage/:dimension - 获取AI用量和费用
+        const aiUsageMatch = apiPath.match(/^ai-usage\/(daily|users|chats|models)$/);
+        if (aiUsageMatch) {
+          await handleGetAIUsage(req, res, aiUsageMatch[1] as AISpendDimension);
+          return true;
+        }
+
+        // GET /api/dashboard/ai-usage/logs/:auditLogId - 获取审计日志关联的AI用量
+        const auditUsageMatch = apiPath.match(/^ai-usage\/logs\/(\d+)$/);
+        if (auditUsageMatch) {
+          await handleGetAuditLogUsage(req, res, parseInt(auditUsageMatch[1]!, 10));
+          return true;
+        }
+        
         // GET /api/dashboard/user/:userId - 获取用户详情
         const userDetailsMatch = apiPath.match(/^user\/(\d+)$/);
         if (userDetailsMatch) {
@@ -0,0 +1,93 @@
+/**
+ * 提示词A/B实验API路由
+ * 提供实验的创建、查询、停止和采用胜出版本接口（由 config-routes.ts 在访问控制检查后分发）
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { logger } from '../logger.js';
+import { promptExperimentManager } from '../config/prompt-experiment-manager.js';
+import { readRequestBody } from './http-utils.js';
+import { TradingAnalysisError } from '../types.js';
+
+/**
+ * 发送JSON响应
+ */
+function sendJsonResponse(res: ServerResponse, data: any, statusCode = 200): void {
+  res.writeHead(statusCode, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * 发送错误响应
+ */
+function sendErrorResponse(res: ServerResponse, message: string, statusCode = 500): void {
+  logger.error('API错误响应', { message, statusCode });
+  sendJsonResponse(res, { error: message }, statusCode);
+}
+
+/**
+ * 处理提示词A/B实验API路由
+ */
+export async function handleExperimentRoutes(req: IncomingMessage, res: ServerResponse, pathname: string): Promise<void> {
+  try {
+    // GET /api/config/experiments - 获取实验列表
+    if (pathname === '/api/config/experiments' && req.method === 'GET') {
+      sendJsonResponse(res, { success: true, experiments: promptExperimentManager.listExperiments() });
+      return;
+    }
+
+    // POST /api/config/experiments - 创建并启动实验
+    if (pathname === '/api/config/experiments' && req.method === 'POST') {
+      const body = JSON.parse(await readRequestBody(req));
+      const experiment = promptExperimentManager.createExperiment({
+        name: body.name,
+        variants: body.variants
+      });
+      sendJsonResponse(res, { success: true, message: '实验已启动', experiment });
+      return;
+    }
+
+    const actionMatch = pathname.match(/^\/api\/config\/experiments\/(\d+)\/(stop|promote)$/);
+    if (!actionMatch || req.method !== 'POST') {
+      sendErrorResponse(res, '未找到API端点', 404);
+      return;
+    }
+    const experimentId = parseInt(actionMatch[1]!, 10);
+
+    // POST /api/config/experiments/:id/stop - 停止实验
+    if (actionMatch[2] === 'stop') {
+      const experiment = promptExperimentManager.stopExperiment(experimentId);
+      if (!experiment) {
+        sendErrorResponse(res, '实验不存在', 404);
+        return;
+      }
+      sendJsonResponse(res, { success: true, message: '实验已停止', experiment });
+      return;
+    }
+
+    // POST /api/config/experiments/:id/promote - 将指定版本推广为正式版本并结束实验
+    const { promptConfigId } = JSON.parse(await readRequestBody(req));
+    if (!promptConfigId) {
+      sendErrorResponse(res, '缺少必需字段：promptConfigId', 400);
+      return;
+    }
+    const experiment = await promptExperimentManager.promoteWinner(experimentId, Number(promptConfigId));
+    sendJsonResponse(res, { success: true, message: `已将版本 ${promptConfigId} 设为当前使用版本`, experiment });
+
+  } catch (error) {
+    if (error instanceof TradingAnalysisError) {
+      sendErrorResponse(res, error.message, error.code === 'EXPERIMENT_NOT_FOUND' ? 404 : 400);
+      return;
+    }
+    if (error instanceof SyntaxError) {
+      sendErrorResponse(res, '请求体不是有效的JSON', 400);
+      return;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * API路由公共方法
+ */
+
+import { IncomingMessage } from 'http';
+
+/**
+ * 读取请求体
+ */
+export function readRequestBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => {
+      body += chunk.toString();
+    });
+    req.on('end', () => {
+      resolve(body);
+    });
+    req.on('error', reject);
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * 提示词配置API路由
+ * 提供提示词版本的查询、保存、切换和删除接口（由 config-routes.ts 在访问控制检查后分发）
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { logger } from '../logger.js';
+import { promptManager } from '../config/prompt-manager-v2.js';
+import { readRequestBody } from './http-utils.js';
+
+/**
+ * 发送JSON响应
+ */
+function sendJsonResponse(res: ServerResponse, data: any, statusCode = 200): void {
+  res.writeHead(statusCode, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * 发送错误响应
+ */
+function sendErrorResponse(res: ServerResponse, message: string, statusCode = 500): void {
+  logger.error('API错误响应', { message, statusCode });
+  sendJsonResponse(res, { error: message }, statusCode);
+}
+
+/**
+ * 处理提示词配置API路由
+ */
+export async function handlePromptRoutes(req: IncomingMessage, res: ServerResponse, pathname: string): Promise<void> {
+  if (pathname === '/api/config/prompts' && req.method === 'GET') {
+    // 获取当前配置
+    const promptConfig = await promptManager.getConfig();
+    const availableVariables = promptManager.getAvailableVariables();
+    
+    sendJsonResponse(res, {
+      config: promptConfig,
+      availableVariables
+    });
+    
+  } else if (pathname === '/api/config/prompts/save-new' && req.method === 'POST') {
+    // 保存为新版本并使用
+    const body = await readRequestBody(req);
+    const newConfig = JSON.parse(body);
+    
+    // 验证必需字段
+    if (!newConfig.systemPrompt || !newConfig.analysisPrompt) {
+      sendErrorResponse(res, '缺少必需字段：systemPrompt 或 analysisPrompt', 400);
+      return;
+    }
+
+    // 保存为新版本
+    const savedConfig = await promptManager.saveAsNewVersion({
+      version: newConfig.version || '1.0.0',
+      lastModified: new Date().toISOString(),
+      systemPrompt: newConfig.systemPrompt,
+      analysisPrompt: newConfig.analysisPrompt,
+      comparisonPrompt: newConfig.comparisonPrompt || ''
+    });
+    
+    sendJsonResponse(res, { 
+      success: true, 
+      message: '新版本保存成功',
+      config: savedConfig
+    });
+    
+  } else if (pathname === '/api/config/prompts/update-current' && req.method === 'POST') {
+    // 更新当前版本
+    const body = await readRequestBody(req);
+    const newConfig = JSON.parse(body);
+    
+    // 验证必需字段
+    if (!newConfig.systemPrompt || !newConfig.analysisPrompt) {
+      sendErrorResponse(res, '缺少必需字段：systemPrompt 或 analysisPrompt', 400);
+      return;
+    }
+
+    // 更新当前版本
+    const updatedConfig = await promptManager.updateCurrentVersion({
+      version: newConfig.version || '1.0.0',
+      lastModified: new Date().toISOString(),
+      systemPrompt: newConfig.systemPrompt,
+      analysisPrompt: newConfig.analysisPrompt,
+      comparisonPrompt: newConfig.comparisonPrompt || ''
+    });
+    
+    sendJsonResponse(res, { 
+      success: true, 
+      message: '当前版本更新成功',
+      config: updatedConfig
+    });
+    
+  } else if (pathname === '/api/config/prompts/delete-current' && req.method === 'DELETE') {
+    // 删除当前版本
+    await promptManager.deleteCurrentVersion();
+    
+    // 获取新的当前版本
+    const newCurrentConfig = await promptManager.getConfig();
+    
+    sendJsonResponse(res, { 
+      success: true, 
+      message: '当前版本已删除，已切换到其他版本',
+      config: newCurrentConfig
+    });
+    
+  } else if (pathname === '/api/config/prompts/reload' && req.method === 'POST') {
+    // 重新加载配置
+    const reloadedConfig = await promptManager.reloadConfig();
+    
+    sendJsonResponse(res, { 
+      success: true, 
+      message: '配置已重新加载',
+      config: reloadedConfig
+    });
+    
+  } else if (pathname === '/api/config/prompts/versions' && req.method === 'GET') {
+    // 获取所有版本
+    const versions = await promptManager.getAllVersions(50);
+    
+    sendJsonResponse(res, {
+      success: true,
+      versions
+    });
+    
+  } else if (pathname.startsWith('/api/config/prompts/switch/') && req.method === 'POST') {
+    // 切换版本
+    const configId = parseInt(pathname.split('/').pop() || '0');
+    if (!configId) {
+      sendErrorResponse(res, '无效的配置ID', 400);
+      return;
+    }
+    
+    const switchedConfig = await promptManager.switchToVersion(configId);
+    
+    sendJsonResponse(res, {
+      success: true,
+      message: `已切换到版本 ${switchedConfig.version}`,
+      config: switchedConfig
+    });
+    
+  } else if (pathname.startsWith('/api/config/prompts/delete/') && req.method === 'DELETE') {
+    // 删除版本
+    const configId = parseInt(pathname.split('/').pop() || '0');
+    if (!configId) {
+      sendErrorResponse(res, '无效的配置ID', 400);
+      return;
+    }
+    
+    await promptManager.deleteVersion(configId);
+    
+    sendJsonResponse(res, {
+      success: true,
+      message: '版本删除成功'
+    });
+  } else {
+    sendErrorResponse(res, '未找到API端点', 404);
+  }
+}
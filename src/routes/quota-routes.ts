@@ -0,0 +1,131 @@
+/**
+ * 请求配额API路由
+ * 提供配额等级、等级分配和用量查询与重置接口（由 config-routes.ts 在访问控制检查后分发）
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { logger } from '../logger.js';
+import { quotaManager } from '../quota.js';
+import { readRequestBody } from './http-utils.js';
+import { TradingAnalysisError } from '../types.js';
+import type { QuotaScope } from '../types.js';
+
+/**
+ * 发送JSON响应
+ */
+function sendJsonResponse(res: ServerResponse, data: any, statusCode = 200): void {
+  res.writeHead(statusCode, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * 发送错误响应
+ */
+function sendErrorResponse(res: ServerResponse, message: string, statusCode = 500): void {
+  logger.error('API错误响应', { message, statusCode });
+  sendJsonResponse(res, { error: message }, statusCode);
+}
+
+/**
+ * 处理请求配额API路由
+ */
+export async function handleQuotaRoutes(req: IncomingMessage, res: ServerResponse, pathname: string): Promise<void> {
+  try {
+    // GET /api/config/quotas - 获取默认限制、配额等级和等级分配
+    if (pathname === '/api/config/quotas' && req.method === 'GET') {
+      sendJsonResponse(res, {
+        success: true,
+        defaults: {
+          user: quotaManager.getDefaultLimits('user'),
+          chat: quotaManager.getDefaultLimits('chat')
+        },
+        tiers: quotaManager.listTiers(),
+        assignments: quotaManager.listAssignments()
+      });
+      return;
+    }
+
+    // POST /api/config/quotas/tiers - 新增或更新配额等级
+    if (pathname === '/api/config/quotas/tiers' && req.method === 'POST') {
+      const body = JSON.parse(await readRequestBody(req));
+      const tier = quotaManager.saveTier({
+        name: body.name,
+        description: body.description,
+        rateLimitPerMinute: body.rateLimitPerMinute,
+        dailyQuota: body.dailyQuota,
+        monthlyQuota: body.monthlyQuota
+      });
+      sendJsonResponse(res, { success: true, message: '配额等级已保存', tier });
+      return;
+    }
+
+    // DELETE /api/config/quotas/tiers/:name - 删除配额等级
+    const tierMatch = pathname.match(/^\/api\/config\/quotas\/tiers\/([^/]+)$/);
+    if (tierMatch && req.method === 'DELETE') {
+      if (!quotaManager.deleteTier(decodeURIComponent(tierMatch[1]!))) {
+        sendErrorResponse(res, '配额等级不存在', 404);
+        return;
+      }
+      sendJsonResponse(res, { success: true, message: '配额等级已删除' });
+      return;
+    }
+
+    // POST /api/config/quotas/assignments - 为用户或群分配配额等级
+    if (pathname === '/api/config/quotas/assignments' && req.method === 'POST') {
+      const body = JSON.parse(await readRequestBody(req));
+      const assignment = quotaManager.assignTier(body.scope, Number(body.scopeId), String(body.tier ?? ''), body.note);
+      sendJsonResponse(res, { success: true, message: '配额等级已分配', assignment });
+      return;
+    }
+
+    const scopeMatch = pathname.match(/^\/api\/config\/quotas\/(assignments|usage)\/(user|chat)\/(-?\d+)(\/reset)?$/);
+    if (!scopeMatch) {
+      sendErrorResponse(res, '未找到API端点', 404);
+      return;
+    }
+    const [, resource, scopeText, scopeIdText, reset] = scopeMatch;
+    const scope = scopeText as QuotaScope;
+    const scopeId = parseInt(scopeIdText!, 10);
+
+    // DELETE /api/config/quotas/assignments/:scope/:id - 取消等级分配
+    if (resource === 'assignments' && !reset && req.method === 'DELETE') {
+      if (!quotaManager.removeAssignment(scope, scopeId)) {
+        sendErrorResponse(res, '等级分配不存在', 404);
+        return;
+      }
+      sendJsonResponse(res, { success: true, message: '已恢复默认配额' });
+      return;
+    }
+
+    // GET /api/config/quotas/usage/:scope/:id - 查看当前用量
+    if (resource === 'usage' && !reset && req.method === 'GET') {
+      sendJsonResponse(res, { success: true, usage: quotaManager.getUsage(scope, scopeId) });
+      return;
+    }
+
+    // POST /api/config/quotas/usage/:scope/:id/reset - 清空用量
+    if (resource === 'usage' && reset && req.method === 'POST') {
+      quotaManager.resetUsage(scope, scopeId);
+      sendJsonResponse(res, { success: true, message: '用量已重置' });
+      return;
+    }
+
+    sendErrorResponse(res, '未找到API端点', 404);
+
+  } catch (error) {
+    if (error instanceof TradingAnalysisError) {
+      sendErrorResponse(res, error.message, 400);
+      return;
+    }
+    if (error instanceof SyntaxError) {
+      sendErrorResponse(res, '请求体不是有效的JSON', 400);
+      return;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * 定时分析API路由
+ * 提供定时分析任务的增删改查和手动触发接口
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { logger } from '../logger.js';
+import { scheduleManager } from '../scheduler.js';
+import { checkAuth } from './auth.js';
+import { readRequestBody } from './http-utils.js';
+import { TradingAnalysisError } from '../types.js';
+
+/**
+ * 发送JSON响应
+ */
+function sendJsonResponse(res: ServerResponse, data: any, statusCode: number = 200): void {
+  res.writeHead(statusCode, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+  });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * 发送错误响应
+ */
+function sendErrorResponse(res: ServerResponse, message: string, statusCode: number = 500): void {
+  logger.error('定时任务API错误', { message, statusCode });
+  sendJsonResponse(res, { error: message }, statusCode);
+}
+
+/**
+ * 从请求体中提取任务参数
+ */
+function parseScheduleBody(body: any) {
+  return {
+    name: body.name,
+    chatId: body.chatId !== undefined ? Number(body.chatId) : undefined,
+    cronExpression: body.cronExpression,
+    symbols: Array.isArray(body.symbols) ? body.symbols.map(String) : undefined,
+    marketType: body.marketType,
+    timeframes: Array.isArray(body.timeframes) ? body.timeframes : undefined,
+    promptConfigId: body.promptConfigId === null ? null : (body.promptConfigId !== undefined ? Number(body.promptConfigId) : undefined),
+    question: body.question,
+    enabled: body.enabled !== undefined ? Boolean(body.enabled) : undefined
+  };
+}
+
+/**
+ * 处理定时任务API路由
+ */
+export async function handleScheduleRoutes(
+  req: IncomingMessage,
+  res: ServerResponse,
+  pathname: string
+): Promise<boolean> {
+  if (pathname !== '/api/schedules' && !pathname.startsWith('/api/schedules/')) {
+    return false;
+  }
+
+  try {
+    if (!(await checkAuth(req))) {
+      sendErrorResponse(res, '访问被拒绝，请提供正确的授权令牌', 401);
+      return true;
+    }
+
+    // GET /api/schedules - 获取任务列表
+    if (pathname === '/api/schedules' && req.method === 'GET') {
+      sendJsonResponse(res, { success: true, schedules: scheduleManager.listSchedules() });
+      return true;
+    }
+
+    // POST /api/schedules - 创建任务
+    if (pathname === '/api/schedules' && req.method === 'POST') {
+      const params = parseScheduleBody(JSON.parse(await readRequestBody(req)));
+      if (!params.name || params.chatId === undefined || !params.cronExpression || !params.symbols) {
+        sendErrorResponse(res, '缺少必需字段：name、chatId、cronExpression 或 symbols', 400);
+        return true;
+      }
+
+      const schedule = await scheduleManager.createSchedule({
+        ...params,
+        name: params.name,
+        chatId: params.chatId,
+        cronExpression: params.cronExpression,
+        symbols: params.symbols
+      });
+      sendJsonResponse(res, { success: true, message: '定时任务创建成功', schedule });
+      return true;
+    }
+
+    const idMatch = pathname.match(/^\/api\/schedules\/(\d+)(\/run)?$/);
+    if (!idMatch) {
+      sendErrorResponse(res, '定时任务API路由未找到', 404);
+      return true;
+    }
+    const scheduleId = parseInt(idMatch[1]!, 10);
+
+    // POST /api/schedules/:id/run - 立即执行
+    if (idMatch[2] && req.method === 'POST') {
+      if (!scheduleManager.getSchedule(scheduleId)) {
+        sendErrorResponse(res, '定时任务不存在', 404);
+        return true;
+      }
+
+      // 分析耗时较长，后台执行，不阻塞请求
+      scheduleManager.runSchedule(scheduleId).catch(error => {
+        logger.error('手动执行定时任务失败', {
+          scheduleId,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+      sendJsonResponse(res, { success: true, message: '定时任务已开始执行' });
+      return true;
+    }
+
+    // PUT /api/schedules/:id - 更新任务
+    if (!idMatch[2] && req.method === 'PUT') {
+      const params = parseScheduleBody(JSON.parse(await readRequestBody(req)));
+      const schedule = await scheduleManager.updateSchedule(scheduleId, params);
+      if (!schedule) {
+        sendErrorResponse(res, '定时任务不存在', 404);
+        return true;
+      }
+      sendJsonResponse(res, { success: true, message: '定时任务更新成功', schedule });
+      return true;
+    }
+
+    // DELETE /api/schedules/:id - 删除任务
+    if (!idMatch[2] && req.method === 'DELETE') {
+      if (!scheduleManager.deleteSchedule(scheduleId)) {
+        sendErrorResponse(res, '定时任务不存在', 404);
+        return true;
+      }
+      sendJsonResponse(res, { success: true, message: '定时任务已删除' });
+      return true;
+    }
+
+    sendErrorResponse(res, '定时任务API路由未找到', 404);
+    return true;
+
+  } catch (error) {
+    if (error instanceof TradingAnalysisError) {
+      sendErrorResponse(res, error.message, 400);
+      return true;
+    }
+    if (error instanceof SyntaxError) {
+      sendErrorResponse(res, '请求体不是有效的JSON', 400);
+      return true;
+    }
+
+    logger.error('定时任务API处理异常', {
+      pathname,
+      method: req.method,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    sendErrorResponse(res, '定时任务API内部错误');
+    return true;
+  }
+}
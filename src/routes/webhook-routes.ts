@@ -0,0 +1,96 @@
+/**
+ * Telegram Webhook路由
+ * webhook 模式下接收 Telegram 推送的更新：校验密钥、按 update_id 去重后交给机器人处理
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { logger } from '../logger.js';
+import { config } from '../config.js';
+import { processWebhookUpdate } from '../bot.js';
+import { readRequestBody } from './http-utils.js';
+import {
+  TELEGRAM_SECRET_HEADER,
+  TELEGRAM_WEBHOOK_PATH,
+  verifyWebhookSecret,
+  webhookUpdateDeduplicator
+} from '../telegram-webhook.js';
+import type { TelegramUpdate } from '../types.js';
+
+/**
+ * 发送JSON响应
+ */
+function sendJsonResponse(res: ServerResponse, data: any, statusCode: number = 200): void {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * 发送错误响应
+ */
+function sendErrorResponse(res: ServerResponse, message: string, statusCode: number): void {
+  logger.warn('Telegram Webhook请求被拒绝', { message, statusCode });
+  sendJsonResponse(res, { error: message }, statusCode);
+}
+
+/**
+ * 解析更新，缺少 update_id 时返回 null
+ */
+function parseUpdate(body: string): TelegramUpdate | null {
+  try {
+    const update = JSON.parse(body);
+    return update && Number.isInteger(update.update_id) ? update as TelegramUpdate : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 处理Telegram Webhook路由
+ */
+export async function handleWebhookRoutes(
+  req: IncomingMessage,
+  res: ServerResponse,
+  pathname: string
+): Promise<boolean> {
+  if (pathname !== TELEGRAM_WEBHOOK_PATH) {
+    return false;
+  }
+
+  // 长轮询模式下不暴露该端点
+  if (config.telegramMode !== 'webhook') {
+    sendErrorResponse(res, 'Not Found', 404);
+    return true;
+  }
+
+  if (req.method !== 'POST') {
+    sendErrorResponse(res, 'Method Not Allowed', 405);
+    return true;
+  }
+
+  if (!verifyWebhookSecret(req.headers[TELEGRAM_SECRET_HEADER], config.telegramWebhookSecret)) {
+    sendErrorResponse(res, '密钥校验失败', 401);
+    return true;
+  }
+
+  const update = parseUpdate(await readRequestBody(req));
+  if (!update) {
+    sendErrorResponse(res, '请求体不是有效的Telegram更新', 400);
+    return true;
+  }
+
+  if (webhookUpdateDeduplicator.isDuplicate(update.update_id)) {
+    logger.info('忽略重复的Telegram更新', { updateId: update.update_id });
+    sendJsonResponse(res, { ok: true, duplicate: true });
+    return true;
+  }
+
+  // 机器人未在接收更新（启动中或正在切换令牌）时返回 503，Telegram 稍后会重发
+  if (!processWebhookUpdate(update)) {
+    sendErrorResponse(res, '机器人暂未就绪', 503);
+    return true;
+  }
+
+  webhookUpdateDeduplicator.markProcessed(update.update_id);
+  sendJsonResponse(res, { ok: true });
+  return true;
+}
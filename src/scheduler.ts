@@ -0,0 +1,595 @@
+/**
+ * 定时分析模块
+ * 负责定时任务的SQLite持久化、按cron表达式触发以及分析结果推送
+ */
+
+import { config } from './config.js';
+import { logger } from './logger.js';
+import { databaseManager } from './config/database-manager.js';
+import { aiProviderManager } from './config/ai-provider-manager.js';
+import { promptManager } from './config/prompt-manager-v2.js';
+import { getKlineData, TIMEFRAMES } from './market-data.js';
+import { getFuturesMarketData } from './binance-futures.js';
+import { analyzeStreamingTrading } from './ai.js';
+import { concurrencyManager } from './concurrency.js';
+import { auditLogger } from './audit-logger.js';
+import { aiUsageTracker } from './ai-usage.js';
+import { quotaManager, describeQuotaDenial, describeQuotaAuditMessage } from './quota.js';
+import { parseCronExpression, matchesCron, getMinIntervalMinutes } from './cron.js';
+import { normalizeSymbol } from './price-alerts.js';
+import { TradingAnalysisError } from './types.js';
+import type {
+  AnalysisSchedule,
+  CreateAnalysisScheduleParams,
+  CreateAuditLogParams,
+  QuotaDenial,
+  UpdateAnalysisScheduleParams,
+  TimeframeType,
+  TradingPairType
+} from './types.js';
+
+// 后台检查间隔（小于1分钟，保证每个匹配的分钟都能被检查到）
+const SCHEDULE_CHECK_INTERVAL_MS = 30 * 1000;
+
+// 单个任务最多包含的交易对数量
+const MAX_SCHEDULE_SYMBOLS = 10;
+
+// 每个聊天最多设置的任务数量
+const MAX_SCHEDULES_PER_CHAT = 5;
+
+// 相邻两次触发的最短间隔（分钟）
+const MIN_SCHEDULE_INTERVAL_MINUTES = 60;
+
+// 排队等待并发名额的最长时间
+const CONCURRENCY_WAIT_TIMEOUT_MS = 2 * 60 * 1000;
+
+// 未指定问题时使用的默认分析问题
+export const DEFAULT_SCHEDULE_QUESTION = '请分析当前市场走势并给出关键价位和操作建议';
+
+/**
+ * 推送消息回调（由 Bot 模块提供）
+ */
+export type ScheduleSender = (chatId: number, text: string) => Promise<void>;
+
+/**
+ * 根据聊天ID推断聊天类型（超级群ID以-100开头）
+ */
+function inferChatType(chatId: number): 'private' | 'group' | 'supergroup' {
+  if (chatId > 0) {
+    return 'private';
+  }
+  return String(chatId).startsWith('-100') ? 'supergroup' : 'group';
+}
+
+/**
+ * 定时分析管理器类
+ */
+export class ScheduleManager {
+  private timer: NodeJS.Timeout | null = null;
+  private sender: ScheduleSender | null = null;
+  /** 每个任务最近一次触发的分钟，避免同一分钟内重复触发 */
+  private lastTriggeredMinute: Map<number, number> = new Map();
+  /** 正在执行中的任务 */
+  private running: Set<number> = new Set();
+
+  /**
+   * 创建定时任务
+   */
+  async createSchedule(params: CreateAnalysisScheduleParams): Promise<AnalysisSchedule> {
+    const normalized = await this.validateParams(params);
+    this.checkChatLimit(normalized.chatId);
+
+    const db = databaseManager.getDatabase();
+    const result = db.prepare(`
+      INSERT INTO analysis_schedules (
+        name, chat_id, cron_expression, symbols, market_type,
+        timeframes, prompt_config_id, question, enabled, created_by
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      normalized.name,
+      normalized.chatId,
+      normalized.cronExpression,
+      JSON.stringify(normalized.symbols),
+      normalized.marketType,
+      JSON.stringify(normalized.timeframes),
+      normalized.promptConfigId,
+      normalized.question,
+      normalized.enabled ? 1 : 0,
+      params.createdBy ?? null
+    );
+
+    const schedule = this.getSchedule(result.lastInsertRowid as number)!;
+
+    logger.info('定时分析任务创建成功', {
+      scheduleId: schedule.id,
+      chatId: schedule.chatId,
+      cronExpression: schedule.cronExpression,
+      symbols: schedule.symbols
+    });
+
+    return schedule;
+  }
+
+  /**
+   * 更新定时任务（未提供的字段保持不变）
+   */
+  async updateSchedule(id: number, updates: UpdateAnalysisScheduleParams): Promise<AnalysisSchedule | null> {
+    const existing = this.getSchedule(id);
+    if (!existing) {
+      return null;
+    }
+
+    const normalized = await this.validateParams({
+      name: updates.name ?? existing.name,
+      chatId: updates.chatId ?? existing.chatId,
+      cronExpression: updates.cronExpression ?? existing.cronExpression,
+      symbols: updates.symbols ?? existing.symbols,
+      marketType: updates.marketType ?? existing.marketType,
+      timeframes: updates.timeframes ?? existing.timeframes,
+      promptConfigId: updates.promptConfigId !== undefined ? updates.promptConfigId : existing.promptConfigId,
+      question: updates.question ?? existing.question,
+      enabled: updates.enabled ?? existing.enabled
+    });
+    if (normalized.chatId !== existing.chatId) {
+      this.checkChatLimit(normalized.chatId);
+    }
+
+    const db = databaseManager.getDatabase();
+    db.prepare(`
+      UPDATE analysis_schedules SET
+        name = ?, chat_id = ?, cron_expression = ?, symbols = ?, market_type = ?,
+        timeframes = ?, prompt_config_id = ?, question = ?, enabled = ?,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(
+      normalized.name,
+      normalized.chatId,
+      normalized.cronExpression,
+      JSON.stringify(normalized.symbols),
+      normalized.marketType,
+      JSON.stringify(normalized.timeframes),
+      normalized.promptConfigId,
+      normalized.question,
+      normalized.enabled ? 1 : 0,
+      id
+    );
+
+    logger.info('定时分析任务已更新', { scheduleId: id });
+
+    return this.getSchedule(id);
+  }
+
+  /**
+   * 启用或停用定时任务
+   */
+  setEnabled(id: number, enabled: boolean): boolean {
+    const db = databaseManager.getDatabase();
+    const result = db.prepare(`
+      UPDATE analysis_schedules SET enabled = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).run(enabled ? 1 : 0, id);
+
+    if (result.changes > 0) {
+      logger.info(enabled ? '定时分析任务已启用' : '定时分析任务已停用', { scheduleId: id });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * 删除定时任务
+   */
+  deleteSchedule(id: number): boolean {
+    const db = databaseManager.getDatabase();
+    const result = db.prepare('DELETE FROM analysis_schedules WHERE id = ?').run(id);
+
+    if (result.changes > 0) {
+      this.lastTriggeredMinute.delete(id);
+      logger.info('定时分析任务已删除', { scheduleId: id });
+    }
+    return result.changes > 0;
+  }
+
+  /**
+   * 获取单个定时任务
+   */
+  getSchedule(id: number): AnalysisSchedule | null {
+    const db = databaseManager.getDatabase();
+    const row = db.prepare('SELECT * FROM analysis_schedules WHERE id = ?').get(id);
+    return row ? this.mapRow(row) : null;
+  }
+
+  /**
+   * 获取定时任务列表（可按聊天过滤）
+   */
+  listSchedules(chatId?: number): AnalysisSchedule[] {
+    const db = databaseManager.getDatabase();
+    const rows = chatId !== undefined
+      ? db.prepare('SELECT * FROM analysis_schedules WHERE chat_id = ? ORDER BY id').all(chatId)
+      : db.prepare('SELECT * FROM analysis_schedules ORDER BY id').all();
+    return rows.map(row => this.mapRow(row));
+  }
+
+  /**
+   * 启动后台定时检查
+   */
+  start(sender: ScheduleSender): void {
+    this.sender = sender;
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.checkSchedules();
+    }, SCHEDULE_CHECK_INTERVAL_MS);
+
+    logger.info('定时分析调度已启动', {
+      intervalMs: SCHEDULE_CHECK_INTERVAL_MS,
+      timezone: config.timezone
+    });
+  }
+
+  /**
+   * 停止后台定时检查
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('定时分析调度已停止');
+    }
+    this.sender = null;
+  }
+
+  /**
+   * 检查所有启用的任务，触发匹配当前分钟的任务
+   */
+  checkSchedules(now: number = Date.now()): void {
+    // 在定时器回调中执行，异常只记录日志，不影响下一轮检查
+    try {
+      const minute = Math.floor(now / 60000);
+      const db = databaseManager.getDatabase();
+      const rows = db.prepare('SELECT * FROM analysis_schedules WHERE enabled = 1').all();
+
+      for (const row of rows) {
+        this.checkSchedule(row, now, minute);
+      }
+    } catch (error) {
+      logger.error('检查定时任务失败', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * 检查单个任务，匹配当前分钟时触发（单个任务出错不影响其他任务）
+   */
+  private checkSchedule(row: unknown, now: number, minute: number): void {
+    let schedule: AnalysisSchedule;
+    try {
+      schedule = this.mapRow(row);
+      if (this.lastTriggeredMinute.get(schedule.id) === minute
+        || !matchesCron(parseCronExpression(schedule.cronExpression), now, config.timezone)) {
+        return;
+      }
+    } catch (error) {
+      logger.warn('定时任务记录无效，已跳过', {
+        scheduleId: (row as { id?: number }).id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return;
+    }
+
+    this.lastTriggeredMinute.set(schedule.id, minute);
+
+    // 不等待执行完成，避免耗时任务阻塞其他任务的触发
+    this.runSchedule(schedule.id).catch(error => {
+      logger.error('定时分析任务执行失败', {
+        scheduleId: schedule.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  }
+
+  /**
+   * 立即执行定时任务（按交易对依次分析并推送）
+   */
+  async runSchedule(id: number): Promise<void> {
+    const schedule = this.getSchedule(id);
+    if (!schedule) {
+      throw new TradingAnalysisError(`定时任务 #${id} 不存在`, 'SCHEDULE_NOT_FOUND', { scheduleId: id });
+    }
+    if (!this.sender) {
+      throw new TradingAnalysisError('Bot未启动，无法推送定时分析', 'SCHEDULER_NOT_STARTED');
+    }
+    if (this.running.has(id)) {
+      throw new TradingAnalysisError(`定时任务 #${id} 正在执行中`, 'SCHEDULE_RUNNING', { scheduleId: id });
+    }
+
+    const sender = this.sender;
+    this.running.add(id);
+    logger.info('开始执行定时分析任务', {
+      scheduleId: id,
+      chatId: schedule.chatId,
+      symbols: schedule.symbols
+    });
+
+    try {
+      for (const symbol of schedule.symbols) {
+        // 每个交易对单独记录审计日志，AI用量分别关联；配额用完后跳过剩余交易对
+        if (!(await aiUsageTracker.run(() => this.runSymbol(schedule, symbol, sender)))) {
+          break;
+        }
+      }
+
+      const db = databaseManager.getDatabase();
+      db.prepare(`
+        UPDATE analysis_schedules SET last_run_at = ? WHERE id = ?
+      `).run(new Date().toISOString(), id);
+
+      logger.info('定时分析任务执行完成', { scheduleId: id });
+    } finally {
+      this.running.delete(id);
+    }
+  }
+
+  /**
+   * 分析单个交易对并推送结果，同时记录审计日志；超出创建者或聊天的配额时返回 false
+   */
+  private async runSymbol(schedule: AnalysisSchedule, symbol: string, sender: ScheduleSender): Promise<boolean> {
+    const startTime = Date.now();
+    // 定时任务不参与提示词A/B实验，未指定版本时使用当前启用版本
+    const promptConfigId = schedule.promptConfigId ?? (await promptManager.getConfig()).id;
+    const baseAuditParams = {
+      telegramUserId: schedule.createdBy ?? 0,
+      telegramDisplayName: `定时任务: ${schedule.name}`,
+      chatId: schedule.chatId,
+      chatType: inferChatType(schedule.chatId),
+      sourceType: 'scheduled' as const,
+      questionText: schedule.question,
+      identifiedCurrency: symbol,
+      currencyType: schedule.marketType,
+      promptConfigId,
+      aiModel: aiProviderManager.getStageTarget('analysis').model
+    };
+
+    // 排队前先检查配额，超出时不占用排队名额
+    const ownerId = schedule.createdBy ?? 0;
+    const precheckDenial = quotaManager.check(ownerId, schedule.chatId, baseAuditParams.chatType);
+    if (precheckDenial) {
+      await this.reportQuotaDenial(schedule, symbol, precheckDenial, baseAuditParams, startTime, sender);
+      return false;
+    }
+
+    // 定时任务与用户请求一起排队，开始后已占用并发名额
+    const outcome = await concurrencyManager.enqueueAnalysis(schedule.chatId, {
+      timeoutMs: CONCURRENCY_WAIT_TIMEOUT_MS
+    }).result;
+    if (outcome !== 'started') {
+      logger.warn('未能获得并发名额，跳过本次定时分析', { scheduleId: schedule.id, symbol, outcome });
+      await auditLogger.log({
+        ...baseAuditParams,
+        resultStatus: 'other_error',
+        errorMessage: outcome === 'timeout' ? '等待并发名额超时' : '并发限制 - 排队已满',
+        processingTimeMs: auditLogger.calculateProcessingTime(startTime)
+      });
+      return true;
+    }
+
+    // 开始分析后按任务创建者和所在群扣减配额，与用户直接提问一致
+    const denial = quotaManager.consume(ownerId, schedule.chatId, baseAuditParams.chatType);
+    if (denial) {
+      concurrencyManager.finishAnalysis(schedule.chatId);
+      await this.reportQuotaDenial(schedule, symbol, denial, baseAuditParams, startTime, sender);
+      return false;
+    }
+
+    try {
+      const [klineData, futuresData] = await Promise.all([
+        getKlineData(symbol, schedule.marketType, 100, schedule.timeframes),
+        schedule.marketType === 'futures' ? getFuturesMarketData(symbol) : Promise.resolve(null)
+      ]);
+
+      const marketText = schedule.marketType === 'futures' ? '合约' : '现货';
+      const title = schedule.name.replace(/[*_`\[]/g, '');
+      await sender(schedule.chatId, `⏰ *${title}* · ${symbol} (${marketText})`);
+
+      let responseLength = 0;
+      const analysisOptions = promptConfigId !== undefined
+        ? { promptConfigId, futuresData }
+        : { futuresData };
+
+      await analyzeStreamingTrading(
+        schedule.question,
+        symbol,
+        klineData,
+        async (content: string, _isComplete: boolean, isNewSegment?: boolean) => {
+          if (isNewSegment) {
+            responseLength += content.length;
+            await sender(schedule.chatId, content);
+          }
+        },
+        analysisOptions
+      );
+
+      await auditLogger.log({
+        ...baseAuditParams,
+        resultStatus: 'success',
+        responseLength,
+        processingTimeMs: auditLogger.calculateProcessingTime(startTime)
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error('定时分析交易对失败', { scheduleId: schedule.id, symbol, error: message });
+
+      await auditLogger.log({
+        ...baseAuditParams,
+        resultStatus: 'other_error',
+        errorMessage: message,
+        processingTimeMs: auditLogger.calculateProcessingTime(startTime)
+      });
+
+      await sender(schedule.chatId, `❌ 定时分析 ${symbol} 失败，请稍后再试。`).catch(() => undefined);
+    } finally {
+      concurrencyManager.finishAnalysis(schedule.chatId);
+    }
+    return true;
+  }
+
+  /**
+   * 超出配额时记录审计日志并在聊天中提示本次未执行
+   */
+  private async reportQuotaDenial(
+    schedule: AnalysisSchedule,
+    symbol: string,
+    denial: QuotaDenial,
+    baseAuditParams: Omit<CreateAuditLogParams, 'resultStatus'>,
+    startTime: number,
+    sender: ScheduleSender
+  ): Promise<void> {
+    logger.warn('超出配额，跳过本次定时分析', { scheduleId: schedule.id, symbol, limitType: denial.limitType });
+    await auditLogger.log({
+      ...baseAuditParams,
+      resultStatus: 'other_error',
+      errorMessage: describeQuotaAuditMessage(denial),
+      processingTimeMs: auditLogger.calculateProcessingTime(startTime)
+    });
+    await sender(schedule.chatId, `⏰ 定时任务 #${schedule.id} 本次未执行：${describeQuotaDenial(denial)}`).catch(() => undefined);
+  }
+
+  /**
+   * 检查聊天中的任务数量是否已达上限
+   */
+  private checkChatLimit(chatId: number): void {
+    const db = databaseManager.getDatabase();
+    const { count } = db.prepare('SELECT COUNT(*) AS count FROM analysis_schedules WHERE chat_id = ?')
+      .get(chatId) as { count: number };
+    if (count >= MAX_SCHEDULES_PER_CHAT) {
+      throw new TradingAnalysisError(
+        `每个聊天最多设置 ${MAX_SCHEDULES_PER_CHAT} 个定时任务，请先删除不需要的任务`,
+        'SCHEDULE_LIMIT',
+        { chatId, count }
+      );
+    }
+  }
+
+  /**
+   * 校验并标准化任务参数
+   */
+  private async validateParams(params: CreateAnalysisScheduleParams): Promise<{
+    name: string;
+    chatId: number;
+    cronExpression: string;
+    symbols: string[];
+    marketType: TradingPairType;
+    timeframes: TimeframeType[];
+    promptConfigId: number | null;
+    question: string;
+    enabled: boolean;
+  }> {
+    const name = params.name?.trim();
+    if (!name) {
+      throw new TradingAnalysisError('任务名称不能为空', 'INVALID_SCHEDULE');
+    }
+
+    if (!Number.isInteger(params.chatId) || params.chatId === 0) {
+      throw new TradingAnalysisError('无效的聊天ID', 'INVALID_SCHEDULE', { chatId: params.chatId });
+    }
+
+    const cronExpression = params.cronExpression?.trim().replace(/\s+/g, ' ') || '';
+    let cronSchedule;
+    try {
+      cronSchedule = parseCronExpression(cronExpression);
+    } catch (error) {
+      throw new TradingAnalysisError(
+        `无效的cron表达式: ${error instanceof Error ? error.message : String(error)}`,
+        'INVALID_SCHEDULE',
+        { cronExpression }
+      );
+    }
+
+    const intervalMinutes = getMinIntervalMinutes(cronSchedule);
+    if (intervalMinutes < MIN_SCHEDULE_INTERVAL_MINUTES) {
+      throw new TradingAnalysisError(
+        `定时任务的执行间隔不能少于 ${MIN_SCHEDULE_INTERVAL_MINUTES} 分钟（当前最短 ${intervalMinutes} 分钟）`,
+        'INVALID_SCHEDULE',
+        { cronExpression, intervalMinutes }
+      );
+    }
+
+    const symbols = [...new Set((params.symbols || []).map(s => s.trim()).filter(Boolean).map(normalizeSymbol))];
+    if (symbols.length === 0 || symbols.length > MAX_SCHEDULE_SYMBOLS) {
+      throw new TradingAnalysisError(
+        `交易对数量需要在 1-${MAX_SCHEDULE_SYMBOLS} 之间`,
+        'INVALID_SCHEDULE',
+        { count: symbols.length }
+      );
+    }
+
+    const marketType = params.marketType || 'spot';
+    if (marketType !== 'spot' && marketType !== 'futures') {
+      throw new TradingAnalysisError(`无效的市场类型: ${marketType}`, 'INVALID_SCHEDULE');
+    }
+
+    const timeframes = params.timeframes && params.timeframes.length > 0
+      ? [...new Set(params.timeframes)]
+      : [...TIMEFRAMES];
+    const invalidTimeframes = timeframes.filter(tf => !TIMEFRAMES.includes(tf));
+    if (invalidTimeframes.length > 0) {
+      throw new TradingAnalysisError(
+        `不支持的时间框架: ${invalidTimeframes.join(', ')}`,
+        'INVALID_SCHEDULE',
+        { supported: TIMEFRAMES }
+      );
+    }
+
+    const promptConfigId = params.promptConfigId ?? null;
+    if (promptConfigId !== null) {
+      try {
+        await promptManager.getConfigById(promptConfigId);
+      } catch {
+        throw new TradingAnalysisError(`提示词版本 #${promptConfigId} 不存在`, 'INVALID_SCHEDULE');
+      }
+    }
+
+    return {
+      name,
+      chatId: params.chatId,
+      cronExpression,
+      symbols,
+      marketType,
+      // 保持与 TIMEFRAMES 相同的顺序
+      timeframes: TIMEFRAMES.filter(tf => timeframes.includes(tf)),
+      promptConfigId,
+      question: params.question?.trim() || DEFAULT_SCHEDULE_QUESTION,
+      enabled: params.enabled ?? true
+    };
+  }
+
+  /**
+   * 数据库记录转换为任务对象
+   */
+  private mapRow(row: any): AnalysisSchedule {
+    const schedule: AnalysisSchedule = {
+      id: row.id,
+      name: row.name,
+      chatId: row.chat_id,
+      cronExpression: row.cron_expression,
+      symbols: JSON.parse(row.symbols),
+      marketType: row.market_type,
+      timeframes: JSON.parse(row.timeframes),
+      question: row.question,
+      enabled: Boolean(row.enabled),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    };
+
+    // 只有非空时才添加可选字段
+    if (row.prompt_config_id !== null) schedule.promptConfigId = row.prompt_config_id;
+    if (row.created_by !== null) schedule.createdBy = row.created_by;
+    if (row.last_run_at) schedule.lastRunAt = row.last_run_at;
+
+    return schedule;
+  }
+}
+
+// 导出单例实例
+export const scheduleManager = new ScheduleManager();
@@ -0,0 +1,527 @@
+/**
+ * 交易对注册表模块
+ * 定时从各数据源同步交易规则并保存到 SQLite，识别交易对时直接查询内存，无需每次下载 exchangeInfo；
+ * 同步时对比上一次的结果，发现新上线或下架的交易对时发出事件
+ */
+
+import { EventEmitter } from 'events';
+import { logger } from './logger.js';
+import { databaseManager } from './config/database-manager.js';
+import { getProviderChain, type ResolvedTradingPair } from './market-data.js';
+import { splitSymbol, toCanonicalSymbol } from './exchange-utils.js';
+import type { ExchangeId, SymbolInfo, TradingPairType } from './types.js';
+
+// 定时同步间隔
+const SYMBOL_REFRESH_INTERVAL_MS = 30 * 60 * 1000;
+
+// 下架后在注册表中的状态
+const REMOVED_STATUS = 'REMOVED';
+
+// 模糊匹配默认返回的候选数量
+const DEFAULT_FUZZY_LIMIT = 5;
+
+// 模糊匹配结果可以直接采用的最低得分
+const CONFIDENT_MATCH_SCORE = 0.9;
+
+/**
+ * 数据库中的交易对记录
+ */
+interface SymbolRegistryRecord {
+  exchange: ExchangeId;
+  market_type: TradingPairType;
+  symbol: string;
+  base_asset: string;
+  quote_asset: string;
+  status: string;
+  trading: number;
+  tick_size: number | null;
+  step_size: number | null;
+  min_qty: number | null;
+  min_notional: number | null;
+  listed_at: number | null;
+  contract_type: string | null;
+}
+
+/**
+ * 单次同步结果
+ */
+export interface SymbolRefreshSummary {
+  /** 同步成功的数据源（交易所:市场） */
+  refreshed: string[];
+  /** 同步失败的数据源及原因 */
+  failed: Array<{ source: string; error: string }>;
+  listed: number;
+  delisted: number;
+  /** 同步后正在交易的交易对数量 */
+  total: number;
+}
+
+/**
+ * 模糊匹配结果
+ */
+export interface SymbolMatch {
+  info: SymbolInfo;
+  /** 匹配得分（0-1，越高越接近） */
+  score: number;
+}
+
+/**
+ * 注册表事件
+ */
+export interface SymbolRegistryEvents {
+  /** 新上线（或恢复交易）的交易对 */
+  listed: [SymbolInfo];
+  /** 下架或暂停交易的交易对 */
+  delisted: [SymbolInfo];
+  /** 完成一次同步 */
+  refreshed: [SymbolRefreshSummary];
+}
+
+/**
+ * 去掉基础币种的数量前缀（如 1000PEPE → PEPE、1MBABYDOGE → BABYDOGE）
+ */
+function stripMultiplier(baseAsset: string): string {
+  return baseAsset.replace(/^1(0+|M)(?=[A-Z])/, '');
+}
+
+/**
+ * 计算两个字符串的编辑距离
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length]!;
+}
+
+/**
+ * 交易对注册表
+ */
+class SymbolRegistry extends EventEmitter<SymbolRegistryEvents> {
+  private symbols = new Map<string, SymbolInfo>();
+  private loaded = false;
+  private refreshing: Promise<SymbolRefreshSummary> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private lastRefreshAt = 0;
+
+  /**
+   * 启动定时同步（立即执行一次）
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.refreshInBackground();
+    this.timer = setInterval(() => this.refreshInBackground(), SYMBOL_REFRESH_INTERVAL_MS);
+
+    logger.info('交易对注册表定时同步已启动', { intervalMs: SYMBOL_REFRESH_INTERVAL_MS });
+  }
+
+  /**
+   * 停止定时同步
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('交易对注册表定时同步已停止');
+    }
+  }
+
+  /**
+   * 确保注册表已有数据：先从数据库加载，仍为空时立即同步一次
+   */
+  async ensureLoaded(): Promise<void> {
+    this.loadFromDatabase();
+    if (this.getSymbols('spot').length === 0 && this.getSymbols('futures').length === 0) {
+      await this.refresh();
+    }
+  }
+
+  /**
+   * 从所有已配置的数据源同步交易对（并发调用时共享同一次同步）
+   */
+  async refresh(): Promise<SymbolRefreshSummary> {
+    if (!this.refreshing) {
+      this.refreshing = this.doRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * 获取正在交易的交易对（按数据源优先级合并去重）
+   */
+  getSymbols(tradingPairType: TradingPairType): string[] {
+    const symbols = new Set<string>();
+    for (const exchange of this.getExchangeOrder()) {
+      for (const info of this.symbols.values()) {
+        if (info.exchange === exchange && info.tradingPairType === tradingPairType && info.trading) {
+          symbols.add(info.symbol);
+        }
+      }
+    }
+    return Array.from(symbols);
+  }
+
+  /**
+   * 获取交易对详细信息，不指定交易所时按数据源优先级返回第一个正在交易的
+   */
+  getSymbolInfo(symbol: string, tradingPairType: TradingPairType, exchange?: ExchangeId): SymbolInfo | null {
+    const cleanSymbol = toCanonicalSymbol(symbol);
+    const exchanges = exchange ? [exchange] : this.getExchangeOrder();
+
+    for (const id of exchanges) {
+      const info = this.symbols.get(this.getKey(id, tradingPairType, cleanSymbol));
+      if (info && (exchange || info.trading)) {
+        return info;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 在注册表中查找交易对（无网络请求），指定类型不存在时尝试另一种类型
+   */
+  resolve(symbol: string, tradingPairType: TradingPairType = 'spot'): ResolvedTradingPair | null {
+    const fallbackType: TradingPairType = tradingPairType === 'spot' ? 'futures' : 'spot';
+
+    for (const type of [tradingPairType, fallbackType]) {
+      const info = this.getSymbolInfo(symbol, type);
+      if (info) {
+        return { symbol: info.symbol, tradingPairType: type, exchange: info.exchange };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 按基础币种查找正在交易的交易对（忽略 1000PEPE 这类数量前缀）
+   */
+  findByBaseAsset(baseAsset: string, tradingPairType?: TradingPairType): SymbolInfo[] {
+    const target = stripMultiplier(baseAsset.trim().toUpperCase());
+    return this.getTradingInfos(tradingPairType).filter(info => stripMultiplier(info.baseAsset) === target);
+  }
+
+  /**
+   * 按计价币种查找正在交易的交易对
+   */
+  findByQuoteAsset(quoteAsset: string, tradingPairType?: TradingPairType): SymbolInfo[] {
+    const target = quoteAsset.trim().toUpperCase();
+    return this.getTradingInfos(tradingPairType).filter(info => info.quoteAsset === target);
+  }
+
+  /**
+   * 模糊匹配交易对，用于纠正拼写错误或缺少计价币种的输入（如 PEPE、BTCUSD、ETHUSTD）
+   */
+  fuzzyMatch(query: string, tradingPairType?: TradingPairType, limit: number = DEFAULT_FUZZY_LIMIT): SymbolMatch[] {
+    const cleanQuery = toCanonicalSymbol(query);
+    if (!cleanQuery) {
+      return [];
+    }
+
+    const parts = splitSymbol(cleanQuery);
+    const queryBase = stripMultiplier(parts?.base ?? cleanQuery);
+    const queryQuote = parts?.quote ?? 'USDT';
+    const best = new Map<string, SymbolMatch>();
+
+    for (const info of this.getTradingInfos(tradingPairType)) {
+      const base = stripMultiplier(info.baseAsset);
+      let score = 0;
+
+      if (info.symbol === cleanQuery) {
+        score = 1;
+      } else if (base === queryBase) {
+        score = 0.85;
+      } else if (queryBase.length >= 3 && (base.startsWith(queryBase) || queryBase.startsWith(base)) && base.length >= 3) {
+        score = 0.65;
+      } else if (queryBase.length >= 4) {
+        const distance = editDistance(base, queryBase);
+        if (distance === 1) {
+          score = 0.6;
+        } else if (distance === 2 && queryBase.length >= 6) {
+          score = 0.45;
+        }
+      }
+
+      if (score === 0) {
+        continue;
+      }
+      // 计价币种一致时加分，便于 BTC 优先匹配到 BTCUSDT
+      if (score < 1 && info.quoteAsset === queryQuote) {
+        score += 0.1;
+      }
+
+      // 同一交易对在多个交易所存在时只保留一个
+      const key = `${info.symbol}|${info.tradingPairType}`;
+      const existing = best.get(key);
+      if (!existing || existing.score < score) {
+        best.set(key, { info, score: Number(score.toFixed(2)) });
+      }
+    }
+
+    return Array.from(best.values())
+      .sort((a, b) =>
+        b.score - a.score ||
+        Number(a.info.tradingPairType !== 'spot') - Number(b.info.tradingPairType !== 'spot')
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * 返回足够可信的唯一模糊匹配结果：得分不低于阈值且没有同分的其他候选，否则返回 null
+   */
+  findBestMatch(query: string, tradingPairType?: TradingPairType): SymbolMatch | null {
+    const [best, second] = this.fuzzyMatch(query, tradingPairType, 2);
+    if (!best || best.score < CONFIDENT_MATCH_SCORE || (second && second.score >= best.score)) {
+      return null;
+    }
+    return best;
+  }
+
+  /**
+   * 获取注册表状态
+   */
+  getStatus(): { loaded: boolean; lastRefreshAt: string | null; spot: number; futures: number } {
+    return {
+      loaded: this.loaded,
+      lastRefreshAt: this.lastRefreshAt ? new Date(this.lastRefreshAt).toISOString() : null,
+      spot: this.getSymbols('spot').length,
+      futures: this.getSymbols('futures').length
+    };
+  }
+
+  /**
+   * 后台同步，失败只记录日志
+   */
+  private refreshInBackground(): void {
+    this.refresh().catch(error => {
+      logger.error('交易对注册表同步失败', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  }
+
+  /**
+   * 执行一次同步
+   */
+  private async doRefresh(): Promise<SymbolRefreshSummary> {
+    this.loadFromDatabase();
+
+    const sources = getProviderChain().flatMap(provider =>
+      (['spot', 'futures'] as const).map(tradingPairType => ({ provider, tradingPairType }))
+    );
+    const results = await Promise.allSettled(
+      sources.map(({ provider, tradingPairType }) => provider.getSymbolInfos(tradingPairType))
+    );
+
+    const summary: SymbolRefreshSummary = { refreshed: [], failed: [], listed: 0, delisted: 0, total: 0 };
+
+    results.forEach((result, index) => {
+      const { provider, tradingPairType } = sources[index]!;
+      const source = `${provider.id}:${tradingPairType}`;
+
+      if (result.status === 'rejected') {
+        summary.failed.push({
+          source,
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+        });
+        return;
+      }
+
+      const { listed, delisted } = this.applySnapshot(provider.id, tradingPairType, result.value);
+      summary.refreshed.push(source);
+      summary.listed += listed.length;
+      summary.delisted += delisted.length;
+
+      listed.forEach(info => this.emit('listed', info));
+      delisted.forEach(info => this.emit('delisted', info));
+    });
+
+    summary.total = this.getSymbols('spot').length + this.getSymbols('futures').length;
+    if (summary.refreshed.length > 0) {
+      this.lastRefreshAt = Date.now();
+    }
+
+    logger.info('交易对注册表同步完成', { ...summary });
+    this.emit('refreshed', summary);
+
+    if (summary.refreshed.length === 0 && summary.failed.length > 0) {
+      throw new Error(`所有数据源的交易对同步均失败: ${summary.failed.map(item => item.source).join(', ')}`);
+    }
+
+    return summary;
+  }
+
+  /**
+   * 用最新快照更新某个数据源的交易对，返回上线和下架的交易对
+   * 数据源首次同步时只建立基线，不产生事件
+   */
+  private applySnapshot(
+    exchange: ExchangeId,
+    tradingPairType: TradingPairType,
+    infos: SymbolInfo[]
+  ): { listed: SymbolInfo[]; delisted: SymbolInfo[] } {
+    const previous = new Map<string, SymbolInfo>();
+    for (const info of this.symbols.values()) {
+      if (info.exchange === exchange && info.tradingPairType === tradingPairType) {
+        previous.set(info.symbol, info);
+      }
+    }
+    const isBaseline = previous.size === 0;
+
+    const listed: SymbolInfo[] = [];
+    const delisted: SymbolInfo[] = [];
+    const latest = new Map(infos.map(info => [info.symbol, info]));
+
+    for (const info of latest.values()) {
+      const before = previous.get(info.symbol);
+      if (!isBaseline && info.trading && !before?.trading) {
+        listed.push(info);
+      } else if (before?.trading && !info.trading) {
+        delisted.push(info);
+      }
+    }
+
+    // 快照中已不存在的交易对视为下架，保留记录并标记状态
+    const removed: SymbolInfo[] = [];
+    for (const info of previous.values()) {
+      if (!latest.has(info.symbol) && info.status !== REMOVED_STATUS) {
+        const removedInfo = { ...info, status: REMOVED_STATUS, trading: false };
+        removed.push(removedInfo);
+        if (info.trading) {
+          delisted.push(removedInfo);
+        }
+      }
+    }
+
+    this.saveSymbols([...latest.values(), ...removed]);
+
+    if (listed.length > 0 || delisted.length > 0) {
+      logger.info('交易对上线/下架变化', {
+        exchange,
+        tradingPairType,
+        listed: listed.map(info => info.symbol),
+        delisted: delisted.map(info => info.symbol)
+      });
+    }
+
+    return { listed, delisted };
+  }
+
+  /**
+   * 保存交易对到数据库和内存
+   */
+  private saveSymbols(infos: SymbolInfo[]): void {
+    if (infos.length === 0) {
+      return;
+    }
+
+    const db = databaseManager.getDatabase();
+    const upsert = db.prepare(`
+      INSERT INTO symbol_registry (
+        exchange, market_type, symbol, base_asset, quote_asset, status, trading,
+        tick_size, step_size, min_qty, min_notional, listed_at, contract_type
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (exchange, market_type, symbol) DO UPDATE SET
+        base_asset = excluded.base_asset,
+        quote_asset = excluded.quote_asset,
+        status = excluded.status,
+        trading = excluded.trading,
+        tick_size = excluded.tick_size,
+        step_size = excluded.step_size,
+        min_qty = excluded.min_qty,
+        min_notional = excluded.min_notional,
+        listed_at = excluded.listed_at,
+        contract_type = excluded.contract_type,
+        updated_at = CURRENT_TIMESTAMP
+    `);
+
+    db.transaction(() => {
+      for (const info of infos) {
+        upsert.run(
+          info.exchange, info.tradingPairType, info.symbol, info.baseAsset, info.quoteAsset,
+          info.status, info.trading ? 1 : 0, info.tickSize, info.stepSize, info.minQty,
+          info.minNotional, info.listedAt, info.contractType
+        );
+        this.symbols.set(this.getKey(info.exchange, info.tradingPairType, info.symbol), info);
+      }
+    })();
+  }
+
+  /**
+   * 首次使用时从数据库加载上一次同步的结果
+   */
+  private loadFromDatabase(): void {
+    if (this.loaded) {
+      return;
+    }
+
+    const records = databaseManager.getDatabase()
+      .prepare('SELECT * FROM symbol_registry')
+      .all() as SymbolRegistryRecord[];
+
+    for (const record of records) {
+      const info: SymbolInfo = {
+        symbol: record.symbol,
+        exchange: record.exchange,
+        tradingPairType: record.market_type,
+        baseAsset: record.base_asset,
+        quoteAsset: record.quote_asset,
+        status: record.status,
+        trading: Boolean(record.trading),
+        tickSize: record.tick_size,
+        stepSize: record.step_size,
+        minQty: record.min_qty,
+        minNotional: record.min_notional,
+        listedAt: record.listed_at,
+        contractType: record.contract_type
+      };
+      this.symbols.set(this.getKey(info.exchange, info.tradingPairType, info.symbol), info);
+    }
+
+    this.loaded = true;
+    logger.debug('交易对注册表已从数据库加载', { count: records.length });
+  }
+
+  /**
+   * 获取正在交易、且交易所在当前数据源配置中的交易对
+   */
+  private getTradingInfos(tradingPairType?: TradingPairType): SymbolInfo[] {
+    this.loadFromDatabase();
+    const exchanges = new Set(this.getExchangeOrder());
+    return Array.from(this.symbols.values()).filter(info =>
+      info.trading &&
+      exchanges.has(info.exchange) &&
+      (!tradingPairType || info.tradingPairType === tradingPairType)
+    );
+  }
+
+  /**
+   * 按数据源优先级排列的交易所
+   */
+  private getExchangeOrder(): ExchangeId[] {
+    this.loadFromDatabase();
+    return getProviderChain().map(provider => provider.id);
+  }
+
+  /**
+   * 生成注册表键
+   */
+  private getKey(exchange: ExchangeId, tradingPairType: TradingPairType, symbol: string): string {
+    return `${exchange}|${tradingPairType}|${symbol}`;
+  }
+}
+
+// 导出单例实例
+export const symbolRegistry = new SymbolRegistry();
@@ -0,0 +1,69 @@
+/**
+ * Telegram Webhook 支持
+ * 校验 Telegram 回传的密钥，并按 update_id 过滤重复推送（Telegram 未收到 2xx 响应时会重发同一更新）
+ */
+
+import crypto from 'crypto';
+
+// HTTP服务器上接收 Telegram 推送的路径
+export const TELEGRAM_WEBHOOK_PATH = '/telegram/webhook';
+
+// Telegram 回传密钥的请求头（Node 中请求头名称为小写）
+export const TELEGRAM_SECRET_HEADER = 'x-telegram-bot-api-secret-token';
+
+// 记录最近处理过的更新数量
+const MAX_TRACKED_UPDATES = 1000;
+
+/**
+ * 校验请求头中的密钥（定长比较，避免通过响应时间猜测密钥）
+ */
+export function verifyWebhookSecret(header: string | string[] | undefined, secret: string): boolean {
+  if (!secret || typeof header !== 'string') {
+    return false;
+  }
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * 更新去重器：记录最近处理过的 update_id，超出数量后淘汰最早的记录
+ */
+export class UpdateDeduplicator {
+  private seen = new Set<number>();
+  private order: number[] = [];
+
+  /**
+   * 更新是否已经处理过
+   */
+  isDuplicate(updateId: number): boolean {
+    return this.seen.has(updateId);
+  }
+
+  /**
+   * 记录已处理的更新
+   */
+  markProcessed(updateId: number): void {
+    if (this.seen.has(updateId)) {
+      return;
+    }
+
+    this.seen.add(updateId);
+    this.order.push(updateId);
+    if (this.order.length > MAX_TRACKED_UPDATES) {
+      this.seen.delete(this.order.shift()!);
+    }
+  }
+
+  /**
+   * 清空记录（切换机器人令牌后 update_id 重新计数）
+   */
+  clear(): void {
+    this.seen.clear();
+    this.order = [];
+  }
+}
+
+// 导出单例实例
+export const webhookUpdateDeduplicator = new UpdateDeduplicator();
@@ -155,6 +155,42 @@ export class TimezoneConverter {
     return timestamps.map(ts => this.formatTimestamp(ts, false));
   }
 
+  /**
+   * 获取时间戳在目标时区的日期时间组成部分（weekday: 0=周日）
+   */
+  getDateParts(timestamp: number): {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    weekday: number;
+  } {
+    const formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: this.targetTimezone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+      hour12: false
+    });
+    const parts = formatter.formatToParts(new Date(timestamp));
+    const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '0';
+    const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+    return {
+      year: parseInt(get('year'), 10),
+      month: parseInt(get('month'), 10),
+      day: parseInt(get('day'), 10),
+      // 部分运行环境会将午夜格式化为24
+      hour: parseInt(get('hour'), 10) % 24,
+      minute: parseInt(get('minute'), 10),
+      weekday: weekdays.indexOf(get('weekday'))
+    };
+  }
+
   /**
    * 获取时区信息
    */
@@ -206,6 +242,34 @@ export function getCurrentTime(): string {
   return timezoneConverter.getCurrentTime();
 }
 
+/**
+ * 便捷函数：获取指定时区的日期时间组成部分（未指定时区时使用全局转换器）
+ */
+export function getDateParts(timestamp: number, timezone?: string) {
+  const converter = timezone ? new TimezoneConverter(timezone) : timezoneConverter;
+  return converter.getDateParts(timestamp);
+}
+
+/**
+ * 便捷函数：获取指定时区下一个自然日或自然月开始的时间戳（未指定时区时使用全局转换器）
+ */
+export function getNextPeriodStart(timestamp: number, period: 'day' | 'month', timezone?: string): number {
+  // 目标时区相对UTC的偏移（毫秒，精确到分钟）
+  const getOffset = (ts: number): number => {
+    const parts = getDateParts(ts, timezone);
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - Math.floor(ts / 60000) * 60000;
+  };
+
+  const parts = getDateParts(timestamp, timezone);
+  const localStart = period === 'day'
+    ? Date.UTC(parts.year, parts.month - 1, parts.day + 1)
+    : Date.UTC(parts.year, parts.month, 1);
+
+  // 按边界时刻的偏移再修正一次，处理夏令时切换
+  const estimate = localStart - getOffset(timestamp);
+  return localStart - getOffset(estimate);
+}
+
 /**
  * 便捷函数：获取时区信息
  */
@@ -0,0 +1,484 @@
+/**
+ * 结构化交易计划模块
+ * 定义AI结构化输出的JSON Schema，校验AI返回的交易计划（方向、入场、止损、止盈），
+ * 渲染为Telegram消息，并保存到数据库与对应的审计日志关联
+ */
+
+import { logger } from './logger.js';
+import { databaseManager } from './config/database-manager.js';
+import { formatChartPrice } from './chart.js';
+import { TIMEFRAMES } from './market-data.js';
+import { TradingAnalysisError } from './types.js';
+import type { StructuredOutputSchema } from './ai-client.js';
+import type {
+  ExchangeId,
+  PaginatedResponse,
+  StoredTradeSetup,
+  TimeframeType,
+  TradeDirection,
+  TradeOutcome,
+  TradeSetup,
+  TradingPairType
+} from './types.js';
+
+// 止盈目标数量上限
+const MAX_TAKE_PROFITS = 4;
+
+// 入场价偏离最新价超过该比例时视为无效（通常是AI把价格数量级写错）
+const MAX_ENTRY_DEVIATION = 0.5;
+
+const DIRECTIONS: readonly TradeDirection[] = ['long', 'short', 'neutral'];
+
+const DIRECTION_LABELS: Record<TradeDirection, string> = {
+  long: '🟢 做多',
+  short: '🔴 做空',
+  neutral: '⚪ 观望'
+};
+
+/**
+ * 交易计划的结构化输出定义（字段全部必填，可空字段用 null 表示，以兼容 OpenAI strict 模式）
+ */
+export const TRADE_SETUP_SCHEMA: StructuredOutputSchema = {
+  name: 'trade_setup',
+  description: '根据技术分析结论提炼出的交易计划',
+  schema: {
+    type: 'object',
+    properties: {
+      direction: {
+        type: 'string',
+        enum: [...DIRECTIONS],
+        description: '交易方向：long 做多，short 做空，neutral 观望'
+      },
+      confidence: {
+        type: 'integer',
+        description: '置信度，0-100'
+      },
+      timeframe: {
+        type: 'string',
+        enum: [...TIMEFRAMES],
+        description: '计划依据的主要时间框架'
+      },
+      entryLow: {
+        type: ['number', 'null'],
+        description: '入场区间下沿，观望时为 null'
+      },
+      entryHigh: {
+        type: ['number', 'null'],
+        description: '入场区间上沿，观望时为 null'
+      },
+      stopLoss: {
+        type: ['number', 'null'],
+        description: '止损价，观望时为 null'
+      },
+      takeProfits: {
+        type: 'array',
+        items: { type: 'number' },
+        description: `止盈目标，由近到远排列，最多${MAX_TAKE_PROFITS}个，观望时为空数组`
+      },
+      invalidation: {
+        type: 'string',
+        description: '计划失效条件，例如“4小时收盘跌破某价位”'
+      },
+      rationale: {
+        type: 'string',
+        description: '一句话说明理由'
+      }
+    },
+    required: [
+      'direction', 'confidence', 'timeframe', 'entryLow', 'entryHigh',
+      'stopLoss', 'takeProfits', 'invalidation', 'rationale'
+    ],
+    additionalProperties: false
+  }
+};
+
+/**
+ * 保存交易计划时的关联信息
+ */
+export interface TradeSetupContext {
+  auditLogId: number | null;
+  promptConfigId: number | null;
+  symbol: string;
+  tradingPairType: TradingPairType;
+  exchange: ExchangeId | null;
+  referencePrice: number;
+}
+
+/**
+ * 数据库记录结构
+ */
+interface TradeSetupRecord {
+  id: number;
+  audit_log_id: number | null;
+  prompt_config_id: number | null;
+  symbol: string;
+  market_type: TradingPairType;
+  exchange: ExchangeId | null;
+  direction: TradeDirection;
+  confidence: number;
+  timeframe: TimeframeType;
+  entry_low: number | null;
+  entry_high: number | null;
+  stop_loss: number | null;
+  take_profits: string;
+  invalidation: string;
+  rationale: string;
+  reference_price: number;
+  outcome: TradeOutcome;
+  targets_hit: number;
+  r_multiple: number | null;
+  evaluated_at: string | null;
+  created_at: string;
+}
+
+/**
+ * 抛出交易计划校验错误
+ */
+function invalid(message: string, details?: Record<string, unknown>): never {
+  throw new TradingAnalysisError(`交易计划无效: ${message}`, 'INVALID_TRADE_SETUP', details);
+}
+
+/**
+ * 读取可空的正数价格
+ */
+function readPrice(value: unknown, field: string): number | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const price = typeof value === 'string' ? Number(value) : value;
+  if (typeof price !== 'number' || !Number.isFinite(price) || price <= 0) {
+    invalid(`${field} 必须是正数`, { [field]: value });
+  }
+  return price;
+}
+
+/**
+ * 读取必填的文本字段
+ */
+function readText(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    invalid(`${field} 不能为空`);
+  }
+  return value.trim();
+}
+
+/**
+ * 校验并规范化AI返回的交易计划
+ * 做多要求 止损 < 入场区间 < 止盈，做空相反；观望时忽略价格字段
+ */
+export function validateTradeSetup(raw: unknown, referencePrice: number): TradeSetup {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    invalid('返回内容不是对象');
+  }
+  const data = raw as Record<string, unknown>;
+
+  const direction = data.direction as TradeDirection;
+  if (!DIRECTIONS.includes(direction)) {
+    invalid(`未知的方向 ${String(data.direction)}`);
+  }
+
+  const confidence = Number(data.confidence);
+  if (!Number.isFinite(confidence) || confidence < 0 || confidence > 100) {
+    invalid('置信度必须在0-100之间', { confidence: data.confidence });
+  }
+
+  const timeframe = data.timeframe as TimeframeType;
+  if (!TIMEFRAMES.includes(timeframe)) {
+    invalid(`未知的时间框架 ${String(data.timeframe)}`);
+  }
+
+  const invalidation = readText(data.invalidation, 'invalidation');
+  const rationale = readText(data.rationale, 'rationale');
+
+  if (direction === 'neutral') {
+    return {
+      direction,
+      confidence: Math.round(confidence),
+      timeframe,
+      entryZone: null,
+      stopLoss: null,
+      takeProfits: [],
+      invalidation,
+      rationale
+    };
+  }
+
+  let entryLow = readPrice(data.entryLow, 'entryLow');
+  let entryHigh = readPrice(data.entryHigh, 'entryHigh');
+  const stopLoss = readPrice(data.stopLoss, 'stopLoss');
+  if (entryLow === null || entryHigh === null || stopLoss === null) {
+    invalid('非观望计划必须包含入场区间和止损');
+  }
+  if (entryLow > entryHigh) {
+    [entryLow, entryHigh] = [entryHigh, entryLow];
+  }
+
+  if (!Array.isArray(data.takeProfits)) {
+    invalid('takeProfits 必须是数组');
+  }
+  const takeProfits = data.takeProfits.map((value, index) => readPrice(value, `takeProfits[${index}]`) as number);
+  if (takeProfits.length === 0) {
+    invalid('至少需要一个止盈目标');
+  }
+
+  const entryMid = (entryLow + entryHigh) / 2;
+  if (Math.abs(entryMid - referencePrice) / referencePrice > MAX_ENTRY_DEVIATION) {
+    invalid('入场区间偏离当前价格过远', { entryLow, entryHigh, referencePrice });
+  }
+
+  if (direction === 'long') {
+    if (stopLoss >= entryLow) {
+      invalid('做多止损必须低于入场区间', { stopLoss, entryLow });
+    }
+    if (takeProfits.some(price => price <= entryHigh!)) {
+      invalid('做多止盈必须高于入场区间', { takeProfits, entryHigh });
+    }
+    takeProfits.sort((a, b) => a - b);
+  } else {
+    if (stopLoss <= entryHigh) {
+      invalid('做空止损必须高于入场区间', { stopLoss, entryHigh });
+    }
+    if (takeProfits.some(price => price >= entryLow!)) {
+      invalid('做空止盈必须低于入场区间', { takeProfits, entryLow });
+    }
+    takeProfits.sort((a, b) => b - a);
+  }
+
+  return {
+    direction,
+    confidence: Math.round(confidence),
+    timeframe,
+    entryZone: { low: entryLow, high: entryHigh },
+    stopLoss,
+    takeProfits: takeProfits.slice(0, MAX_TAKE_PROFITS),
+    invalidation,
+    rationale
+  };
+}
+
+/**
+ * 转义Telegram Markdown特殊字符（AI生成的文本中可能包含下划线等）
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/([_*`[])/g, '\\$1');
+}
+
+/**
+ * 计算价格相对入场区间中点的百分比
+ */
+function formatDistance(price: number, entryMid: number): string {
+  const percent = (price - entryMid) / entryMid * 100;
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+}
+
+/**
+ * 将交易计划渲染为Telegram Markdown消息
+ */
+export function formatTradeSetup(setup: TradeSetup, symbol: string, tradingPairType: TradingPairType): string {
+  const market = tradingPairType === 'futures' ? '合约' : '现货';
+  const lines = [
+    `📋 *交易计划* ${symbol}(${market}) · ${setup.timeframe}`,
+    '',
+    `方向：${DIRECTION_LABELS[setup.direction]}　置信度：${setup.confidence}%`
+  ];
+
+  if (setup.entryZone && setup.stopLoss !== null) {
+    const { low, high } = setup.entryZone;
+    const entryMid = (low + high) / 2;
+    const entryText = low === high
+      ? formatChartPrice(low)
+      : `${formatChartPrice(low)} - ${formatChartPrice(high)}`;
+
+    lines.push(`入场：\`${entryText}\``);
+    lines.push(`止损：\`${formatChartPrice(setup.stopLoss)}\`（${formatDistance(setup.stopLoss, entryMid)}）`);
+    setup.takeProfits.forEach((price, index) => {
+      lines.push(`止盈${index + 1}：\`${formatChartPrice(price)}\`（${formatDistance(price, entryMid)}）`);
+    });
+
+    const risk = Math.abs(entryMid - setup.stopLoss);
+    const firstTarget = setup.takeProfits[0];
+    if (risk > 0 && firstTarget !== undefined) {
+      lines.push(`盈亏比(TP1)：${(Math.abs(firstTarget - entryMid) / risk).toFixed(2)}`);
+    }
+  }
+
+  lines.push('');
+  lines.push(`❌ 失效条件：${escapeMarkdown(setup.invalidation)}`);
+  lines.push(`💡 ${escapeMarkdown(setup.rationale)}`);
+  lines.push('');
+  lines.push('_仅供参考，不构成投资建议_');
+
+  return lines.join('\n');
+}
+
+/**
+ * 将数据库记录转换为交易计划对象
+ */
+function toStoredTradeSetup(record: TradeSetupRecord): StoredTradeSetup {
+  return {
+    id: record.id,
+    auditLogId: record.audit_log_id,
+    promptConfigId: record.prompt_config_id,
+    symbol: record.symbol,
+    tradingPairType: record.market_type,
+    exchange: record.exchange,
+    direction: record.direction,
+    confidence: record.confidence,
+    timeframe: record.timeframe,
+    entryZone: record.entry_low !== null && record.entry_high !== null
+      ? { low: record.entry_low, high: record.entry_high }
+      : null,
+    stopLoss: record.stop_loss,
+    takeProfits: JSON.parse(record.take_profits) as number[],
+    invalidation: record.invalidation,
+    rationale: record.rationale,
+    referencePrice: record.reference_price,
+    outcome: record.outcome,
+    targetsHit: record.targets_hit,
+    rMultiple: record.r_multiple,
+    evaluatedAt: record.evaluated_at,
+    createdAt: record.created_at
+  };
+}
+
+/**
+ * 交易计划存储类
+ */
+export class TradeSetupStore {
+  /**
+   * 保存交易计划（观望计划不参与事后评估）
+   */
+  save(setup: TradeSetup, context: TradeSetupContext): StoredTradeSetup {
+    const result = databaseManager.getDatabase().prepare(`
+      INSERT INTO trade_setups (
+        audit_log_id, prompt_config_id, symbol, market_type, exchange, direction, confidence, timeframe,
+        entry_low, entry_high, stop_loss, take_profits, invalidation, rationale, reference_price, outcome
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      context.auditLogId,
+      context.promptConfigId,
+      context.symbol,
+      context.tradingPairType,
+      context.exchange,
+      setup.direction,
+      setup.confidence,
+      setup.timeframe,
+      setup.entryZone?.low ?? null,
+      setup.entryZone?.high ?? null,
+      setup.stopLoss,
+      JSON.stringify(setup.takeProfits),
+      setup.invalidation,
+      setup.rationale,
+      context.referencePrice,
+      setup.direction === 'neutral' ? 'neutral' : 'pending'
+    );
+
+    const id = Number(result.lastInsertRowid);
+    logger.debug('交易计划已保存', { id, auditLogId: context.auditLogId, symbol: context.symbol });
+    return this.getById(id)!;
+  }
+
+  /**
+   * 根据ID获取交易计划
+   */
+  getById(id: number): StoredTradeSetup | null {
+    const record = databaseManager.getDatabase()
+      .prepare('SELECT * FROM trade_setups WHERE id = ?')
+      .get(id) as TradeSetupRecord | undefined;
+    return record ? toStoredTradeSetup(record) : null;
+  }
+
+  /**
+   * 获取审计日志关联的交易计划
+   */
+  getByAuditLogId(auditLogId: number): StoredTradeSetup | null {
+    const record = databaseManager.getDatabase()
+      .prepare('SELECT * FROM trade_setups WHERE audit_log_id = ? ORDER BY id DESC LIMIT 1')
+      .get(auditLogId) as TradeSetupRecord | undefined;
+    return record ? toStoredTradeSetup(record) : null;
+  }
+
+  /**
+   * 获取待评估的交易计划（从未评估过的优先，其次按上次评估时间从早到晚轮换）
+   */
+  listPending(limit: number): StoredTradeSetup[] {
+    const records = databaseManager.getDatabase()
+      .prepare(`
+        SELECT * FROM trade_setups WHERE outcome = 'pending'
+        ORDER BY evaluated_at IS NOT NULL, evaluated_at, id
+        LIMIT ?
+      `)
+      .all(limit) as TradeSetupRecord[];
+    return records.map(toStoredTradeSetup);
+  }
+
+  /**
+   * 记录评估结果（结果未确定时 outcome 仍为 pending，只更新评估时间）
+   */
+  saveOutcome(id: number, outcome: TradeOutcome, targetsHit: number, rMultiple: number | null): void {
+    databaseManager.getDatabase().prepare(`
+      UPDATE trade_setups
+      SET outcome = ?, targets_hit = ?, r_multiple = ?, evaluated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(outcome, targetsHit, rMultiple, id);
+  }
+
+  /**
+   * 分页获取交易计划及评估结果
+   */
+  listPaged(
+    page: number,
+    limit: number,
+    filters: { symbol?: string; promptConfigId?: number; outcome?: TradeOutcome } = {}
+  ): PaginatedResponse<StoredTradeSetup> {
+    const conditions: string[] = [];
+    const params: Array<string | number> = [];
+    if (filters.symbol) {
+      conditions.push('symbol = ?');
+      params.push(filters.symbol);
+    }
+    if (filters.promptConfigId !== undefined) {
+      conditions.push('prompt_config_id = ?');
+      params.push(filters.promptConfigId);
+    }
+    if (filters.outcome) {
+      conditions.push('outcome = ?');
+      params.push(filters.outcome);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const db = databaseManager.getDatabase();
+    const { total } = db.prepare(`SELECT COUNT(*) AS total FROM trade_setups ${where}`)
+      .get(...params) as { total: number };
+    const records = db.prepare(`SELECT * FROM trade_setups ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`)
+      .all(...params, limit, (page - 1) * limit) as TradeSetupRecord[];
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      data: records.map(toStoredTradeSetup),
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limit,
+        hasNext: page < totalPages,
+        hasPrev: page > 1
+      }
+    };
+  }
+
+  /**
+   * 获取最近的交易计划
+   */
+  listRecent(limit: number = 50, symbol?: string): StoredTradeSetup[] {
+    const db = databaseManager.getDatabase();
+    const records = (symbol
+      ? db.prepare('SELECT * FROM trade_setups WHERE symbol = ? ORDER BY created_at DESC, id DESC LIMIT ?').all(symbol, limit)
+      : db.prepare('SELECT * FROM trade_setups ORDER BY created_at DESC, id DESC LIMIT ?').all(limit)
+    ) as TradeSetupRecord[];
+    return records.map(toStoredTradeSetup);
+  }
+}
+
+// 导出单例实例
+export const tradeSetupStore = new TradeSetupStore();
@@ -1,16 +1,11 @@
 /**
- * 币安交易对获取模块
+ * 交易对获取模块（基于交易对注册表，注册表为空时才会请求交易所）
  * 严格遵守 300 行以内规范
  */
 
-import axios from 'axios';
 import { logger } from './logger.js';
 import { TradingAnalysisError } from './types.js';
-
-// 币安公开API基础URL
-const BINANCE_API_BASE = 'https://api.binance.com/api/v3';
-// 币安合约API基础URL  
-const BINANCE_FUTURES_API_BASE = 'https://fapi.binance.com/fapi/v1';
+import { symbolRegistry } from './symbol-registry.js';
 
 /**
  * 获取现货交易对信息
@@ -19,13 +14,8 @@ async function getSpotTradingPairs(): Promise<string[]> {
   try {
     logger.debug('获取现货交易对信息');
     
-    const response = await axios.get(`${BINANCE_API_BASE}/exchangeInfo`, {
-      timeout: 10000
-    });
-
-    const symbols = response.data.symbols
-      .filter((symbol: any) => symbol.status === 'TRADING') // 只获取正在交易的
-      .map((symbol: any) => symbol.symbol);
+    await symbolRegistry.ensureLoaded();
+    const symbols = symbolRegistry.getSymbols('spot');
 
     logger.debug('现货交易对信息获取成功', { 
       totalSymbols: symbols.length 
@@ -40,7 +30,7 @@ async function getSpotTradingPairs(): Promise<string[]> {
     
     throw new TradingAnalysisError(
       '获取现货交易对信息失败',
-      'BINANCE_API_ERROR',
+      'MARKET_DATA_ERROR',
       { error: error instanceof Error ? error.message : String(error) }
     );
   }
@@ -53,13 +43,8 @@ async function getFuturesTradingPairs(): Promise<string[]> {
   try {
     logger.debug('获取合约交易对信息');
     
-    const response = await axios.get(`${BINANCE_FUTURES_API_BASE}/exchangeInfo`, {
-      timeout: 10000
-    });
-
-    const symbols = response.data.symbols
-      .filter((symbol: any) => symbol.status === 'TRADING') // 只获取正在交易的
-      .map((symbol: any) => symbol.symbol);
+    await symbolRegistry.ensureLoaded();
+    const symbols = symbolRegistry.getSymbols('futures');
 
     logger.debug('合约交易对信息获取成功', { 
       totalSymbols: symbols.length 
@@ -74,14 +59,14 @@ async function getFuturesTradingPairs(): Promise<string[]> {
     
     throw new TradingAnalysisError(
       '获取合约交易对信息失败',
-      'BINANCE_FUTURES_API_ERROR',
+      'MARKET_DATA_ERROR',
       { error: error instanceof Error ? error.message : String(error) }
     );
   }
 }
 
 /**
- * 获取所有币安交易对信息（现货+合约）
+ * 获取所有数据源的交易对信息（现货+合约）
  */
 export async function getAllTradingPairs(): Promise<string[]> {
   try {
@@ -111,7 +96,7 @@ export async function getAllTradingPairs(): Promise<string[]> {
     
     throw new TradingAnalysisError(
       '获取所有交易对信息失败',
-      'BINANCE_API_ERROR',
+      'MARKET_DATA_ERROR',
       { error: error instanceof Error ? error.message : String(error) }
     );
   }
@@ -147,7 +132,7 @@ export async function getEnhancedTradingPairs(): Promise<{spot: string[], future
     
     throw new TradingAnalysisError(
       '获取增强交易对信息失败',
-      'BINANCE_API_ERROR',
+      'MARKET_DATA_ERROR',
       { error: error instanceof Error ? error.message : String(error) }
     );
   }
@@ -158,22 +143,10 @@ export async function getEnhancedTradingPairs(): Promise<{spot: string[], future
  */
 export async function detectTradingPairType(symbol: string): Promise<'spot' | 'futures' | null> {
   try {
-    const symbolUpper = symbol.toUpperCase();
-    const { spot, futures } = await getEnhancedTradingPairs();
-    
-    const isSpot = spot.includes(symbolUpper);
-    const isFutures = futures.includes(symbolUpper);
-    
-    if (isSpot && isFutures) {
-      // 如果同时存在，优先返回现货
-      return 'spot';
-    } else if (isSpot) {
-      return 'spot';
-    } else if (isFutures) {
-      return 'futures';
-    } else {
-      return null;
-    }
+    await symbolRegistry.ensureLoaded();
+    
+    // 如果同时存在，优先返回现货
+    return symbolRegistry.resolve(symbol, 'spot')?.tradingPairType ?? null;
     
   } catch (error) {
     logger.error('检测交易对类型失败', {
@@ -21,6 +21,12 @@ export interface TelegramChat {
   last_name?: string;
 }
 
+// Telegram推送的更新（只校验 update_id，其余字段交给机器人处理）
+export interface TelegramUpdate {
+  update_id: number;
+  [key: string]: unknown;
+}
+
 export interface TelegramMessage {
   message_id: number;
   from?: TelegramUser;
@@ -30,9 +36,43 @@ export interface TelegramMessage {
   [key: string]: any; // 其他可能的字段
 }
 
+export interface TelegramInlineKeyboardButton {
+  text: string;
+  callback_data: string;
+}
+
+export interface TelegramInlineKeyboardMarkup {
+  inline_keyboard: TelegramInlineKeyboardButton[][];
+}
+
+// 用户点击内联键盘按钮产生的回调
+export interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  message?: TelegramMessage;
+  data?: string;
+}
+
 // 交易对类型
 export type TradingPairType = 'spot' | 'futures';
 
+// 行情数据来源交易所
+export type ExchangeId = 'binance' | 'okx' | 'bybit';
+
+// 交易对及其类型
+export interface TradingPairInfo {
+  symbol: string;
+  tradingPairType: TradingPairType;
+}
+
+/**
+ * 交易对的识别途径：
+ * alias 别名词典，ticker 消息中的币种代码，fuzzy 注册表模糊匹配，
+ * context 沿用上一轮对话，ai 第一步AI识别，ai_context 带交易对列表的二次AI识别，
+ * feedback 用户反馈"币种不对"后手动选择
+ */
+export type ResolutionPath = 'alias' | 'ticker' | 'fuzzy' | 'context' | 'ai' | 'ai_context' | 'feedback';
+
 // 消息解析结果
 export interface MessageAnalysisResult {
   /** 是否为交易分析请求 */
@@ -47,6 +87,16 @@ export interface MessageAnalysisResult {
   hasAIError?: boolean;
   /** 错误信息（如果有的话） */
   errorMessage?: string;
+  /** 对比分析时识别到的全部交易对（按提及顺序，第一个与 tradingPair 相同） */
+  tradingPairs?: TradingPairInfo[];
+  /** 交易对数量超过对比上限时被截断 */
+  comparisonTruncated?: boolean;
+  /** 交易对是否继承自上一轮对话 */
+  inheritedFromContext?: boolean;
+  /** 是否为短线进出场类问题，需要附加盘口和近期成交数据 */
+  needsOrderBook?: boolean;
+  /** 交易对的识别途径 */
+  resolvedBy?: ResolutionPath;
 }
 
 // K线数据结构
@@ -69,6 +119,8 @@ export interface KlineData {
   openTimeFormatted?: string;
   /** 格式化的收盘时间（本地时区） */
   closeTimeFormatted?: string;
+  /** 数据来源交易所 */
+  exchange: ExchangeId;
 }
 
 // 多时间框架K线数据
@@ -84,6 +136,609 @@ export interface TimeframeKlineData {
 // 时间框架类型
 export type TimeframeType = '15m' | '1h' | '4h' | '1d' | '1w' | '1M';
 
+// 交易对详细信息（来自交易所的交易规则接口）
+export interface SymbolInfo {
+  /** 交易对（规范写法，如 BTCUSDT） */
+  symbol: string;
+  exchange: ExchangeId;
+  tradingPairType: TradingPairType;
+  /** 基础币种，如 BTC */
+  baseAsset: string;
+  /** 计价币种，如 USDT */
+  quoteAsset: string;
+  /** 交易所原始状态，如 TRADING、live、Trading */
+  status: string;
+  /** 是否正在交易 */
+  trading: boolean;
+  /** 价格最小变动单位 */
+  tickSize: number | null;
+  /** 数量最小变动单位 */
+  stepSize: number | null;
+  /** 最小下单数量 */
+  minQty: number | null;
+  /** 最小下单金额 */
+  minNotional: number | null;
+  /** 上线时间（毫秒时间戳，交易所未提供时为 null） */
+  listedAt: number | null;
+  /** 合约类型，如 PERPETUAL、CURRENT_QUARTER（现货为 null） */
+  contractType: string | null;
+}
+
+/**
+ * 行情数据提供者（交易所适配器）
+ * 交易对统一使用币安风格的规范写法（如 BTCUSDT），由各实现自行转换为交易所格式
+ */
+export interface MarketDataProvider {
+  /** 交易所标识 */
+  readonly id: ExchangeId;
+  /** 展示名称 */
+  readonly displayName: string;
+  /** 获取单个时间框架的K线数据（按时间升序） */
+  getKlines(symbol: string, interval: TimeframeType, tradingPairType: TradingPairType, limit: number): Promise<KlineData[]>;
+  /** 获取全部交易对的详细信息（含已暂停交易的） */
+  getSymbolInfos(tradingPairType: TradingPairType): Promise<SymbolInfo[]>;
+  /** 验证交易对是否存在，请求失败时返回 false */
+  validateSymbol(symbol: string, tradingPairType: TradingPairType): Promise<boolean>;
+  /** 获取最新成交价，结果只包含该交易所存在的交易对 */
+  getTickerPrices(symbols: string[], tradingPairType: TradingPairType): Promise<Map<string, number>>;
+}
+
+// 单个时间框架的技术指标快照（取最新一根K线的指标值，数据不足时为 null）
+export interface IndicatorSnapshot {
+  /** 参与计算的K线数量 */
+  candleCount: number;
+  /** 最新收盘价 */
+  close: number;
+  sma20: number | null;
+  sma50: number | null;
+  ema12: number | null;
+  ema26: number | null;
+  rsi14: number | null;
+  macd: { macd: number; signal: number; histogram: number } | null;
+  bollinger: { upper: number; middle: number; lower: number; bandwidth: number } | null;
+  atr14: number | null;
+  stochastic: { k: number; d: number } | null;
+  obv: number | null;
+  /** OBV相对20根K线前的变化 */
+  obvChange20: number | null;
+  /** 以数据窗口起点为锚点的VWAP */
+  vwap: number | null;
+  adx: { adx: number; plusDI: number; minusDI: number } | null;
+}
+
+// 多时间框架技术指标
+export type TimeframeIndicators = Partial<Record<TimeframeType, IndicatorSnapshot>>;
+
+// 合约市场数据：资金费率记录
+export interface FundingRateRecord {
+  /** 结算时间（UTC ISO字符串格式） */
+  fundingTime: string;
+  fundingRate: number;
+}
+
+// 合约市场数据：持仓量历史
+export interface OpenInterestRecord {
+  timestamp: string;
+  /** 持仓量（币） */
+  openInterest: number;
+  /** 持仓价值（USDT） */
+  openInterestValue: number;
+}
+
+// 合约市场数据：多空比历史
+export interface LongShortRatioRecord {
+  timestamp: string;
+  longShortRatio: number;
+  /** 多头占比（0-1） */
+  longAccount: number;
+  /** 空头占比（0-1） */
+  shortAccount: number;
+}
+
+// 合约市场数据：主动买卖量历史
+export interface TakerVolumeRecord {
+  timestamp: string;
+  buySellRatio: number;
+  buyVolume: number;
+  sellVolume: number;
+}
+
+// 合约市场数据：标记价格与指数价格
+export interface PremiumIndexSnapshot {
+  markPrice: number;
+  indexPrice: number;
+  /** 最近一次（预测）资金费率 */
+  lastFundingRate: number;
+  nextFundingTime: string;
+}
+
+// 合约市场数据汇总（单个接口不可用时对应字段为空，并记录在 unavailable 中）
+export interface FuturesMarketData {
+  symbol: string;
+  /** 持仓量、多空比、主动买卖量的统计周期 */
+  period: string;
+  premiumIndex: PremiumIndexSnapshot | null;
+  fundingRates: FundingRateRecord[];
+  openInterest: OpenInterestRecord[];
+  /** 大户持仓多空比 */
+  topPositionRatio: LongShortRatioRecord[];
+  /** 大户账户多空比 */
+  topAccountRatio: LongShortRatioRecord[];
+  takerVolume: TakerVolumeRecord[];
+  /** 获取失败的数据项名称 */
+  unavailable: string[];
+}
+
+// 盘口价格区间（按价格分桶聚合后的挂单）
+export interface OrderBookBucket {
+  /** 区间起始价格 */
+  price: number;
+  quantity: number;
+  /** 挂单金额（计价货币） */
+  notional: number;
+}
+
+// 盘口大额挂单墙
+export interface OrderBookWall {
+  side: 'bid' | 'ask';
+  price: number;
+  quantity: number;
+  notional: number;
+  /** 距离中间价的百分比 */
+  distancePercent: number;
+  /** 相对同侧区间挂单金额中位数的倍数 */
+  multiple: number;
+}
+
+// 中间价附近指定范围内的买卖盘力量对比
+export interface OrderBookImbalance {
+  rangePercent: number;
+  bidNotional: number;
+  askNotional: number;
+  /** 买盘金额 / 卖盘金额 */
+  ratio: number;
+}
+
+// 盘口深度摘要
+export interface OrderBookSummary {
+  midPrice: number;
+  spreadPercent: number;
+  bucketSize: number;
+  /** 买盘区间（由近到远） */
+  bidBuckets: OrderBookBucket[];
+  /** 卖盘区间（由近到远） */
+  askBuckets: OrderBookBucket[];
+  walls: OrderBookWall[];
+  imbalance: OrderBookImbalance[];
+  /** 盘口数据覆盖的价格范围（距中间价百分比） */
+  bidDepthPercent: number;
+  askDepthPercent: number;
+}
+
+// 近期大额成交
+export interface LargeTrade {
+  time: string;
+  price: number;
+  quantity: number;
+  notional: number;
+  /** 主动成交方向 */
+  side: 'buy' | 'sell';
+}
+
+// 近期成交摘要（基于归集成交）
+export interface TradeFlowSummary {
+  tradeCount: number;
+  fromTime: string;
+  toTime: string;
+  buyNotional: number;
+  sellNotional: number;
+  /** 最近四分之一时间窗口内的主动买卖金额 */
+  recentBuyNotional: number;
+  recentSellNotional: number;
+  vwap: number;
+  largeTradeThreshold: number;
+  largeTrades: LargeTrade[];
+}
+
+// 盘口与成交快照（单项获取失败时为 null，并记录在 unavailable 中）
+export interface MarketDepthSnapshot {
+  symbol: string;
+  tradingPairType: TradingPairType;
+  orderBook: OrderBookSummary | null;
+  trades: TradeFlowSummary | null;
+  unavailable: string[];
+}
+
+// 交易计划方向：long 做多，short 做空，neutral 观望
+export type TradeDirection = 'long' | 'short' | 'neutral';
+
+// 结构化交易计划（由AI按JSON Schema输出并经过校验）
+export interface TradeSetup {
+  direction: TradeDirection;
+  /** 置信度（0-100） */
+  confidence: number;
+  /** 计划依据的主要时间框架 */
+  timeframe: TimeframeType;
+  /** 入场区间，观望时为 null */
+  entryZone: { low: number; high: number } | null;
+  /** 止损价，观望时为 null */
+  stopLoss: number | null;
+  /** 止盈目标，按距离入场区间由近到远排列 */
+  takeProfits: number[];
+  /** 计划失效条件 */
+  invalidation: string;
+  /** 一句话理由 */
+  rationale: string;
+}
+
+// 交易计划的事后评估结果：pending 待评估，target_hit 触及止盈，stop_hit 触及止损，
+// expired 已入场但评估期内止盈止损都未触及，not_triggered 评估期内价格未进入入场区间，
+// neutral 观望计划不参与评估，unavailable 币安没有该交易对无法评估
+export type TradeOutcome = 'pending' | 'target_hit' | 'stop_hit' | 'expired' | 'not_triggered' | 'neutral' | 'unavailable';
+
+// 已保存的交易计划（关联审计日志和生成分析时使用的提示词版本）
+export interface StoredTradeSetup extends TradeSetup {
+  id: number;
+  auditLogId: number | null;
+  promptConfigId: number | null;
+  symbol: string;
+  tradingPairType: TradingPairType;
+  exchange: ExchangeId | null;
+  /** 生成计划时的最新价格 */
+  referencePrice: number;
+  outcome: TradeOutcome;
+  /** 评估期内触及的止盈目标数量 */
+  targetsHit: number;
+  /** 以入场区间中点和止损距离计算的R倍数，未入场时为 null */
+  rMultiple: number | null;
+  /** 最近一次评估时间 */
+  evaluatedAt: string | null;
+  createdAt: string;
+}
+
+// 交易计划准确率统计（命中率 = 触及止盈数 / 已入场数）
+export interface AccuracyStats {
+  total: number;
+  pending: number;
+  /** 已入场（触及止盈、触及止损或到期）的计划数 */
+  triggered: number;
+  targetHit: number;
+  stopHit: number;
+  expired: number;
+  notTriggered: number;
+  /** 命中率（百分比），没有已入场计划时为 null */
+  hitRate: number | null;
+  /** 平均R倍数，没有已入场计划时为 null */
+  avgRMultiple: number | null;
+  /** 累计R倍数 */
+  totalRMultiple: number;
+}
+
+// 按提示词版本分组的准确率
+export interface PromptAccuracyStats extends AccuracyStats {
+  promptConfigId: number | null;
+  promptVersion: string | null;
+}
+
+// 按交易对分组的准确率
+export interface SymbolAccuracyStats extends AccuracyStats {
+  symbol: string;
+  tradingPairType: TradingPairType;
+}
+
+// 准确率报表
+export interface AccuracyReport {
+  /** 统计最近多少天生成的计划，为 null 时统计全部 */
+  days: number | null;
+  overall: AccuracyStats;
+  byPromptVersion: PromptAccuracyStats[];
+  bySymbol: SymbolAccuracyStats[];
+}
+
+// 用户对分析回复的反馈类型：有用、没用、太长、币种不对
+export type FeedbackType = 'up' | 'down' | 'too_long' | 'wrong_coin';
+
+// 反馈统计
+export interface FeedbackStats {
+  total: number;
+  up: number;
+  down: number;
+  tooLong: number;
+  wrongCoin: number;
+  /** 好评率（百分比），没有反馈时为 null */
+  positiveRate: number | null;
+}
+
+// 按提示词版本分组的反馈
+export interface PromptFeedbackStats extends FeedbackStats {
+  promptConfigId: number | null;
+  promptVersion: string | null;
+}
+
+// 按交易对分组的反馈
+export interface SymbolFeedbackStats extends FeedbackStats {
+  symbol: string;
+}
+
+// 按AI模型分组的反馈
+export interface ModelFeedbackStats extends FeedbackStats {
+  aiModel: string | null;
+}
+
+// 反馈报表
+export interface FeedbackReport {
+  /** 统计最近多少天的反馈，为 null 时统计全部 */
+  days: number | null;
+  overall: FeedbackStats;
+  byPromptVersion: PromptFeedbackStats[];
+  bySymbol: SymbolFeedbackStats[];
+  byModel: ModelFeedbackStats[];
+}
+
+// 配额的限制对象：用户或群
+export type QuotaScope = 'user' | 'chat';
+
+// 配额限制类型：请求频率（令牌桶）、每日次数、每月次数
+export type QuotaLimitType = 'rate' | 'daily' | 'monthly';
+
+// 配额限制值（0 表示不限制）
+export interface QuotaLimits {
+  rateLimitPerMinute: number;
+  dailyQuota: number;
+  monthlyQuota: number;
+}
+
+// 配额等级（未分配等级的用户和群使用基础配置中的默认限制）
+export interface QuotaTier extends QuotaLimits {
+  name: string;
+  description: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 新增或更新配额等级的参数
+export interface SaveQuotaTierParams extends QuotaLimits {
+  name: string;
+  description?: string | null;
+}
+
+// 用户或群的配额等级分配
+export interface QuotaTierAssignment {
+  scope: QuotaScope;
+  /** Telegram用户ID或群ID */
+  scopeId: number;
+  tier: string;
+  note: string | null;
+  createdAt: string;
+}
+
+// 超出配额时的拒绝信息
+export interface QuotaDenial {
+  scope: QuotaScope;
+  limitType: QuotaLimitType;
+  /** 触发的限制值 */
+  limit: number;
+  /** 可以再次请求的时间（毫秒时间戳） */
+  resetAt: number;
+}
+
+// 用户或群当前的配额使用情况
+export interface QuotaUsage {
+  scope: QuotaScope;
+  scopeId: number;
+  /** 生效的配额等级，default 为基础配置中的默认限制 */
+  tier: string;
+  limits: QuotaLimits;
+  /** 令牌桶当前剩余令牌数，不限制频率时为 null */
+  availableTokens: number | null;
+  dailyUsed: number;
+  monthlyUsed: number;
+  dailyResetAt: number;
+  monthlyResetAt: number;
+}
+
+// AI调用所属的环节：意图识别第一步/第二步、单币种分析、对比分析、追问、交易计划生成
+export type AIUsageStage = 'intent' | 'intent_context' | 'analysis' | 'comparison' | 'follow_up' | 'trade_setup' | 'other';
+
+/**
+ * AI模型价格（美元/百万token，思考token按输出价格计费）
+ */
+export interface AIModelPrice {
+  /** 模型名，也匹配以该名称开头的模型（如 gpt-4o 匹配 gpt-4o-2024-08-06），最长匹配优先 */
+  model: string;
+  inputPricePerMillion: number;
+  outputPricePerMillion: number;
+  updatedAt: string;
+}
+
+/**
+ * 保存AI模型价格参数
+ */
+export interface SaveAIModelPriceParams {
+  model: string;
+  inputPricePerMillion: number;
+  outputPricePerMillion: number;
+}
+
+/**
+ * 单次AI调用的用量记录
+ */
+export interface AIUsageRecord {
+  id: number;
+  /** 关联的审计日志，请求未写入审计日志时为 null */
+  auditLogId: number | null;
+  stage: AIUsageStage;
+  provider: AIProvider;
+  model: string;
+  promptTokens: number;
+  /** 输出token（不含思考token） */
+  completionTokens: number;
+  thinkingTokens: number;
+  /** 费用（美元），模型没有配置价格时为 null */
+  costUsd: number | null;
+  /** 调用日期（配置时区，YYYY-MM-DD） */
+  usageDate: string;
+  createdAt: string;
+}
+
+/**
+ * AI用量汇总
+ */
+export interface AISpendStats {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  thinkingTokens: number;
+  costUsd: number;
+  /** 没有配置价格、未计入费用的调用次数 */
+  unpricedCalls: number;
+}
+
+export type AISpendDimension = 'daily' | 'users' | 'chats' | 'models';
+
+/**
+ * 按维度分组的AI用量（key 为日期、用户ID、群ID或模型名，未关联审计日志的调用 key 为 null）
+ */
+export interface AISpendGroup extends AISpendStats {
+  key: string | null;
+  /** 用户名、群类型或提供商等辅助说明 */
+  label: string | null;
+}
+
+/**
+ * AI用量报表
+ */
+export interface AISpendReport {
+  dimension: AISpendDimension;
+  /** 统计最近多少天（按配置时区的日期） */
+  days: number;
+  overall: AISpendStats;
+  groups: AISpendGroup[];
+  /** 今日花费和每日预算（0 表示未设置预算） */
+  todayCostUsd: number;
+  dailyBudgetUsd: number;
+}
+
+// AI服务商档案适用的调用环节：intent 为意图识别，analysis 为分析、对比和交易计划，all 为全部环节
+export type AIProviderRole = 'all' | 'intent' | 'analysis';
+
+// AI服务商档案（故障转移链中的一个服务商，id 为 0 表示基础配置中的主服务商）
+export interface AIProviderProfile {
+  id: number;
+  name: string;
+  provider: AIProvider;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  role: AIProviderRole;
+  /** 优先级，数值小的先尝试 */
+  priority: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 可在基础配置中单独设置模型的环节：意图识别第一步、带交易对上下文的第二步、分析（含多币种对比）、追问
+export type AIModelStage = 'intent' | 'intent_context' | 'analysis' | 'follow_up';
+
+// 思考模式设置：default 沿用调用方默认值，off 关闭，auto 动态预算，数字为固定的思考预算token数
+export type AIThinkingSetting = 'default' | 'off' | 'auto' | number;
+
+// 单个环节的模型设置（空值表示沿用主服务商和调用方默认值）
+export interface AIStageSettings {
+  /** AI服务商档案名称，为空时使用基础配置中的主服务商 */
+  profile: string;
+  /** 模型名称，为空时使用服务商的模型 */
+  model: string;
+  /** 温度，为 null 时使用调用方默认值 */
+  temperature: number | null;
+  thinking: AIThinkingSetting;
+}
+
+// 故障转移链中的一个服务商（档案或基础配置中的主服务商）
+export type AIProviderTarget = Pick<AIProviderProfile, 'id' | 'name' | 'provider' | 'baseUrl' | 'apiKey' | 'model' | 'role' | 'enabled'>;
+
+// 返回给管理接口的服务商档案（不包含API密钥）
+export type AIProviderProfileView = Omit<AIProviderProfile, 'apiKey'> & { hasApiKey: boolean };
+
+// 新增AI服务商档案的参数
+export interface CreateAIProviderProfileParams {
+  name: string;
+  provider: AIProvider;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  role?: AIProviderRole | undefined;
+  priority?: number | undefined;
+  enabled?: boolean | undefined;
+}
+
+// AI服务商档案更新参数（未提供的字段保持不变，apiKey 为空时保留原密钥）
+export type UpdateAIProviderProfileParams = {
+  [K in keyof CreateAIProviderProfileParams]?: CreateAIProviderProfileParams[K] | undefined;
+};
+
+// 熔断器状态：closed 正常，open 暂时跳过，half_open 冷却结束后允许一次试探请求
+export type AICircuitState = 'closed' | 'open' | 'half_open';
+
+// AI服务商健康状态
+export interface AIProviderHealth {
+  profileId: number;
+  name: string;
+  provider: AIProvider;
+  model: string;
+  role: AIProviderRole;
+  enabled: boolean;
+  state: AICircuitState;
+  consecutiveFailures: number;
+  totalCalls: number;
+  totalFailures: number;
+  lastError: string | null;
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+  /** 熔断结束时间（仅 open 状态） */
+  openUntil: string | null;
+}
+
+// 连接测试结果
+export interface ConnectionTestResult {
+  success: boolean;
+  message: string;
+  /** 请求耗时（毫秒） */
+  latencyMs?: number;
+}
+
+// AI服务商连接测试结果
+export interface AIProviderTestResult extends ConnectionTestResult {
+  profileId: number;
+  name: string;
+  provider: AIProvider;
+  model: string;
+  /** 模型是否可用：调用成功为 true，服务商返回模型不存在为 false，无法判断时为 null */
+  modelAvailable: boolean | null;
+  /** 流式调用结果，耗时为收到首个内容块的时间 */
+  stream: ConnectionTestResult;
+}
+
+// 币安连接测试结果
+export interface BinanceTestResult extends ConnectionTestResult {
+  /** 本机时钟与币安服务器时间的偏差（毫秒，正数表示本机时钟偏快） */
+  clockSkewMs?: number;
+}
+
+// 基础配置连接测试结果（未使用币安行情时不测试币安）
+export interface BasicConfigTestResults {
+  telegram: ConnectionTestResult;
+  aiProviders: AIProviderTestResult[];
+  binance?: BinanceTestResult;
+}
+
+// K线图上标注的关键价位
+export interface ChartLevel {
+  price: number;
+  type: 'support' | 'resistance';
+}
+
 // 日志级别
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
@@ -98,6 +753,19 @@ export interface LogEntry {
 // AI提供商类型
 export type AIProvider = 'openai' | 'gemini' | 'claude';
 
+// Telegram更新接收方式：polling 长轮询，webhook 由Telegram推送到HTTP服务器
+export type TelegramUpdateMode = 'polling' | 'webhook';
+
+// 机器人令牌切换状态：switching 正在等待进行中的分析完成，switched 已切换，failed 切换失败
+export type BotTokenSwitchState = 'idle' | 'switching' | 'switched' | 'failed';
+
+export interface BotTokenSwitchStatus {
+  state: BotTokenSwitchState;
+  startedAt: string | null;
+  finishedAt: string | null;
+  error: string | null;
+}
+
 // 环境变量配置
 export interface Config {
   telegramBotToken: string;
@@ -119,30 +787,287 @@ export interface Config {
   maxConcurrentAnalysis: number;
   /** 是否启用新成员欢迎消息 */
   enableNewMemberWelcome: boolean;
+  /** 每个用户最多可设置的价格提醒数量 */
+  maxAlertsPerUser: number;
+  /** 多轮对话上下文的保留时间（分钟），0 表示不保留 */
+  conversationTtlMinutes: number;
+  /** 单次对比分析最多包含的交易对数量 */
+  maxCompareSymbols: number;
+  /** 分析回复前是否发送K线图 */
+  enableAnalysisChart: boolean;
+  /** 分析完成后是否生成结构化交易计划 */
+  enableTradeSetup: boolean;
+  /** 分析回复是否附带用户反馈按钮 */
+  enableFeedbackButtons: boolean;
+  /** 是否启用请求频率限制和每日/每月配额 */
+  enableQuota: boolean;
+  /** 默认等级用户每分钟最多分析次数（0 表示不限制） */
+  userRateLimitPerMinute: number;
+  /** 默认等级用户每天最多分析次数（0 表示不限制） */
+  userDailyQuota: number;
+  /** 默认等级用户每月最多分析次数（0 表示不限制） */
+  userMonthlyQuota: number;
+  /** 默认等级群每分钟最多分析次数（0 表示不限制） */
+  chatRateLimitPerMinute: number;
+  /** 默认等级群每天最多分析次数（0 表示不限制） */
+  chatDailyQuota: number;
+  /** 默认等级群每月最多分析次数（0 表示不限制） */
+  chatMonthlyQuota: number;
+  /** 并发已满时全局最多排队的分析请求数，0 表示不排队 */
+  maxQueueSize: number;
+  /** 每个聊天最多排队的分析请求数 */
+  maxQueuePerChat: number;
+  /** 分析请求最长排队时间（秒） */
+  queueTimeoutSeconds: number;
+  /** 每日AI花费预算（美元），超出时向管理员聊天发送提醒，0 表示不设置 */
+  dailyBudgetUsd: number;
+  /** 接收预算提醒的聊天ID，0 表示不发送 */
+  budgetAlertChatId: number;
+  /** AI请求遇到网络错误、超时、429或5xx时在同一服务商上的重试次数 */
+  aiMaxRetries: number;
+  /** AI请求重试的初始等待时间（毫秒），按指数退避翻倍 */
+  aiRetryBaseDelayMs: number;
+  /** AI单次请求的超时时间（秒），每次重试重新计时 */
+  aiRequestTimeoutSeconds: number;
+  /** AI服务商连续失败多少次后熔断 */
+  aiCircuitFailureThreshold: number;
+  /** AI服务商熔断后的冷却时间（秒） */
+  aiCircuitCooldownSeconds: number;
+  /** 各环节的模型设置（意图识别、分析、追问可以使用不同的服务商和模型） */
+  aiStageSettings: Record<AIModelStage, AIStageSettings>;
+  /** 行情数据源优先级，前一个交易所没有该交易对或请求失败时依次回退 */
+  marketDataProviders: ExchangeId[];
+  /** Telegram更新接收方式 */
+  telegramMode: TelegramUpdateMode;
+  /** Webhook公网地址（webhook 模式） */
+  telegramWebhookUrl: string;
+  /** Webhook密钥，Telegram 在 X-Telegram-Bot-Api-Secret-Token 请求头中回传 */
+  telegramWebhookSecret: string;
+}
+
+// 配置项名称
+export type ConfigKey = keyof Config;
+
+// 配置变更事件
+export interface ConfigChangeEvent {
+  /** 发生变化的配置项 */
+  changedKeys: ConfigKey[];
+  previous: Config;
+  current: Config;
+}
+
+// 处理配置变更失败的订阅方
+export interface ConfigSubscriberFailure {
+  subscriber: string;
+  error: string;
+}
+
+// 配置重新加载结果
+export interface ConfigReloadResult {
+  config: Config;
+  changedKeys: ConfigKey[];
+  /** 处理变更失败的订阅方（新配置本身已经生效） */
+  failures: ConfigSubscriberFailure[];
 }
 
 // 并发控制相关类型
+/** 排队结果：started 已开始分析（已占用并发名额），其余为未开始的原因 */
+export type AnalysisQueueOutcome = 'started' | 'queue_full' | 'timeout' | 'cancelled';
+
+/**
+ * 排队参数
+ */
+export interface AnalysisQueueOptions {
+  /** 占用的并发名额 */
+  weight?: number;
+  /** 最长排队时间（毫秒），默认使用配置的 queueTimeoutSeconds */
+  timeoutMs?: number;
+  /** 排队位置变化时回调（位置从1开始） */
+  onPositionChange?: (position: number) => void;
+}
+
+/**
+ * 排队凭证
+ */
+export interface AnalysisQueueTicket {
+  id: number;
+  /** 入队时的排队位置，0 表示无需排队（立即开始或队列已满） */
+  position: number;
+  /** 开始分析或放弃排队时完成 */
+  result: Promise<AnalysisQueueOutcome>;
+}
+
+/**
+ * 并发与排队状态
+ */
+export interface ConcurrencyStatus {
+  globalCount: number;
+  maxConcurrent: number;
+  activeGroups: number[];
+  /** 当前排队的请求数 */
+  queueDepth: number;
+  /** 有请求在排队的聊天数 */
+  queuedChats: number;
+  maxQueueSize: number;
+  /** 当前排队最久的请求已等待的时间（毫秒） */
+  oldestWaitMs: number;
+  /** 最近开始的排队请求的平均等待时间（毫秒），没有记录时为 null */
+  averageWaitMs: number | null;
+}
+
 export interface ConcurrencyManager {
   /** 当前全局并发数 */
   globalCount: number;
   /** 每个群的并发状态 */
   groupAnalysis: Map<number, boolean>;
-  /** 检查是否可以开始新的分析 */
-  canStartAnalysis(chatId: number): boolean;
+  /** 检查是否可以开始新的分析（weight 为占用的并发名额，对比分析按交易对数量计算） */
+  canStartAnalysis(chatId: number, weight?: number): boolean;
   /** 开始分析（增加计数） */
-  startAnalysis(chatId: number): void;
+  startAnalysis(chatId: number, weight?: number): void;
   /** 完成分析（减少计数） */
   finishAnalysis(chatId: number): void;
+  /** 调整进行中分析占用的名额，名额不足时返回 false */
+  resizeAnalysis(chatId: number, weight: number): boolean;
+  /** 申请开始分析：有名额时立即开始，否则排队等待（各聊天之间轮流分配名额） */
+  enqueueAnalysis(chatId: number, options?: AnalysisQueueOptions): AnalysisQueueTicket;
+  /** 取消排队中的请求，请求已开始或不存在时返回 false */
+  cancelQueued(ticketId: number): boolean;
+  /** 等待进行中和排队的分析全部结束，超时返回 false */
+  waitForIdle(timeoutMs: number): Promise<boolean>;
   /** 获取当前状态信息 */
-  getStatus(): {
-    globalCount: number;
-    maxConcurrent: number;
-    activeGroups: number[];
-  };
+  getStatus(): ConcurrencyStatus;
+}
+
+// 价格提醒相关类型
+export type PriceAlertConditionType = 'above' | 'below' | 'percent_change' | 'ma_cross';
+export type PriceAlertStatus = 'active' | 'triggered';
+/** 涨跌幅提醒的方向：up 仅上涨，down 仅下跌，both 双向 */
+export type PriceAlertDirection = 'up' | 'down' | 'both';
+
+export interface PriceAlert {
+  id: number;
+  telegramUserId: number;
+  chatId: number;
+  symbol: string;
+  marketType: TradingPairType;
+  conditionType: PriceAlertConditionType;
+  /** above/below 为目标价格，percent_change 为涨跌幅百分比，ma_cross 为均线周期 */
+  targetValue: number;
+  direction?: PriceAlertDirection;
+  /** 均线穿越提醒使用的K线周期 */
+  maInterval?: TimeframeType;
+  /** 创建提醒时的价格（涨跌幅提醒的基准价） */
+  referencePrice?: number;
+  /** 均线穿越提醒中价格相对均线的最近位置 */
+  lastState?: 'above' | 'below';
+  status: PriceAlertStatus;
+  triggeredPrice?: number;
+  triggeredAt?: string;
+  createdAt: string;
+}
+
+// 价格提醒创建参数（不包含自动生成的字段）
+export interface CreatePriceAlertParams {
+  telegramUserId: number;
+  chatId: number;
+  symbol: string;
+  marketType: TradingPairType;
+  conditionType: PriceAlertConditionType;
+  targetValue: number;
+  direction?: PriceAlertDirection;
+  maInterval?: TimeframeType;
+}
+
+// 多轮对话相关类型
+export interface ConversationTurn {
+  /** 用户问题 */
+  question: string;
+  /** 分析时的行情快照摘要 */
+  klineSummary: string;
+  /** 机器人的分析输出 */
+  answer: string;
+}
+
+export interface ConversationContext {
+  chatId: number;
+  tradingPair: string;
+  tradingPairType: TradingPairType;
+  /** 按时间顺序排列的历史轮次 */
+  turns: ConversationTurn[];
+  /** 最近一次更新的时间戳 */
+  updatedAt: number;
 }
 
+// 定时分析任务相关类型
+export interface AnalysisSchedule {
+  id: number;
+  /** 任务名称，推送时作为标题 */
+  name: string;
+  /** 推送目标聊天ID */
+  chatId: number;
+  /** 5段式cron表达式（分 时 日 月 周），按配置的时区解析 */
+  cronExpression: string;
+  symbols: string[];
+  marketType: TradingPairType;
+  timeframes: TimeframeType[];
+  /** 指定的提示词版本ID，为空时使用当前启用版本 */
+  promptConfigId?: number;
+  /** 作为分析问题传给AI的文本 */
+  question: string;
+  enabled: boolean;
+  createdBy?: number;
+  lastRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 定时分析任务创建参数
+export interface CreateAnalysisScheduleParams {
+  name: string;
+  chatId: number;
+  cronExpression: string;
+  symbols: string[];
+  marketType?: TradingPairType | undefined;
+  timeframes?: TimeframeType[] | undefined;
+  promptConfigId?: number | null | undefined;
+  question?: string | undefined;
+  enabled?: boolean | undefined;
+  createdBy?: number | undefined;
+}
+
+// 定时分析任务更新参数（未提供的字段保持不变）
+export type UpdateAnalysisScheduleParams = {
+  [K in keyof CreateAnalysisScheduleParams]?: CreateAnalysisScheduleParams[K] | undefined;
+};
+
+// 币种别名（如 大饼 → BTCUSDT）
+export interface SymbolAlias {
+  id: number;
+  /** 别名，匹配时不区分大小写 */
+  alias: string;
+  symbol: string;
+  /** 固定的交易对类型，为空时按消息内容判断（提到合约则为合约，否则为现货） */
+  marketType: TradingPairType | null;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 币种别名创建参数
+export interface CreateSymbolAliasParams {
+  alias: string;
+  symbol: string;
+  marketType?: TradingPairType | null | undefined;
+  enabled?: boolean | undefined;
+}
+
+// 币种别名更新参数（未提供的字段保持不变）
+export type UpdateSymbolAliasParams = {
+  [K in keyof CreateSymbolAliasParams]?: CreateSymbolAliasParams[K] | undefined;
+};
+
 // 审计日志相关类型
-export type AuditSourceType = 'private_chat' | 'group_mention' | 'group_reply';
+export type AuditSourceType = 'private_chat' | 'group_mention' | 'group_reply' | 'scheduled';
 export type AuditResultStatus = 'success' | 'currency_not_identified' | 'ai_error' | 'other_error';
 
 export interface AuditLog {
@@ -161,6 +1086,14 @@ export interface AuditLog {
   errorMessage?: string;
   responseLength?: number;
   processingTimeMs?: number;
+  /** 交易对的识别途径 */
+  resolutionPath?: ResolutionPath;
+  /** 分析使用的提示词版本 */
+  promptConfigId?: number;
+  /** 分配提示词版本的A/B实验 */
+  experimentId?: number;
+  /** 分析使用的AI模型 */
+  aiModel?: string;
   createdAt?: string;
 }
 
@@ -179,6 +1112,59 @@ export interface CreateAuditLogParams {
   errorMessage?: string;
   responseLength?: number;
   processingTimeMs?: number;
+  resolutionPath?: ResolutionPath | undefined;
+  promptConfigId?: number | undefined;
+  experimentId?: number | undefined;
+  aiModel?: string | undefined;
+}
+
+// 提示词A/B实验状态
+export type PromptExperimentStatus = 'running' | 'stopped';
+
+// 提示词A/B实验中的一个版本及其流量占比
+export interface PromptExperimentVariant {
+  promptConfigId: number;
+  /** 流量百分比（1-100），所有版本合计为100 */
+  trafficPercent: number;
+}
+
+// 提示词A/B实验（同一时间只能运行一个）
+export interface PromptExperiment {
+  id: number;
+  name: string;
+  status: PromptExperimentStatus;
+  variants: PromptExperimentVariant[];
+  /** 推广为正式版本的提示词，未推广时为 null */
+  winnerPromptConfigId: number | null;
+  startedAt: string;
+  endedAt: string | null;
+}
+
+// 提示词A/B实验创建参数
+export interface CreatePromptExperimentParams {
+  name: string;
+  variants: PromptExperimentVariant[];
+}
+
+// 实验中单个版本的效果统计
+export interface PromptVariantStats extends PromptExperimentVariant {
+  promptVersion: string | null;
+  totalCalls: number;
+  uniqueUsers: number;
+  /** 成功率（百分比） */
+  successRate: number;
+  /** 成功请求的平均处理耗时（毫秒） */
+  avgProcessingTimeMs: number | null;
+  /** 成功请求的平均回复长度 */
+  avgResponseLength: number | null;
+  /** 交易计划命中率（百分比），没有已入场的计划时为 null */
+  tradeSetupHitRate: number | null;
+  /** 交易计划平均R倍数 */
+  tradeSetupAvgRMultiple: number | null;
+  /** 收到的用户反馈数 */
+  feedbackCount: number;
+  /** 用户反馈好评率（百分比），没有反馈时为 null */
+  feedbackPositiveRate: number | null;
 }
 
 // API错误类型
@@ -0,0 +1,49 @@
+/**
+ * AI用量费用计算测试：模型价格完全匹配优先，其次为最长的前缀匹配
+ */
+
+import './setup.js';
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { aiUsageTracker } from '../src/ai-usage.js';
+import { databaseManager } from '../src/config/database-manager.js';
+
+/**
+ * 记录一次只有输入token的调用（100万输入token，费用即该模型的输入价格），返回计算出的费用
+ */
+function recordAndGetCost(model: string): number | null {
+  aiUsageTracker.record({
+    stage: 'analysis',
+    provider: 'openai',
+    model,
+    promptTokens: 1_000_000,
+    completionTokens: 0,
+    thinkingTokens: 0
+  });
+  const row = databaseManager.getDatabase()
+    .prepare('SELECT cost_usd FROM ai_usage WHERE model = ? ORDER BY id DESC LIMIT 1')
+    .get(model) as { cost_usd: number | null };
+  return row.cost_usd;
+}
+
+describe('AI模型价格查找', () => {
+  before(() => {
+    aiUsageTracker.savePrice({ model: 'test-model', inputPricePerMillion: 1, outputPricePerMillion: 1 });
+    aiUsageTracker.savePrice({ model: 'test-model-mini', inputPricePerMillion: 2, outputPricePerMillion: 2 });
+    aiUsageTracker.savePrice({ model: 'test-model-mini-2025', inputPricePerMillion: 3, outputPricePerMillion: 3 });
+  });
+
+  it('完全匹配的价格优先于前缀匹配', () => {
+    assert.equal(recordAndGetCost('test-model-mini'), 2);
+    assert.equal(recordAndGetCost('test-model-mini-2025'), 3);
+  });
+
+  it('没有完全匹配时使用最长的前缀', () => {
+    assert.equal(recordAndGetCost('test-model-mini-2024'), 2);
+    assert.equal(recordAndGetCost('test-model-large'), 1);
+  });
+
+  it('没有匹配的价格时不计算费用', () => {
+    assert.equal(recordAndGetCost('other-model'), null);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * 基础配置解析测试：小数类型配置项（预算、温度）按小数读取，旧数据库中记录的过时类型不影响解析
+ */
+
+import './setup.js';
+import { afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { config, reloadConfig } from '../src/config.js';
+import { basicConfigManager } from '../src/config/basic-config-manager.js';
+import { databaseManager } from '../src/config/database-manager.js';
+import type { BasicConfig } from '../src/config/basic-config-manager.js';
+
+describe('基础配置 decimal 类型', () => {
+  let original: BasicConfig;
+
+  before(async () => {
+    original = await basicConfigManager.getConfig();
+  });
+
+  afterEach(async () => {
+    await basicConfigManager.saveConfig({
+      dailyBudgetUsd: original.dailyBudgetUsd,
+      maxCompareSymbols: original.maxCompareSymbols
+    });
+    await reloadConfig();
+  });
+
+  it('小数配置项保存后按小数读取并通过重新加载校验', async () => {
+    await basicConfigManager.saveConfig({ dailyBudgetUsd: 12.5 });
+
+    const basicConfig = await basicConfigManager.getConfig();
+    assert.equal(basicConfig.dailyBudgetUsd, 12.5);
+
+    await reloadConfig();
+    assert.equal(config.dailyBudgetUsd, 12.5);
+  });
+
+  it('数据库中记录的旧类型为 number 时仍按当前定义的 decimal 解析', async () => {
+    databaseManager.getDatabase()
+      .prepare(`UPDATE basic_configs SET config_type = 'number', config_value = '0.75' WHERE config_key = 'dailyBudgetUsd'`)
+      .run();
+
+    const basicConfig = await basicConfigManager.getConfig();
+    assert.equal(basicConfig.dailyBudgetUsd, 0.75);
+  });
+
+  it('整数配置项填写小数时不截断，由重新加载校验拒绝', async () => {
+    await basicConfigManager.saveConfig({ maxCompareSymbols: 2.5 });
+
+    const basicConfig = await basicConfigManager.getConfig();
+    assert.equal(basicConfig.maxCompareSymbols, 2.5);
+    await assert.rejects(reloadConfig());
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Claude Messages API 调用测试：用本地模拟服务器验证非流式响应、SSE 流式响应和流中的错误事件
+ */
+
+import './setup.js';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { config } from '../src/config.js';
+import { createChatCompletion, createStreamingChatCompletion } from '../src/ai-client.js';
+import { TradingAnalysisError } from '../src/types.js';
+
+interface CapturedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+// 每个请求依次取出一个响应处理函数，取完后沿用最后一个
+let handlers: Array<(res: http.ServerResponse) => void> = [];
+const requests: CapturedRequest[] = [];
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => body += chunk);
+  req.on('end', () => {
+    requests.push({ url: req.url!, headers: req.headers, body: JSON.parse(body) });
+    const handler = handlers.length > 1 ? handlers.shift()! : handlers[0]!;
+    handler(res);
+  });
+});
+
+function sendJson(data: unknown) {
+  return (res: http.ServerResponse) => {
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(data));
+  };
+}
+
+function sendEvents(events: any[]) {
+  return (res: http.ServerResponse) => {
+    res.writeHead(200, { 'content-type': 'text/event-stream' });
+    for (const event of events) {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    }
+    res.end();
+  };
+}
+
+const textDelta = (text: string) => ({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } });
+
+async function collect(stream: AsyncGenerator<{ content: string; finished: boolean; usage?: unknown }>) {
+  let content = '';
+  let usage: unknown;
+  for await (const chunk of stream) {
+    content += chunk.content;
+    if (chunk.finished) {
+      usage = chunk.usage;
+    }
+  }
+  return { content, usage };
+}
+
+async function streamError(): Promise<TradingAnalysisError> {
+  const error = await collect(await createStreamingChatCompletion([{ role: 'user', content: 'hi' }])).then(
+    () => assert.fail('流式调用应当失败'),
+    (error: unknown) => error
+  );
+  assert.ok(error instanceof TradingAnalysisError);
+  return error;
+}
+
+describe('Claude', () => {
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    Object.assign(config, {
+      aiProvider: 'claude',
+      openaiBaseUrl: `http://127.0.0.1:${port}/v1`,
+      openaiApiKey: 'test-key',
+      openaiModel: 'claude-sonnet-4-5',
+      aiMaxRetries: 0,
+      aiRetryBaseDelayMs: 0,
+      aiCircuitFailureThreshold: 100
+    });
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it('非流式调用分离系统提示词，合并思考和文本块', async () => {
+    handlers = [sendJson({
+      content: [
+        { type: 'thinking', thinking: '先看趋势' },
+        { type: 'text', text: 'BTC 偏多' }
+      ],
+      usage: { input_tokens: 12, output_tokens: 5 }
+    })];
+
+    const result = await createChatCompletion([
+      { role: 'system', content: '你是分析师' },
+      { role: 'user', content: '分析BTC' },
+      { role: 'user', content: '简短一些' }
+    ]);
+
+    assert.equal(result.content, 'BTC 偏多');
+    assert.equal(result.thoughts, '先看趋势');
+    assert.equal(result.usage?.prompt_tokens, 12);
+    assert.equal(result.usage?.completion_tokens, 5);
+
+    const [request] = requests;
+    assert.equal(request!.url, '/v1/messages');
+    assert.equal(request!.headers['x-api-key'], 'test-key');
+    assert.equal(request!.headers['anthropic-version'], '2023-06-01');
+    assert.equal(request!.body.system, '你是分析师');
+    assert.deepEqual(request!.body.messages, [{ role: 'user', content: '分析BTC\n\n简短一些' }]);
+    assert.equal(request!.body.stream, false);
+  });
+
+  it('结构化输出使用工具参数作为内容', async () => {
+    handlers = [sendJson({
+      content: [{ type: 'tool_use', name: 'intent', input: { symbol: 'BTC' } }],
+      usage: { input_tokens: 1, output_tokens: 1 }
+    })];
+
+    const result = await createChatCompletion([{ role: 'user', content: 'BTC' }], {
+      responseSchema: { name: 'intent', description: '意图', schema: { type: 'object' } }
+    });
+
+    assert.deepEqual(JSON.parse(result.content), { symbol: 'BTC' });
+    assert.deepEqual(requests[0]!.body.tool_choice, { type: 'tool', name: 'intent' });
+  });
+
+  it('流式调用拼接文本增量并在 message_stop 时返回用量', async () => {
+    handlers = [sendEvents([
+      { type: 'message_start', message: { usage: { input_tokens: 20, output_tokens: 1 } } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: '思考' } },
+      textDelta('BTC '),
+      textDelta('偏多'),
+      { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 8 } },
+      { type: 'message_stop' }
+    ])];
+
+    const { content, usage } = await collect(await createStreamingChatCompletion([{ role: 'user', content: 'hi' }]));
+
+    assert.equal(content, 'BTC 偏多');
+    assert.deepEqual(
+      [(usage as any).prompt_tokens, (usage as any).completion_tokens],
+      [20, 8]
+    );
+    assert.equal(requests[0]!.body.stream, true);
+  });
+
+  it('流中的 overloaded_error 和 api_error 带上对应状态码', async () => {
+    handlers = [sendEvents([{ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }])];
+    assert.equal((await streamError()).details?.status, 529);
+
+    handlers = [sendEvents([{ type: 'error', error: { type: 'api_error', message: 'Internal' } }])];
+    assert.equal((await streamError()).details?.status, 500);
+  });
+
+  it('流在 message_stop 之前中断时报错', async () => {
+    handlers = [sendEvents([{ type: 'message_start', message: { usage: { input_tokens: 1 } } }, textDelta('BTC')])];
+    assert.equal((await streamError()).details?.status, 502);
+  });
+
+  it('流中的过载错误在未输出内容时重试', async () => {
+    config.aiMaxRetries = 1;
+    handlers = [
+      sendEvents([{ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }]),
+      sendEvents([textDelta('ok'), { type: 'message_stop' }])
+    ];
+
+    const { content } = await collect(await createStreamingChatCompletion([{ role: 'user', content: 'hi' }]));
+
+    assert.equal(content, 'ok');
+    assert.equal(requests.length, 2);
+    config.aiMaxRetries = 0;
+  });
+});
@@ -0,0 +1,15 @@
+/**
+ * 测试公共初始化：切换到临时工作目录（数据库和日志都写在工作目录下），加载配置
+ * 需要在导入其他项目模块之前导入
+ */
+
+import { mkdirSync, mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+process.chdir(mkdtempSync(join(tmpdir(), 'crypto-bot-test-')));
+// 日志模块异步创建日志目录，提前创建避免最早的几条日志写入失败
+mkdirSync('logs');
+
+const { initializeSyncConfig } = await import('../src/config.js');
+await initializeSyncConfig();
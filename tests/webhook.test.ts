@@ -0,0 +1,98 @@
+/**
+ * Telegram Webhook 路由测试：向本地 HTTP 服务器发送模拟更新，验证密钥校验、update_id 去重和未就绪时的 503
+ */
+
+import './setup.js';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { config } from '../src/config.js';
+import { handleWebhookRoutes } from '../src/routes/webhook-routes.js';
+import { TELEGRAM_SECRET_HEADER, TELEGRAM_WEBHOOK_PATH, webhookUpdateDeduplicator } from '../src/telegram-webhook.js';
+
+const SECRET = 'test-webhook-secret';
+
+const server = http.createServer(async (req, res) => {
+  const { pathname } = new URL(req.url!, 'http://localhost');
+  if (!(await handleWebhookRoutes(req, res, pathname))) {
+    res.writeHead(404);
+    res.end();
+  }
+});
+
+let baseUrl = '';
+
+function postUpdate(body: unknown, secret: string | null = SECRET, method = 'POST'): Promise<Response> {
+  return fetch(`${baseUrl}${TELEGRAM_WEBHOOK_PATH}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(secret !== null && { [TELEGRAM_SECRET_HEADER]: secret })
+    },
+    ...(method === 'POST' && { body: typeof body === 'string' ? body : JSON.stringify(body) })
+  });
+}
+
+const update = (updateId: number) => ({
+  update_id: updateId,
+  message: { message_id: 1, date: 0, chat: { id: 1, type: 'private' }, text: 'BTC' }
+});
+
+describe('Telegram Webhook路由', () => {
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  beforeEach(() => {
+    Object.assign(config, { telegramMode: 'webhook', telegramWebhookSecret: SECRET });
+    webhookUpdateDeduplicator.clear();
+  });
+
+  it('长轮询模式下返回 404', async () => {
+    config.telegramMode = 'polling';
+    assert.equal((await postUpdate(update(1))).status, 404);
+  });
+
+  it('只接受 POST', async () => {
+    assert.equal((await postUpdate(null, SECRET, 'GET')).status, 405);
+  });
+
+  it('缺少或错误的密钥返回 401', async () => {
+    assert.equal((await postUpdate(update(1), null)).status, 401);
+    assert.equal((await postUpdate(update(1), 'wrong-secret')).status, 401);
+    assert.equal((await postUpdate(update(1), `${SECRET}x`)).status, 401);
+  });
+
+  it('请求体不是有效更新时返回 400', async () => {
+    assert.equal((await postUpdate('not json')).status, 400);
+    assert.equal((await postUpdate({ message: {} })).status, 400);
+  });
+
+  it('机器人未就绪时返回 503，且不记录为已处理', async () => {
+    assert.equal((await postUpdate(update(100))).status, 503);
+    assert.equal(webhookUpdateDeduplicator.isDuplicate(100), false);
+
+    // Telegram 重发同一更新时仍然按未就绪处理，而不是当作重复更新丢弃
+    assert.equal((await postUpdate(update(100))).status, 503);
+  });
+
+  it('已处理过的 update_id 直接返回成功', async () => {
+    webhookUpdateDeduplicator.markProcessed(200);
+
+    const response = await postUpdate(update(200));
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { ok: true, duplicate: true });
+  });
+
+  it('密钥校验先于去重', async () => {
+    webhookUpdateDeduplicator.markProcessed(300);
+    assert.equal((await postUpdate(update(300), 'wrong-secret')).status, 401);
+  });
+});